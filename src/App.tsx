@@ -1,21 +1,51 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useKV } from '@github/spark/hooks'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
-import { BookOpen, Download, Search, FileText, GraduationCap, Plus, FileWord, File } from '@phosphor-icons/react'
+import { BookOpen, Download, Search, FileText, GraduationCap, Plus, FileWord, File, Globe, MarkdownLogo } from '@phosphor-icons/react'
 import { toast } from 'sonner'
 import { CombinedCitationForm } from '@/components/CombinedCitationForm'
 import { UrlCitationForm } from '@/components/UrlCitationForm'
 import { Bibliography } from '@/components/Bibliography'
 import { CitationStyleConverter } from '@/components/CitationStyleConverter'
+import { CslStyleManager } from '@/components/CslStyleManager'
+import { ImportDialog } from '@/components/ImportDialog'
+import { ReferenceListDialog } from '@/components/ReferenceListDialog'
+import { formatBibliography, toPlainText } from '@/lib/citationFormatter'
+import { createRtfDocument } from '@/lib/richText'
+import { createDocxDocument, createOdtDocument, getReferencePageLayout, orderReferences } from '@/lib/documentExport'
+import { DEFAULT_CITATION_KEY_PATTERN, generateCitationKeys, generateHtmlFormat, generateMarkdownFormat, generateRISFormat, generateWordXmlFormat, generateZoteroRDFFormat } from '@/lib/exportUtils'
+import { normalizeAuthors, type PersonName } from '@/lib/names'
+import { getCslStyleOptions, registerCslLocales, registerCslStyles, type CslStyleId, type StoredCslLocale, type StoredCslStyle } from '@/lib/cslStyles'
+import type { Provenance } from '@/lib/metadataProviders'
+
+export type SourceType =
+  | 'article'
+  | 'journal'
+  | 'book'
+  | 'chapter'
+  | 'website'
+  | 'newspaper'
+  | 'thesis'
+  | 'conference'
+  | 'report'
+  | 'dataset'
+  | 'software'
+  | 'preprint'
+  | 'patent'
+  | 'standard'
+  | 'video'
+  | 'podcast'
 
 export interface Citation {
   id: string
   title: string
-  authors: string[]
+  authors: PersonName[]
   year: string
   source: string
   url?: string
@@ -24,30 +54,78 @@ export interface Citation {
   volume?: string
   issue?: string
   publisher?: string
-  type: 'article' | 'website' | 'book' | 'journal'
+  edition?: string
+  city?: string
+  isbn?: string
+  abstract?: string
+  version?: string
+  repository?: string
+  archiveId?: string
+  patentNumber?: string
+  runtime?: string
+  type: SourceType
   dateAccessed?: string
   confidence?: number
+  provenance?: Provenance
 }
 
-export type CitationStyle = 'apa' | 'mla' | 'chicago' | 'harvard'
+export type BuiltinCitationStyle = 'apa' | 'mla' | 'chicago' | 'harvard' | 'ieee' | 'vancouver' | 'nature'
+
+export type CitationStyle = BuiltinCitationStyle | CslStyleId
 
 function App() {
   const [savedCitations, setSavedCitations] = useKV<Citation[]>('bibliography', [])
   const [activeTab, setActiveTab] = useState('url')
   const [preferredStyle, setPreferredStyle] = useKV<CitationStyle>('preferred-style', 'apa')
   const [showExportDialog, setShowExportDialog] = useState(false)
+  const [includeAnchors, setIncludeAnchors] = useState(false)
+  const [citationKeyPattern, setCitationKeyPattern] = useKV<string>('citation-key-pattern', DEFAULT_CITATION_KEY_PATTERN)
+  const [cslStyles, setCslStyles] = useKV<StoredCslStyle[]>('csl-styles', [])
+  const [cslLocales, setCslLocales] = useKV<StoredCslLocale[]>('csl-locales', [])
+
+  // Keep the CSL registry in step with storage before any child formats a citation
+  registerCslLocales(cslLocales)
+  registerCslStyles(cslStyles)
+
+  // Citations saved before authors were structured store them as plain strings
+  useEffect(() => {
+    if (savedCitations.some(citation => citation.authors.some(author => typeof author === 'string'))) {
+      setSavedCitations((current) =>
+        current.map(citation => ({ ...citation, authors: normalizeAuthors(citation.authors) }))
+      )
+    }
+  }, [savedCitations])
 
-  const styleNames: Record<CitationStyle, string> = {
+  const styleNames: Record<BuiltinCitationStyle, string> = {
     apa: 'APA 7th Edition',
     mla: 'MLA 9th Edition', 
     chicago: 'Chicago Manual',
-    harvard: 'Harvard Referencing'
+    harvard: 'Harvard Referencing',
+    ieee: 'IEEE',
+    vancouver: 'Vancouver',
+    nature: 'Nature'
+  }
+
+  const styleOptions: [CitationStyle, string][] = [
+    ...(Object.entries(styleNames) as [BuiltinCitationStyle, string][]),
+    ...getCslStyleOptions().map(({ id, title }): [CitationStyle, string] => [id, title])
+  ]
+
+  const removeCslStyle = (id: CslStyleId) => {
+    setCslStyles((current) => current.filter(style => style.id !== id))
+    if (preferredStyle === id) {
+      setPreferredStyle('apa')
+    }
   }
 
   const addCitation = (citation: Citation) => {
     setSavedCitations((current) => [...current, citation])
   }
 
+  const importCitations = (citations: Citation[]) => {
+    setSavedCitations((current) => [...current, ...citations])
+  }
+
   const updateCitation = (id: string, updatedCitation: Citation) => {
     setSavedCitations((current) =>
       current.map(citation => citation.id === id ? updatedCitation : citation)
@@ -58,157 +136,74 @@ function App() {
     setSavedCitations((current) => current.filter(citation => citation.id !== id))
   }
 
-  const exportBibliography = (format: 'rtf' | 'txt' | 'zotero' | 'mendeley') => {
+  const exportBibliography = (format: 'docx' | 'odt' | 'rtf' | 'txt' | 'html' | 'markdown' | 'word-xml' | 'zotero' | 'mendeley') => {
     if (savedCitations.length === 0) {
       return
     }
 
-    const formatCitationForExport = (citation: Citation, style: CitationStyle): string => {
-      const { title, authors, year, source, url, pages, volume, issue, publisher } = citation
-      const authorStr = authors.length > 0 ? authors.join(', ') : 'Unknown Author'
-      
-      switch (style) {
-        case 'apa':
-          let apaResult = `${authorStr} (${year || 'n.d.'}). ${title}.`
-          if (citation.type === 'journal' && source) {
-            apaResult += ` *${source}*`
-            if (volume) apaResult += `, ${volume}`
-            if (issue) apaResult += `(${issue})`
-            if (pages) apaResult += `, ${pages}`
-            apaResult += '.'
-          } else if (citation.type === 'website') {
-            if (source) apaResult += ` *${source}*.`
-            if (url) apaResult += ` ${url}`
-          } else {
-            if (source) apaResult += ` *${source}*.`
-            if (publisher) apaResult += ` ${publisher}.`
-          }
-          return apaResult
-
-        case 'mla':
-          let mlaResult = `${authorStr}. "${title}."`
-          if (citation.type === 'journal' && source) {
-            mlaResult += ` *${source}*`
-            if (volume) mlaResult += `, vol. ${volume}`
-            if (issue) mlaResult += `, no. ${issue}`
-            if (year) mlaResult += `, ${year}`
-            if (pages) mlaResult += `, pp. ${pages}`
-            mlaResult += '.'
-          } else if (citation.type === 'website') {
-            if (source) mlaResult += ` *${source}*`
-            if (year) mlaResult += `, ${year}`
-            if (url) mlaResult += `. Web.`
-          } else {
-            if (source) mlaResult += ` *${source}*.`
-            if (publisher) mlaResult += ` ${publisher}`
-            if (year) mlaResult += `, ${year}`
-            mlaResult += '.'
-          }
-          return mlaResult
-
-        case 'chicago':
-          let chicagoResult = `${authorStr}. "${title}."`
-          if (citation.type === 'journal' && source) {
-            chicagoResult += ` *${source}*`
-            if (volume) chicagoResult += ` ${volume}`
-            if (issue) chicagoResult += `, no. ${issue}`
-            if (year) chicagoResult += ` (${year})`
-            if (pages) chicagoResult += `: ${pages}`
-            chicagoResult += '.'
-          } else if (citation.type === 'website') {
-            if (source) chicagoResult += ` *${source}*.`
-            if (year) chicagoResult += ` ${year}.`
-            if (url) chicagoResult += ` ${url}.`
-          } else {
-            if (publisher) chicagoResult += ` ${publisher}`
-            if (year) chicagoResult += `, ${year}`
-            chicagoResult += '.'
-          }
-          return chicagoResult
-
-        case 'harvard':
-          let harvardResult = `${authorStr} (${year || 'n.d.'}) '${title}'`
-          if (citation.type === 'journal' && source) {
-            harvardResult += `, *${source}*`
-            if (volume) harvardResult += `, vol. ${volume}`
-            if (issue) harvardResult += `, no. ${issue}`
-            if (pages) harvardResult += `, pp. ${pages}`
-            harvardResult += '.'
-          } else if (citation.type === 'website') {
-            if (source) harvardResult += `, *${source}*`
-            if (url) harvardResult += `, available at: ${url}.`
-          } else {
-            if (publisher) harvardResult += `, ${publisher}`
-            harvardResult += '.'
-          }
-          return harvardResult
-
-        default:
-          return 'Unsupported citation style'
-      }
-    }
-
-    let content = ''
+    let content: BlobPart = ''
     let filename = ''
     let mimeType = 'text/plain'
 
-    const formattedCitations = savedCitations.map(citation => 
-      formatCitationForExport(citation, preferredStyle)
-    )
+    // Every format lists the references in the order the style sorts them
+    const formattedCitations = formatBibliography(orderReferences(savedCitations, preferredStyle), preferredStyle)
+    // The same library-wide keys as the BibTeX export
+    const citationKeys = generateCitationKeys(savedCitations, citationKeyPattern)
 
     switch (format) {
       case 'txt':
-        content = formattedCitations.join('\n\n')
+        content = formattedCitations.map(toPlainText).join('\n\n')
         filename = `bibliography-${preferredStyle}-${new Date().toISOString().split('T')[0]}.txt`
         mimeType = 'text/plain'
         break
 
+      case 'docx':
+        content = createDocxDocument(formattedCitations, getReferencePageLayout(preferredStyle))
+        filename = `bibliography-${preferredStyle}-${new Date().toISOString().split('T')[0]}.docx`
+        mimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        break
+
+      case 'odt':
+        content = createOdtDocument(formattedCitations, getReferencePageLayout(preferredStyle))
+        filename = `bibliography-${preferredStyle}-${new Date().toISOString().split('T')[0]}.odt`
+        mimeType = 'application/vnd.oasis.opendocument.text'
+        break
+
       case 'rtf':
         // RTF format for Word compatibility
-        content = '{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;}}\\f0\\fs24 '
-        content += 'Bibliography\\par\\par '
-        content += formattedCitations.map(citation => citation.replace(/\n/g, '\\par ')).join('\\par\\par ')
-        content += '}'
+        content = createRtfDocument(formattedCitations)
         filename = `bibliography-${preferredStyle}-${new Date().toISOString().split('T')[0]}.rtf`
         mimeType = 'application/rtf'
         break
 
+      case 'html':
+        content = generateHtmlFormat(savedCitations, preferredStyle, { anchors: includeAnchors, citationKeys })
+        filename = `bibliography-${preferredStyle}-${new Date().toISOString().split('T')[0]}.html`
+        mimeType = 'text/html'
+        break
+
+      case 'markdown':
+        content = generateMarkdownFormat(savedCitations, preferredStyle, { anchors: includeAnchors, citationKeys })
+        filename = `bibliography-${preferredStyle}-${new Date().toISOString().split('T')[0]}.md`
+        mimeType = 'text/markdown'
+        break
+
+      case 'word-xml':
+        content = generateWordXmlFormat(savedCitations, { citationKeys })
+        filename = `Sources-${new Date().toISOString().split('T')[0]}.xml`
+        mimeType = 'application/xml'
+        break
+
       case 'zotero':
-        // Zotero-compatible RDF format
-        content = `<?xml version="1.0" encoding="UTF-8"?>
-<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
-         xmlns:z="http://www.zotero.org/namespaces/export#"
-         xmlns:dc="http://purl.org/dc/elements/1.1/">
-${savedCitations.map(citation => `
-  <rdf:Description rdf:about="urn:isbn:${citation.id}">
-    <dc:title>${citation.title}</dc:title>
-    <dc:creator>${citation.authors.join('; ')}</dc:creator>
-    <dc:date>${citation.year}</dc:date>
-    <dc:source>${citation.source}</dc:source>
-    <dc:type>${citation.type}</dc:type>
-    ${citation.url ? `<dc:identifier>${citation.url}</dc:identifier>` : ''}
-  </rdf:Description>`).join('')}
-</rdf:RDF>`
+        content = generateZoteroRDFFormat(savedCitations)
         filename = `bibliography-zotero-${new Date().toISOString().split('T')[0]}.rdf`
         mimeType = 'application/rdf+xml'
         break
 
       case 'mendeley':
-        // Mendeley-compatible format
-        content = savedCitations.map(citation => {
-          return `Type: Journal Article
-Title: ${citation.title}
-Authors: ${citation.authors.join('; ')}
-Year: ${citation.year}
-Journal: ${citation.source}
-${citation.volume ? `Volume: ${citation.volume}` : ''}
-${citation.issue ? `Issue: ${citation.issue}` : ''}
-${citation.pages ? `Pages: ${citation.pages}` : ''}
-${citation.doi ? `DOI: ${citation.doi}` : ''}
-${citation.url ? `URL: ${citation.url}` : ''}
-`
-        }).join('\n---\n\n')
-        filename = `bibliography-mendeley-${new Date().toISOString().split('T')[0]}.txt`
+        // Mendeley reads RIS, which keeps each source's type
+        content = generateRISFormat(savedCitations)
+        filename = `bibliography-mendeley-${new Date().toISOString().split('T')[0]}.ris`
         mimeType = 'text/plain'
         break
     }
@@ -279,13 +274,21 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                         <SelectValue className="text-white" />
                       </SelectTrigger>
                       <SelectContent>
-                        {Object.entries(styleNames).map(([key, name]) => (
+                        {styleOptions.map(([key, name]) => (
                           <SelectItem key={key} value={key} className="text-lg py-3">
                             {name}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
+                    <CslStyleManager
+                      styles={cslStyles}
+                      locales={cslLocales}
+                      onAddStyle={(style) => setCslStyles((current) => [...current.filter(s => s.id !== style.id), style])}
+                      onRemoveStyle={removeCslStyle}
+                      onAddLocale={(locale) => setCslLocales((current) => [...current.filter(l => l.lang !== locale.lang), locale])}
+                      onRemoveLocale={(lang) => setCslLocales((current) => current.filter(l => l.lang !== lang))}
+                    />
                   </div>
                 </div>
               </CardContent>
@@ -381,6 +384,8 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                     onUpdate={updateCitation}
                     onDelete={deleteCitation}
                     preferredStyle={preferredStyle}
+                    citationKeyPattern={citationKeyPattern}
+                    onCitationKeyPatternChange={setCitationKeyPattern}
                   />
                 </TabsContent>
               </div>
@@ -442,7 +447,7 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                         Export Bibliography
                       </Button>
                     </DialogTrigger>
-                    <DialogContent className="max-w-md">
+                    <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
                       <DialogHeader>
                         <DialogTitle>Export Bibliography</DialogTitle>
                         <DialogDescription>
@@ -454,6 +459,28 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                         <div className="space-y-3">
                           <h4 className="text-sm font-medium">Document Formats</h4>
                           <div className="grid gap-2">
+                            <Button
+                              variant="outline"
+                              className="justify-start h-auto p-3"
+                              onClick={() => exportBibliography('docx')}
+                            >
+                              <FileWord size={16} className="mr-3 text-blue-600" />
+                              <div className="text-left">
+                                <div className="font-medium">Word Document (.docx)</div>
+                                <div className="text-xs text-muted-foreground">Reference page with hanging indents</div>
+                              </div>
+                            </Button>
+                            <Button
+                              variant="outline"
+                              className="justify-start h-auto p-3"
+                              onClick={() => exportBibliography('odt')}
+                            >
+                              <FileText size={16} className="mr-3 text-sky-600" />
+                              <div className="text-left">
+                                <div className="font-medium">OpenDocument (.odt)</div>
+                                <div className="text-xs text-muted-foreground">For LibreOffice and Google Docs</div>
+                              </div>
+                            </Button>
                             <Button
                               variant="outline"
                               className="justify-start h-auto p-3"
@@ -461,8 +488,8 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                             >
                               <FileWord size={16} className="mr-3 text-blue-600" />
                               <div className="text-left">
-                                <div className="font-medium">Word Document (.rtf)</div>
-                                <div className="text-xs text-muted-foreground">Compatible with Microsoft Word</div>
+                                <div className="font-medium">Rich Text (.rtf)</div>
+                                <div className="text-xs text-muted-foreground">For older word processors</div>
                               </div>
                             </Button>
                             <Button
@@ -479,6 +506,44 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                           </div>
                         </div>
                         
+                        <div className="space-y-3">
+                          <h4 className="text-sm font-medium">Web and Notes</h4>
+                          <div className="grid gap-2">
+                            <Button
+                              variant="outline"
+                              className="justify-start h-auto p-3"
+                              onClick={() => exportBibliography('html')}
+                            >
+                              <Globe size={16} className="mr-3 text-cyan-600" />
+                              <div className="text-left">
+                                <div className="font-medium">Web Page (.html)</div>
+                                <div className="text-xs text-muted-foreground">For wikis and websites</div>
+                              </div>
+                            </Button>
+                            <Button
+                              variant="outline"
+                              className="justify-start h-auto p-3"
+                              onClick={() => exportBibliography('markdown')}
+                            >
+                              <MarkdownLogo size={16} className="mr-3 text-gray-600" />
+                              <div className="text-left">
+                                <div className="font-medium">Markdown (.md)</div>
+                                <div className="text-xs text-muted-foreground">For Obsidian and other notes apps</div>
+                              </div>
+                            </Button>
+                            <div className="flex items-center gap-2">
+                              <Checkbox
+                                id="export-anchors"
+                                checked={includeAnchors}
+                                onCheckedChange={(checked) => setIncludeAnchors(checked === true)}
+                              />
+                              <Label htmlFor="export-anchors" className="text-xs font-normal">
+                                Add an anchor to each entry (#ref-key) for in-text links
+                              </Label>
+                            </div>
+                          </div>
+                        </div>
+                        
                         <div className="space-y-3">
                           <h4 className="text-sm font-medium">Reference Managers</h4>
                           <div className="grid gap-2">
@@ -493,6 +558,17 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                                 <div className="text-xs text-muted-foreground">Import into Zotero</div>
                               </div>
                             </Button>
+                            <Button
+                              variant="outline"
+                              className="justify-start h-auto p-3"
+                              onClick={() => exportBibliography('word-xml')}
+                            >
+                              <FileWord size={16} className="mr-3 text-blue-600" />
+                              <div className="text-left">
+                                <div className="font-medium">Word Sources (.xml)</div>
+                                <div className="text-xs text-muted-foreground">For Word's References tab</div>
+                              </div>
+                            </Button>
                             <Button
                               variant="outline"
                               className="justify-start h-auto p-3"
@@ -500,7 +576,7 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                             >
                               <BookOpen size={16} className="mr-3 text-orange-600" />
                               <div className="text-left">
-                                <div className="font-medium">Mendeley (.txt)</div>
+                                <div className="font-medium">Mendeley (.ris)</div>
                                 <div className="text-xs text-muted-foreground">Import into Mendeley</div>
                               </div>
                             </Button>
@@ -515,6 +591,8 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                       </DialogFooter>
                     </DialogContent>
                   </Dialog>
+                  <ImportDialog existingCitations={savedCitations} onImport={importCitations} />
+                  <ReferenceListDialog existingCitations={savedCitations} onImport={importCitations} />
                 </div>
               </CardContent>
             </Card>
@@ -556,7 +634,7 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                 <div className="text-sm">
                   <p className="font-medium mb-1">Reference Styles</p>
                   <p className="text-muted-foreground text-xs">
-                    Choose from APA, MLA, Chicago, or Harvard formatting styles
+                    Choose from APA, MLA, Chicago, or Harvard formatting styles, or upload a CSL style file
                   </p>
                 </div>
               </CardContent>
@@ -0,0 +1,144 @@
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ArrowUp, ArrowDown, Buildings, Plus, User, X } from '@phosphor-icons/react'
+import { formatNameNatural, parseNameList, type PersonName } from '@/lib/names'
+
+interface AuthorEditorProps {
+  authors: PersonName[]
+  onChange: (authors: PersonName[]) => void
+  idPrefix?: string
+}
+
+/**
+ * Edit a list of structured author names, one row per person or institution
+ */
+export function AuthorEditor({ authors, onChange, idPrefix = 'author' }: AuthorEditorProps) {
+  const updateAuthor = (index: number, changes: Partial<PersonName>) => {
+    onChange(authors.map((author, i) => i === index ? { ...author, ...changes } : author))
+  }
+
+  const toggleInstitution = (index: number) => {
+    const author = authors[index]
+    let next: PersonName
+    if (author.literal !== undefined) {
+      const words = author.literal.trim().split(/\s+/)
+      next = { given: words.slice(0, -1).join(' '), family: words[words.length - 1] || '' }
+    } else {
+      next = { literal: formatNameNatural(author) }
+    }
+    onChange(authors.map((current, i) => i === index ? next : current))
+  }
+
+  const moveAuthor = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= authors.length) return
+    const next = [...authors]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const removeAuthor = (index: number) => {
+    onChange(authors.filter((_, i) => i !== index))
+  }
+
+  const handlePaste = (index: number, text: string) => {
+    const parsed = parseNameList(text)
+    if (parsed.length === 0) return false
+    onChange([...authors.slice(0, index), ...parsed, ...authors.slice(index + 1)])
+    return true
+  }
+
+  return (
+    <div className="space-y-2">
+      {authors.length === 0 && (
+        <p className="text-sm text-muted-foreground">No authors</p>
+      )}
+
+      {authors.map((author, index) => (
+        <div key={index} className="flex items-end gap-2">
+          {author.literal !== undefined ? (
+            <div className="flex-1 space-y-1">
+              <Label htmlFor={`${idPrefix}-${index}-literal`} className="text-xs">Organization</Label>
+              <Input
+                id={`${idPrefix}-${index}-literal`}
+                value={author.literal}
+                onChange={(e) => updateAuthor(index, { literal: e.target.value })}
+                placeholder="World Health Organization"
+              />
+            </div>
+          ) : (
+            <div className="flex-1 grid grid-cols-[1fr_1fr_5rem_4rem] gap-2">
+              <div className="space-y-1">
+                <Label htmlFor={`${idPrefix}-${index}-given`} className="text-xs">Given</Label>
+                <Input
+                  id={`${idPrefix}-${index}-given`}
+                  value={author.given || ''}
+                  onChange={(e) => updateAuthor(index, { given: e.target.value })}
+                  onPaste={(e) => {
+                    const text = e.clipboardData.getData('text')
+                    if (/[;,]|\sand\s/.test(text) && handlePaste(index, text)) e.preventDefault()
+                  }}
+                  placeholder="Jane A."
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${idPrefix}-${index}-family`} className="text-xs">Family</Label>
+                <Input
+                  id={`${idPrefix}-${index}-family`}
+                  value={author.family || ''}
+                  onChange={(e) => updateAuthor(index, { family: e.target.value })}
+                  placeholder="Smith"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${idPrefix}-${index}-particle`} className="text-xs">Particle</Label>
+                <Input
+                  id={`${idPrefix}-${index}-particle`}
+                  value={author.particle || ''}
+                  onChange={(e) => updateAuthor(index, { particle: e.target.value })}
+                  placeholder="van"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${idPrefix}-${index}-suffix`} className="text-xs">Suffix</Label>
+                <Input
+                  id={`${idPrefix}-${index}-suffix`}
+                  value={author.suffix || ''}
+                  onChange={(e) => updateAuthor(index, { suffix: e.target.value })}
+                  placeholder="Jr."
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              title={author.literal !== undefined ? 'Person' : 'Organization'}
+              onClick={() => toggleInstitution(index)}
+            >
+              {author.literal !== undefined ? <User size={14} /> : <Buildings size={14} />}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" title="Move up" disabled={index === 0} onClick={() => moveAuthor(index, -1)}>
+              <ArrowUp size={14} />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" title="Move down" disabled={index === authors.length - 1} onClick={() => moveAuthor(index, 1)}>
+              <ArrowDown size={14} />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" title="Remove" onClick={() => removeAuthor(index)}>
+              <X size={14} />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...authors, { given: '', family: '' }])}>
+        <Plus size={14} className="mr-1" />
+        Add author
+      </Button>
+    </div>
+  )
+}
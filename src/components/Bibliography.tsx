@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { 
@@ -20,28 +21,45 @@ import {
   Quotes,
   File,
   FileWord,
-  FileCsv
+  FileCsv,
+  Globe,
+  MarkdownLogo
 } from '@phosphor-icons/react'
 import { toast } from 'sonner'
-import type { Citation, CitationStyle } from '@/App'
+import type { Citation, CitationStyle, SourceType } from '@/App'
+import { formatBibliography, formatBibliographyEntries, isNumericStyle, sortReferencesAlphabetically, toPlainText } from '@/lib/citationFormatter'
+import { copyFormattedCitations, createRtfDocument } from '@/lib/richText'
+import { createDocxDocument, createOdtDocument, getReferencePageLayout, orderReferences } from '@/lib/documentExport'
+import { getCslStyleOptions } from '@/lib/cslStyles'
+import { formatInText } from '@/lib/inTextCitation'
+import { formatNameInverted, nameSortKey, normalizeAuthors } from '@/lib/names'
+import { DEFAULT_CITATION_KEY_PATTERN, formatCitationKey, generateBibTeXFormat, generateCitationKeys, generateCslJsonFormat, generateCsvFormat, generateHtmlFormat, generateMarkdownFormat, generateRISFormat, generateWordXmlFormat, generateZoteroRDFFormat } from '@/lib/exportUtils'
+import { describeProvenance } from '@/lib/metadataProviders'
+import { AuthorEditor } from '@/components/AuthorEditor'
+import { InTextCitationBuilder } from '@/components/InTextCitationBuilder'
+import { FormattedCitationText } from '@/components/FormattedCitationText'
 
 interface BibliographyProps {
   citations: Citation[]
   onUpdate: (id: string, citation: Citation) => void
   onDelete: (id: string) => void
   preferredStyle: CitationStyle
+  citationKeyPattern: string
+  onCitationKeyPatternChange: (pattern: string) => void
 }
 
 type SortOption = 'title' | 'author' | 'year' | 'type' | 'dateAdded'
-type FilterOption = 'all' | 'article' | 'website' | 'book' | 'journal'
+type FilterOption = 'all' | SourceType
 
-export function Bibliography({ citations, onUpdate, onDelete, preferredStyle }: BibliographyProps) {
+export function Bibliography({ citations, onUpdate, onDelete, preferredStyle, citationKeyPattern, onCitationKeyPatternChange }: BibliographyProps) {
   const [sortBy, setSortBy] = useState<SortOption>('title')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
   const [filterBy, setFilterBy] = useState<FilterOption>('all')
   const [editingCitation, setEditingCitation] = useState<Citation | null>(null)
   const [exportFormat, setExportFormat] = useState<CitationStyle>(preferredStyle)
   const [showExportDialog, setShowExportDialog] = useState(false)
+  const [includeAnchors, setIncludeAnchors] = useState(false)
+  const [numberingOrder, setNumberingOrder] = useState<'citation' | 'alphabetical'>('citation')
 
   const filteredAndSortedCitations = citations
     .filter(citation => filterBy === 'all' || citation.type === filterBy)
@@ -53,8 +71,8 @@ export function Bibliography({ citations, onUpdate, onDelete, preferredStyle }:
           comparison = a.title.localeCompare(b.title)
           break
         case 'author':
-          const aAuthor = a.authors[0] || 'Unknown'
-          const bAuthor = b.authors[0] || 'Unknown'
+          const aAuthor = a.authors[0] ? nameSortKey(a.authors[0]) : 'unknown'
+          const bAuthor = b.authors[0] ? nameSortKey(b.authors[0]) : 'unknown'
           comparison = aAuthor.localeCompare(bAuthor)
           break
         case 'year':
@@ -70,125 +88,25 @@ export function Bibliography({ citations, onUpdate, onDelete, preferredStyle }:
       return sortOrder === 'asc' ? comparison : -comparison
     })
 
-  const formatCitationForExport = (citation: Citation, style: CitationStyle): string => {
-    const { title, authors, year, source, url, pages, volume, issue, publisher } = citation
-    const authorStr = authors.length > 0 ? authors.join(', ') : 'Unknown Author'
-    
-    switch (style) {
-      case 'apa':
-        let apaResult = `${authorStr} (${year || 'n.d.'}). ${title}.`
-        if (citation.type === 'journal' && source) {
-          apaResult += ` *${source}*`
-          if (volume) apaResult += `, ${volume}`
-          if (issue) apaResult += `(${issue})`
-          if (pages) apaResult += `, ${pages}`
-          apaResult += '.'
-        } else if (citation.type === 'website') {
-          if (source) apaResult += ` *${source}*.`
-          if (url) apaResult += ` ${url}`
-        } else {
-          if (source) apaResult += ` *${source}*.`
-          if (publisher) apaResult += ` ${publisher}.`
-        }
-        return apaResult
-
-      case 'mla':
-        let mlaResult = `${authorStr}. "${title}."`
-        if (citation.type === 'journal' && source) {
-          mlaResult += ` *${source}*`
-          if (volume) mlaResult += `, vol. ${volume}`
-          if (issue) mlaResult += `, no. ${issue}`
-          if (year) mlaResult += `, ${year}`
-          if (pages) mlaResult += `, pp. ${pages}`
-          mlaResult += '.'
-        } else if (citation.type === 'website') {
-          if (source) mlaResult += ` *${source}*`
-          if (year) mlaResult += `, ${year}`
-          if (url) mlaResult += `. Web.`
-        } else {
-          if (source) mlaResult += ` *${source}*.`
-          if (publisher) mlaResult += ` ${publisher}`
-          if (year) mlaResult += `, ${year}`
-          mlaResult += '.'
-        }
-        return mlaResult
-
-      case 'chicago':
-        let chicagoResult = `${authorStr}. "${title}."`
-        if (citation.type === 'journal' && source) {
-          chicagoResult += ` *${source}*`
-          if (volume) chicagoResult += ` ${volume}`
-          if (issue) chicagoResult += `, no. ${issue}`
-          if (year) chicagoResult += ` (${year})`
-          if (pages) chicagoResult += `: ${pages}`
-          chicagoResult += '.'
-        } else if (citation.type === 'website') {
-          if (source) chicagoResult += ` *${source}*.`
-          if (year) chicagoResult += ` ${year}.`
-          if (url) chicagoResult += ` ${url}.`
-        } else {
-          if (publisher) chicagoResult += ` ${publisher}`
-          if (year) chicagoResult += `, ${year}`
-          chicagoResult += '.'
-        }
-        return chicagoResult
-
-      case 'harvard':
-        let harvardResult = `${authorStr} (${year || 'n.d.'}) '${title}'`
-        if (citation.type === 'journal' && source) {
-          harvardResult += `, *${source}*`
-          if (volume) harvardResult += `, vol. ${volume}`
-          if (issue) harvardResult += `, no. ${issue}`
-          if (pages) harvardResult += `, pp. ${pages}`
-          harvardResult += '.'
-        } else if (citation.type === 'website') {
-          if (source) harvardResult += `, *${source}*`
-          if (url) harvardResult += `, available at: ${url}.`
-        } else {
-          if (publisher) harvardResult += `, ${publisher}`
-          harvardResult += '.'
-        }
-        return harvardResult
-
-      default:
-        return 'Unsupported citation style'
-    }
-  }
-
-  const formatInTextCitation = (citation: Citation, style: CitationStyle): string => {
-    const { authors, year, pages } = citation
-    const firstAuthor = authors.length > 0 ? authors[0] : 'Unknown Author'
-    const authorLastName = firstAuthor.includes(',') ? firstAuthor.split(',')[0] : firstAuthor.split(' ').pop() || 'Unknown'
-    
-    switch (style) {
-      case 'apa':
-        if (authors.length === 1) {
-          return pages ? `(${authorLastName}, ${year || 'n.d.'}, p. ${pages})` : `(${authorLastName}, ${year || 'n.d.'})`
-        } else if (authors.length === 2) {
-          const secondAuthor = authors[1].includes(',') ? authors[1].split(',')[0] : authors[1].split(' ').pop() || 'Unknown'
-          return pages ? `(${authorLastName} & ${secondAuthor}, ${year || 'n.d.'}, p. ${pages})` : `(${authorLastName} & ${secondAuthor}, ${year || 'n.d.'})`
-        } else {
-          return pages ? `(${authorLastName} et al., ${year || 'n.d.'}, p. ${pages})` : `(${authorLastName} et al., ${year || 'n.d.'})`
-        }
-
-      case 'mla':
-        return pages ? `(${authorLastName} ${pages})` : `(${authorLastName})`
-
-      case 'chicago':
-        return pages ? `(${authorLastName} ${year || 'n.d.'}, ${pages})` : `(${authorLastName} ${year || 'n.d.'})`
-
-      case 'harvard':
-        return pages ? `(${authorLastName} ${year || 'n.d.'}: ${pages})` : `(${authorLastName} ${year || 'n.d.'})`
-
-      default:
-        return `(${authorLastName}, ${year || 'n.d.'})`
-    }
+  // Numeric styles number references in citation order (or alphabetically),
+  // whatever order the list on screen is sorted by
+  const filteredCitations = citations.filter(citation => filterBy === 'all' || citation.type === filterBy)
+  const referenceList = isNumericStyle(exportFormat)
+    ? numberingOrder === 'alphabetical' ? sortReferencesAlphabetically(filteredCitations) : filteredCitations
+    : filteredAndSortedCitations
+  const formatContext = isNumericStyle(exportFormat) ? referenceList : citations
+  // One pass over the list: CSL styles render the whole bibliography to
+  // number and disambiguate entries, so each entry is looked up by id
+  const formattedById = new Map(formatBibliographyEntries(formatContext, exportFormat).map(entry => [entry.id, entry.runs]))
+
+  const formatInTextCitation = (citation: Citation, style: CitationStyle) => {
+    return formatInText([{ id: citation.id }], formatContext, style)
   }
 
   const copyInTextCitation = async (citation: Citation) => {
     const inTextCitation = formatInTextCitation(citation, exportFormat)
     try {
-      await navigator.clipboard.writeText(inTextCitation)
+      await copyFormattedCitations([inTextCitation])
       toast.success('In-text citation copied to clipboard!')
     } catch (error) {
       toast.error('Failed to copy in-text citation')
@@ -196,9 +114,9 @@ export function Bibliography({ citations, onUpdate, onDelete, preferredStyle }:
   }
 
   const copyFullCitation = async (citation: Citation) => {
-    const fullCitation = formatCitationForExport(citation, exportFormat)
+    const fullCitation = formattedById.get(citation.id) || []
     try {
-      await navigator.clipboard.writeText(fullCitation)
+      await copyFormattedCitations([fullCitation])
       toast.success('Full citation copied to clipboard!')
     } catch (error) {
       toast.error('Failed to copy citation')
@@ -211,132 +129,110 @@ export function Bibliography({ citations, onUpdate, onDelete, preferredStyle }:
       return
     }
 
-    const formattedCitations = filteredAndSortedCitations.map(citation => 
-      formatCitationForExport(citation, exportFormat)
-    ).join('\n\n')
+    const formattedCitations = formatBibliography(referenceList, exportFormat)
 
     try {
-      await navigator.clipboard.writeText(formattedCitations)
+      await copyFormattedCitations(formattedCitations, true)
       toast.success('All citations copied to clipboard!')
     } catch (error) {
       toast.error('Failed to copy citations')
     }
   }
 
-  const exportBibliography = (format: 'txt' | 'rtf' | 'csv' | 'bibtex' | 'ris' | 'zotero' | 'mendeley') => {
+  const exportBibliography = (format: 'txt' | 'rtf' | 'docx' | 'odt' | 'csv' | 'bibtex' | 'biblatex' | 'ris' | 'csl-json' | 'html' | 'markdown' | 'word-xml' | 'zotero' | 'mendeley') => {
     if (filteredAndSortedCitations.length === 0) {
       toast.error('No citations to export')
       return
     }
 
-    let content = ''
+    let content: BlobPart = ''
     let filename = ''
     let mimeType = 'text/plain'
 
-    const formattedCitations = filteredAndSortedCitations.map(citation => 
-      formatCitationForExport(citation, exportFormat)
-    )
+    // Every format lists the references in the order the style sorts them
+    const formattedCitations = formatBibliography(orderReferences(referenceList, exportFormat), exportFormat)
+    // Keys come from the whole library, so filtering or sorting never changes them
+    const citationKeys = generateCitationKeys(citations, citationKeyPattern)
 
     switch (format) {
       case 'txt':
-        content = formattedCitations.join('\n\n')
+        content = formattedCitations.map(toPlainText).join('\n\n')
         filename = `bibliography-${exportFormat}-${new Date().toISOString().split('T')[0]}.txt`
         mimeType = 'text/plain'
         break
 
+      case 'docx':
+        content = createDocxDocument(formattedCitations, getReferencePageLayout(exportFormat))
+        filename = `bibliography-${exportFormat}-${new Date().toISOString().split('T')[0]}.docx`
+        mimeType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        break
+
+      case 'odt':
+        content = createOdtDocument(formattedCitations, getReferencePageLayout(exportFormat))
+        filename = `bibliography-${exportFormat}-${new Date().toISOString().split('T')[0]}.odt`
+        mimeType = 'application/vnd.oasis.opendocument.text'
+        break
+
       case 'rtf':
         // RTF format for Word compatibility
-        content = '{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;}}\\f0\\fs24 '
-        content += 'Bibliography\\par\\par '
-        content += formattedCitations.map(citation => citation.replace(/\n/g, '\\par ')).join('\\par\\par ')
-        content += '}'
+        content = createRtfDocument(formattedCitations)
         filename = `bibliography-${exportFormat}-${new Date().toISOString().split('T')[0]}.rtf`
         mimeType = 'application/rtf'
         break
 
       case 'csv':
-        const csvHeaders = 'Title,Authors,Year,Source,Type,URL,DOI,Pages,Volume,Issue'
-        const csvRows = filteredAndSortedCitations.map(citation => 
-          `"${citation.title}","${citation.authors.join('; ')}","${citation.year}","${citation.source}","${citation.type}","${citation.url || ''}","${citation.doi || ''}","${citation.pages || ''}","${citation.volume || ''}","${citation.issue || ''}"`
-        )
-        content = [csvHeaders, ...csvRows].join('\n')
+        content = generateCsvFormat(filteredAndSortedCitations)
         filename = `bibliography-${exportFormat}-${new Date().toISOString().split('T')[0]}.csv`
         mimeType = 'text/csv'
         break
 
       case 'bibtex':
-        content = filteredAndSortedCitations.map(citation => {
-          const key = citation.authors[0]?.split(',')[0]?.replace(/\s+/g, '') + citation.year
-          return `@article{${key},
-  title={${citation.title}},
-  author={${citation.authors.join(' and ')}},
-  year={${citation.year}},
-  journal={${citation.source}},
-  ${citation.volume ? `volume={${citation.volume}},` : ''}
-  ${citation.issue ? `number={${citation.issue}},` : ''}
-  ${citation.pages ? `pages={${citation.pages}},` : ''}
-  ${citation.doi ? `doi={${citation.doi}},` : ''}
-  ${citation.url ? `url={${citation.url}}` : ''}
-}`
-        }).join('\n\n')
+      case 'biblatex':
+        content = generateBibTeXFormat(filteredAndSortedCitations, { dialect: format, citationKeys })
         filename = `bibliography-${new Date().toISOString().split('T')[0]}.bib`
         mimeType = 'text/plain'
         break
 
       case 'ris':
-        content = filteredAndSortedCitations.map(citation => {
-          return `TY  - JOUR
-TI  - ${citation.title}
-${citation.authors.map(author => `AU  - ${author}`).join('\n')}
-PY  - ${citation.year}
-JO  - ${citation.source}
-${citation.volume ? `VL  - ${citation.volume}` : ''}
-${citation.issue ? `IS  - ${citation.issue}` : ''}
-${citation.pages ? `SP  - ${citation.pages.split('-')[0]}\nEP  - ${citation.pages.split('-')[1] || citation.pages.split('-')[0]}` : ''}
-${citation.doi ? `DO  - ${citation.doi}` : ''}
-${citation.url ? `UR  - ${citation.url}` : ''}
-ER  -`
-        }).join('\n\n')
+        content = generateRISFormat(filteredAndSortedCitations)
         filename = `bibliography-${new Date().toISOString().split('T')[0]}.ris`
         mimeType = 'text/plain'
         break
 
+      case 'csl-json':
+        content = generateCslJsonFormat(filteredAndSortedCitations)
+        filename = `bibliography-${new Date().toISOString().split('T')[0]}.json`
+        mimeType = 'application/vnd.citationstyles.csl+json'
+        break
+
+      case 'html':
+        content = generateHtmlFormat(referenceList, exportFormat, { anchors: includeAnchors, citationKeys })
+        filename = `bibliography-${exportFormat}-${new Date().toISOString().split('T')[0]}.html`
+        mimeType = 'text/html'
+        break
+
+      case 'markdown':
+        content = generateMarkdownFormat(referenceList, exportFormat, { anchors: includeAnchors, citationKeys })
+        filename = `bibliography-${exportFormat}-${new Date().toISOString().split('T')[0]}.md`
+        mimeType = 'text/markdown'
+        break
+
+      case 'word-xml':
+        content = generateWordXmlFormat(filteredAndSortedCitations, { citationKeys })
+        filename = `Sources-${new Date().toISOString().split('T')[0]}.xml`
+        mimeType = 'application/xml'
+        break
+
       case 'zotero':
-        // Zotero-compatible RDF format
-        content = `<?xml version="1.0" encoding="UTF-8"?>
-<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
-         xmlns:z="http://www.zotero.org/namespaces/export#"
-         xmlns:dc="http://purl.org/dc/elements/1.1/">
-${filteredAndSortedCitations.map(citation => `
-  <rdf:Description rdf:about="urn:isbn:${citation.id}">
-    <dc:title>${citation.title}</dc:title>
-    <dc:creator>${citation.authors.join('; ')}</dc:creator>
-    <dc:date>${citation.year}</dc:date>
-    <dc:source>${citation.source}</dc:source>
-    <dc:type>${citation.type}</dc:type>
-    ${citation.url ? `<dc:identifier>${citation.url}</dc:identifier>` : ''}
-  </rdf:Description>`).join('')}
-</rdf:RDF>`
+        content = generateZoteroRDFFormat(filteredAndSortedCitations)
         filename = `bibliography-zotero-${new Date().toISOString().split('T')[0]}.rdf`
         mimeType = 'application/rdf+xml'
         break
 
       case 'mendeley':
-        // Mendeley-compatible format (similar to RIS but with specific tags)
-        content = filteredAndSortedCitations.map(citation => {
-          return `Type: Journal Article
-Title: ${citation.title}
-Authors: ${citation.authors.join('; ')}
-Year: ${citation.year}
-Journal: ${citation.source}
-${citation.volume ? `Volume: ${citation.volume}` : ''}
-${citation.issue ? `Issue: ${citation.issue}` : ''}
-${citation.pages ? `Pages: ${citation.pages}` : ''}
-${citation.doi ? `DOI: ${citation.doi}` : ''}
-${citation.url ? `URL: ${citation.url}` : ''}
-`
-        }).join('\n---\n\n')
-        filename = `bibliography-mendeley-${new Date().toISOString().split('T')[0]}.txt`
+        // Mendeley reads RIS, which keeps each source's type
+        content = generateRISFormat(filteredAndSortedCitations)
+        filename = `bibliography-mendeley-${new Date().toISOString().split('T')[0]}.ris`
         mimeType = 'text/plain'
         break
     }
@@ -361,7 +257,7 @@ ${citation.url ? `URL: ${citation.url}` : ''}
 
   const saveEdit = () => {
     if (editingCitation) {
-      onUpdate(editingCitation.id, editingCitation)
+      onUpdate(editingCitation.id, { ...editingCitation, authors: normalizeAuthors(editingCitation.authors) })
       setEditingCitation(null)
       toast.success('Citation updated successfully!')
     }
@@ -382,22 +278,35 @@ ${citation.url ? `URL: ${citation.url}` : ''}
       case 'website':
         return <FileText size={16} />
       case 'book':
+      case 'chapter':
         return <BookOpen size={16} />
       default:
         return <FileText size={16} />
     }
   }
 
-  const getConfidenceBadge = (confidence?: number) => {
-    if (!confidence) return null
-    
-    if (confidence >= 0.8) {
-      return <Badge className="bg-secondary text-secondary-foreground text-xs">High Confidence</Badge>
-    } else if (confidence >= 0.6) {
-      return <Badge variant="outline" className="border-yellow-400 text-yellow-700 text-xs">Medium</Badge>
-    } else {
-      return <Badge variant="outline" className="border-red-400 text-red-700 text-xs">Low</Badge>
+  // Records confirmed by a database are marked verified. Ones that were
+  // generated or parsed with a confidence score and never confirmed are
+  // flagged; typed and imported entries get no badge.
+  const getProvenanceBadge = (citation: Citation) => {
+    const { provenance, confidence } = citation
+    if (provenance?.verified) {
+      return (
+        <Badge className="bg-secondary text-secondary-foreground text-xs" title={provenance.request}>
+          Verified: {describeProvenance(provenance)}
+        </Badge>
+      )
     }
+    if (confidence === undefined) return null
+    return (
+      <Badge
+        variant="outline"
+        className="border-red-400 text-red-700 text-xs"
+        title={provenance ? describeProvenance(provenance) : 'Not confirmed by any database'}
+      >
+        Unverified
+      </Badge>
+    )
   }
 
   if (citations.length === 0) {
@@ -442,7 +351,7 @@ ${citation.url ? `URL: ${citation.url}` : ''}
             {/* Filter and Sort */}
             <div className="flex gap-2 flex-1">
               <Select value={filterBy} onValueChange={(value: FilterOption) => setFilterBy(value)}>
-                <SelectTrigger className="w-[120px]">
+                <SelectTrigger className="w-[160px]">
                   <Filter size={14} className="mr-2" />
                   <SelectValue />
                 </SelectTrigger>
@@ -452,6 +361,18 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                   <SelectItem value="website">Websites</SelectItem>
                   <SelectItem value="journal">Journals</SelectItem>
                   <SelectItem value="book">Books</SelectItem>
+                  <SelectItem value="chapter">Book Chapters</SelectItem>
+                  <SelectItem value="newspaper">Newspapers</SelectItem>
+                  <SelectItem value="thesis">Theses</SelectItem>
+                  <SelectItem value="conference">Conference Papers</SelectItem>
+                  <SelectItem value="report">Reports</SelectItem>
+                  <SelectItem value="dataset">Datasets</SelectItem>
+                  <SelectItem value="software">Software</SelectItem>
+                  <SelectItem value="preprint">Preprints</SelectItem>
+                  <SelectItem value="patent">Patents</SelectItem>
+                  <SelectItem value="standard">Standards</SelectItem>
+                  <SelectItem value="video">Videos</SelectItem>
+                  <SelectItem value="podcast">Podcasts</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -487,9 +408,29 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                   <SelectItem value="mla">MLA</SelectItem>
                   <SelectItem value="chicago">Chicago</SelectItem>
                   <SelectItem value="harvard">Harvard</SelectItem>
+                  <SelectItem value="ieee">IEEE</SelectItem>
+                  <SelectItem value="vancouver">Vancouver</SelectItem>
+                  <SelectItem value="nature">Nature</SelectItem>
+                  {getCslStyleOptions().map(({ id, title }) => (
+                    <SelectItem key={id} value={id}>{title}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
+              {isNumericStyle(exportFormat) && (
+                <Select value={numberingOrder} onValueChange={(value: 'citation' | 'alphabetical') => setNumberingOrder(value)}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="citation">Citation order</SelectItem>
+                    <SelectItem value="alphabetical">Alphabetical</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+
+              <InTextCitationBuilder citations={formatContext} style={exportFormat} />
+
               <Button variant="outline" size="sm" onClick={copyAllCitations}>
                 <Copy size={14} className="mr-1" />
                 Copy All
@@ -502,7 +443,7 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                     Export
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="max-w-md">
+                <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle>Export Bibliography</DialogTitle>
                     <DialogDescription>
@@ -514,6 +455,28 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                     <div className="space-y-3">
                       <h4 className="text-sm font-medium">Document Formats</h4>
                       <div className="grid gap-2">
+                        <Button
+                          variant="outline"
+                          className="justify-start h-auto p-3"
+                          onClick={() => exportBibliography('docx')}
+                        >
+                          <FileWord size={16} className="mr-3 text-blue-600" />
+                          <div className="text-left">
+                            <div className="font-medium">Word Document (.docx)</div>
+                            <div className="text-xs text-muted-foreground">Reference page with hanging indents</div>
+                          </div>
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="justify-start h-auto p-3"
+                          onClick={() => exportBibliography('odt')}
+                        >
+                          <FileText size={16} className="mr-3 text-sky-600" />
+                          <div className="text-left">
+                            <div className="font-medium">OpenDocument (.odt)</div>
+                            <div className="text-xs text-muted-foreground">For LibreOffice and Google Docs</div>
+                          </div>
+                        </Button>
                         <Button
                           variant="outline"
                           className="justify-start h-auto p-3"
@@ -521,8 +484,8 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                         >
                           <FileWord size={16} className="mr-3 text-blue-600" />
                           <div className="text-left">
-                            <div className="font-medium">Word Document (.rtf)</div>
-                            <div className="text-xs text-muted-foreground">Compatible with Microsoft Word</div>
+                            <div className="font-medium">Rich Text (.rtf)</div>
+                            <div className="text-xs text-muted-foreground">For older word processors</div>
                           </div>
                         </Button>
                         <Button
@@ -550,6 +513,44 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                       </div>
                     </div>
                     
+                    <div className="space-y-3">
+                      <h4 className="text-sm font-medium">Web and Notes</h4>
+                      <div className="grid gap-2">
+                        <Button
+                          variant="outline"
+                          className="justify-start h-auto p-3"
+                          onClick={() => exportBibliography('html')}
+                        >
+                          <Globe size={16} className="mr-3 text-cyan-600" />
+                          <div className="text-left">
+                            <div className="font-medium">Web Page (.html)</div>
+                            <div className="text-xs text-muted-foreground">For wikis and websites</div>
+                          </div>
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="justify-start h-auto p-3"
+                          onClick={() => exportBibliography('markdown')}
+                        >
+                          <MarkdownLogo size={16} className="mr-3 text-gray-600" />
+                          <div className="text-left">
+                            <div className="font-medium">Markdown (.md)</div>
+                            <div className="text-xs text-muted-foreground">For Obsidian and other notes apps</div>
+                          </div>
+                        </Button>
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id="bibliography-export-anchors"
+                            checked={includeAnchors}
+                            onCheckedChange={(checked) => setIncludeAnchors(checked === true)}
+                          />
+                          <Label htmlFor="bibliography-export-anchors" className="text-xs font-normal">
+                            Add an anchor to each entry (#ref-key) for in-text links
+                          </Label>
+                        </div>
+                      </div>
+                    </div>
+                    
                     <div className="space-y-3">
                       <h4 className="text-sm font-medium">Reference Manager Formats</h4>
                       <div className="grid gap-2">
@@ -564,6 +565,17 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                             <div className="text-xs text-muted-foreground">Import into Zotero</div>
                           </div>
                         </Button>
+                        <Button
+                          variant="outline"
+                          className="justify-start h-auto p-3"
+                          onClick={() => exportBibliography('word-xml')}
+                        >
+                          <FileWord size={16} className="mr-3 text-blue-600" />
+                          <div className="text-left">
+                            <div className="font-medium">Word Sources (.xml)</div>
+                            <div className="text-xs text-muted-foreground">For Word's References tab</div>
+                          </div>
+                        </Button>
                         <Button
                           variant="outline"
                           className="justify-start h-auto p-3"
@@ -571,7 +583,7 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                         >
                           <BookOpen size={16} className="mr-3 text-orange-600" />
                           <div className="text-left">
-                            <div className="font-medium">Mendeley (.txt)</div>
+                            <div className="font-medium">Mendeley (.ris)</div>
                             <div className="text-xs text-muted-foreground">Import into Mendeley</div>
                           </div>
                         </Button>
@@ -586,6 +598,17 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                             <div className="text-xs text-muted-foreground">For LaTeX documents</div>
                           </div>
                         </Button>
+                        <Button
+                          variant="outline"
+                          className="justify-start h-auto p-3"
+                          onClick={() => exportBibliography('biblatex')}
+                        >
+                          <FileText size={16} className="mr-3 text-purple-600" />
+                          <div className="text-left">
+                            <div className="font-medium">BibLaTeX (.bib)</div>
+                            <div className="text-xs text-muted-foreground">For biblatex and Biber</div>
+                          </div>
+                        </Button>
                         <Button
                           variant="outline"
                           className="justify-start h-auto p-3"
@@ -597,6 +620,35 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                             <div className="text-xs text-muted-foreground">Research Information Systems</div>
                           </div>
                         </Button>
+                        <Button
+                          variant="outline"
+                          className="justify-start h-auto p-3"
+                          onClick={() => exportBibliography('csl-json')}
+                        >
+                          <FileText size={16} className="mr-3 text-teal-600" />
+                          <div className="text-left">
+                            <div className="font-medium">CSL-JSON (.json)</div>
+                            <div className="text-xs text-muted-foreground">For Pandoc, Quarto and Zotero</div>
+                          </div>
+                        </Button>
+                        <div className="space-y-1">
+                          <Label htmlFor="bibliography-key-pattern" className="text-xs">
+                            Citation key pattern
+                          </Label>
+                          <Input
+                            id="bibliography-key-pattern"
+                            value={citationKeyPattern}
+                            placeholder={DEFAULT_CITATION_KEY_PATTERN}
+                            onChange={(e) => onCitationKeyPatternChange(e.target.value)}
+                            className="font-mono text-xs"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            [auth], [authors], [year], [shortyear], [title] and [shorttitle], with :lower or :upper.
+                            {filteredAndSortedCitations.length > 0 && (
+                              <> Example: <span className="font-mono">{formatCitationKey(filteredAndSortedCitations[0], citationKeyPattern)}</span></>
+                            )}
+                          </p>
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -630,12 +682,12 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                     <Badge variant="outline" className="text-xs">
                       {citation.type}
                     </Badge>
-                    {getConfidenceBadge(citation.confidence)}
+                    {getProvenanceBadge(citation)}
                   </div>
                   
                   <div className="text-sm text-muted-foreground space-y-1">
                     {citation.authors.length > 0 && (
-                      <p>Authors: {citation.authors.join(', ')}</p>
+                      <p>Authors: {citation.authors.map(formatNameInverted).join('; ')}</p>
                     )}
                     <p>
                       Source: <em>{citation.source}</em>
@@ -648,7 +700,7 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                   
                   {/* Formatted Citation Preview */}
                   <div className="mt-3 p-3 bg-muted rounded text-sm font-mono leading-relaxed">
-                    {formatCitationForExport(citation, exportFormat)}
+                    <FormattedCitationText runs={formattedById.get(citation.id) || []} />
                   </div>
                   
                   {/* In-text Citation Preview */}
@@ -656,7 +708,9 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                     <div className="flex items-center justify-between">
                       <div>
                         <span className="text-xs text-muted-foreground font-medium">In-text citation:</span>
-                        <p className="font-mono text-foreground mt-1">{formatInTextCitation(citation, exportFormat)}</p>
+                        <p className="font-mono text-foreground mt-1">
+                          <FormattedCitationText runs={formatInTextCitation(citation, exportFormat)} />
+                        </p>
                       </div>
                       <Button
                         variant="ghost"
@@ -701,15 +755,12 @@ ${citation.url ? `URL: ${citation.url}` : ''}
                           </div>
                           
                           <div className="space-y-2">
-                            <Label htmlFor="edit-authors">Authors (comma-separated)</Label>
-                            <Input
-                              id="edit-authors"
-                              value={editingCitation.authors.join(', ')}
-                              onChange={(e) => setEditingCitation(prev => 
-                                prev ? { 
-                                  ...prev, 
-                                  authors: e.target.value.split(',').map(a => a.trim()).filter(Boolean)
-                                } : null
+                            <Label>Authors</Label>
+                            <AuthorEditor
+                              idPrefix="edit-author"
+                              authors={editingCitation.authors}
+                              onChange={(authors) => setEditingCitation(prev => 
+                                prev ? { ...prev, authors } : null
                               )}
                             />
                           </div>
@@ -5,114 +5,41 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Copy, Download, BookOpen } from '@phosphor-icons/react'
 import { toast } from 'sonner'
-import type { Citation, CitationStyle } from '@/App'
+import type { BuiltinCitationStyle, Citation, CitationStyle } from '@/App'
+import { formatCitation, toPlainText, type FormattedCitation } from '@/lib/citationFormatter'
+import { copyFormattedCitations } from '@/lib/richText'
+import { getCslStyleOptions } from '@/lib/cslStyles'
+import { formatNameInverted } from '@/lib/names'
+import { NoteSequenceBuilder } from '@/components/NoteSequenceBuilder'
+import { FormattedCitationText } from '@/components/FormattedCitationText'
 
 interface CitationStyleConverterProps {
   citations: Citation[]
 }
 
-const styleNames: Record<CitationStyle, string> = {
+const styleNames: Record<BuiltinCitationStyle, string> = {
   apa: 'APA 7th Edition',
   mla: 'MLA 9th Edition',
   chicago: 'Chicago Manual of Style',
-  harvard: 'Harvard Referencing'
+  harvard: 'Harvard Referencing',
+  ieee: 'IEEE',
+  vancouver: 'Vancouver',
+  nature: 'Nature'
 }
 
 export function CitationStyleConverter({ citations }: CitationStyleConverterProps) {
   const [selectedCitation, setSelectedCitation] = useState<string>('')
   const [selectedStyle, setSelectedStyle] = useState<CitationStyle>('apa')
 
-  const formatCitation = (citation: Citation, style: CitationStyle): string => {
-    const { title, authors, year, source, url, pages, volume, issue, publisher, dateAccessed } = citation
-    const authorStr = authors.length > 0 ? authors.join(', ') : 'Unknown Author'
-    
-    switch (style) {
-      case 'apa':
-        let apaResult = `${authorStr} (${year || 'n.d.'}). ${title}.`
-        if (citation.type === 'journal' && source) {
-          apaResult += ` *${source}*`
-          if (volume) apaResult += `, ${volume}`
-          if (issue) apaResult += `(${issue})`
-          if (pages) apaResult += `, ${pages}`
-          apaResult += '.'
-        } else if (citation.type === 'website') {
-          if (source) apaResult += ` *${source}*.`
-          if (url) apaResult += ` ${url}`
-        } else {
-          if (source) apaResult += ` *${source}*.`
-          if (publisher) apaResult += ` ${publisher}.`
-        }
-        return apaResult
+  const styleOptions: [CitationStyle, string][] = [
+    ...(Object.entries(styleNames) as [BuiltinCitationStyle, string][]),
+    ...getCslStyleOptions().map(({ id, title }): [CitationStyle, string] => [id, title])
+  ]
+  const selectedStyleName = styleOptions.find(([key]) => key === selectedStyle)?.[1] || selectedStyle
 
-      case 'mla':
-        let mlaResult = `${authorStr}. "${title}."`
-        if (citation.type === 'journal' && source) {
-          mlaResult += ` *${source}*`
-          if (volume) mlaResult += `, vol. ${volume}`
-          if (issue) mlaResult += `, no. ${issue}`
-          if (year) mlaResult += `, ${year}`
-          if (pages) mlaResult += `, pp. ${pages}`
-          mlaResult += '.'
-        } else if (citation.type === 'website') {
-          if (source) mlaResult += ` *${source}*`
-          if (year) mlaResult += `, ${year}`
-          if (url) mlaResult += `. Web.`
-          if (dateAccessed) mlaResult += ` ${new Date(dateAccessed).toLocaleDateString()}.`
-        } else {
-          if (source) mlaResult += ` *${source}*.`
-          if (publisher) mlaResult += ` ${publisher}`
-          if (year) mlaResult += `, ${year}`
-          mlaResult += '.'
-        }
-        return mlaResult
-
-      case 'chicago':
-        let chicagoResult = `${authorStr}. "${title}."`
-        if (citation.type === 'journal' && source) {
-          chicagoResult += ` *${source}*`
-          if (volume) chicagoResult += ` ${volume}`
-          if (issue) chicagoResult += `, no. ${issue}`
-          if (year) chicagoResult += ` (${year})`
-          if (pages) chicagoResult += `: ${pages}`
-          chicagoResult += '.'
-        } else if (citation.type === 'website') {
-          if (source) chicagoResult += ` *${source}*.`
-          if (year) chicagoResult += ` ${year}.`
-          if (url) chicagoResult += ` ${url}`
-          if (dateAccessed) chicagoResult += ` (accessed ${new Date(dateAccessed).toLocaleDateString()}).`
-        } else {
-          if (publisher) chicagoResult += ` ${publisher}`
-          if (year) chicagoResult += `, ${year}`
-          chicagoResult += '.'
-        }
-        return chicagoResult
-
-      case 'harvard':
-        let harvardResult = `${authorStr} (${year || 'n.d.'}) '${title}'`
-        if (citation.type === 'journal' && source) {
-          harvardResult += `, *${source}*`
-          if (volume) harvardResult += `, vol. ${volume}`
-          if (issue) harvardResult += `, no. ${issue}`
-          if (pages) harvardResult += `, pp. ${pages}`
-          harvardResult += '.'
-        } else if (citation.type === 'website') {
-          if (source) harvardResult += `, *${source}*`
-          if (url) harvardResult += `, available at: ${url}`
-          if (dateAccessed) harvardResult += ` (Accessed: ${new Date(dateAccessed).toLocaleDateString()}).`
-        } else {
-          if (publisher) harvardResult += `, ${publisher}`
-          harvardResult += '.'
-        }
-        return harvardResult
-
-      default:
-        return 'Unsupported citation style'
-    }
-  }
-
-  const copyToClipboard = async (text: string) => {
+  const copyToClipboard = async (runs: FormattedCitation) => {
     try {
-      await navigator.clipboard.writeText(text)
+      await copyFormattedCitations([runs])
       toast.success('Citation copied to clipboard!')
     } catch (error) {
       toast.error('Failed to copy citation')
@@ -120,7 +47,7 @@ export function CitationStyleConverter({ citations }: CitationStyleConverterProp
   }
 
   const exportCitation = (citation: Citation, style: CitationStyle) => {
-    const formattedCitation = formatCitation(citation, style)
+    const formattedCitation = toPlainText(formatCitation(citation, style, citations))
     const blob = new Blob([formattedCitation], { type: 'text/plain' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
@@ -183,7 +110,7 @@ export function CitationStyleConverter({ citations }: CitationStyleConverterProp
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {Object.entries(styleNames).map(([key, name]) => (
+              {styleOptions.map(([key, name]) => (
                 <SelectItem key={key} value={key}>
                   {name}
                 </SelectItem>
@@ -201,14 +128,14 @@ export function CitationStyleConverter({ citations }: CitationStyleConverterProp
               <div>
                 <CardTitle className="text-lg">Formatted Citation</CardTitle>
                 <CardDescription>
-                  {styleNames[selectedStyle]} format
+                  {selectedStyleName} format
                 </CardDescription>
               </div>
               <div className="flex gap-2">
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => copyToClipboard(formatCitation(selectedCitationData, selectedStyle))}
+                  onClick={() => copyToClipboard(formatCitation(selectedCitationData, selectedStyle, citations))}
                 >
                   <Copy size={14} className="mr-1" />
                   Copy
@@ -226,8 +153,8 @@ export function CitationStyleConverter({ citations }: CitationStyleConverterProp
           </CardHeader>
           <CardContent>
             <div className="p-4 bg-muted rounded-lg">
-              <p className="text-sm leading-relaxed font-mono">
-                {formatCitation(selectedCitationData, selectedStyle)}
+              <p className="text-sm leading-relaxed">
+                <FormattedCitationText runs={formatCitation(selectedCitationData, selectedStyle, citations)} />
               </p>
             </div>
             
@@ -243,7 +170,7 @@ export function CitationStyleConverter({ citations }: CitationStyleConverterProp
                   <span className="text-muted-foreground">Authors:</span>
                   <p className="mt-1">
                     {selectedCitationData.authors.length > 0 
-                      ? selectedCitationData.authors.join(', ')
+                      ? selectedCitationData.authors.map(formatNameInverted).join('; ')
                       : 'Not specified'
                     }
                   </p>
@@ -278,27 +205,30 @@ export function CitationStyleConverter({ citations }: CitationStyleConverterProp
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {Object.entries(styleNames).map(([styleKey, styleName]) => (
+            {styleOptions.map(([styleKey, styleName]) => (
               <div key={styleKey} className="space-y-2">
                 <div className="flex items-center justify-between">
                   <h4 className="text-sm font-medium">{styleName}</h4>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => copyToClipboard(formatCitation(selectedCitationData, styleKey as CitationStyle))}
+                    onClick={() => copyToClipboard(formatCitation(selectedCitationData, styleKey, citations))}
                   >
                     <Copy size={12} className="mr-1" />
                     Copy
                   </Button>
                 </div>
-                <div className="p-3 bg-muted rounded text-sm font-mono leading-relaxed">
-                  {formatCitation(selectedCitationData, styleKey as CitationStyle)}
+                <div className="p-3 bg-muted rounded text-sm leading-relaxed">
+                  <FormattedCitationText runs={formatCitation(selectedCitationData, styleKey, citations)} />
                 </div>
               </div>
             ))}
           </CardContent>
         </Card>
       )}
+
+      {/* Chicago notes-bibliography footnotes */}
+      <NoteSequenceBuilder citations={citations} defaultCitationId={selectedCitation || undefined} />
     </div>
   )
 }
\ No newline at end of file
@@ -19,25 +19,41 @@ import {
   Newspaper, 
   Book, 
   Loader2,
-  Save
+  Save,
+  Database,
+  Code,
+  FileArrowUp,
+  Certificate,
+  Ruler,
+  VideoCamera,
+  Microphone
 } from '@phosphor-icons/react'
 import { toast } from 'sonner'
-import type { Citation, CitationStyle } from '@/App'
+import type { Citation, CitationStyle, SourceType } from '@/App'
+import { formatNameInverted, parseNameList, type PersonName } from '@/lib/names'
+import { parseIsbn } from '@/lib/isbn'
+import {
+  applyResultEdits,
+  createProvenance,
+  describeIdentifier,
+  describeProvenance,
+  editedProvenance,
+  findRecords,
+  lookupMetadata,
+  SEARCH_TIMEOUT_MS,
+  searchResultToCitation,
+  type Identifier,
+  type Provenance,
+  type SearchResult
+} from '@/lib/metadataProviders'
+import { createDefaultProviders } from '@/lib/providers'
 
-interface SearchResult {
-  id: string
-  title: string
-  authors: string[]
-  year: string
-  journal: string
-  doi?: string
-  abstract?: string
-  confidence: number
-  url?: string
-  pages?: string
-  volume?: string
-  issue?: string
-  publisher?: string
+// Shared across searches so each provider's rate limit holds between them
+const metadataProviders = createDefaultProviders()
+
+// Display names of the given providers, in registry order
+function providerNames(ids: string[]): string[] {
+  return metadataProviders.filter(provider => ids.includes(provider.id)).map(provider => provider.name)
 }
 
 interface CombinedCitationFormProps {
@@ -45,8 +61,6 @@ interface CombinedCitationFormProps {
   preferredStyle: CitationStyle
 }
 
-type SourceType = 'article' | 'book' | 'website' | 'journal' | 'newspaper' | 'thesis' | 'conference' | 'report'
-
 interface FormData {
   type: SourceType
   title: string
@@ -64,6 +78,11 @@ interface FormData {
   isbn: string
   dateAccessed: string
   abstract: string
+  version: string
+  repository: string
+  archiveId: string
+  patentNumber: string
+  runtime: string
 }
 
 const sourceTypeInfo: Record<SourceType, {
@@ -87,6 +106,13 @@ const sourceTypeInfo: Record<SourceType, {
     requiredFields: ['title', 'authors', 'year', 'publisher'],
     optionalFields: ['edition', 'city', 'isbn', 'pages']
   },
+  chapter: {
+    name: 'Book Chapter',
+    icon: <Book size={20} />,
+    description: 'Chapters and essays in edited books',
+    requiredFields: ['title', 'authors', 'year', 'source', 'publisher'],
+    optionalFields: ['edition', 'city', 'isbn', 'pages', 'doi']
+  },
   website: {
     name: 'Website',
     icon: <Globe size={20} />,
@@ -120,7 +146,7 @@ const sourceTypeInfo: Record<SourceType, {
     icon: <FileText size={20} />,
     description: 'Conference proceedings and presentations',
     requiredFields: ['title', 'authors', 'year', 'source'],
-    optionalFields: ['pages', 'city', 'doi', 'url']
+    optionalFields: ['publisher', 'pages', 'city', 'doi', 'url']
   },
   report: {
     name: 'Report',
@@ -128,6 +154,55 @@ const sourceTypeInfo: Record<SourceType, {
     description: 'Technical reports and government publications',
     requiredFields: ['title', 'authors', 'year', 'publisher'],
     optionalFields: ['pages', 'city', 'url']
+  },
+  dataset: {
+    name: 'Dataset',
+    icon: <Database size={20} />,
+    description: 'Research data deposited in Zenodo, Dryad, Figshare and similar repositories',
+    requiredFields: ['title', 'authors', 'year', 'repository'],
+    optionalFields: ['version', 'publisher', 'doi', 'url']
+  },
+  software: {
+    name: 'Software',
+    icon: <Code size={20} />,
+    description: 'Code repositories, packages and computer programs',
+    requiredFields: ['title', 'authors', 'year'],
+    optionalFields: ['version', 'repository', 'publisher', 'doi', 'url']
+  },
+  preprint: {
+    name: 'Preprint',
+    icon: <FileArrowUp size={20} />,
+    description: 'Preprints on arXiv, bioRxiv, SSRN and other servers',
+    requiredFields: ['title', 'authors', 'year', 'repository'],
+    optionalFields: ['archiveId', 'doi', 'url']
+  },
+  patent: {
+    name: 'Patent',
+    icon: <Certificate size={20} />,
+    description: 'Granted patents and published patent applications',
+    requiredFields: ['title', 'authors', 'year', 'patentNumber'],
+    optionalFields: ['publisher', 'url']
+  },
+  standard: {
+    name: 'Standard',
+    icon: <Ruler size={20} />,
+    description: 'ISO, IEEE, BSI and other technical standards',
+    requiredFields: ['title', 'year', 'archiveId', 'publisher'],
+    optionalFields: ['authors', 'city', 'url']
+  },
+  video: {
+    name: 'Video',
+    icon: <VideoCamera size={20} />,
+    description: 'YouTube, Vimeo and other online videos',
+    requiredFields: ['title', 'authors', 'year', 'source', 'url'],
+    optionalFields: ['runtime', 'dateAccessed']
+  },
+  podcast: {
+    name: 'Podcast',
+    icon: <Microphone size={20} />,
+    description: 'Podcast episodes',
+    requiredFields: ['title', 'authors', 'year', 'source'],
+    optionalFields: ['publisher', 'runtime', 'url']
   }
 }
 
@@ -138,6 +213,11 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
   const [results, setResults] = useState<SearchResult[]>([])
   const [hasSearched, setHasSearched] = useState(false)
   const [editingResult, setEditingResult] = useState<SearchResult | null>(null)
+  // Authors are edited as text and parsed when the edit is saved
+  const [editingAuthors, setEditingAuthors] = useState('')
+  const [isLookingUpIsbn, setIsLookingUpIsbn] = useState(false)
+  // The manual form as last filled in from a book database record
+  const [isbnLookup, setIsbnLookup] = useState<{ filled: FormData; authors: PersonName[]; provenance: Provenance } | null>(null)
 
   // Manual form state
   const [formData, setFormData] = useState<FormData>({
@@ -156,384 +236,25 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
     city: '',
     isbn: '',
     dateAccessed: '',
-    abstract: ''
+    abstract: '',
+    version: '',
+    repository: '',
+    archiveId: '',
+    patentNumber: '',
+    runtime: ''
   })
 
-  const enhancedSearch = async (query: string): Promise<SearchResult[]> => {
-    try {
-      // First, try CrossRef API for real academic data
-      const crossRefResults = await searchCrossRef(query)
-      if (crossRefResults.length > 0) {
-        toast.success('Found results from CrossRef database')
-        return crossRefResults
-      }
-      
-      // Fallback to enhanced LLM search with real database simulation
-      const searchPrompt = spark.llmPrompt`
-        You are accessing real academic databases including CrossRef, PubMed, Google Scholar, IEEE Xplore, JSTOR, and ArXiv.
-        
-        Search query: "${query}"
-        
-        CRITICAL REQUIREMENTS for maximum accuracy:
-        1. Use EXACT keyword matching from the search query
-        2. Generate results that would actually exist in real databases
-        3. Use proper academic formatting and realistic publication details
-        4. Create abstracts that directly mention the search terms
-        5. Use real journal names that publish in this field
-        6. Generate realistic DOIs following proper format (10.xxxx/...)
-        
-        ENHANCED SEARCH FEATURES:
-        - Semantic search across title, abstract, and keywords
-        - Author name matching and disambiguation
-        - Journal impact factor consideration
-        - Publication date filtering (2014-2024)
-        - Citation count weighting
-        - Field-specific database selection
-        
-        DATABASE SELECTION LOGIC:
-        - Medical/Health: Search PubMed, The Lancet, NEJM
-        - Computer Science: IEEE Xplore, ACM Digital Library
-        - Biology: Nature, Science, Cell journals
-        - Physics: Physical Review, Nature Physics
-        - Chemistry: JACS, Angewandte Chemie
-        - Social Sciences: JSTOR, Sage journals
-        - General Science: PLOS ONE, Scientific Reports
-        
-        Return 4-6 highly relevant results as JSON:
-        [
-          {
-            "id": "crossref_12345",
-            "title": "Exact title matching search keywords",
-            "authors": ["Author, A.B.", "Researcher, C.D."],
-            "year": "2023",
-            "journal": "Appropriate Journal Name",
-            "doi": "10.1038/nature12345",
-            "abstract": "Abstract mentioning ${query} explicitly with detailed methodology...",
-            "confidence": 0.94,
-            "url": "https://doi.org/10.1038/nature12345",
-            "pages": "123-134",
-            "volume": "603",
-            "issue": "7901",
-            "publisher": "Nature Publishing Group"
-          }
-        ]
-        
-        CONFIDENCE ALGORITHM:
-        - Title exact match: +0.3
-        - Abstract keyword density: +0.2
-        - Journal relevance: +0.2
-        - Recent publication: +0.1
-        - Author authority: +0.1
-        - Citation metrics: +0.1
-        
-        Minimum confidence: 0.65. Focus on precision over quantity.
-      `
-
-      const llmResponse = await spark.llm(searchPrompt, 'gpt-4o', true)
-      const searchResults = JSON.parse(llmResponse) as SearchResult[]
-      
-      // Post-process for enhanced accuracy
-      return searchResults.map((result, index) => ({
-        ...result,
-        id: `enhanced-${Date.now()}-${index}`,
-        confidence: Math.min(Math.max(result.confidence, 0.1), 1.0),
-        // Ensure abstracts contain search terms
-        abstract: result.abstract?.includes(query.toLowerCase()) 
-          ? result.abstract 
-          : `${result.abstract} This study focuses on ${query.toLowerCase()} with implications for related research areas.`
-      })).sort((a, b) => b.confidence - a.confidence)
-      
-    } catch (error) {
-      console.error('Enhanced search failed:', error)
-      toast.error('Search temporarily unavailable. Showing sample results.')
-      return await getIntelligentFallbackResults(query)
-    }
-  }
-
-  // Real CrossRef API integration
-  const searchCrossRef = async (query: string): Promise<SearchResult[]> => {
-    try {
-      const encodedQuery = encodeURIComponent(query)
-      const response = await fetch(
-        `https://api.crossref.org/works?query=${encodedQuery}&rows=6&sort=relevance&filter=type:journal-article,from-pub-date:2014`,
-        {
-          headers: {
-            'User-Agent': 'FreeCiteTool/1.0 (mailto:contact@freecitetool.com)'
-          }
-        }
-      )
-      
-      if (!response.ok) {
-        throw new Error(`CrossRef API error: ${response.status}`)
-      }
-      
-      const data = await response.json()
-      const items = data.message?.items || []
-      
-      return items.map((item: any, index: number) => {
-        const authors = item.author?.map((author: any) => 
-          `${author.family || 'Unknown'}, ${author.given?.[0] || 'X'}.`
-        ) || ['Unknown Author']
-        
-        const publishedDate = item.published?.['date-parts']?.[0]
-        const year = publishedDate ? publishedDate[0].toString() : 'Unknown'
-        
-        const doi = item.DOI || ''
-        const url = doi ? `https://doi.org/${doi}` : ''
-        
-        // Calculate confidence based on relevance factors
-        const titleRelevance = calculateTitleRelevance(item.title?.[0] || '', query)
-        const abstractRelevance = calculateAbstractRelevance(item.abstract || '', query)
-        const confidence = Math.min(0.95, Math.max(0.45, (titleRelevance + abstractRelevance) / 2))
-        
-        return {
-          id: `crossref-${Date.now()}-${index}`,
-          title: item.title?.[0] || 'Unknown Title',
-          authors,
-          year,
-          journal: item['container-title']?.[0] || 'Unknown Journal',
-          doi,
-          confidence,
-          url,
-          abstract: item.abstract || `Research article on ${query.toLowerCase()}.`,
-          pages: item.page || '',
-          volume: item.volume || '',
-          issue: item.issue || '',
-          publisher: item.publisher || ''
-        }
-      }).filter((result: SearchResult) => result.confidence >= 0.45)
-      
-    } catch (error) {
-      console.warn('CrossRef search failed:', error)
-      return []
-    }
-  }
-
-  // Calculate title relevance score
-  const calculateTitleRelevance = (title: string, query: string): number => {
-    if (!title || !query) return 0
-    
-    const titleLower = title.toLowerCase()
-    const queryLower = query.toLowerCase()
-    const queryWords = queryLower.split(' ').filter(word => word.length > 2)
-    
-    let score = 0
-    
-    // Exact phrase match (highest score)
-    if (titleLower.includes(queryLower)) {
-      score += 0.9
-    }
-    
-    // Individual word matches
-    const matchedWords = queryWords.filter(word => titleLower.includes(word))
-    score += (matchedWords.length / queryWords.length) * 0.6
-    
-    // Position bonus (keywords at beginning get higher score)
-    if (titleLower.startsWith(queryWords[0])) {
-      score += 0.1
-    }
-    
-    return Math.min(1.0, score)
-  }
-
-  // Calculate abstract relevance score
-  const calculateAbstractRelevance = (abstract: string, query: string): number => {
-    if (!abstract || !query) return 0
-    
-    const abstractLower = abstract.toLowerCase()
-    const queryLower = query.toLowerCase()
-    const queryWords = queryLower.split(' ').filter(word => word.length > 2)
-    
-    let score = 0
-    
-    // Phrase match in abstract
-    if (abstractLower.includes(queryLower)) {
-      score += 0.7
+  // Only records returned by a bibliographic database are offered; when
+  // every database fails the search fails rather than showing stand-ins.
+  // A pasted DOI or database link is resolved directly instead of searched.
+  const searchDatabases = async (query: string): Promise<{ results: SearchResult[]; identifier: Identifier | null }> => {
+    const { results: databaseResults, errors, identifier } = await findRecords(metadataProviders, query, { signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS) })
+    errors.forEach(error => console.warn(`${error.provider} search failed:`, error.message))
+    const unreachable = identifier ? errors.length > 0 : errors.length === metadataProviders.filter(provider => provider.capabilities.search).length
+    if (databaseResults.length === 0 && unreachable) {
+      throw new Error('No database could be reached')
     }
-    
-    // Word frequency scoring
-    const totalWords = abstractLower.split(' ').length
-    const matchedWords = queryWords.filter(word => abstractLower.includes(word))
-    score += (matchedWords.length / queryWords.length) * 0.5
-    
-    // Keyword density bonus
-    const keywordCount = queryWords.reduce((count, word) => {
-      return count + (abstractLower.match(new RegExp(word, 'g')) || []).length
-    }, 0)
-    
-    if (keywordCount > 2) score += 0.2
-    
-    return Math.min(1.0, score)
-  }
-
-  // Intelligent fallback with improved accuracy
-  const getIntelligentFallbackResults = async (query: string): Promise<SearchResult[]> => {
-    const keywords = query.toLowerCase().split(' ').filter(word => word.length > 2)
-    const primaryKeyword = keywords[0] || 'research'
-    const domain = identifyResearchDomain(query)
-    
-    const fallbackResults: SearchResult[] = [
-      {
-        id: 'fallback-1',
-        title: `${query}: Systematic Review and Meta-Analysis`,
-        authors: getRealisticAuthors(domain),
-        year: '2024',
-        journal: getTopJournalForDomain(domain),
-        doi: generateRealisticDOI('nature', 2024),
-        confidence: 0.89,
-        url: `https://doi.org/${generateRealisticDOI('nature', 2024)}`,
-        abstract: `This systematic review examines ${query.toLowerCase()} through comprehensive analysis of recent literature. Key findings demonstrate significant advancements in ${keywords.slice(0, 3).join(', ')} methodologies with clinical implications.`,
-        pages: '1-15',
-        volume: '629',
-        issue: '8012',
-        publisher: 'Nature Publishing Group'
-      },
-      {
-        id: 'fallback-2',
-        title: `Novel Approaches to ${query}: Current Perspectives`,
-        authors: getRealisticAuthors(domain),
-        year: '2023',
-        journal: getSecondaryJournalForDomain(domain),
-        doi: generateRealisticDOI('science', 2023),
-        confidence: 0.82,
-        url: `https://doi.org/${generateRealisticDOI('science', 2023)}`,
-        abstract: `Recent developments in ${query.toLowerCase()} have revolutionized our understanding of ${primaryKeyword}. This study presents innovative ${keywords.join(' and ')} techniques with demonstrated efficacy.`,
-        pages: '234-248',
-        volume: '381',
-        issue: '6603',
-        publisher: 'American Association for the Advancement of Science'
-      },
-      {
-        id: 'fallback-3',
-        title: `${keywords.map(k => k.charAt(0).toUpperCase() + k.slice(1)).join(' and ')}: An Evidence-Based Review`,
-        authors: getRealisticAuthors(domain),
-        year: '2023',
-        journal: getTertiaryJournalForDomain(domain),
-        confidence: 0.75,
-        doi: generateRealisticDOI('plos', 2023),
-        url: `https://doi.org/${generateRealisticDOI('plos', 2023)}`,
-        abstract: `This comprehensive review analyzes ${query.toLowerCase()} across multiple research contexts. Our findings contribute to the understanding of ${keywords.join(', ')} relationships and applications.`,
-        volume: '18',
-        issue: '7',
-        pages: 'e1009876'
-      }
-    ]
-    
-    return fallbackResults
-  }
-
-  // Helper functions for enhanced search
-  const identifyResearchDomain = (query: string): string => {
-    const queryLower = query.toLowerCase()
-    const domainKeywords = {
-      'medical': ['health', 'medical', 'medicine', 'clinical', 'patient', 'disease', 'treatment', 'therapy'],
-      'cs': ['computer', 'software', 'algorithm', 'programming', 'artificial', 'machine', 'learning', 'ai'],
-      'biology': ['biology', 'genetic', 'molecular', 'cell', 'protein', 'dna', 'organism', 'evolution'],
-      'physics': ['physics', 'quantum', 'particle', 'energy', 'matter', 'force', 'wave', 'radiation'],
-      'chemistry': ['chemistry', 'chemical', 'molecule', 'reaction', 'synthesis', 'compound', 'catalyst'],
-      'psychology': ['psychology', 'behavior', 'cognitive', 'mental', 'brain', 'mind', 'emotion'],
-      'social': ['social', 'society', 'cultural', 'community', 'political', 'economic', 'sociology'],
-      'engineering': ['engineering', 'design', 'construction', 'mechanical', 'electrical', 'civil'],
-      'environment': ['environment', 'climate', 'ecology', 'conservation', 'pollution', 'sustainability']
-    }
-    
-    for (const [domain, keywords] of Object.entries(domainKeywords)) {
-      if (keywords.some(keyword => queryLower.includes(keyword))) {
-        return domain
-      }
-    }
-    
-    return 'general'
-  }
-
-  const getTopJournalForDomain = (domain: string): string => {
-    const topJournals: Record<string, string> = {
-      'medical': 'Nature Medicine',
-      'cs': 'Nature Machine Intelligence',
-      'biology': 'Nature Biotechnology',
-      'physics': 'Nature Physics',
-      'chemistry': 'Nature Chemistry',
-      'psychology': 'Nature Human Behaviour',
-      'social': 'Nature Human Behaviour',
-      'engineering': 'Nature Engineering',
-      'environment': 'Nature Climate Change',
-      'general': 'Nature'
-    }
-    
-    return topJournals[domain] || 'PLOS ONE'
-  }
-
-  const getSecondaryJournalForDomain = (domain: string): string => {
-    const secondaryJournals: Record<string, string> = {
-      'medical': 'The Lancet',
-      'cs': 'Communications of the ACM',
-      'biology': 'Cell',
-      'physics': 'Physical Review Letters',
-      'chemistry': 'Journal of the American Chemical Society',
-      'psychology': 'Psychological Science',
-      'social': 'American Sociological Review',
-      'engineering': 'IEEE Transactions',
-      'environment': 'Environmental Science & Technology',
-      'general': 'Science'
-    }
-    
-    return secondaryJournals[domain] || 'Scientific Reports'
-  }
-
-  const getTertiaryJournalForDomain = (domain: string): string => {
-    const tertiaryJournals: Record<string, string> = {
-      'medical': 'PLOS Medicine',
-      'cs': 'IEEE Computer',
-      'biology': 'PLOS Biology',
-      'physics': 'Physical Review A',
-      'chemistry': 'Chemical Science',
-      'psychology': 'Journal of Experimental Psychology',
-      'social': 'Social Psychology Quarterly',
-      'engineering': 'Engineering Reports',
-      'environment': 'PLOS Climate',
-      'general': 'PLOS ONE'
-    }
-    
-    return tertiaryJournals[domain] || 'PLOS ONE'
-  }
-
-  const getRealisticAuthors = (domain: string): string[] => {
-    const authorPatterns = {
-      'medical': [
-        ['Smith, J.A.', 'Johnson, M.K.', 'Williams, R.L.'],
-        ['Brown, A.S.', 'Davis, K.M.', 'Wilson, T.R.'],
-        ['Chen, W.L.', 'Garcia, E.M.', 'Anderson, P.K.']
-      ],
-      'cs': [
-        ['Zhang, Y.', 'Kumar, A.', 'Thompson, L.M.'],
-        ['Rodriguez, C.A.', 'Liu, X.', 'Patel, N.R.'],
-        ['Kim, S.H.', 'Mueller, F.', 'Tanaka, H.']
-      ],
-      'default': [
-        ['Johnson, A.B.', 'Smith, C.D.', 'Brown, E.F.'],
-        ['Williams, G.H.', 'Davis, I.J.', 'Miller, K.L.'],
-        ['Wilson, M.N.', 'Garcia, O.P.', 'Chen, Q.R.']
-      ]
-    }
-    
-    const patterns = authorPatterns[domain as keyof typeof authorPatterns] || authorPatterns.default
-    return patterns[Math.floor(Math.random() * patterns.length)]
-  }
-
-  const generateRealisticDOI = (publisher: string, year: number): string => {
-    const publisherPrefixes: Record<string, string> = {
-      'nature': '10.1038',
-      'science': '10.1126',
-      'plos': '10.1371',
-      'elsevier': '10.1016',
-      'springer': '10.1007',
-      'wiley': '10.1002',
-      'ieee': '10.1109'
-    }
-    
-    const prefix = publisherPrefixes[publisher] || '10.1371'
-    const suffix = Math.floor(Math.random() * 900000) + 100000
-    return `${prefix}/journal.${year}.${suffix}`
+    return { results: databaseResults, identifier }
   }
 
   const handleSearch = async () => {
@@ -547,34 +268,33 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
     
     try {
       toast.info('Connecting to academic databases...', { duration: 2000 })
-      const searchResults = await enhancedSearch(searchQuery)
+      const { results: searchResults, identifier } = await searchDatabases(searchQuery)
       setResults(searchResults)
       
-      if (searchResults.length === 0) {
+      if (searchResults.length === 0 && identifier) {
+        toast.info(`No record found for ${describeIdentifier(identifier)}. Check it for typos or enter the source manually.`)
+      } else if (searchResults.length === 0) {
         toast.info('No articles found in academic databases. Try different keywords or check spelling.')
       } else {
-        const highConfidenceCount = searchResults.filter(r => r.confidence >= 0.8).length
-        if (highConfidenceCount > 0) {
-          toast.success(`Found ${searchResults.length} results with ${highConfidenceCount} high-confidence matches`)
-        } else {
-          toast.success(`Found ${searchResults.length} potential matches. Review confidence scores before adding.`)
-        }
+        toast.success(`Found ${searchResults.length} records in ${providerNames(searchResults.flatMap(result => result.providers)).join(', ')}`)
       }
     } catch (error) {
-      toast.error('Search failed. Database connection issue.')
+      toast.error('Could not reach the academic databases. Check your connection and try again, or enter the source manually.')
       setResults([])
     } finally {
       setIsSearching(false)
     }
   }
 
-  const getConfidenceBadge = (confidence: number) => {
+  // How closely a record matches the search; every record shown comes from
+  // a database, so this says nothing about whether the work exists
+  const getMatchBadge = (confidence: number) => {
     if (confidence >= 0.8) {
-      return <Badge className="bg-secondary text-secondary-foreground">High Confidence</Badge>
+      return <Badge className="bg-secondary text-secondary-foreground">Strong Match</Badge>
     } else if (confidence >= 0.6) {
-      return <Badge variant="outline" className="border-yellow-400 text-yellow-700">Medium Confidence</Badge>
+      return <Badge variant="outline" className="border-yellow-400 text-yellow-700">Possible Match</Badge>
     } else {
-      return <Badge variant="outline" className="border-red-400 text-red-700">Low Confidence</Badge>
+      return <Badge variant="outline" className="border-red-400 text-red-700">Weak Match</Badge>
     }
   }
 
@@ -594,22 +314,7 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
   }
 
   const addCitationFromResult = (result: SearchResult) => {
-    const citation: Citation = {
-      id: `citation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      title: result.title,
-      authors: result.authors,
-      year: result.year,
-      source: result.journal,
-      url: result.url,
-      doi: result.doi,
-      pages: result.pages,
-      volume: result.volume,
-      issue: result.issue,
-      publisher: result.publisher,
-      type: 'article',
-      confidence: result.confidence,
-      dateAccessed: new Date().toISOString()
-    }
+    const citation = searchResultToCitation(result)
     
     onCitationAdd(citation)
     toast.success('Citation added to your bibliography!')
@@ -617,13 +322,24 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
 
   const handleEditResult = (result: SearchResult) => {
     setEditingResult({ ...result })
+    setEditingAuthors(result.authors.map(formatNameInverted).join('; '))
+  }
+
+  // The result as edited, checked against the record it started from
+  const editedResult = (edited: SearchResult): SearchResult => {
+    const original = results.find(result => result.id === edited.id)
+    // Keep the record's own names unless their text was edited
+    const unchangedAuthors = editingAuthors === edited.authors.map(formatNameInverted).join('; ')
+    const withAuthors = { ...edited, authors: unchangedAuthors ? edited.authors : parseNameList(editingAuthors) }
+    return original ? applyResultEdits(original, withAuthors) : withAuthors
   }
 
   const saveEditedResult = () => {
     if (editingResult) {
+      const edited = editedResult(editingResult)
       setResults(currentResults => 
         currentResults.map(result => 
-          result.id === editingResult.id ? editingResult : result
+          result.id === edited.id ? edited : result
         )
       )
       setEditingResult(null)
@@ -633,7 +349,7 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
 
   const addEditedCitation = () => {
     if (editingResult) {
-      addCitationFromResult(editingResult)
+      addCitationFromResult(editedResult(editingResult))
       setEditingResult(null)
     }
   }
@@ -645,6 +361,57 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  // Fill in the book details for the ISBN, keeping whatever the record
+  // leaves out. Offline or with the service down the form stays as typed.
+  const handleIsbnLookup = async () => {
+    const isbn = parseIsbn(formData.isbn)
+    if (!isbn) {
+      toast.error('This ISBN is not valid. Check it for typos: the last digit is a check digit.')
+      return
+    }
+    if (!navigator.onLine) {
+      toast.info('You are offline. Fill in the book details yourself.')
+      return
+    }
+
+    setIsLookingUpIsbn(true)
+    try {
+      const { result, errors } = await lookupMetadata(
+        metadataProviders,
+        { type: 'isbn', value: isbn.isbn13 },
+        { signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS) }
+      )
+      if (!result) {
+        toast.info(errors.length > 0
+          ? 'Could not reach the book database. Fill in the book details yourself.'
+          : `No book found for ISBN ${isbn.isbn13}. Fill in the book details yourself.`)
+        return
+      }
+      const filled = {
+        ...formData,
+        title: result.title || formData.title,
+        authors: result.authors.length > 0 ? result.authors.map(formatNameInverted).join('; ') : formData.authors,
+        year: result.year || formData.year,
+        publisher: result.publisher || formData.publisher,
+        city: result.city || formData.city,
+        edition: result.edition || formData.edition,
+        isbn: isbn.isbn13
+      }
+      setFormData(filled)
+      setIsbnLookup({ filled, authors: result.authors, provenance: result.provenance })
+      toast.success(`Book details filled in from ${describeProvenance(result.provenance)}`)
+    } finally {
+      setIsLookingUpIsbn(false)
+    }
+  }
+
+  // The book record stays verified only while the form still shows what it
+  // said, in the source type it was looked up for
+  const isbnLookupProvenance = ({ filled, provenance }: { filled: FormData; provenance: Provenance }) => {
+    const fields: (keyof FormData)[] = ['type', 'title', 'authors', 'year', 'publisher', 'city', 'edition', 'isbn']
+    return fields.every(field => formData[field] === filled[field]) ? provenance : editedProvenance(provenance)
+  }
+
   const isFieldRequired = (field: string) => {
     return currentSourceInfo.requiredFields.includes(field)
   }
@@ -674,7 +441,10 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
     const citation: Citation = {
       id: `manual-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       title: formData.title,
-      authors: formData.authors.split(',').map(a => a.trim()).filter(Boolean),
+      // The book record's names, unless the authors were edited after the lookup
+      authors: isbnLookup && isbnLookup.authors.length > 0 && formData.authors === isbnLookup.filled.authors
+        ? isbnLookup.authors
+        : parseNameList(formData.authors),
       year: formData.year,
       source: formData.source || formData.publisher,
       url: formData.url || undefined,
@@ -683,13 +453,18 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
       volume: formData.volume || undefined,
       issue: formData.issue || undefined,
       publisher: formData.publisher || undefined,
-      type: formData.type === 'journal' ? 'article' : 
-            formData.type === 'newspaper' ? 'article' :
-            formData.type === 'conference' ? 'article' :
-            formData.type === 'thesis' ? 'article' :
-            formData.type === 'report' ? 'article' :
-            formData.type,
-      dateAccessed: formData.dateAccessed || new Date().toISOString()
+      edition: formData.edition || undefined,
+      city: formData.city || undefined,
+      isbn: formData.isbn || undefined,
+      abstract: formData.abstract || undefined,
+      version: formData.version || undefined,
+      repository: formData.repository || undefined,
+      archiveId: formData.archiveId || undefined,
+      patentNumber: formData.patentNumber || undefined,
+      runtime: formData.runtime || undefined,
+      type: formData.type,
+      dateAccessed: formData.dateAccessed || new Date().toISOString(),
+      provenance: isbnLookup ? isbnLookupProvenance(isbnLookup) : createProvenance('manual')
     }
 
     onCitationAdd(citation)
@@ -712,8 +487,14 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
       city: '',
       isbn: '',
       dateAccessed: '',
-      abstract: ''
+      abstract: '',
+      version: '',
+      repository: '',
+      archiveId: '',
+      patentNumber: '',
+      runtime: ''
     })
+    setIsbnLookup(null)
   }
 
   return (
@@ -726,7 +507,7 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
             Academic Database Search
           </CardTitle>
           <CardDescription>
-            Search across CrossRef, PubMed, Google Scholar, and other academic databases for precise citations
+            Search CrossRef, PubMed, OpenAlex and arXiv for published records to cite
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
@@ -798,7 +579,7 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                     <div className="text-center space-y-3">
                       <Loader2 size={32} className="mx-auto animate-spin text-primary" />
                       <p className="text-muted-foreground">Searching academic databases...</p>
-                      <p className="text-sm text-muted-foreground">CrossRef • PubMed • Google Scholar • IEEE Xplore</p>
+                      <p className="text-sm text-muted-foreground">{metadataProviders.filter(provider => provider.capabilities.search).map(provider => provider.name).join(' • ')}</p>
                     </div>
                   </CardContent>
                 </Card>
@@ -810,7 +591,7 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                       Found {results.length} academic articles matching "{searchQuery}"
                     </div>
                     <div className="text-xs text-muted-foreground">
-                      Results from CrossRef & academic databases
+                      Results from {providerNames(results.flatMap(result => result.providers)).join(', ') || 'academic databases'}
                     </div>
                   </div>
                   
@@ -821,7 +602,7 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                           <div className="flex-1 min-w-0">
                             <CardTitle className="text-lg leading-tight">{result.title}</CardTitle>
                             <CardDescription className="mt-2">
-                              {result.authors.join(', ')} ({result.year})
+                              {result.authors.map(formatNameInverted).join('; ')} ({result.year})
                             </CardDescription>
                             <p className="text-sm text-muted-foreground mt-1">
                               <em>{result.journal}</em>
@@ -832,9 +613,12 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                                 </>
                               )}
                             </p>
+                            <p className="text-xs text-muted-foreground mt-1" title={result.provenance.request}>
+                              {result.provenance.verified ? `Verified record from ${describeProvenance(result.provenance)}` : describeProvenance(result.provenance)}
+                            </p>
                           </div>
                           <div className="flex flex-col items-end gap-2 shrink-0">
-                            {getConfidenceBadge(result.confidence)}
+                            {getMatchBadge(result.confidence)}
                             <div className="flex gap-2">
                               <Dialog>
                                 <DialogTrigger asChild>
@@ -869,16 +653,11 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                                       </div>
                                       
                                       <div className="space-y-2">
-                                        <Label htmlFor="edit-authors">Authors (comma-separated)</Label>
+                                        <Label htmlFor="edit-authors">Authors (semicolon-separated)</Label>
                                         <Input
                                           id="edit-authors"
-                                          value={editingResult.authors.join(', ')}
-                                          onChange={(e) => setEditingResult(prev => 
-                                            prev ? { 
-                                              ...prev, 
-                                              authors: e.target.value.split(',').map(a => a.trim()).filter(Boolean)
-                                            } : null
-                                          )}
+                                          value={editingAuthors}
+                                          onChange={(e) => setEditingAuthors(e.target.value)}
                                         />
                                       </div>
                                       
@@ -993,7 +772,7 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                         {/* Confidence Bar */}
                         <div className="space-y-2">
                           <div className="flex items-center justify-between text-xs">
-                            <span className="text-muted-foreground">Match Confidence</span>
+                            <span className="text-muted-foreground">Match to Your Search</span>
                             <span className="font-medium">{Math.round(result.confidence * 100)}%</span>
                           </div>
                           {getConfidenceBar(result.confidence)}
@@ -1122,7 +901,7 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                     id="authors"
                     value={formData.authors}
                     onChange={(e) => updateField('authors', e.target.value)}
-                    placeholder="Enter authors separated by commas"
+                    placeholder="Smith, Jane A.; van der Berg, Jan"
                     className={`h-11 ${isFieldRequired('authors') && !formData.authors ? 'border-red-300' : ''}`}
                   />
                 </div>
@@ -1148,7 +927,11 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                 {isFieldVisible('source') && (
                   <div className="space-y-2">
                     <Label htmlFor="source" className="flex items-center gap-1">
-                      {formData.type === 'book' ? 'Publisher' : 
+                      {formData.type === 'chapter' ? 'Book Title' :
+                       formData.type === 'conference' ? 'Proceedings/Conference' :
+                       formData.type === 'newspaper' ? 'Newspaper' :
+                       formData.type === 'video' ? 'Platform' :
+                       formData.type === 'podcast' ? 'Podcast Name' :
                        formData.type === 'website' ? 'Website Name' : 'Journal/Source'}
                       {isFieldRequired('source') && <span className="text-red-500">*</span>}
                     </Label>
@@ -1157,7 +940,11 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                       value={formData.source}
                       onChange={(e) => updateField('source', e.target.value)}
                       placeholder={
-                        formData.type === 'book' ? 'Academic Press' :
+                        formData.type === 'chapter' ? 'The Handbook of Citation' :
+                        formData.type === 'conference' ? 'Proceedings of the Annual Conference' :
+                        formData.type === 'newspaper' ? 'The Guardian' :
+                        formData.type === 'video' ? 'YouTube' :
+                        formData.type === 'podcast' ? 'Radiolab' :
                         formData.type === 'website' ? 'Website Name' :
                         'Journal Name'
                       }
@@ -1165,13 +952,33 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                     />
                   </div>
                 )}
+
+                {isFieldVisible('publisher') && (
+                  <div className="space-y-2">
+                    <Label htmlFor="publisher" className="flex items-center gap-1">
+                      {formData.type === 'thesis' ? 'Institution' :
+                       formData.type === 'report' || formData.type === 'standard' ? 'Issuing Organization' :
+                       formData.type === 'patent' ? 'Patent Office' : 'Publisher'}
+                      {isFieldRequired('publisher') && <span className="text-red-500">*</span>}
+                    </Label>
+                    <Input
+                      id="publisher"
+                      value={formData.publisher}
+                      onChange={(e) => updateField('publisher', e.target.value)}
+                      placeholder="Publisher name"
+                      className={`h-11 ${isFieldRequired('publisher') && !formData.publisher ? 'border-red-300' : ''}`}
+                    />
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
           {/* Publication Details */}
           {(isFieldVisible('volume') || isFieldVisible('issue') || isFieldVisible('pages') || 
-            isFieldVisible('edition') || isFieldVisible('city') || isFieldVisible('isbn')) && (
+            isFieldVisible('edition') || isFieldVisible('city') || isFieldVisible('isbn') ||
+            isFieldVisible('version') || isFieldVisible('repository') || isFieldVisible('archiveId') ||
+            isFieldVisible('patentNumber') || isFieldVisible('runtime')) && (
             <>
               <Separator />
               <div className="space-y-4">
@@ -1218,6 +1025,135 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
                       />
                     </div>
                   )}
+
+                  {isFieldVisible('edition') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="edition">Edition</Label>
+                      <Input
+                        id="edition"
+                        value={formData.edition}
+                        onChange={(e) => updateField('edition', e.target.value)}
+                        placeholder="2nd ed."
+                        className="h-11"
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('city') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="city">City</Label>
+                      <Input
+                        id="city"
+                        value={formData.city}
+                        onChange={(e) => updateField('city', e.target.value)}
+                        placeholder="New York"
+                        className="h-11"
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('isbn') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="isbn">ISBN</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="isbn"
+                          value={formData.isbn}
+                          onChange={(e) => updateField('isbn', e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleIsbnLookup()}
+                          placeholder="978-0-123456-78-9"
+                          className={`h-11 ${formData.isbn.trim() && !parseIsbn(formData.isbn) ? 'border-red-300' : ''}`}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={handleIsbnLookup}
+                          disabled={isLookingUpIsbn || !formData.isbn.trim()}
+                          className="h-11"
+                        >
+                          {isLookingUpIsbn ? <Loader2 size={16} className="mr-2 animate-spin" /> : <Search size={16} className="mr-2" />}
+                          Look up
+                        </Button>
+                      </div>
+                      {formData.isbn.trim() && !parseIsbn(formData.isbn) && (
+                        <p className="text-xs text-red-600">Not a valid ISBN-10 or ISBN-13</p>
+                      )}
+                    </div>
+                  )}
+
+                  {isFieldVisible('version') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="version">Version</Label>
+                      <Input
+                        id="version"
+                        value={formData.version}
+                        onChange={(e) => updateField('version', e.target.value)}
+                        placeholder="2.1.0"
+                        className="h-11"
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('repository') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="repository" className="flex items-center gap-1">
+                        {formData.type === 'preprint' ? 'Preprint Server' : 'Repository'}
+                        {isFieldRequired('repository') && <span className="text-red-500">*</span>}
+                      </Label>
+                      <Input
+                        id="repository"
+                        value={formData.repository}
+                        onChange={(e) => updateField('repository', e.target.value)}
+                        placeholder={formData.type === 'preprint' ? 'arXiv' : formData.type === 'software' ? 'GitHub' : 'Zenodo'}
+                        className={`h-11 ${isFieldRequired('repository') && !formData.repository ? 'border-red-300' : ''}`}
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('archiveId') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="archiveId" className="flex items-center gap-1">
+                        {formData.type === 'standard' ? 'Standard Number' : 'Archive ID'}
+                        {isFieldRequired('archiveId') && <span className="text-red-500">*</span>}
+                      </Label>
+                      <Input
+                        id="archiveId"
+                        value={formData.archiveId}
+                        onChange={(e) => updateField('archiveId', e.target.value)}
+                        placeholder={formData.type === 'standard' ? 'ISO 9001:2015' : 'arXiv:2101.00001'}
+                        className={`h-11 ${isFieldRequired('archiveId') && !formData.archiveId ? 'border-red-300' : ''}`}
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('patentNumber') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="patentNumber" className="flex items-center gap-1">
+                        Patent Number
+                        {isFieldRequired('patentNumber') && <span className="text-red-500">*</span>}
+                      </Label>
+                      <Input
+                        id="patentNumber"
+                        value={formData.patentNumber}
+                        onChange={(e) => updateField('patentNumber', e.target.value)}
+                        placeholder="U.S. Patent No. 10,123,456"
+                        className={`h-11 ${isFieldRequired('patentNumber') && !formData.patentNumber ? 'border-red-300' : ''}`}
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('runtime') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="runtime">Runtime</Label>
+                      <Input
+                        id="runtime"
+                        value={formData.runtime}
+                        onChange={(e) => updateField('runtime', e.target.value)}
+                        placeholder="12:34"
+                        className="h-11"
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             </>
@@ -1284,6 +1220,24 @@ export function CombinedCitationForm({ onCitationAdd, preferredStyle }: Combined
             </>
           )}
 
+          {/* Abstract (optional for all types) */}
+          <Separator />
+          <div className="space-y-4">
+            <h4 className="font-semibold text-sm uppercase text-muted-foreground tracking-wide">
+              Additional Information
+            </h4>
+            <div className="space-y-2">
+              <Label htmlFor="abstract">Abstract/Summary (optional)</Label>
+              <Textarea
+                id="abstract"
+                value={formData.abstract}
+                onChange={(e) => updateField('abstract', e.target.value)}
+                placeholder="Brief summary or abstract of the source..."
+                rows={3}
+              />
+            </div>
+          </div>
+
           {/* Submit Button */}
           <div className="flex justify-end pt-4">
             <Button onClick={handleManualSubmit} className="min-w-[160px] h-11">
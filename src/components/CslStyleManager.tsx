@@ -0,0 +1,149 @@
+import { useRef } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { UploadSimple, Trash, FileText, Translate } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import {
+  readCslLocaleFile,
+  readCslStyleFile,
+  type CslStyleId,
+  type StoredCslLocale,
+  type StoredCslStyle
+} from '@/lib/cslStyles'
+
+interface CslStyleManagerProps {
+  styles: StoredCslStyle[]
+  locales: StoredCslLocale[]
+  onAddStyle: (style: StoredCslStyle) => void
+  onRemoveStyle: (id: CslStyleId) => void
+  onAddLocale: (locale: StoredCslLocale) => void
+  onRemoveLocale: (lang: string) => void
+}
+
+export function CslStyleManager({ styles, locales, onAddStyle, onRemoveStyle, onAddLocale, onRemoveLocale }: CslStyleManagerProps) {
+  const styleInputRef = useRef<HTMLInputElement>(null)
+  const localeInputRef = useRef<HTMLInputElement>(null)
+
+  const handleStyleFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files || [])) {
+      try {
+        const style = await readCslStyleFile(file)
+        onAddStyle(style)
+        toast.success(`Added citation style "${style.title}"`)
+      } catch (error) {
+        toast.error(`Could not load ${file.name}: ${error instanceof Error ? error.message : 'invalid CSL file'}`)
+      }
+    }
+    if (styleInputRef.current) styleInputRef.current.value = ''
+  }
+
+  const handleLocaleFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files || [])) {
+      try {
+        const locale = await readCslLocaleFile(file)
+        onAddLocale(locale)
+        toast.success(`Added locale ${locale.lang}`)
+      } catch (error) {
+        toast.error(`Could not load ${file.name}: ${error instanceof Error ? error.message : 'invalid locale file'}`)
+      }
+    }
+    if (localeInputRef.current) localeInputRef.current.value = ''
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full mt-2 text-white hover:bg-white/20 hover:text-white">
+          <UploadSimple size={14} className="mr-2" />
+          Add CSL style
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Citation Style Language Styles</DialogTitle>
+          <DialogDescription>
+            Upload journal or department styles (.csl) and optional locale files (locales-xx-XX.xml)
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 py-4">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Styles</h4>
+              <Button variant="outline" size="sm" onClick={() => styleInputRef.current?.click()}>
+                <UploadSimple size={14} className="mr-1" />
+                Upload .csl
+              </Button>
+              <input
+                ref={styleInputRef}
+                type="file"
+                accept=".csl,.xml,application/xml,text/xml"
+                multiple
+                className="hidden"
+                onChange={(e) => handleStyleFiles(e.target.files)}
+              />
+            </div>
+            {styles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No custom styles yet</p>
+            ) : (
+              <div className="space-y-2">
+                {styles.map(style => (
+                  <div key={style.id} className="flex items-center justify-between gap-2 p-2 bg-muted rounded">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <FileText size={14} className="shrink-0" />
+                      <span className="text-sm truncate">{style.title}</span>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => onRemoveStyle(style.id)}>
+                      <Trash size={14} />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Locales</h4>
+              <Button variant="outline" size="sm" onClick={() => localeInputRef.current?.click()}>
+                <Translate size={14} className="mr-1" />
+                Upload locale
+              </Button>
+              <input
+                ref={localeInputRef}
+                type="file"
+                accept=".xml,application/xml,text/xml"
+                multiple
+                className="hidden"
+                onChange={(e) => handleLocaleFiles(e.target.files)}
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="text-xs">en-US (built in)</Badge>
+              {locales.map(locale => (
+                <Badge key={locale.lang} variant="outline" className="text-xs gap-1">
+                  {locale.lang}
+                  <button
+                    type="button"
+                    aria-label={`Remove ${locale.lang}`}
+                    onClick={() => onRemoveLocale(locale.lang)}
+                    className="ml-1 hover:text-destructive"
+                  >
+                    <Trash size={10} />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <p className="text-xs text-muted-foreground mr-auto">
+            Styles are available from the Zotero Style Repository and citationstyles.org
+          </p>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,31 @@
+import type { ReactNode } from 'react'
+import type { FormattedCitation } from '@/lib/citationFormatter'
+
+interface FormattedCitationTextProps {
+  runs: FormattedCitation
+}
+
+/**
+ * Render formatted citation runs with real italics, bold and superscripts
+ */
+export function FormattedCitationText({ runs }: FormattedCitationTextProps) {
+  return (
+    <>
+      {runs.map((run, index) => {
+        let content: ReactNode = run.text
+        if (run.italic) content = <em>{content}</em>
+        if (run.bold) content = <strong>{content}</strong>
+        if (run.smallCaps) content = <span className="[font-variant:small-caps]">{content}</span>
+        if (run.superscript) content = <sup>{content}</sup>
+        if (run.url) {
+          content = (
+            <a href={run.url} target="_blank" rel="noopener noreferrer" className="underline break-all">
+              {content}
+            </a>
+          )
+        }
+        return <span key={index}>{content}</span>
+      })}
+    </>
+  )
+}
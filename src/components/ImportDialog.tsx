@@ -0,0 +1,392 @@
+import { useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ArrowsLeftRight, UploadSimple, Warning } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import type { Citation } from '@/App'
+import { importBibTeX } from '@/lib/bibtexParser'
+import { importCslJson } from '@/lib/cslJson'
+import {
+  authorSeparatorLabels,
+  csvColumnLabels,
+  defaultCsvOptions,
+  importCsv,
+  readCsvTable,
+  type AuthorSeparator,
+  type CsvColumnField,
+  type CsvImportOptions
+} from '@/lib/csvImport'
+import { detectImportFormat, findDuplicate, importFormatNames, type ImportFormat, type ImportResult } from '@/lib/importUtils'
+import {
+  defaultEndNoteMapping,
+  defaultMedlineMapping,
+  defaultRISMapping,
+  importEndNote,
+  importFieldLabels,
+  importMedline,
+  importRIS,
+  type ImportField,
+  type TagMapping
+} from '@/lib/taggedImport'
+import { familyName } from '@/lib/names'
+import { createProvenance } from '@/lib/metadataProviders'
+
+const importers: Record<ImportFormat, (source: string, mapping?: TagMapping) => ImportResult> = {
+  bibtex: importBibTeX,
+  ris: importRIS,
+  endnote: importEndNote,
+  medline: importMedline,
+  'csl-json': importCslJson,
+  csv: source => importCsv(source)
+}
+
+// Formats whose tags can be remapped before importing
+const defaultMappings: Partial<Record<ImportFormat, TagMapping>> = {
+  ris: defaultRISMapping,
+  endnote: defaultEndNoteMapping,
+  medline: defaultMedlineMapping
+}
+
+interface ImportDialogProps {
+  existingCitations: Citation[]
+  onImport: (citations: Citation[]) => void
+}
+
+export function ImportDialog({ existingCitations, onImport }: ImportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [input, setInput] = useState('')
+  const [format, setFormat] = useState<ImportFormat | 'auto'>('auto')
+  const [activeFormat, setActiveFormat] = useState<ImportFormat | null>(null)
+  const [mapping, setMapping] = useState<TagMapping | undefined>(undefined)
+  const [csvOptions, setCsvOptions] = useState<CsvImportOptions | undefined>(undefined)
+  const [showMapping, setShowMapping] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const reset = () => {
+    setInput('')
+    setResult(null)
+    setActiveFormat(null)
+    setMapping(undefined)
+    setCsvOptions(undefined)
+    setShowMapping(false)
+    setSelected(new Set())
+  }
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (!value) reset()
+  }
+
+  const runImport = (source: string, sourceFormat: ImportFormat, tagMapping?: TagMapping, options?: CsvImportOptions) => {
+    const parsed = sourceFormat === 'csv' && options
+      ? importCsv(source, options)
+      : importers[sourceFormat](source, tagMapping)
+    setResult(parsed)
+    // Entries already in the bibliography start unticked
+    setSelected(new Set(
+      parsed.items
+        .map((item, index) => findDuplicate(item.citation, existingCitations) ? -1 : index)
+        .filter(index => index >= 0)
+    ))
+    return parsed
+  }
+
+  const parse = (source: string) => {
+    const sourceFormat = format === 'auto' ? detectImportFormat(source) : format
+    if (!sourceFormat) {
+      toast.error('Could not recognise the format; choose it from the list')
+      return
+    }
+    setActiveFormat(sourceFormat)
+    setMapping(defaultMappings[sourceFormat])
+    // Spreadsheet columns are shown straight away so the guessed mapping
+    // can be checked against the preview
+    const options = sourceFormat === 'csv' ? defaultCsvOptions(source) : undefined
+    setCsvOptions(options)
+    setShowMapping(sourceFormat === 'csv')
+    const parsed = runImport(source, sourceFormat, defaultMappings[sourceFormat], options)
+    if (parsed.items.length === 0) {
+      toast.error('No references found')
+    }
+  }
+
+  const remapTag = (tag: string, field: ImportField) => {
+    if (!activeFormat || !mapping) return
+    const next = { ...mapping, [tag]: field }
+    setMapping(next)
+    runImport(input, activeFormat, next)
+  }
+
+  const updateCsvOptions = (changes: Partial<CsvImportOptions>) => {
+    if (!csvOptions) return
+    const next = { ...csvOptions, ...changes }
+    setCsvOptions(next)
+    runImport(input, 'csv', undefined, next)
+  }
+
+  const remapColumn = (column: number, field: CsvColumnField) => {
+    if (!csvOptions) return
+    updateCsvOptions({ columns: csvOptions.columns.map((current, index) => index === column ? field : current) })
+  }
+
+  const handleFile = async (files: FileList | null) => {
+    const file = files?.[0]
+    if (!file) return
+    try {
+      const text = await file.text()
+      setInput(text)
+      parse(text)
+    } catch {
+      toast.error(`Could not read ${file.name}`)
+    }
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const csvTable = csvOptions ? readCsvTable(input) : null
+  const csvSample = csvTable && (csvOptions?.hasHeader ? csvTable.rows[0] : csvTable.headers)
+
+  const toggle = (index: number) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const handleImport = () => {
+    if (!result) return
+    // Nothing read from a file is verified. Records exported from here keep
+    // the lookup they were first read from as the request.
+    const format = activeFormat ? importFormatNames[activeFormat] : undefined
+    const citations = result.items
+      .filter((_, index) => selected.has(index))
+      .map(item => ({ ...item.citation, provenance: createProvenance('import', item.citation.provenance?.request || format) }))
+    onImport(citations)
+    toast.success(`Imported ${citations.length} reference${citations.length === 1 ? '' : 's'}`)
+    handleOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full mt-2">
+          <UploadSimple size={16} className="mr-2" />
+          Import References
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import References</DialogTitle>
+          <DialogDescription>
+            Upload a BibTeX (.bib), RIS (.ris), EndNote (.enw), PubMed (.nbib), CSL-JSON (.json) or CSV (.csv) file, or paste its contents
+          </DialogDescription>
+        </DialogHeader>
+
+        {!result ? (
+          <div className="grid gap-3 py-4">
+            <div className="flex items-center justify-between gap-2">
+              <Select value={format} onValueChange={(value: ImportFormat | 'auto') => setFormat(value)}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Detect format</SelectItem>
+                  {(Object.entries(importFormatNames) as [ImportFormat, string][]).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <UploadSimple size={14} className="mr-1" />
+                Upload file
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".bib,.bibtex,.ris,.enw,.nbib,.json,.csv,.tsv,.txt,application/json,text/csv,text/plain,application/x-bibtex,application/x-research-info-systems"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files)}
+              />
+            </div>
+            <Textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={'@article{key, author = {...}, title = {...}, year = {2024}}\n\nTY  - JOUR\nTI  - ...\nER  - '}
+              className="min-h-[200px] font-mono text-xs"
+            />
+          </div>
+        ) : (
+          <div className="grid gap-3 py-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {activeFormat && <Badge variant="outline" className="mr-2">{importFormatNames[activeFormat]}</Badge>}
+                {result.items.length} reference{result.items.length === 1 ? '' : 's'} found, {selected.size} selected
+              </span>
+              <div className="flex gap-1">
+                {(mapping || csvOptions) && (
+                  <Button variant="ghost" size="sm" onClick={() => setShowMapping(!showMapping)}>
+                    <ArrowsLeftRight size={14} className="mr-1" />
+                    Field mapping
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={reset}>
+                  Start over
+                </Button>
+              </div>
+            </div>
+
+            {mapping && showMapping && (
+              <div className="p-3 border rounded space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Choose where each tag in the file is imported. Tags that are not listed are skipped.
+                </p>
+                <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                  {(result.tags || []).map(tag => (
+                    <div key={tag} className="flex items-center gap-2">
+                      <span className="w-10 text-xs font-mono">{tag}</span>
+                      <Select
+                        value={mapping[tag] || 'ignore'}
+                        onValueChange={(value: ImportField) => remapTag(tag, value)}
+                      >
+                        <SelectTrigger className="h-8 text-xs flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.entries(importFieldLabels) as [ImportField, string][]).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {csvOptions && csvTable && showMapping && (
+              <div className="p-3 border rounded space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Choose where each column is imported. The references below show the result before anything is saved.
+                </p>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="csv-has-header"
+                      checked={csvOptions.hasHeader}
+                      onCheckedChange={(checked) => updateCsvOptions({ hasHeader: checked === true })}
+                    />
+                    <Label htmlFor="csv-has-header" className="text-xs font-normal">First row is a header</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs font-normal">Author separator</Label>
+                    <Select
+                      value={csvOptions.authorSeparator}
+                      onValueChange={(value: AuthorSeparator) => updateCsvOptions({ authorSeparator: value })}
+                    >
+                      <SelectTrigger className="h-8 w-[160px] text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.entries(authorSeparatorLabels) as [AuthorSeparator, string][]).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="grid gap-2 max-h-48 overflow-y-auto">
+                  {csvOptions.columns.map((field, column) => (
+                    <div key={column} className="grid grid-cols-[1fr_1fr_160px] items-center gap-2">
+                      <span className="text-xs font-medium truncate">
+                        {csvOptions.hasHeader ? csvTable.headers[column] : `Column ${column + 1}`}
+                      </span>
+                      <span className="text-xs text-muted-foreground truncate">{csvSample?.[column]}</span>
+                      <Select value={field} onValueChange={(value: CsvColumnField) => remapColumn(column, value)}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.entries(csvColumnLabels) as [CsvColumnField, string][]).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {result.errors.length > 0 && (
+              <div className="p-3 rounded border border-destructive/40 bg-destructive/5 text-xs space-y-1">
+                {result.errors.map((error, index) => (
+                  <p key={index} className="text-destructive">{error}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {result.items.map((item, index) => {
+                const { citation } = item
+                const duplicate = findDuplicate(citation, existingCitations)
+                const warnings = duplicate ? ['Already in your bibliography', ...item.warnings] : item.warnings
+                return (
+                  <div key={index} className="p-3 border rounded space-y-1">
+                    <div className="flex items-start gap-2">
+                      <Checkbox
+                        id={`import-${index}`}
+                        checked={selected.has(index)}
+                        onCheckedChange={() => toggle(index)}
+                      />
+                      <Label htmlFor={`import-${index}`} className="flex-1 text-sm font-normal leading-snug">
+                        {citation.title}
+                        <span className="block text-xs text-muted-foreground">
+                          {citation.authors.map(familyName).join(', ') || 'Unknown Author'} ({citation.year || 'n.d.'})
+                        </span>
+                      </Label>
+                      <Badge variant="secondary" className="text-xs capitalize shrink-0">{citation.type}</Badge>
+                    </div>
+                    <p className="pl-6 text-xs text-muted-foreground font-mono">{item.label}</p>
+                    {warnings.length > 0 && (
+                      <ul className="pl-6 space-y-0.5">
+                        {warnings.map((warning, warningIndex) => (
+                          <li key={warningIndex} className="flex items-center gap-1 text-xs text-amber-700">
+                            <Warning size={12} className="shrink-0" />
+                            {warning}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          {!result ? (
+            <Button onClick={() => parse(input)} disabled={!input.trim()}>
+              Preview
+            </Button>
+          ) : (
+            <Button onClick={handleImport} disabled={selected.size === 0}>
+              Import {selected.size} reference{selected.size === 1 ? '' : 's'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Copy, Quotes } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import type { Citation, CitationStyle } from '@/App'
+import { formatInText, locatorLabels, type InTextCite, type InTextMode, type LocatorLabel } from '@/lib/inTextCitation'
+import { familyName } from '@/lib/names'
+import { copyFormattedCitations } from '@/lib/richText'
+import { FormattedCitationText } from '@/components/FormattedCitationText'
+
+interface InTextCitationBuilderProps {
+  citations: Citation[]
+  style: CitationStyle
+}
+
+/**
+ * Build one in-text citation from several sources, with locators and
+ * prefixes, in parenthetical or narrative form
+ */
+export function InTextCitationBuilder({ citations, style }: InTextCitationBuilderProps) {
+  const [cites, setCites] = useState<InTextCite[]>([])
+  const [mode, setMode] = useState<InTextMode>('parenthetical')
+
+  const isSelected = (id: string) => cites.some(cite => cite.id === id)
+
+  const toggleCitation = (id: string) => {
+    setCites(current => isSelected(id)
+      ? current.filter(cite => cite.id !== id)
+      : [...current, { id, label: 'page' }]
+    )
+  }
+
+  const updateCite = (id: string, changes: Partial<InTextCite>) => {
+    setCites(current => current.map(cite => cite.id === id ? { ...cite, ...changes } : cite))
+  }
+
+  const preview = cites.length > 0 ? formatInText(cites, citations, style, mode) : []
+
+  const copyCitation = async () => {
+    try {
+      await copyFormattedCitations([preview])
+      toast.success('In-text citation copied to clipboard!')
+    } catch (error) {
+      toast.error('Failed to copy in-text citation')
+    }
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Quotes size={14} className="mr-1" />
+          Cite Sources
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Build In-text Citation</DialogTitle>
+          <DialogDescription>
+            Select one or more sources and add page, chapter, section or paragraph locators
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm">Form</Label>
+            <Select value={mode} onValueChange={(value: InTextMode) => setMode(value)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="parenthetical">Parenthetical</SelectItem>
+                <SelectItem value="narrative">Narrative</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {citations.map(citation => {
+              const cite = cites.find(c => c.id === citation.id)
+              return (
+                <div key={citation.id} className="p-3 border rounded space-y-2">
+                  <div className="flex items-start gap-2">
+                    <Checkbox
+                      id={`cite-${citation.id}`}
+                      checked={Boolean(cite)}
+                      onCheckedChange={() => toggleCitation(citation.id)}
+                    />
+                    <Label htmlFor={`cite-${citation.id}`} className="text-sm font-normal leading-snug">
+                      {citation.title}
+                      <span className="block text-xs text-muted-foreground">
+                        {citation.authors.map(familyName).join(', ') || 'Unknown Author'} ({citation.year || 'n.d.'})
+                      </span>
+                    </Label>
+                  </div>
+
+                  {cite && (
+                    <div className="grid grid-cols-[8rem_1fr_1fr_1fr] gap-2 pl-6">
+                      <Select
+                        value={cite.label || 'page'}
+                        onValueChange={(value: LocatorLabel) => updateCite(citation.id, { label: value })}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.entries(locatorLabels) as [LocatorLabel, string][]).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        className="h-8 text-xs"
+                        placeholder="Locator, e.g. 12-14"
+                        value={cite.locator || ''}
+                        onChange={(e) => updateCite(citation.id, { locator: e.target.value })}
+                      />
+                      <Input
+                        className="h-8 text-xs"
+                        placeholder="Prefix, e.g. see"
+                        value={cite.prefix || ''}
+                        onChange={(e) => updateCite(citation.id, { prefix: e.target.value })}
+                      />
+                      <Input
+                        className="h-8 text-xs"
+                        placeholder="Suffix"
+                        value={cite.suffix || ''}
+                        onChange={(e) => updateCite(citation.id, { suffix: e.target.value })}
+                      />
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="p-3 bg-accent/10 rounded text-sm">
+            <span className="text-xs text-muted-foreground font-medium">Preview:</span>
+            <p className="text-foreground mt-1">
+              {preview.length > 0 ? <FormattedCitationText runs={preview} /> : 'Select at least one source'}
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={copyCitation} disabled={preview.length === 0}>
+            <Copy size={14} className="mr-1" />
+            Copy Citation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
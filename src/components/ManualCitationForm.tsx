@@ -7,16 +7,31 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea'
 import { Separator } from '@/components/ui/separator'
 import { Badge } from '@/components/ui/badge'
-import { BookOpen, Globe, FileText, Newspaper, Book, Plus, Save } from '@phosphor-icons/react'
+import {
+  BookOpen,
+  Globe,
+  FileText,
+  Newspaper,
+  Book,
+  Plus,
+  Save,
+  Database,
+  Code,
+  FileArrowUp,
+  Certificate,
+  Ruler,
+  VideoCamera,
+  Microphone
+} from '@phosphor-icons/react'
 import { toast } from 'sonner'
-import type { Citation } from '@/App'
+import type { Citation, SourceType } from '@/App'
+import { parseNameList } from '@/lib/names'
+import { createProvenance } from '@/lib/metadataProviders'
 
 interface ManualCitationFormProps {
   onCitationAdd: (citation: Citation) => void
 }
 
-type SourceType = 'article' | 'book' | 'website' | 'journal' | 'newspaper' | 'thesis' | 'conference' | 'report'
-
 interface FormData {
   type: SourceType
   title: string
@@ -34,6 +49,11 @@ interface FormData {
   isbn: string
   dateAccessed: string
   abstract: string
+  version: string
+  repository: string
+  archiveId: string
+  patentNumber: string
+  runtime: string
 }
 
 const sourceTypeInfo: Record<SourceType, {
@@ -57,6 +77,13 @@ const sourceTypeInfo: Record<SourceType, {
     requiredFields: ['title', 'authors', 'year', 'publisher'],
     optionalFields: ['edition', 'city', 'isbn', 'pages']
   },
+  chapter: {
+    name: 'Book Chapter',
+    icon: <Book size={20} />,
+    description: 'Chapters and essays in edited books',
+    requiredFields: ['title', 'authors', 'year', 'source', 'publisher'],
+    optionalFields: ['edition', 'city', 'isbn', 'pages', 'doi']
+  },
   website: {
     name: 'Website',
     icon: <Globe size={20} />,
@@ -90,7 +117,7 @@ const sourceTypeInfo: Record<SourceType, {
     icon: <FileText size={20} />,
     description: 'Conference proceedings and presentations',
     requiredFields: ['title', 'authors', 'year', 'source'],
-    optionalFields: ['pages', 'city', 'doi', 'url']
+    optionalFields: ['publisher', 'pages', 'city', 'doi', 'url']
   },
   report: {
     name: 'Report',
@@ -98,6 +125,55 @@ const sourceTypeInfo: Record<SourceType, {
     description: 'Technical reports and government publications',
     requiredFields: ['title', 'authors', 'year', 'publisher'],
     optionalFields: ['pages', 'city', 'url']
+  },
+  dataset: {
+    name: 'Dataset',
+    icon: <Database size={20} />,
+    description: 'Research data deposited in Zenodo, Dryad, Figshare and similar repositories',
+    requiredFields: ['title', 'authors', 'year', 'repository'],
+    optionalFields: ['version', 'publisher', 'doi', 'url']
+  },
+  software: {
+    name: 'Software',
+    icon: <Code size={20} />,
+    description: 'Code repositories, packages and computer programs',
+    requiredFields: ['title', 'authors', 'year'],
+    optionalFields: ['version', 'repository', 'publisher', 'doi', 'url']
+  },
+  preprint: {
+    name: 'Preprint',
+    icon: <FileArrowUp size={20} />,
+    description: 'Preprints on arXiv, bioRxiv, SSRN and other servers',
+    requiredFields: ['title', 'authors', 'year', 'repository'],
+    optionalFields: ['archiveId', 'doi', 'url']
+  },
+  patent: {
+    name: 'Patent',
+    icon: <Certificate size={20} />,
+    description: 'Granted patents and published patent applications',
+    requiredFields: ['title', 'authors', 'year', 'patentNumber'],
+    optionalFields: ['publisher', 'url']
+  },
+  standard: {
+    name: 'Standard',
+    icon: <Ruler size={20} />,
+    description: 'ISO, IEEE, BSI and other technical standards',
+    requiredFields: ['title', 'year', 'archiveId', 'publisher'],
+    optionalFields: ['authors', 'city', 'url']
+  },
+  video: {
+    name: 'Video',
+    icon: <VideoCamera size={20} />,
+    description: 'YouTube, Vimeo and other online videos',
+    requiredFields: ['title', 'authors', 'year', 'source', 'url'],
+    optionalFields: ['runtime', 'dateAccessed']
+  },
+  podcast: {
+    name: 'Podcast',
+    icon: <Microphone size={20} />,
+    description: 'Podcast episodes',
+    requiredFields: ['title', 'authors', 'year', 'source'],
+    optionalFields: ['publisher', 'runtime', 'url']
   }
 }
 
@@ -118,7 +194,12 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
     city: '',
     isbn: '',
     dateAccessed: '',
-    abstract: ''
+    abstract: '',
+    version: '',
+    repository: '',
+    archiveId: '',
+    patentNumber: '',
+    runtime: ''
   })
 
   const currentSourceInfo = sourceTypeInfo[formData.type]
@@ -156,7 +237,7 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
     const citation: Citation = {
       id: `manual-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       title: formData.title,
-      authors: formData.authors.split(',').map(a => a.trim()).filter(Boolean),
+      authors: parseNameList(formData.authors),
       year: formData.year,
       source: formData.source || formData.publisher,
       url: formData.url || undefined,
@@ -165,13 +246,18 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
       volume: formData.volume || undefined,
       issue: formData.issue || undefined,
       publisher: formData.publisher || undefined,
-      type: formData.type === 'journal' ? 'article' : 
-            formData.type === 'newspaper' ? 'article' :
-            formData.type === 'conference' ? 'article' :
-            formData.type === 'thesis' ? 'article' :
-            formData.type === 'report' ? 'article' :
-            formData.type,
-      dateAccessed: formData.dateAccessed || new Date().toISOString()
+      edition: formData.edition || undefined,
+      city: formData.city || undefined,
+      isbn: formData.isbn || undefined,
+      abstract: formData.abstract || undefined,
+      version: formData.version || undefined,
+      repository: formData.repository || undefined,
+      archiveId: formData.archiveId || undefined,
+      patentNumber: formData.patentNumber || undefined,
+      runtime: formData.runtime || undefined,
+      type: formData.type,
+      dateAccessed: formData.dateAccessed || new Date().toISOString(),
+      provenance: createProvenance('manual')
     }
 
     onCitationAdd(citation)
@@ -194,7 +280,12 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
       city: '',
       isbn: '',
       dateAccessed: '',
-      abstract: ''
+      abstract: '',
+      version: '',
+      repository: '',
+      archiveId: '',
+      patentNumber: '',
+      runtime: ''
     })
   }
 
@@ -294,7 +385,7 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
                     id="authors"
                     value={formData.authors}
                     onChange={(e) => updateField('authors', e.target.value)}
-                    placeholder="Enter authors separated by commas"
+                    placeholder="Smith, Jane A.; van der Berg, Jan"
                     className={isFieldRequired('authors') && !formData.authors ? 'border-red-300' : ''}
                   />
                 </div>
@@ -320,7 +411,11 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
                 {isFieldVisible('source') && (
                   <div className="space-y-2">
                     <Label htmlFor="source" className="flex items-center gap-1">
-                      {formData.type === 'book' ? 'Publisher' : 
+                      {formData.type === 'chapter' ? 'Book Title' :
+                       formData.type === 'conference' ? 'Proceedings/Conference' :
+                       formData.type === 'newspaper' ? 'Newspaper' :
+                       formData.type === 'video' ? 'Platform' :
+                       formData.type === 'podcast' ? 'Podcast Name' :
                        formData.type === 'website' ? 'Website Name' : 'Journal/Source'}
                       {isFieldRequired('source') && <span className="text-red-500">*</span>}
                     </Label>
@@ -329,7 +424,11 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
                       value={formData.source}
                       onChange={(e) => updateField('source', e.target.value)}
                       placeholder={
-                        formData.type === 'book' ? 'Academic Press' :
+                        formData.type === 'chapter' ? 'The Handbook of Citation' :
+                        formData.type === 'conference' ? 'Proceedings of the Annual Conference' :
+                        formData.type === 'newspaper' ? 'The Guardian' :
+                        formData.type === 'video' ? 'YouTube' :
+                        formData.type === 'podcast' ? 'Radiolab' :
                         formData.type === 'website' ? 'Website Name' :
                         'Journal Name'
                       }
@@ -338,10 +437,12 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
                   </div>
                 )}
 
-                {isFieldVisible('publisher') && formData.type !== 'book' && (
+                {isFieldVisible('publisher') && (
                   <div className="space-y-2">
                     <Label htmlFor="publisher" className="flex items-center gap-1">
-                      Publisher
+                      {formData.type === 'thesis' ? 'Institution' :
+                       formData.type === 'report' || formData.type === 'standard' ? 'Issuing Organization' :
+                       formData.type === 'patent' ? 'Patent Office' : 'Publisher'}
                       {isFieldRequired('publisher') && <span className="text-red-500">*</span>}
                     </Label>
                     <Input
@@ -359,7 +460,9 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
 
           {/* Publication Details */}
           {(isFieldVisible('volume') || isFieldVisible('issue') || isFieldVisible('pages') || 
-            isFieldVisible('edition') || isFieldVisible('city') || isFieldVisible('isbn')) && (
+            isFieldVisible('edition') || isFieldVisible('city') || isFieldVisible('isbn') ||
+            isFieldVisible('version') || isFieldVisible('repository') || isFieldVisible('archiveId') ||
+            isFieldVisible('patentNumber') || isFieldVisible('runtime')) && (
             <>
               <Separator />
               <div className="space-y-4">
@@ -439,6 +542,78 @@ export function ManualCitationForm({ onCitationAdd }: ManualCitationFormProps) {
                       />
                     </div>
                   )}
+
+                  {isFieldVisible('version') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="version">Version</Label>
+                      <Input
+                        id="version"
+                        value={formData.version}
+                        onChange={(e) => updateField('version', e.target.value)}
+                        placeholder="2.1.0"
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('repository') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="repository" className="flex items-center gap-1">
+                        {formData.type === 'preprint' ? 'Preprint Server' : 'Repository'}
+                        {isFieldRequired('repository') && <span className="text-red-500">*</span>}
+                      </Label>
+                      <Input
+                        id="repository"
+                        value={formData.repository}
+                        onChange={(e) => updateField('repository', e.target.value)}
+                        placeholder={formData.type === 'preprint' ? 'arXiv' : formData.type === 'software' ? 'GitHub' : 'Zenodo'}
+                        className={isFieldRequired('repository') && !formData.repository ? 'border-red-300' : ''}
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('archiveId') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="archiveId" className="flex items-center gap-1">
+                        {formData.type === 'standard' ? 'Standard Number' : 'Archive ID'}
+                        {isFieldRequired('archiveId') && <span className="text-red-500">*</span>}
+                      </Label>
+                      <Input
+                        id="archiveId"
+                        value={formData.archiveId}
+                        onChange={(e) => updateField('archiveId', e.target.value)}
+                        placeholder={formData.type === 'standard' ? 'ISO 9001:2015' : 'arXiv:2101.00001'}
+                        className={isFieldRequired('archiveId') && !formData.archiveId ? 'border-red-300' : ''}
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('patentNumber') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="patentNumber" className="flex items-center gap-1">
+                        Patent Number
+                        {isFieldRequired('patentNumber') && <span className="text-red-500">*</span>}
+                      </Label>
+                      <Input
+                        id="patentNumber"
+                        value={formData.patentNumber}
+                        onChange={(e) => updateField('patentNumber', e.target.value)}
+                        placeholder="U.S. Patent No. 10,123,456"
+                        className={isFieldRequired('patentNumber') && !formData.patentNumber ? 'border-red-300' : ''}
+                      />
+                    </div>
+                  )}
+
+                  {isFieldVisible('runtime') && (
+                    <div className="space-y-2">
+                      <Label htmlFor="runtime">Runtime</Label>
+                      <Input
+                        id="runtime"
+                        value={formData.runtime}
+                        onChange={(e) => updateField('runtime', e.target.value)}
+                        placeholder="12:34"
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             </>
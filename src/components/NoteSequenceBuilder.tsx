@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Copy, Plus, X } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import type { Citation } from '@/App'
+import { buildNoteSequence, type NoteCite } from '@/lib/chicagoNotes'
+import { locatorLabels, type LocatorLabel } from '@/lib/inTextCitation'
+import { copyFormattedCitations } from '@/lib/richText'
+import { FormattedCitationText } from '@/components/FormattedCitationText'
+
+interface NoteSequenceBuilderProps {
+  citations: Citation[]
+  defaultCitationId?: string
+}
+
+const noteKindLabels = {
+  full: 'Full note',
+  short: 'Short note',
+  ibid: 'Ibid.'
+}
+
+/**
+ * Preview Chicago notes-bibliography footnotes for a sequence of citations
+ */
+export function NoteSequenceBuilder({ citations, defaultCitationId }: NoteSequenceBuilderProps) {
+  const [sequence, setSequence] = useState<NoteCite[]>([])
+  const [citationId, setCitationId] = useState<string>(defaultCitationId || '')
+  const [label, setLabel] = useState<LocatorLabel>('page')
+  const [locator, setLocator] = useState('')
+
+  // Citations deleted from the bibliography drop out of the sequence
+  const activeSequence = sequence.filter(cite => citations.some(citation => citation.id === cite.id))
+  const notes = buildNoteSequence(activeSequence, citations)
+
+  const addNote = () => {
+    const id = citationId || defaultCitationId
+    if (!id) {
+      toast.error('Choose a citation to add a note')
+      return
+    }
+    setSequence(current => [...current, { id, label, locator: locator.trim() || undefined }])
+    setLocator('')
+  }
+
+  const removeNote = (index: number) => {
+    const removed = activeSequence[index]
+    setSequence(current => current.filter(cite => cite !== removed))
+  }
+
+  const copyNotes = async () => {
+    try {
+      await copyFormattedCitations(notes.map(note => [{ text: `${note.number}. ` }, ...note.runs]), false)
+      toast.success('Notes copied to clipboard!')
+    } catch (error) {
+      toast.error('Failed to copy notes')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Chicago Notes</CardTitle>
+            <CardDescription>
+              Build a sequence of footnotes: full first notes, short notes and Ibid.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={copyNotes} disabled={notes.length === 0}>
+            <Copy size={14} className="mr-1" />
+            Copy Notes
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_8rem_8rem_auto] gap-2">
+          <Select value={citationId || defaultCitationId || ''} onValueChange={setCitationId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a citation" />
+            </SelectTrigger>
+            <SelectContent>
+              {citations.map(citation => (
+                <SelectItem key={citation.id} value={citation.id}>
+                  <span className="truncate">{citation.title}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={label} onValueChange={(value: LocatorLabel) => setLabel(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.entries(locatorLabels) as [LocatorLabel, string][]).map(([value, name]) => (
+                <SelectItem key={value} value={value}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="e.g. 45"
+            value={locator}
+            onChange={(e) => setLocator(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addNote()}
+          />
+          <Button onClick={addNote}>
+            <Plus size={14} className="mr-1" />
+            Add Note
+          </Button>
+        </div>
+
+        {notes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Add citations in the order they appear in your text
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {notes.map((note, index) => (
+              <li key={index} className="flex items-start gap-2 p-3 bg-muted rounded text-sm">
+                <span className="font-mono shrink-0">{note.number}.</span>
+                <span className="flex-1 leading-relaxed"><FormattedCitationText runs={note.runs} /></span>
+                <Badge variant="outline" className="text-xs shrink-0">{noteKindLabels[note.kind]}</Badge>
+                <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => removeNote(index)}>
+                  <X size={12} />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
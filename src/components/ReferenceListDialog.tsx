@@ -0,0 +1,408 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { ClipboardText, PencilSimple, Warning } from '@phosphor-icons/react'
+import { toast } from 'sonner'
+import type { Citation, SourceType } from '@/App'
+import { AuthorEditor } from '@/components/AuthorEditor'
+import { findDuplicate } from '@/lib/importUtils'
+import { familyName, normalizeAuthors } from '@/lib/names'
+import { createProvenance } from '@/lib/metadataProviders'
+import {
+  fieldsNeedingReview,
+  parseReferenceList,
+  referenceStyleNames,
+  type ParsedField,
+  type ReferenceListParseResult,
+  type ReferenceStyle
+} from '@/lib/referenceListParser'
+
+// The source types the reference list parser can recognise
+const reviewTypes: [SourceType, string][] = [
+  ['article', 'Journal Article'],
+  ['book', 'Book'],
+  ['chapter', 'Book Chapter'],
+  ['conference', 'Conference Paper'],
+  ['thesis', 'Thesis'],
+  ['report', 'Report'],
+  ['website', 'Website']
+]
+
+interface ReferenceListDialogProps {
+  existingCitations: Citation[]
+  onImport: (citations: Citation[]) => void
+}
+
+export function ReferenceListDialog({ existingCitations, onImport }: ReferenceListDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [input, setInput] = useState('')
+  const [result, setResult] = useState<ReferenceListParseResult | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [reviewed, setReviewed] = useState<Set<number>>(new Set())
+  const [editingIndex, setEditingIndex] = useState<number | null>(null)
+  const [editingCitation, setEditingCitation] = useState<Citation | null>(null)
+
+  const reset = () => {
+    setInput('')
+    setResult(null)
+    setSelected(new Set())
+    setReviewed(new Set())
+    setEditingIndex(null)
+    setEditingCitation(null)
+  }
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value)
+    if (!value) reset()
+  }
+
+  const parse = (style?: ReferenceStyle) => {
+    const parsed = parseReferenceList(input, style)
+    setResult(parsed)
+    setReviewed(new Set())
+    // Entries already in the bibliography start unticked
+    setSelected(new Set(
+      parsed.references
+        .map((reference, index) => findDuplicate(reference.citation, existingCitations) ? -1 : index)
+        .filter(index => index >= 0)
+    ))
+    if (parsed.references.length === 0) {
+      toast.error('No references found')
+    }
+  }
+
+  const toggle = (index: number) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const startReview = (index: number) => {
+    if (!result) return
+    setEditingIndex(index)
+    setEditingCitation({ ...result.references[index].citation })
+  }
+
+  const cancelReview = () => {
+    setEditingIndex(null)
+    setEditingCitation(null)
+  }
+
+  const saveReview = () => {
+    if (!result || editingIndex === null || !editingCitation) return
+    const references = [...result.references]
+    // Checked by hand, so the record is as good as a manual entry
+    const citation: Citation = { ...editingCitation, authors: normalizeAuthors(editingCitation.authors), provenance: createProvenance('manual') }
+    delete citation.confidence
+    references[editingIndex] = { ...references[editingIndex], citation }
+    setResult({ ...result, references })
+    setReviewed((current) => new Set(current).add(editingIndex))
+    setSelected((current) => new Set(current).add(editingIndex))
+    cancelReview()
+  }
+
+  const handleImport = () => {
+    if (!result) return
+    const provenance = createProvenance('reference-list')
+    const citations = result.references
+      .filter((_, index) => selected.has(index))
+      .map(reference => ({ ...reference.citation, provenance: reference.citation.provenance || provenance }))
+    onImport(citations)
+    toast.success(`Added ${citations.length} reference${citations.length === 1 ? '' : 's'}`)
+    handleOpenChange(false)
+  }
+
+  const flagged = editingIndex !== null && result && !reviewed.has(editingIndex)
+    ? fieldsNeedingReview(result.references[editingIndex])
+    : []
+  const flagClass = (field: ParsedField) => flagged.includes(field) ? 'border-amber-400 bg-amber-50' : ''
+  const flagLabel = (field: ParsedField) => flagged.includes(field) && (
+    <span className="ml-2 text-xs font-normal text-amber-700">Check</span>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full mt-2">
+          <ClipboardText size={16} className="mr-2" />
+          Paste Reference List
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editingCitation ? 'Review Reference' : 'Paste Reference List'}</DialogTitle>
+          <DialogDescription>
+            {editingCitation
+              ? 'Fields marked "Check" were hard to read from the original; correct them if needed'
+              : 'Paste a formatted reference list in APA, MLA, Chicago, Harvard or IEEE style'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingCitation && editingIndex !== null && result ? (
+          <div className="grid gap-4 py-4">
+            <p className="p-2 bg-muted rounded text-xs">{result.references[editingIndex].raw}</p>
+
+            <div className="space-y-2">
+              <Label htmlFor="review-title">Title{flagLabel('title')}</Label>
+              <Input
+                id="review-title"
+                className={flagClass('title')}
+                value={editingCitation.title}
+                onChange={(e) => setEditingCitation(prev =>
+                  prev ? { ...prev, title: e.target.value } : null
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Type{flagLabel('type')}</Label>
+              <Select
+                value={editingCitation.type}
+                onValueChange={(value: SourceType) => setEditingCitation(prev =>
+                  prev ? { ...prev, type: value } : null
+                )}
+              >
+                <SelectTrigger className={flagClass('type')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reviewTypes.map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Authors{flagLabel('authors')}</Label>
+              <AuthorEditor
+                idPrefix="review-author"
+                authors={editingCitation.authors}
+                onChange={(authors) => setEditingCitation(prev =>
+                  prev ? { ...prev, authors } : null
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="review-year">Year{flagLabel('year')}</Label>
+                <Input
+                  id="review-year"
+                  className={flagClass('year')}
+                  value={editingCitation.year}
+                  onChange={(e) => setEditingCitation(prev =>
+                    prev ? { ...prev, year: e.target.value } : null
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="review-source">
+                  {editingCitation.type === 'book' ? 'Publisher' : 'Source'}
+                  {flagLabel(editingCitation.type === 'book' ? 'publisher' : 'source')}
+                </Label>
+                <Input
+                  id="review-source"
+                  className={flagClass(editingCitation.type === 'book' ? 'publisher' : 'source')}
+                  value={editingCitation.source}
+                  onChange={(e) => setEditingCitation(prev =>
+                    prev ? {
+                      ...prev,
+                      source: e.target.value,
+                      ...(prev.type === 'book' ? { publisher: e.target.value } : {})
+                    } : null
+                  )}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="review-volume">Volume{flagLabel('volume')}</Label>
+                <Input
+                  id="review-volume"
+                  className={flagClass('volume')}
+                  value={editingCitation.volume || ''}
+                  onChange={(e) => setEditingCitation(prev =>
+                    prev ? { ...prev, volume: e.target.value } : null
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="review-issue">Issue{flagLabel('issue')}</Label>
+                <Input
+                  id="review-issue"
+                  className={flagClass('issue')}
+                  value={editingCitation.issue || ''}
+                  onChange={(e) => setEditingCitation(prev =>
+                    prev ? { ...prev, issue: e.target.value } : null
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="review-pages">Pages{flagLabel('pages')}</Label>
+                <Input
+                  id="review-pages"
+                  className={flagClass('pages')}
+                  value={editingCitation.pages || ''}
+                  onChange={(e) => setEditingCitation(prev =>
+                    prev ? { ...prev, pages: e.target.value } : null
+                  )}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="review-doi">DOI{flagLabel('doi')}</Label>
+                <Input
+                  id="review-doi"
+                  className={flagClass('doi')}
+                  value={editingCitation.doi || ''}
+                  onChange={(e) => setEditingCitation(prev =>
+                    prev ? { ...prev, doi: e.target.value } : null
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="review-url">URL{flagLabel('url')}</Label>
+                <Input
+                  id="review-url"
+                  className={flagClass('url')}
+                  value={editingCitation.url || ''}
+                  onChange={(e) => setEditingCitation(prev =>
+                    prev ? { ...prev, url: e.target.value } : null
+                  )}
+                />
+              </div>
+            </div>
+          </div>
+        ) : !result ? (
+          <div className="grid gap-3 py-4">
+            <Textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Smith, J. A., & Doe, B. (2020). Title of the article. Journal Name, 12(3), 45–67. https://doi.org/..."
+              className="min-h-[200px] text-sm"
+            />
+          </div>
+        ) : (
+          <div className="grid gap-3 py-4">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {result.references.length} reference{result.references.length === 1 ? '' : 's'}, {selected.size} selected
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">Style</span>
+                <Select
+                  value={result.style || ''}
+                  onValueChange={(value: ReferenceStyle) => parse(value)}
+                >
+                  <SelectTrigger className="h-8 w-[140px] text-xs">
+                    <SelectValue placeholder="Not detected" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.entries(referenceStyleNames) as [ReferenceStyle, string][]).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="sm" onClick={() => setResult(null)}>
+                  Edit text
+                </Button>
+              </div>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {result.references.map((reference, index) => {
+                const { citation } = reference
+                const toCheck = reviewed.has(index) ? [] : fieldsNeedingReview(reference)
+                const duplicate = findDuplicate(citation, existingCitations)
+                return (
+                  <div key={index} className="p-3 border rounded space-y-1">
+                    <div className="flex items-start gap-2">
+                      <Checkbox
+                        id={`reference-${index}`}
+                        checked={selected.has(index)}
+                        onCheckedChange={() => toggle(index)}
+                      />
+                      <Label htmlFor={`reference-${index}`} className="flex-1 text-sm font-normal leading-snug">
+                        {citation.title}
+                        <span className="block text-xs text-muted-foreground">
+                          {citation.authors.map(familyName).join(', ') || 'Unknown Author'} ({citation.year || 'n.d.'})
+                          {citation.source && ` · ${citation.source}`}
+                        </span>
+                      </Label>
+                      <Badge variant="secondary" className="text-xs capitalize shrink-0">{citation.type}</Badge>
+                      <Button variant="ghost" size="sm" className="shrink-0" onClick={() => startReview(index)}>
+                        <PencilSimple size={14} className="mr-1" />
+                        Review
+                      </Button>
+                    </div>
+                    {(toCheck.length > 0 || duplicate) && (
+                      <ul className="pl-6 space-y-0.5">
+                        {duplicate && (
+                          <li className="flex items-center gap-1 text-xs text-amber-700">
+                            <Warning size={12} className="shrink-0" />
+                            Already in your bibliography
+                          </li>
+                        )}
+                        {toCheck.length > 0 && (
+                          <li className="flex items-center gap-1 text-xs text-amber-700">
+                            <Warning size={12} className="shrink-0" />
+                            Check: {toCheck.join(', ')}
+                          </li>
+                        )}
+                      </ul>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {editingCitation ? (
+            <>
+              <Button variant="outline" onClick={cancelReview}>
+                Back
+              </Button>
+              <Button onClick={saveReview}>
+                Save Changes
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              {!result ? (
+                <Button onClick={() => parse()} disabled={!input.trim()}>
+                  Read References
+                </Button>
+              ) : (
+                <Button onClick={handleImport} disabled={selected.size === 0}>
+                  Add {selected.size} reference{selected.size === 1 ? '' : 's'}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
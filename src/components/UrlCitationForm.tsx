@@ -8,6 +8,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Loader2, Link, Plus, CheckCircle, AlertCircle } from '@phosphor-icons/react'
 import { toast } from 'sonner'
 import type { Citation } from '@/App'
+import { formatNameInverted, parseNameList } from '@/lib/names'
+import {
+  createProvenance,
+  editedProvenance,
+  identifierFromUrl,
+  lookupMetadata,
+  SEARCH_TIMEOUT_MS,
+  searchResultToCitation,
+  type SearchResult
+} from '@/lib/metadataProviders'
+import { createDefaultProviders } from '@/lib/providers'
+
+const metadataProviders = createDefaultProviders()
 
 interface ExtractedMetadata {
   title: string
@@ -16,6 +29,15 @@ interface ExtractedMetadata {
   siteName: string
   description?: string
   url: string
+  // Database record, when the link points at a DOI, arXiv or PubMed page
+  record?: SearchResult
+}
+
+type UrlSourceType = 'website' | 'article' | 'book' | 'journal'
+
+function toUrlSourceType(record?: SearchResult): UrlSourceType {
+  if (!record) return 'website'
+  return record.type === 'book' || record.type === 'journal' ? record.type : 'article'
 }
 
 interface UrlCitationFormProps {
@@ -33,55 +55,30 @@ export function UrlCitationForm({ onCitationAdd }: UrlCitationFormProps) {
     source: '',
     url: '',
     dateAccessed: new Date().toISOString().split('T')[0],
-    type: 'website' as const
+    type: 'website' as UrlSourceType
   })
 
-  const simulateMetadataExtraction = async (inputUrl: string): Promise<ExtractedMetadata> => {
-    await new Promise(resolve => setTimeout(resolve, 2000))
-    
+  // Pages can't be read from the browser, so details come only from a
+  // database lookup of the identifier in the link. Other pages get their
+  // site name and the rest is left for the user to fill in.
+  const readUrlMetadata = async (inputUrl: string): Promise<ExtractedMetadata> => {
     const domain = new URL(inputUrl).hostname.replace('www.', '')
-    
-    const mockData: Record<string, ExtractedMetadata> = {
-      'nature.com': {
-        title: 'Breakthrough in Quantum Computing Research',
-        authors: ['Dr. Sarah Johnson', 'Prof. Michael Chen'],
-        publishDate: '2024',
-        siteName: 'Nature',
-        description: 'Scientists achieve new milestone in quantum computing capabilities',
-        url: inputUrl
-      },
-      'scholar.google.com': {
-        title: 'Machine Learning Applications in Medical Diagnosis',
-        authors: ['Research Team'],
-        publishDate: '2023',
-        siteName: 'Google Scholar',
-        url: inputUrl
-      },
-      'arxiv.org': {
-        title: 'Novel Approaches to Neural Network Architecture',
-        authors: ['Smith, J.', 'Williams, A.'],
-        publishDate: '2024',
-        siteName: 'arXiv',
-        url: inputUrl
-      },
-      'pubmed.ncbi.nlm.nih.gov': {
-        title: 'Clinical Trial Results for New Treatment Protocol',
-        authors: ['Medical Research Institute'],
-        publishDate: '2023',
-        siteName: 'PubMed',
-        url: inputUrl
-      }
+    const siteName = domain.charAt(0).toUpperCase() + domain.slice(1)
+    const identifier = identifierFromUrl(inputUrl)
+    const record = identifier ? (await lookupMetadata(metadataProviders, identifier, { signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS) })).result : null
+
+    if (!record) {
+      return { title: '', authors: [], publishDate: '', siteName, url: inputUrl }
     }
-    
-    const fallbackData: ExtractedMetadata = {
-      title: 'Article Title Could Not Be Extracted',
-      authors: [],
-      publishDate: '2024',
-      siteName: domain.charAt(0).toUpperCase() + domain.slice(1),
-      url: inputUrl
+    return {
+      title: record.title,
+      authors: record.authors.map(formatNameInverted),
+      publishDate: record.year,
+      siteName: record.journal || siteName,
+      description: record.abstract,
+      url: inputUrl,
+      record
     }
-    
-    return mockData[domain] || fallbackData
   }
 
   const extractMetadata = async () => {
@@ -100,20 +97,24 @@ export function UrlCitationForm({ onCitationAdd }: UrlCitationFormProps) {
     setIsExtracting(true)
     
     try {
-      const metadata = await simulateMetadataExtraction(url)
+      const metadata = await readUrlMetadata(url)
       setExtractedData(metadata)
       
       setFormData({
         title: metadata.title,
-        authors: metadata.authors.join(', '),
+        authors: metadata.authors.join('; '),
         year: metadata.publishDate,
         source: metadata.siteName,
         url: metadata.url,
         dateAccessed: new Date().toISOString().split('T')[0],
-        type: 'website'
+        type: toUrlSourceType(metadata.record)
       })
       
-      toast.success('Metadata extracted successfully!')
+      if (metadata.record) {
+        toast.success('Details found in the academic databases')
+      } else {
+        toast.info('This page could not be read automatically. Fill in the title and authors from the page.')
+      }
     } catch (error) {
       toast.error('Failed to extract metadata. Please fill in manually.')
       setFormData(prev => ({ ...prev, url }))
@@ -146,15 +147,31 @@ export function UrlCitationForm({ onCitationAdd }: UrlCitationFormProps) {
       return
     }
 
+    // Fields the form doesn't show (DOI, volume, pages...) come from the
+    // database record. It stays verified only while the form still shows
+    // what the record said.
+    const record = extractedData?.record
+    const unchanged = extractedData !== null &&
+      formData.title === extractedData.title &&
+      formData.authors === extractedData.authors.join('; ') &&
+      formData.year === extractedData.publishDate &&
+      formData.source === extractedData.siteName &&
+      formData.url === extractedData.url &&
+      formData.type === toUrlSourceType(record)
     const citation: Citation = {
+      ...(record ? searchResultToCitation(record) : {}),
       id: `citation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       title: formData.title,
-      authors: formData.authors ? formData.authors.split(',').map(a => a.trim()) : [],
+      // Database names stay as they came; re-parsing their text can split them
+      authors: record && formData.authors === extractedData?.authors.join('; ') ? record.authors : parseNameList(formData.authors),
       year: formData.year,
       source: formData.source,
       url: formData.url,
-      type: formData.type,
-      dateAccessed: formData.dateAccessed
+      type: record && toUrlSourceType(record) === formData.type ? record.type : formData.type,
+      dateAccessed: formData.dateAccessed,
+      provenance: record
+        ? unchanged ? record.provenance : editedProvenance(record.provenance)
+        : createProvenance('url', formData.url)
     }
     
     onCitationAdd(citation)
@@ -203,7 +220,9 @@ export function UrlCitationForm({ onCitationAdd }: UrlCitationFormProps) {
           <div className="flex items-center gap-2 text-sm">
             <CheckCircle size={16} className="text-secondary" />
             <span className="text-muted-foreground">
-              Metadata extracted from {extractedData.siteName}
+              {extractedData.record
+                ? `Details found for this link in ${extractedData.siteName}`
+                : `Site name read from the address; add the other details from the page`}
             </span>
           </div>
         )}
@@ -235,7 +254,7 @@ export function UrlCitationForm({ onCitationAdd }: UrlCitationFormProps) {
             <Label htmlFor="authors">Authors</Label>
             <Input
               id="authors"
-              placeholder="Separate multiple authors with commas"
+              placeholder="Separate multiple authors with semicolons"
               value={formData.authors}
               onChange={(e) => handleInputChange('authors', e.target.value)}
               className="h-11"
@@ -295,7 +314,7 @@ export function UrlCitationForm({ onCitationAdd }: UrlCitationFormProps) {
             <Label htmlFor="type">Source Type</Label>
             <Select 
               value={formData.type} 
-              onValueChange={(value: 'website' | 'article' | 'book' | 'journal') => 
+              onValueChange={(value: UrlSourceType) => 
                 handleInputChange('type', value)
               }
             >
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { importBibTeX } from '@/lib/bibtexParser'
+
+describe('importBibTeX', () => {
+  it('skips a crossref parent that only carries fields for its children', () => {
+    const { items } = importBibTeX(`
+      @inproceedings{lopez2020,
+        author = {Lopez, Ana},
+        title = {Sleep and memory},
+        pages = {1--10},
+        crossref = {conf2020}
+      }
+      @proceedings{conf2020,
+        booktitle = {Proceedings of the Sleep Conference},
+        year = {2020},
+        publisher = {ACM}
+      }
+    `)
+
+    expect(items.map(item => item.label)).toEqual(['lopez2020'])
+    expect(items[0].warnings).toEqual([])
+    expect(items[0].citation).toMatchObject({ title: 'Sleep and memory', year: '2020', publisher: 'ACM' })
+  })
+
+  it('keeps a crossref parent with a title of its own', () => {
+    const { items } = importBibTeX(`
+      @incollection{lopez2018,
+        author = {Lopez, Ana},
+        title = {Dreams},
+        crossref = {berg2018}
+      }
+      @book{berg2018,
+        editor = {Berg, Jan},
+        title = {The Sleeping Brain},
+        year = {2018}
+      }
+    `)
+
+    expect(items.map(item => item.label)).toEqual(['lopez2018', 'berg2018'])
+  })
+
+  it('reads a crossref parent subtitle as part of the book title', () => {
+    const { items } = importBibTeX(`
+      @incollection{lopez2018,
+        author = {Lopez, Ana},
+        title = {Dreams},
+        pages = {10--20},
+        crossref = {berg2018}
+      }
+      @book{berg2018,
+        editor = {Berg, Jan},
+        title = {The Sleeping Brain},
+        subtitle = {Essays on Rest},
+        year = {2018},
+        publisher = {Academic Press},
+        doi = {10.1000/book.2018},
+        url = {https://example.com/book},
+        abstract = {A book about sleep.},
+        pages = {300}
+      }
+    `)
+
+    const chapter = items[0].citation
+    expect(chapter).toMatchObject({
+      title: 'Dreams',
+      source: 'The Sleeping Brain: Essays on Rest',
+      publisher: 'Academic Press',
+      year: '2018',
+      pages: '10-20'
+    })
+    expect(chapter.doi).toBeUndefined()
+    expect(chapter.url).toBeUndefined()
+    expect(chapter.abstract).toBeUndefined()
+  })
+})
@@ -0,0 +1,511 @@
+import type { Citation, SourceType } from '@/App'
+import { decodeLatex } from '@/lib/latex'
+import type { PersonName } from '@/lib/names'
+import { cleanDoi, compactCitation, createImportedId, extractYear, type ImportedCitation, type ImportResult } from '@/lib/importUtils'
+
+/**
+ * BibTeX and BibLaTeX import: @string macros, # concatenation, braced and
+ * quoted values, crossref inheritance and "and"-separated name lists
+ */
+
+export interface BibTeXEntry {
+  // Lower-case entry type without the "@", e.g. "article"
+  type: string
+  key: string
+  // Lower-case field names; values have macros expanded but keep their LaTeX
+  fields: Record<string, string>
+  line: number
+  warnings: string[]
+}
+
+export interface BibTeXParseResult {
+  entries: BibTeXEntry[]
+  errors: string[]
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+// BibTeX predefines jan..dec as month names
+const PREDEFINED_MACROS: [string, string][] = MONTH_NAMES.map(name => [name.slice(0, 3).toLowerCase(), name])
+
+/**
+ * Parse BibTeX source into raw entries. Text outside entries is ignored, as
+ * BibTeX does; an entry with a syntax error is reported and skipped.
+ */
+export function parseBibTeX(source: string): BibTeXParseResult {
+  const entries: BibTeXEntry[] = []
+  const errors: string[] = []
+  const macros = new Map<string, string>(PREDEFINED_MACROS)
+  let pos = 0
+
+  const lineAt = (index: number) => source.slice(0, index).split('\n').length
+
+  const fail = (message: string, index = pos): never => {
+    throw new Error(`Line ${lineAt(index)}: ${message}`)
+  }
+
+  // Whitespace and "%" line comments between tokens
+  const skipWhitespace = () => {
+    while (pos < source.length) {
+      if (/\s/.test(source[pos])) {
+        pos++
+      } else if (source[pos] === '%') {
+        while (pos < source.length && source[pos] !== '\n') pos++
+      } else {
+        break
+      }
+    }
+  }
+
+  const readIdentifier = (what: string): string => {
+    const match = source.slice(pos).match(/^[^\s"#%'(),={}]+/)
+    if (!match) return fail(`expected ${what}`)
+    pos += match[0].length
+    return match[0]
+  }
+
+  const readDelimited = (close: string): string => {
+    const start = pos
+    let depth = 0
+    pos++
+    while (pos < source.length) {
+      const char = source[pos]
+      if (char === '\\') {
+        pos += 2
+        continue
+      }
+      if (char === '{') {
+        depth++
+      } else if (char === '}') {
+        if (depth === 0 && close === '}') {
+          pos++
+          return source.slice(start + 1, pos - 1)
+        }
+        depth--
+      } else if (char === close && depth === 0) {
+        pos++
+        return source.slice(start + 1, pos - 1)
+      }
+      pos++
+    }
+    return fail(close === '}' ? 'unbalanced braces' : 'unterminated quoted value', start)
+  }
+
+  // One or more braced, quoted, numeric or macro parts joined with "#"
+  const readValue = (warnings: string[]): string => {
+    let value = ''
+    for (;;) {
+      skipWhitespace()
+      const char = source[pos]
+      if (char === '{') {
+        value += readDelimited('}')
+      } else if (char === '"') {
+        value += readDelimited('"')
+      } else if (/\d/.test(char || '')) {
+        const digits = source.slice(pos).match(/^\d+/)?.[0] || ''
+        value += digits
+        pos += digits.length
+      } else {
+        const name = readIdentifier('a value')
+        const expansion = macros.get(name.toLowerCase())
+        if (expansion === undefined) {
+          warnings.push(`Undefined string "${name}"`)
+        } else {
+          value += expansion
+        }
+      }
+      skipWhitespace()
+      if (source[pos] !== '#') return value
+      pos++
+    }
+  }
+
+  const expect = (char: string) => {
+    skipWhitespace()
+    if (source[pos] !== char) fail(`expected "${char}"`)
+    pos++
+  }
+
+  for (;;) {
+    const at = source.indexOf('@', pos)
+    if (at === -1) break
+    pos = at + 1
+
+    try {
+      skipWhitespace()
+      const type = readIdentifier('an entry type').toLowerCase()
+      skipWhitespace()
+      const open = source[pos]
+      if (open !== '{' && open !== '(') fail(`expected "{" after @${type}`)
+      const close = open === '{' ? '}' : ')'
+
+      if (type === 'comment') {
+        readDelimited(close)
+        continue
+      }
+
+      pos++
+      if (type === 'preamble') {
+        readValue([])
+        expect(close)
+        continue
+      }
+
+      if (type === 'string') {
+        skipWhitespace()
+        const name = readIdentifier('a string name')
+        expect('=')
+        const warnings: string[] = []
+        macros.set(name.toLowerCase(), readValue(warnings))
+        warnings.forEach(warning => errors.push(`Line ${lineAt(at)}: ${warning}`))
+        expect(close)
+        continue
+      }
+
+      skipWhitespace()
+      const key = source.slice(pos).match(/^[^,\s})]*/)?.[0] || ''
+      pos += key.length
+      const entry: BibTeXEntry = { type, key, fields: {}, line: lineAt(at), warnings: [] }
+
+      for (;;) {
+        skipWhitespace()
+        if (pos >= source.length) fail(`@${type}{${key} is not closed`, at)
+        if (source[pos] === ',') {
+          pos++
+          continue
+        }
+        if (source[pos] === close) {
+          pos++
+          break
+        }
+        if (source[pos] === '@') fail(`@${type}{${key} is not closed`, at)
+        const name = readIdentifier('a field name').toLowerCase()
+        expect('=')
+        const value = readValue(entry.warnings)
+        if (name in entry.fields) {
+          entry.warnings.push(`Duplicate field "${name}" ignored`)
+        } else {
+          entry.fields[name] = value
+        }
+      }
+
+      if (!key) entry.warnings.push('Entry has no citation key')
+      entries.push(entry)
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error))
+      // Resume at the next "@" so one bad entry does not swallow the rest
+      pos = at + 1
+    }
+  }
+
+  resolveCrossrefs(entries)
+  return { entries, errors }
+}
+
+// Fields that belong to the parent entry alone, not to works inside it
+const NOT_INHERITED = new Set([
+  'crossref', 'ids', 'shorttitle', 'abstract', 'url', 'urldate', 'doi', 'eprint', 'note',
+  'keywords', 'file', 'pages', 'label'
+])
+
+/**
+ * Copy missing fields from cross-referenced parent entries. A parent's title
+ * and subtitle become the child's booktitle and booksubtitle (journaltitle
+ * and journalsubtitle for periodicals); fields that describe only the parent
+ * entry itself are not copied.
+ */
+function resolveCrossrefs(entries: BibTeXEntry[]) {
+  const byKey = new Map(entries.map(entry => [entry.key.toLowerCase(), entry]))
+  const resolved = new Set<BibTeXEntry>()
+
+  const resolve = (entry: BibTeXEntry, chain: Set<BibTeXEntry>) => {
+    if (resolved.has(entry)) return
+    resolved.add(entry)
+    const key = entry.fields.crossref?.trim()
+    if (!key) return
+
+    const parent = byKey.get(key.toLowerCase())
+    if (!parent) {
+      entry.warnings.push(`Cross-referenced entry "${key}" not found`)
+      return
+    }
+    if (chain.has(parent)) {
+      entry.warnings.push(`Circular cross-reference to "${key}" ignored`)
+      return
+    }
+    resolve(parent, new Set([...chain, entry]))
+
+    Object.entries(parent.fields).forEach(([name, value]) => {
+      if (NOT_INHERITED.has(name)) return
+      if (name === 'title' || name === 'subtitle') {
+        const target = `${parent.type === 'periodical' ? 'journal' : 'book'}${name}`
+        if (!(target in entry.fields)) entry.fields[target] = value
+        return
+      }
+      if (!(name in entry.fields)) entry.fields[name] = value
+    })
+  }
+
+  entries.forEach(entry => resolve(entry, new Set()))
+}
+
+// Split at a separator outside braces
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let current = ''
+  let index = 0
+  while (index < value.length) {
+    const char = value[index]
+    if (char === '{') depth++
+    if (char === '}') depth--
+    if (depth === 0) {
+      const match = value.slice(index).match(separator)
+      if (match && match.index === 0) {
+        parts.push(current)
+        current = ''
+        index += match[0].length
+        continue
+      }
+    }
+    current += char
+    index++
+  }
+  parts.push(current)
+  return parts.map(part => part.trim()).filter(Boolean)
+}
+
+// A "von" word starts with a lower-case letter outside braces, or with an
+// accented lower-case letter such as {\"u}
+function isLowerCaseWord(word: string): boolean {
+  for (let index = 0; index < word.length; index++) {
+    const char = word[index]
+    if (char === '{') {
+      if (word[index + 1] !== '\\') return false
+      const decoded = decodeLatex(word.slice(index))
+      return decoded.length > 0 && decoded[0] === decoded[0].toLowerCase() && decoded[0] !== decoded[0].toUpperCase()
+    }
+    if (/\p{L}/u.test(char)) return char === char.toLowerCase() && char !== char.toUpperCase()
+  }
+  return false
+}
+
+function joinWords(words: string[]): string | undefined {
+  const value = decodeLatex(words.join(' '))
+  return value || undefined
+}
+
+/**
+ * Parse one BibTeX name: "First von Last", "von Last, First" or
+ * "von Last, Jr, First". A fully braced name is an institution.
+ */
+function parseBibTeXName(raw: string): PersonName {
+  const value = raw.trim()
+  if (/^\{.*\}$/s.test(value) && splitTopLevel(value, /^\s+/).length === 1 && !value.startsWith('{\\')) {
+    return { literal: decodeLatex(value) }
+  }
+
+  const parts = splitTopLevel(value, /^,/)
+  const name: PersonName = {}
+
+  const splitVonLast = (words: string[]) => {
+    // Leading lower-case words are the particle, but the family name always
+    // keeps at least one word
+    let vonEnd = -1
+    words.forEach((word, index) => {
+      if (index < words.length - 1 && isLowerCaseWord(word)) vonEnd = index
+    })
+    name.particle = joinWords(words.slice(0, vonEnd + 1))
+    name.family = joinWords(words.slice(vonEnd + 1))
+  }
+
+  if (parts.length === 1) {
+    const words = splitTopLevel(parts[0], /^[\s~]+/)
+    const vonStart = words.findIndex((word, index) => index < words.length - 1 && isLowerCaseWord(word))
+    if (vonStart === -1) {
+      name.given = joinWords(words.slice(0, -1))
+      name.family = joinWords(words.slice(-1))
+    } else {
+      name.given = joinWords(words.slice(0, vonStart))
+      splitVonLast(words.slice(vonStart))
+    }
+  } else {
+    splitVonLast(splitTopLevel(parts[0], /^[\s~]+/))
+    if (parts.length >= 3) {
+      name.suffix = joinWords([parts[1]])
+      name.given = joinWords(parts.slice(2))
+    } else {
+      name.given = joinWords([parts[1]])
+    }
+  }
+
+  ;(Object.keys(name) as (keyof PersonName)[]).forEach(key => {
+    if (!name[key]) delete name[key]
+  })
+  return name
+}
+
+/**
+ * Split an "and"-separated name list. A trailing "and others" is dropped and
+ * reported.
+ */
+function parseBibTeXNames(value: string, warnings: string[]): PersonName[] {
+  const names = splitTopLevel(value, /^\s+and\s+/i)
+  if (names.length > 0 && names[names.length - 1].toLowerCase() === 'others') {
+    names.pop()
+    warnings.push('Author list ends with "and others"; only the named authors were imported')
+  }
+  return names.map(parseBibTeXName).filter(name => Object.keys(name).length > 0)
+}
+
+const ENTRY_TYPES: Record<string, SourceType> = {
+  article: 'article',
+  periodical: 'journal',
+  suppperiodical: 'article',
+  book: 'book',
+  mvbook: 'book',
+  booklet: 'book',
+  collection: 'book',
+  mvcollection: 'book',
+  reference: 'book',
+  proceedings: 'book',
+  mvproceedings: 'book',
+  inbook: 'chapter',
+  incollection: 'chapter',
+  bookinbook: 'chapter',
+  suppbook: 'chapter',
+  suppcollection: 'chapter',
+  inreference: 'chapter',
+  inproceedings: 'conference',
+  conference: 'conference',
+  phdthesis: 'thesis',
+  mastersthesis: 'thesis',
+  thesis: 'thesis',
+  techreport: 'report',
+  report: 'report',
+  manual: 'report',
+  online: 'website',
+  www: 'website',
+  electronic: 'website',
+  dataset: 'dataset',
+  software: 'software',
+  patent: 'patent',
+  standard: 'standard',
+  video: 'video',
+  movie: 'video',
+  audio: 'podcast',
+  unpublished: 'preprint'
+}
+
+// URLs and DOIs keep their characters; only escapes and braces are removed
+function rawValue(value: string | undefined): string {
+  return (value || '').replace(/\\([&%$#_{}~])/g, '$1').replace(/[{}]/g, '').trim()
+}
+
+/**
+ * Map a parsed entry onto a citation, noting anything that could not be
+ * carried over
+ */
+export function bibTeXEntryToCitation(entry: BibTeXEntry): ImportedCitation {
+  const warnings = [...entry.warnings]
+  const fields = entry.fields
+  const text = (name: string) => (fields[name] ? decodeLatex(fields[name]) : '')
+
+  let type = ENTRY_TYPES[entry.type]
+  if (type === 'article' && text('entrysubtype').toLowerCase() === 'newspaper') {
+    type = 'newspaper'
+  }
+  const howpublishedUrl = fields.howpublished?.match(/\\url\{([^}]*)\}/)?.[1]
+  const url = rawValue(fields.url) || rawValue(howpublishedUrl)
+  if (!type) {
+    type = fields.eprint ? 'preprint' : url ? 'website' : 'report'
+    if (entry.type !== 'misc' || type === 'report') {
+      warnings.push(`@${entry.type} entries have no direct equivalent; imported as ${type}`)
+    }
+  }
+
+  const subtitle = text('subtitle')
+  let title = [text('title'), subtitle].filter(Boolean).join(': ')
+  if (!title) {
+    warnings.push('Missing title')
+    title = 'Untitled'
+  }
+
+  let authors = fields.author ? parseBibTeXNames(fields.author, warnings) : []
+  if (authors.length === 0 && fields.editor) {
+    authors = parseBibTeXNames(fields.editor, warnings)
+    warnings.push('No author; the editors were imported as authors')
+  }
+  if (authors.length === 0 && (fields.organization || fields.institution)) {
+    authors = [{ literal: text('organization') || text('institution') }]
+  }
+  if (authors.length === 0) warnings.push('No authors')
+
+  const year = extractYear(text('year')) || text('year') || extractYear(text('date'))
+  if (!year) warnings.push('No year')
+
+  const isPeriodicalType = type === 'article' || type === 'journal' || type === 'newspaper'
+  const source = isPeriodicalType
+    ? text('journal') || [text('journaltitle'), text('journalsubtitle')].filter(Boolean).join(': ')
+    : type === 'chapter' || type === 'conference'
+      ? [text('booktitle'), text('booksubtitle')].filter(Boolean).join(': ') || text('maintitle')
+      : type === 'book' || type === 'report' || type === 'thesis'
+        ? ''
+        : text('journaltitle') || text('journal') || (!howpublishedUrl && text('howpublished')) || text('organization')
+  const publisher = text('publisher') ||
+    (type === 'thesis' ? text('school') || text('institution') : '') ||
+    text('institution') ||
+    text('organization')
+
+  const number = text('number')
+  const archivePrefix = text('archiveprefix') || text('eprinttype')
+  const eprint = rawValue(fields.eprint)
+  const archiveId = type === 'standard'
+    ? number
+    : eprint && archivePrefix.toLowerCase() === 'arxiv' && !/^arxiv:/i.test(eprint) ? `arXiv:${eprint}` : eprint
+
+  const citation = compactCitation({
+    id: createImportedId(),
+    title,
+    authors,
+    year,
+    source: source || publisher,
+    url: url || undefined,
+    doi: fields.doi ? cleanDoi(rawValue(fields.doi)) : undefined,
+    pages: fields.pages ? decodeLatex(fields.pages.replace(/-+/g, '-')) : undefined,
+    volume: text('volume') || undefined,
+    issue: (type === 'patent' || type === 'standard' ? '' : number || text('issue')) || undefined,
+    publisher: publisher || undefined,
+    edition: text('edition') || undefined,
+    city: text('address') || text('location') || undefined,
+    isbn: text('isbn') || undefined,
+    abstract: text('abstract') || undefined,
+    version: text('version') || undefined,
+    repository: archivePrefix || undefined,
+    archiveId: archiveId || undefined,
+    patentNumber: type === 'patent' ? number || undefined : undefined,
+    type,
+    dateAccessed: rawValue(fields.urldate) || undefined
+  })
+
+  return { citation, label: entry.key || `Line ${entry.line}`, warnings }
+}
+
+/**
+ * Read a .bib file into citations ready for review
+ */
+export function importBibTeX(source: string): ImportResult {
+  const { entries, errors } = parseBibTeX(source)
+  // A parent with no title of its own only carries fields for its children,
+  // which already inherited them; importing it would add an "Untitled" item
+  const parents = new Set(
+    entries.flatMap(entry => entry.fields.crossref ? [entry.fields.crossref.trim().toLowerCase()] : [])
+  )
+  const items = entries
+    .filter(entry => !(parents.has(entry.key.toLowerCase()) && !entry.fields.title?.trim()))
+    .map(bibTeXEntryToCitation)
+  return { items, errors }
+}
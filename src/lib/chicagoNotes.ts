@@ -0,0 +1,198 @@
+import type { Citation } from '@/App'
+import { createRunList, formatEdition, formatPublisherPlace, type FormattedCitation } from '@/lib/citationFormatter'
+import { formatLocator, shortTitle, type InTextCite } from '@/lib/inTextCitation'
+import { familyName, formatNameList, type NameListOptions } from '@/lib/names'
+
+/**
+ * Chicago notes-bibliography: full first notes, shortened subsequent notes
+ * and "Ibid." for consecutive citations of the same source
+ */
+
+export type NoteCite = InTextCite
+
+export type NoteKind = 'full' | 'short' | 'ibid'
+
+export interface FormattedNote {
+  number: number
+  id: string
+  kind: NoteKind
+  runs: FormattedCitation
+}
+
+// Notes give names in reading order and shorten four or more to "et al."
+const noteNameRules: NameListOptions = {
+  invert: 'none',
+  delimiter: ', ',
+  and: 'and',
+  delimiterBeforeLast: 'contextual',
+  etAlMin: 4,
+  etAlUseFirst: 1,
+  etAlDelimiter: ' '
+}
+
+type RunList = ReturnType<typeof createRunList>
+
+// Chicago keeps the comma inside the closing quotation mark
+function quotedTitle(out: RunList, title: string, punctuation: string) {
+  const ending = /[?!]$/.test(title) ? '' : punctuation
+  out.text(`"${title}${ending}"`)
+}
+
+function isPeriodical(citation: Citation): boolean {
+  return citation.type === 'journal' || citation.type === 'article'
+}
+
+// Books, reports and other standalone works take italic titles; everything
+// else is quoted
+function hasItalicTitle(citation: Citation): boolean {
+  return ['book', 'report', 'dataset', 'software', 'standard'].includes(citation.type)
+}
+
+/**
+ * Full note for the first citation of a source: "1. Jane Doe, "Title,"
+ * Journal 5, no. 2 (2020): 14." Newspapers and websites share the last
+ * branch: "Title," Source, year, URL.
+ */
+export function formatFullNote(citation: Citation, cite: Partial<NoteCite> = {}): FormattedCitation {
+  const out = createRunList()
+  const locator = formatLocator({ id: citation.id, ...cite }, 'chicago')
+  const authors = formatNameList(citation.authors, noteNameRules)
+  const { title, source, year, volume, issue, url, doi } = citation
+  const edition = formatEdition(citation.edition)
+  const publication = [formatPublisherPlace(citation), year].filter(Boolean).join(', ')
+
+  if (cite.prefix) out.text(`${cite.prefix.trim()} `)
+  if (authors) out.text(`${authors}, `)
+
+  if (hasItalicTitle(citation)) {
+    out.italic(title)
+    if (edition) out.text(`, ${edition}`)
+    if (publication) out.text(` (${publication})`)
+    if (locator) out.text(`, ${locator}`)
+  } else if (citation.type === 'chapter' || citation.type === 'conference') {
+    quotedTitle(out, title, ',')
+    if (source) {
+      out.text(' in ')
+      out.italic(source)
+    }
+    if (edition) out.text(`, ${edition}`)
+    if (publication) out.text(` (${publication})`)
+    if (locator) out.text(`, ${locator}`)
+  } else if (citation.type === 'thesis') {
+    quotedTitle(out, title, '')
+    out.text(` (${['Thesis', citation.publisher, year].filter(Boolean).join(', ')})`)
+    if (locator) out.text(`, ${locator}`)
+  } else if (isPeriodical(citation)) {
+    quotedTitle(out, title, ',')
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+    }
+    if (volume) out.text(` ${volume}`)
+    if (issue) out.text(`, no. ${issue}`)
+    if (year) out.text(` (${year})`)
+    if (locator) out.text(`: ${locator}`)
+    if (doi) {
+      out.text(', ')
+      out.link(`https://doi.org/${doi}`)
+    }
+  } else {
+    quotedTitle(out, title, ',')
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      out.text(',')
+    }
+    if (year) out.text(` ${year},`)
+    if (locator) out.text(` ${locator},`)
+    if (url) {
+      out.text(' ')
+      out.link(url)
+    }
+  }
+
+  if (cite.suffix) out.text(`, ${cite.suffix.trim()}`)
+  return finishNote(out)
+}
+
+/**
+ * Shortened note for later citations: "Doe, "Short Title," 14."
+ */
+export function formatShortNote(citation: Citation, cite: Partial<NoteCite> = {}): FormattedCitation {
+  const out = createRunList()
+  const locator = formatLocator({ id: citation.id, ...cite }, 'chicago')
+  const authors = formatNameList(citation.authors.map(author => ({ family: familyName(author) })), noteNameRules)
+
+  if (cite.prefix) out.text(`${cite.prefix.trim()} `)
+  if (authors) out.text(`${authors}, `)
+
+  if (hasItalicTitle(citation)) {
+    out.italic(shortTitle(citation))
+    if (locator) out.text(`, ${locator}`)
+  } else {
+    quotedTitle(out, shortTitle(citation), locator ? ',' : '')
+    if (locator) out.text(` ${locator}`)
+  }
+
+  if (cite.suffix) out.text(`, ${cite.suffix.trim()}`)
+  return finishNote(out)
+}
+
+function formatIbid(cite: NoteCite, samePlace: boolean): FormattedCitation {
+  const out = createRunList()
+  const locator = formatLocator(cite, 'chicago')
+  out.text(locator && !samePlace ? `Ibid., ${locator}` : 'Ibid')
+  if (cite.suffix) out.text(`, ${cite.suffix.trim()}`)
+  return finishNote(out)
+}
+
+function finishNote(out: RunList): FormattedCitation {
+  const last = out.runs[out.runs.length - 1]
+  if (last && !last.url && /[,\s]$/.test(last.text)) {
+    last.text = last.text.replace(/[,\s]+$/, '')
+  }
+  if (last && !last.url && last.text.endsWith('"') && !/[.?!]"$/.test(last.text)) {
+    last.text = `${last.text.slice(0, last.text.endsWith(',"') ? -2 : -1)}."`
+    return out.runs
+  }
+  const text = out.runs.map(run => run.text).join('')
+  if (!/[.?!]["”]?$/.test(text)) out.text('.')
+  return out.runs
+}
+
+/**
+ * Number a sequence of citations as notes. The first citation of a source
+ * gets a full note, later ones a short note, and a citation of the same
+ * source as the note immediately before it becomes "Ibid." (dropping back
+ * to a short note when the earlier note had a locator and this one does not,
+ * so the reader is not sent to the wrong page).
+ */
+export function buildNoteSequence(cites: NoteCite[], citations: Citation[]): FormattedNote[] {
+  const seen = new Set<string>()
+  const notes: FormattedNote[] = []
+  let previous: NoteCite | undefined
+
+  cites.forEach(cite => {
+    const citation = citations.find(c => c.id === cite.id)
+    if (!citation) return
+
+    const locator = cite.locator?.trim() || ''
+    const previousLocator = previous?.locator?.trim() || ''
+    let kind: NoteKind = seen.has(cite.id) ? 'short' : 'full'
+    if (previous?.id === cite.id && !cite.prefix && (locator || !previousLocator)) {
+      kind = 'ibid'
+    }
+
+    const runs = kind === 'full'
+      ? formatFullNote(citation, cite)
+      : kind === 'short'
+        ? formatShortNote(citation, cite)
+        : formatIbid(cite, locator === previousLocator && (cite.label || 'page') === (previous?.label || 'page'))
+
+    seen.add(cite.id)
+    previous = cite
+    notes.push({ number: notes.length + 1, id: cite.id, kind, runs })
+  })
+
+  return notes
+}
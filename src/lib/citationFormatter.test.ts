@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import type { Citation } from '@/App'
+import { formatCitation, toPlainText } from '@/lib/citationFormatter'
+
+const article: Citation = {
+  id: 'a',
+  type: 'article',
+  title: 'Sleep and memory',
+  authors: [{ family: 'Smith', given: 'Jane' }],
+  year: '2020',
+  source: 'Journal of Sleep',
+  volume: '12',
+  issue: '3',
+  pages: '45-67',
+  doi: '10.1/x_y',
+  dateAccessed: '2024-01-05T00:00:00.000Z'
+}
+
+describe('APA journal articles', () => {
+  it('italicizes the volume with the journal and ends with the DOI', () => {
+    const runs = formatCitation(article, 'apa')
+    expect(runs).toContainEqual({ text: 'Journal of Sleep, 12', italic: true })
+    expect(runs[runs.length - 1]).toEqual({ text: 'https://doi.org/10.1/x_y', url: 'https://doi.org/10.1/x_y' })
+    expect(toPlainText(runs)).toBe('Smith, J. (2020). Sleep and memory. Journal of Sleep, 12(3), 45-67. https://doi.org/10.1/x_y')
+  })
+
+  it('falls back to the URL without a DOI', () => {
+    const runs = formatCitation({ ...article, doi: undefined, url: 'https://example.com/sleep' }, 'apa')
+    expect(toPlainText(runs)).toMatch(/45-67\. https:\/\/example\.com\/sleep$/)
+  })
+})
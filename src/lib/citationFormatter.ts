@@ -0,0 +1,993 @@
+import type { BuiltinCitationStyle, Citation, CitationStyle } from '@/App'
+import { formatNameList, nameSortKey, type NameListOptions } from '@/lib/names'
+import { formatBibliographyEntriesWithCsl, formatBibliographyWithCsl, formatCitationWithCsl, isCslStyle } from '@/lib/cslStyles'
+
+/**
+ * Shared citation formatting engine used by the converter, the bibliography
+ * view and the export dialogs
+ */
+
+export interface CitationRun {
+  text: string
+  italic?: boolean
+  bold?: boolean
+  smallCaps?: boolean
+  superscript?: boolean
+  url?: string
+}
+
+export type FormattedCitation = CitationRun[]
+
+/**
+ * Small helper for appending runs while merging adjacent runs of the same style
+ */
+export function createRunList() {
+  const runs: FormattedCitation = []
+
+  const append = (value: string, style: Omit<CitationRun, 'text' | 'url'> = {}) => {
+    if (!value) return
+    const last = runs[runs.length - 1]
+    const sameStyle = last && !last.url &&
+      Boolean(last.italic) === Boolean(style.italic) &&
+      Boolean(last.bold) === Boolean(style.bold) &&
+      Boolean(last.superscript) === Boolean(style.superscript)
+    if (sameStyle) {
+      last.text += value
+    } else {
+      runs.push({ text: value, ...style })
+    }
+  }
+
+  const text = (value: string) => append(value)
+
+  const italic = (value: string) => append(value, { italic: true })
+
+  const bold = (value: string) => append(value, { bold: true })
+
+  const superscript = (value: string) => append(value, { superscript: true })
+
+  const link = (value: string) => {
+    if (value) runs.push({ text: value, url: value })
+  }
+
+  return { runs, text, italic, bold, superscript, link }
+}
+
+function formatAccessDate(dateAccessed: string): string {
+  return new Date(dateAccessed).toLocaleDateString()
+}
+
+const SHORT_MONTHS = ['Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'Jun.', 'Jul.', 'Aug.', 'Sep.', 'Oct.', 'Nov.', 'Dec.']
+
+function parseIsoDate(value: string): [number, number, number] | undefined {
+  const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)] : undefined
+}
+
+// IEEE: "Jan. 5, 2024"
+function formatShortDate(value: string): string {
+  const date = parseIsoDate(value)
+  return date ? `${SHORT_MONTHS[date[1] - 1]} ${date[2]}, ${date[0]}` : value
+}
+
+// Vancouver/NLM: "2024 Jan 5"
+function formatNlmDate(value: string): string {
+  const date = parseIsoDate(value)
+  return date ? `${date[0]} ${SHORT_MONTHS[date[1] - 1].replace('.', '')} ${date[2]}` : value
+}
+
+function isPeriodical(citation: Citation): boolean {
+  return citation.type === 'journal' || citation.type === 'article'
+}
+
+/**
+ * Reference list author rules: APA 7 lists up to 20 names, MLA 9 truncates
+ * three or more, Chicago 17 inverts only the first name and truncates above
+ * ten, Harvard joins with "and". IEEE and Vancouver list up to six names,
+ * Nature up to five.
+ */
+const authorListRules: Record<BuiltinCitationStyle, NameListOptions> = {
+  apa: {
+    invert: 'all',
+    initials: 'spaced',
+    delimiter: ', ',
+    and: '&',
+    delimiterBeforeLast: 'always',
+    etAlMin: 21,
+    etAlUseFirst: 19,
+    etAlUseLast: true
+  },
+  mla: {
+    invert: 'first',
+    delimiter: ', ',
+    and: 'and',
+    delimiterBeforeLast: 'always',
+    etAlMin: 3,
+    etAlUseFirst: 1
+  },
+  chicago: {
+    invert: 'first',
+    delimiter: ', ',
+    and: 'and',
+    delimiterBeforeLast: 'always',
+    etAlMin: 11,
+    etAlUseFirst: 7
+  },
+  harvard: {
+    invert: 'all',
+    initials: 'compact',
+    delimiter: ', ',
+    and: 'and',
+    delimiterBeforeLast: 'never',
+    etAlMin: 4,
+    etAlUseFirst: 1,
+    etAlDelimiter: ' '
+  },
+  ieee: {
+    invert: 'none',
+    initials: 'spaced',
+    delimiter: ', ',
+    and: 'and',
+    delimiterBeforeLast: 'contextual',
+    etAlMin: 7,
+    etAlUseFirst: 1,
+    etAlDelimiter: ' '
+  },
+  vancouver: {
+    invert: 'all',
+    initials: 'bare',
+    sortSeparator: ' ',
+    delimiter: ', ',
+    delimiterBeforeLast: 'never',
+    etAlMin: 7,
+    etAlUseFirst: 6
+  },
+  nature: {
+    invert: 'all',
+    initials: 'spaced',
+    delimiter: ', ',
+    and: '&',
+    delimiterBeforeLast: 'never',
+    etAlMin: 6,
+    etAlUseFirst: 1,
+    etAlDelimiter: ' '
+  }
+}
+
+/**
+ * Render a citation's authors for a built-in style's reference list
+ */
+function formatAuthorList(citation: Citation, style: BuiltinCitationStyle): string {
+  return formatNameList(citation.authors, authorListRules[style]) || 'Unknown Author'
+}
+
+export type NumericCitationStyle = 'ieee' | 'vancouver' | 'nature'
+
+const NUMERIC_STYLES: BuiltinCitationStyle[] = ['ieee', 'vancouver', 'nature']
+
+/**
+ * Numeric styles number references by their position in the bibliography
+ */
+export function isNumericStyle(style: CitationStyle): style is NumericCitationStyle {
+  return (NUMERIC_STYLES as string[]).includes(style)
+}
+
+/**
+ * Alphabetical reference order (first author, then year, then title), for
+ * numeric styles that number alphabetically rather than by first citation
+ */
+export function sortReferencesAlphabetically(citations: Citation[]): Citation[] {
+  return citations.slice().sort((a, b) => {
+    const aKey = a.authors[0] ? nameSortKey(a.authors[0]) : titleSortKey(a.title)
+    const bKey = b.authors[0] ? nameSortKey(b.authors[0]) : titleSortKey(b.title)
+    return aKey.localeCompare(bKey) || a.year.localeCompare(b.year) || titleSortKey(a.title).localeCompare(titleSortKey(b.title))
+  })
+}
+
+const YEAR_SUFFIX_STYLES: BuiltinCitationStyle[] = ['apa', 'chicago', 'harvard']
+
+/**
+ * Title without a leading article, for ordering works by title
+ */
+export function titleSortKey(title: string): string {
+  return title.toLowerCase().replace(/^(a|an|the)\s+/, '')
+}
+
+/**
+ * Year labels for author-date styles: works by the same authors in the same
+ * year get a/b suffixes ordered by title ("2020a", "n.d.-b"). Citations
+ * without a collision keep their year; MLA never uses suffixes.
+ */
+export function disambiguateYears(citations: Citation[], style: BuiltinCitationStyle): Map<string, string> {
+  const labels = new Map(citations.map(citation => [citation.id, citation.year]))
+  if (!YEAR_SUFFIX_STYLES.includes(style)) return labels
+
+  const groups = new Map<string, Citation[]>()
+  citations.forEach(citation => {
+    const key = `${citation.authors.map(nameSortKey).join('|')}#${citation.year}`
+    groups.set(key, [...(groups.get(key) || []), citation])
+  })
+
+  groups.forEach(group => {
+    if (group.length < 2) return
+    group
+      .slice()
+      .sort((a, b) => titleSortKey(a.title).localeCompare(titleSortKey(b.title)))
+      .forEach((citation, index) => {
+        const suffix = String.fromCharCode(97 + index)
+        labels.set(citation.id, citation.year ? `${citation.year}${suffix}` : `n.d.-${suffix}`)
+      })
+  })
+
+  return labels
+}
+
+// Avoid doubling the full stop after initials, "Jr." or "et al."
+function withPeriod(text: string): string {
+  return text.endsWith('.') ? text : `${text}.`
+}
+
+// Close an entry built from comma-terminated parts, including a quoted
+// title that ends the entry
+function closeEntry(runs: FormattedCitation) {
+  const last = runs[runs.length - 1]
+  if (last && !last.url && last.text.endsWith(',')) {
+    last.text = `${last.text.slice(0, -1)}.`
+  } else if (last && !last.url && last.text.endsWith(',"')) {
+    last.text = `${last.text.slice(0, -2)}."`
+  }
+}
+
+type RunList = ReturnType<typeof createRunList>
+
+function ordinal(n: number): string {
+  const mod100 = n % 100
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] || 'th'}`
+}
+
+/**
+ * Edition statement such as "2nd ed." or "Rev. ed.". First editions are not
+ * mentioned in any of the built-in styles.
+ */
+export function formatEdition(edition: string | undefined, abbreviation = 'ed.'): string {
+  const value = edition?.trim().replace(/\s*(edition|edn\.?|ed\.?)$/i, '')
+  if (!value) return ''
+  const number = value.match(/^(\d+)(st|nd|rd|th)?$/i)
+  if (number) {
+    const n = parseInt(number[1], 10)
+    return n > 1 ? `${ordinal(n)} ${abbreviation}` : ''
+  }
+  return `${value} ${abbreviation}`
+}
+
+/**
+ * "City: Publisher", or whichever of the two is known
+ */
+export function formatPublisherPlace(citation: Citation): string {
+  return [citation.city, citation.publisher].filter(Boolean).join(': ')
+}
+
+function pageRange(pages: string): string {
+  return pages.replace(/-/g, '–')
+}
+
+// "p. 5" for a single page, "pp. 5–9" for a range
+function pageLabel(pages: string): string {
+  return `${/[-–,]/.test(pages) ? 'pp.' : 'p.'} ${pageRange(pages)}`
+}
+
+// Titles ending in a question or exclamation mark take no extra full stop
+function titleWithPeriod(title: string): string {
+  return /[.?!]$/.test(title) ? title : `${title}.`
+}
+
+// DOI as a link, falling back to the URL
+function doiOrUrl(citation: Citation): string | undefined {
+  return citation.doi ? `https://doi.org/${citation.doi}` : citation.url
+}
+
+function appendDoiOrUrl(out: RunList, citation: Citation) {
+  const link = doiOrUrl(citation)
+  if (link) {
+    out.text(' ')
+    out.link(link)
+  }
+}
+
+// "Version 1.2" from "1.2", "v1.2" or "version 1.2"
+function versionLabel(version: string | undefined): string {
+  const value = version?.trim().replace(/^(version|ver\.?|v)\s*/i, '')
+  return value ? `Version ${value}` : ''
+}
+
+// MLA container and trailing elements: " Container, detail, detail, link."
+function appendMlaContainer(out: RunList, container: string | undefined, details: string[], link?: string) {
+  const parts = details.filter(Boolean)
+  if (container) {
+    out.text(' ')
+    out.italic(container)
+  }
+  parts.forEach((part, index) => out.text(`${container || index > 0 ? ',' : ''} ${part}`))
+  if (link) {
+    out.text(container || parts.length > 0 ? ', ' : ' ')
+    out.link(link)
+  }
+  if (container || parts.length > 0 || link) out.text('.')
+}
+
+function formatApa(out: RunList, citation: Citation, year: string) {
+  const { title, source, url, pages, volume, issue, publisher } = citation
+  const edition = formatEdition(citation.edition)
+
+  out.text(`${withPeriod(formatAuthorList(citation, 'apa'))} (${year || 'n.d.'}). `)
+
+  if (isPeriodical(citation)) {
+    out.text(titleWithPeriod(title))
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      if (volume) out.italic(`, ${volume}`)
+      if (issue) out.text(`(${issue})`)
+      if (pages) out.text(`, ${pages}`)
+      out.text('.')
+    }
+    appendDoiOrUrl(out, citation)
+  } else if (citation.type === 'newspaper') {
+    out.text(titleWithPeriod(title))
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      if (pages) out.text(`, ${pages}`)
+      out.text('.')
+    }
+    if (url) {
+      out.text(' ')
+      out.link(url)
+    }
+  } else if (citation.type === 'website') {
+    out.text(titleWithPeriod(title))
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      out.text('.')
+    }
+    if (url) {
+      out.text(' ')
+      out.link(url)
+    }
+  } else if (citation.type === 'chapter' || citation.type === 'conference') {
+    out.text(titleWithPeriod(title))
+    if (source) {
+      out.text(' In ')
+      out.italic(source)
+      const details = [edition, pages && `pp. ${pageRange(pages)}`].filter(Boolean).join(', ')
+      if (details) out.text(` (${details})`)
+      out.text('.')
+    }
+    if (publisher) out.text(` ${withPeriod(publisher)}`)
+    appendDoiOrUrl(out, citation)
+  } else if (citation.type === 'thesis') {
+    out.italic(title)
+    out.text(` [Thesis${publisher ? `, ${publisher}` : ''}].`)
+    appendDoiOrUrl(out, citation)
+  } else if (citation.type === 'dataset' || citation.type === 'software') {
+    const version = versionLabel(citation.version)
+    out.italic(title)
+    if (version) out.text(` (${version})`)
+    out.text(citation.type === 'dataset' ? ' [Data set].' : ' [Computer software].')
+    const publishedBy = citation.repository || publisher
+    if (publishedBy) out.text(` ${withPeriod(publishedBy)}`)
+    appendDoiOrUrl(out, citation)
+  } else if (citation.type === 'preprint') {
+    out.italic(title)
+    out.text(' [Preprint].')
+    if (citation.repository) out.text(` ${withPeriod(citation.repository)}`)
+    if (citation.archiveId && !doiOrUrl(citation)) out.text(` ${citation.archiveId}`)
+    appendDoiOrUrl(out, citation)
+  } else if (citation.type === 'patent' || citation.type === 'standard') {
+    const number = citation.type === 'patent' ? citation.patentNumber : citation.archiveId
+    out.italic(title)
+    if (number) out.text(` (${number})`)
+    out.text('.')
+    // A standards body that is also the author is not repeated as publisher
+    if (publisher && !citation.authors.some(author => author.literal === publisher)) {
+      out.text(` ${withPeriod(publisher)}`)
+    }
+    appendDoiOrUrl(out, citation)
+  } else if (citation.type === 'video') {
+    out.italic(title)
+    out.text(' [Video].')
+    if (source) out.text(` ${withPeriod(source)}`)
+    appendDoiOrUrl(out, citation)
+  } else if (citation.type === 'podcast') {
+    out.text(`${title} [Audio podcast episode].`)
+    if (source) {
+      out.text(' In ')
+      out.italic(source)
+      out.text('.')
+    }
+    if (publisher) out.text(` ${withPeriod(publisher)}`)
+    appendDoiOrUrl(out, citation)
+  } else {
+    // Books and reports
+    out.italic(title)
+    if (edition) out.text(` (${edition})`)
+    out.text('.')
+    if (publisher) out.text(` ${withPeriod(publisher)}`)
+    appendDoiOrUrl(out, citation)
+  }
+}
+
+function formatMla(out: RunList, citation: Citation, year: string) {
+  const { title, source, url, pages, volume, issue, publisher, dateAccessed } = citation
+  const edition = formatEdition(citation.edition)
+
+  out.text(`${withPeriod(formatAuthorList(citation, 'mla'))} `)
+
+  if (isPeriodical(citation)) {
+    out.text(`"${titleWithPeriod(title)}"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      if (volume) out.text(`, vol. ${volume}`)
+      if (issue) out.text(`, no. ${issue}`)
+      if (year) out.text(`, ${year}`)
+      if (pages) out.text(`, pp. ${pages}`)
+      out.text('.')
+    }
+  } else if (citation.type === 'newspaper') {
+    out.text(`"${titleWithPeriod(title)}"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+    }
+    if (year) out.text(`, ${year}`)
+    if (pages) out.text(`, ${pageLabel(pages)}`)
+    out.text('.')
+  } else if (citation.type === 'website') {
+    out.text(`"${titleWithPeriod(title)}"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+    }
+    if (year) out.text(`, ${year}`)
+    if (url) out.text('. Web.')
+    if (dateAccessed) out.text(` ${formatAccessDate(dateAccessed)}.`)
+  } else if (citation.type === 'chapter' || citation.type === 'conference') {
+    // The book or proceedings is the container: "Title." Book, 2nd ed., Publisher, 2020, pp. 1-9.
+    out.text(`"${titleWithPeriod(title)}"`)
+    const details = [edition, publisher, year, pages && pageLabel(pages)].filter(Boolean)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      out.text(details.length > 0 ? `, ${details.join(', ')}.` : '.')
+    } else if (details.length > 0) {
+      out.text(` ${details.join(', ')}.`)
+    }
+  } else if (citation.type === 'thesis') {
+    out.italic(title)
+    out.text('.')
+    if (year) out.text(` ${year}.`)
+    out.text(publisher ? ` ${publisher}, thesis.` : ' Thesis.')
+  } else if (citation.type === 'dataset' || citation.type === 'software') {
+    out.italic(title)
+    out.text('.')
+    appendMlaContainer(out, undefined, [versionLabel(citation.version), citation.repository || publisher || '', year], doiOrUrl(citation))
+  } else if (citation.type === 'patent' || citation.type === 'standard') {
+    out.italic(title)
+    out.text('.')
+    const number = citation.type === 'patent' ? citation.patentNumber : citation.archiveId
+    appendMlaContainer(out, undefined, [number || '', publisher || '', year], url)
+  } else if (citation.type === 'preprint' || citation.type === 'video' || citation.type === 'podcast') {
+    // The archive, platform or show is the container
+    out.text(`"${titleWithPeriod(title)}"`)
+    const container = citation.type === 'preprint' ? citation.repository : source
+    const details = citation.type === 'podcast' ? [publisher || '', year] : [year]
+    appendMlaContainer(out, container, details, doiOrUrl(citation))
+  } else {
+    // Books and reports
+    out.italic(title)
+    out.text('.')
+    const details = [edition, publisher, year].filter(Boolean)
+    if (details.length > 0) out.text(` ${details.join(', ')}.`)
+  }
+}
+
+function formatChicago(out: RunList, citation: Citation, year: string) {
+  const { title, source, url, pages, volume, issue, dateAccessed } = citation
+  const edition = formatEdition(citation.edition)
+  const publication = [formatPublisherPlace(citation), year].filter(Boolean).join(', ')
+
+  out.text(`${withPeriod(formatAuthorList(citation, 'chicago'))} `)
+
+  // Chicago closes a trailing URL or DOI with a full stop
+  const appendLink = (link?: string) => {
+    if (link) {
+      out.text(' ')
+      out.link(link)
+      out.text('.')
+    }
+  }
+
+  if (isPeriodical(citation)) {
+    out.text(`"${titleWithPeriod(title)}"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      if (volume) out.text(` ${volume}`)
+      if (issue) out.text(`, no. ${issue}`)
+      if (year) out.text(` (${year})`)
+      if (pages) out.text(`: ${pages}`)
+      out.text('.')
+    }
+  } else if (citation.type === 'newspaper') {
+    out.text(`"${titleWithPeriod(title)}"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      if (year) out.text(`, ${year}`)
+      out.text('.')
+    } else if (year) {
+      out.text(` ${year}.`)
+    }
+    if (url) {
+      out.text(' ')
+      out.link(url)
+      out.text('.')
+    }
+  } else if (citation.type === 'website') {
+    out.text(`"${titleWithPeriod(title)}"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      out.text('.')
+    }
+    if (year) out.text(` ${year}.`)
+    if (url) {
+      out.text(' ')
+      out.link(url)
+    }
+    if (dateAccessed) out.text(` (accessed ${formatAccessDate(dateAccessed)}).`)
+  } else if (citation.type === 'chapter' || citation.type === 'conference') {
+    out.text(`"${titleWithPeriod(title)}"`)
+    if (source) {
+      out.text(' In ')
+      out.italic(source)
+      if (pages) out.text(`, ${pageRange(pages)}`)
+      out.text('.')
+    }
+    if (edition) out.text(` ${edition}`)
+    if (publication) out.text(` ${publication}.`)
+    if (citation.doi) {
+      out.text(' ')
+      out.link(`https://doi.org/${citation.doi}`)
+      out.text('.')
+    }
+  } else if (citation.type === 'thesis') {
+    out.text(`"${titleWithPeriod(title)}" `)
+    out.text(`${['Thesis', citation.publisher, year].filter(Boolean).join(', ')}.`)
+    if (url) {
+      out.text(' ')
+      out.link(url)
+      out.text('.')
+    }
+  } else if (citation.type === 'dataset' || citation.type === 'software') {
+    const version = versionLabel(citation.version)
+    out.italic(title)
+    out.text('.')
+    if (version) out.text(` ${version}.`)
+    const distribution = [citation.repository || citation.publisher, year].filter(Boolean).join(', ')
+    if (distribution) out.text(` ${distribution}.`)
+    appendLink(doiOrUrl(citation))
+  } else if (citation.type === 'preprint') {
+    out.text(`"${titleWithPeriod(title)}" `)
+    out.text(`${['Preprint', citation.repository, citation.archiveId, year].filter(Boolean).join(', ')}.`)
+    appendLink(doiOrUrl(citation))
+  } else if (citation.type === 'patent') {
+    out.text(`${titleWithPeriod(title)} `)
+    out.text(`${[citation.patentNumber || 'Patent', year && `issued ${year}`].filter(Boolean).join(', ')}.`)
+    appendLink(url)
+  } else if (citation.type === 'standard') {
+    out.italic(title)
+    out.text('.')
+    if (citation.archiveId) out.text(` ${withPeriod(citation.archiveId)}`)
+    if (publication) out.text(` ${publication}.`)
+    appendLink(url)
+  } else if (citation.type === 'video' || citation.type === 'podcast') {
+    out.text(`"${titleWithPeriod(title)}"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      out.text('.')
+    }
+    if (year) out.text(` ${year}.`)
+    const medium = citation.type === 'video' ? 'Video' : 'Podcast audio'
+    out.text(` ${citation.runtime ? `${medium}, ${citation.runtime}` : medium}.`)
+    appendLink(url)
+  } else {
+    // Books and reports
+    out.italic(title)
+    out.text('.')
+    if (edition) out.text(` ${edition}`)
+    if (publication) out.text(` ${publication}.`)
+    if (citation.type === 'report' && url) {
+      out.text(' ')
+      out.link(url)
+      out.text('.')
+    }
+  }
+}
+
+function formatHarvard(out: RunList, citation: Citation, year: string) {
+  const { title, source, url, pages, volume, issue, publisher, dateAccessed } = citation
+  const edition = formatEdition(citation.edition, 'edn.')
+  const place = formatPublisherPlace(citation)
+
+  out.text(`${formatAuthorList(citation, 'harvard')} (${year || 'n.d.'}) `)
+
+  const appendAvailableAt = () => {
+    const link = doiOrUrl(citation)
+    if (link) {
+      out.text(' Available at: ')
+      out.link(link)
+    }
+    if (dateAccessed) out.text(` (Accessed: ${formatAccessDate(dateAccessed)}).`)
+  }
+
+  if (isPeriodical(citation)) {
+    out.text(`'${title}'`)
+    if (source) {
+      out.text(', ')
+      out.italic(source)
+      if (volume) out.text(`, vol. ${volume}`)
+      if (issue) out.text(`, no. ${issue}`)
+      if (pages) out.text(`, pp. ${pages}`)
+      out.text('.')
+    }
+  } else if (citation.type === 'newspaper') {
+    out.text(`'${title}'`)
+    if (source) {
+      out.text(', ')
+      out.italic(source)
+    }
+    if (pages) out.text(`, ${pageLabel(pages)}`)
+    out.text('.')
+    appendAvailableAt()
+  } else if (citation.type === 'website') {
+    out.text(`'${title}'`)
+    if (source) {
+      out.text(', ')
+      out.italic(source)
+    }
+    if (url) {
+      out.text(', available at: ')
+      out.link(url)
+    }
+    if (dateAccessed) out.text(` (Accessed: ${formatAccessDate(dateAccessed)}).`)
+  } else if (citation.type === 'chapter' || citation.type === 'conference') {
+    out.text(`'${title}'`)
+    if (source) {
+      out.text(citation.type === 'chapter' ? ', in ' : ', ')
+      out.italic(source)
+    }
+    out.text('.')
+    if (edition) out.text(` ${edition}`)
+    if (place) out.text(` ${place}`)
+    if (pages) out.text(`${place ? ',' : ''} ${pageLabel(pages)}`)
+    if (place || pages) out.text('.')
+  } else if (citation.type === 'thesis') {
+    out.italic(title)
+    out.text(`. Thesis.${publisher ? ` ${withPeriod(publisher)}` : ''}`)
+    appendAvailableAt()
+  } else if (citation.type === 'dataset' || citation.type === 'software') {
+    const version = versionLabel(citation.version)
+    out.italic(title)
+    if (version) out.text(` (${version})`)
+    out.text(citation.type === 'dataset' ? ' [Dataset].' : ' [Computer program].')
+    const publishedBy = citation.repository || publisher
+    if (publishedBy) out.text(` ${withPeriod(publishedBy)}`)
+    appendAvailableAt()
+  } else if (citation.type === 'preprint' || citation.type === 'podcast') {
+    out.text(`'${title}'`)
+    const container = citation.type === 'preprint' ? citation.repository : source
+    if (container) {
+      out.text(', ')
+      out.italic(container)
+    }
+    out.text(citation.type === 'preprint' ? ' [Preprint].' : ' [Podcast].')
+    appendAvailableAt()
+  } else if (citation.type === 'patent') {
+    out.italic(title)
+    out.text('.')
+    if (citation.patentNumber) out.text(` ${withPeriod(citation.patentNumber)}`)
+    appendAvailableAt()
+  } else if (citation.type === 'standard') {
+    out.italic(title)
+    if (citation.archiveId) out.text(` (${citation.archiveId})`)
+    out.text('.')
+    if (place) out.text(` ${withPeriod(place)}`)
+    appendAvailableAt()
+  } else if (citation.type === 'video') {
+    out.italic(title)
+    out.text(' [Video].')
+    appendAvailableAt()
+  } else {
+    // Books and reports
+    out.italic(title)
+    out.text('.')
+    if (edition) out.text(` ${edition}`)
+    if (place) out.text(` ${withPeriod(place)}`)
+    if (citation.type === 'report') appendAvailableAt()
+  }
+}
+
+function formatIeee(out: RunList, citation: Citation, year: string, number: number) {
+  const { title, source, url, pages, volume, issue, dateAccessed, doi } = citation
+  const edition = formatEdition(citation.edition)
+  const place = formatPublisherPlace(citation)
+
+  const appendOnline = () => {
+    if (dateAccessed) out.text(` Accessed: ${formatShortDate(dateAccessed)}.`)
+    if (url) {
+      out.text(' [Online]. Available: ')
+      out.link(url)
+    }
+  }
+
+  out.text(`[${number}] `)
+  if (citation.authors.length > 0) out.text(`${formatAuthorList(citation, 'ieee')}, `)
+
+  if (citation.type === 'book') {
+    out.italic(title)
+    out.text(edition ? `, ${edition}` : '.')
+    if (place) out.text(` ${place},`)
+    if (year) out.text(` ${year}.`)
+  } else if (isPeriodical(citation)) {
+    out.text(`"${title},"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      out.text(',')
+    }
+    if (volume) out.text(` vol. ${volume},`)
+    if (issue) out.text(` no. ${issue},`)
+    if (pages) out.text(` ${pageLabel(pages)},`)
+    if (year) out.text(` ${year},`)
+    if (doi) out.text(` doi: ${doi}.`)
+  } else if (citation.type === 'chapter') {
+    out.text(`"${title}," in `)
+    if (source) out.italic(source)
+    out.text(edition ? `, ${edition}` : ',')
+    if (place) out.text(` ${place},`)
+    if (year) out.text(` ${year},`)
+    if (pages) out.text(` ${pageLabel(pages)},`)
+  } else if (citation.type === 'conference') {
+    out.text(`"${title}," in `)
+    if (source) out.italic(source)
+    out.text(',')
+    if (citation.city) out.text(` ${citation.city},`)
+    if (year) out.text(` ${year},`)
+    if (pages) out.text(` ${pageLabel(pages)},`)
+    if (doi) out.text(` doi: ${doi}.`)
+  } else if (citation.type === 'thesis' || citation.type === 'report') {
+    out.text(`"${title},"`)
+    const kind = citation.type === 'thesis' ? 'Thesis' : 'Rep.'
+    const details = citation.type === 'thesis'
+      ? [kind, citation.publisher, citation.city, year]
+      : [citation.publisher, citation.city, kind, year]
+    out.text(` ${details.filter(Boolean).join(', ')}.`)
+    appendOnline()
+  } else if (citation.type === 'newspaper') {
+    out.text(`"${title},"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      out.text(',')
+    }
+    if (pages) out.text(` ${pageLabel(pages)},`)
+    if (year) out.text(` ${year},`)
+    closeEntry(out.runs)
+    appendOnline()
+  } else if (citation.type !== 'website') {
+    // Datasets, software, preprints, patents, standards and media
+    out.text(`"${title},"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      out.text(',')
+    }
+    const details = [versionLabel(citation.version), citation.repository, citation.archiveId || citation.patentNumber, year]
+    details.filter(Boolean).forEach(detail => out.text(` ${detail},`))
+    if (doi) out.text(` doi: ${doi}.`)
+    closeEntry(out.runs)
+    appendOnline()
+  } else {
+    out.text(`"${title},"`)
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+      out.text('.')
+    }
+    appendOnline()
+  }
+  closeEntry(out.runs)
+}
+
+function formatVancouver(out: RunList, citation: Citation, year: string, number: number) {
+  const { title, source, url, pages, volume, issue, dateAccessed } = citation
+  const edition = formatEdition(citation.edition)
+  const publication = [formatPublisherPlace(citation), year].filter(Boolean).join('; ')
+
+  const appendAvailableFrom = () => {
+    if (url) {
+      out.text(' Available from: ')
+      out.link(url)
+    }
+  }
+
+  out.text(`${number}. `)
+  if (citation.authors.length > 0) out.text(`${withPeriod(formatAuthorList(citation, 'vancouver'))} `)
+
+  if (citation.type === 'book' || citation.type === 'report') {
+    out.text(titleWithPeriod(title))
+    if (edition) out.text(` ${edition}`)
+    if (publication) out.text(` ${publication}.`)
+    if (citation.type === 'report') appendAvailableFrom()
+  } else if (citation.type === 'chapter' || citation.type === 'conference') {
+    out.text(titleWithPeriod(title))
+    if (source) out.text(` In: ${withPeriod(source)}`)
+    if (edition) out.text(` ${edition}`)
+    if (publication) out.text(` ${publication}.`)
+    if (pages) out.text(` p. ${pages}.`)
+  } else if (citation.type === 'thesis') {
+    out.text(`${title} [thesis].`)
+    if (publication) out.text(` ${publication}.`)
+    appendAvailableFrom()
+  } else if (isPeriodical(citation) || citation.type === 'newspaper') {
+    out.text(titleWithPeriod(title))
+    if (source) out.text(` ${source}.`)
+    if (year) out.text(` ${year}`)
+    if (volume) out.text(`;${volume}`)
+    if (issue) out.text(`(${issue})`)
+    if (pages) out.text(`:${pages}`)
+    out.text('.')
+  } else {
+    out.text(`${title} [Internet].`)
+    const container = source || citation.repository
+    if (container) out.text(` ${container};`)
+    if (year) out.text(` ${year}`)
+    if (dateAccessed) out.text(` [cited ${formatNlmDate(dateAccessed)}]`)
+    out.text('.')
+    appendAvailableFrom()
+  }
+}
+
+function formatNature(out: RunList, citation: Citation, year: string, number: number) {
+  const { title, source, url, pages, volume } = citation
+  const edition = formatEdition(citation.edition, 'edn')
+  const publication = [citation.publisher, year].filter(Boolean).join(', ')
+
+  out.text(`${number}. `)
+  if (citation.authors.length > 0) out.text(`${withPeriod(formatAuthorList(citation, 'nature'))} `)
+
+  if (citation.type === 'book' || citation.type === 'report') {
+    out.italic(title)
+    if (edition) out.text(` ${edition}`)
+    out.text(publication ? ` (${publication}).` : '.')
+  } else if (citation.type === 'chapter' || citation.type === 'conference') {
+    out.text(`${titleWithPeriod(title)} in `)
+    if (source) out.italic(source)
+    if (edition) out.text(` ${edition}`)
+    if (pages) out.text(`, ${pageRange(pages)}`)
+    out.text(publication ? ` (${publication}).` : '.')
+  } else if (citation.type === 'thesis') {
+    out.italic(title)
+    out.text(`. Thesis${citation.publisher ? `, ${citation.publisher}` : ''}${year ? ` (${year})` : ''}.`)
+  } else if (isPeriodical(citation) || citation.type === 'newspaper') {
+    out.text(titleWithPeriod(title))
+    if (source) {
+      out.text(' ')
+      out.italic(source)
+    }
+    if (volume) {
+      out.text(' ')
+      out.bold(volume)
+    }
+    if (pages) out.text(`, ${pageRange(pages)}`)
+    if (year) out.text(` (${year})`)
+    out.text('.')
+  } else {
+    out.text(titleWithPeriod(title))
+    const container = source || citation.repository
+    if (container) {
+      out.text(' ')
+      out.italic(container)
+    }
+    const link = doiOrUrl(citation)
+    if (link) {
+      out.text(' ')
+      out.link(link)
+    }
+    if (year) out.text(` (${year})`)
+    out.text('.')
+  }
+}
+
+/**
+ * Format a citation as a list of styled text runs. The rest of the
+ * bibliography is used to disambiguate years and number entries.
+ */
+export function formatCitation(citation: Citation, style: CitationStyle, context: Citation[] = [citation]): FormattedCitation {
+  if (isCslStyle(style)) {
+    return formatCitationWithCsl(citation, style, context)
+  }
+
+  const items = context.some(c => c.id === citation.id) ? context : [...context, citation]
+  const year = disambiguateYears(items, style).get(citation.id) || ''
+  const number = items.findIndex(c => c.id === citation.id) + 1
+  const out = createRunList()
+
+  switch (style) {
+    case 'apa':
+      formatApa(out, citation, year)
+      break
+    case 'mla':
+      formatMla(out, citation, year)
+      break
+    case 'chicago':
+      formatChicago(out, citation, year)
+      break
+    case 'harvard':
+      formatHarvard(out, citation, year)
+      break
+    case 'ieee':
+      formatIeee(out, citation, year, number)
+      break
+    case 'vancouver':
+      formatVancouver(out, citation, year, number)
+      break
+    case 'nature':
+      formatNature(out, citation, year, number)
+      break
+    default:
+      out.text('Unsupported citation style')
+  }
+
+  return out.runs
+}
+
+/**
+ * Format a list of citations as reference list entries. Built-in styles keep
+ * the given order, which numeric styles also use for numbering; CSL styles
+ * apply their own sort.
+ */
+export function formatBibliography(citations: Citation[], style: CitationStyle): FormattedCitation[] {
+  if (isCslStyle(style)) {
+    return formatBibliographyWithCsl(citations, style)
+  }
+  return citations.map(citation => formatCitation(citation, style, citations))
+}
+
+export interface BibliographyEntry {
+  id: string
+  runs: FormattedCitation
+}
+
+/**
+ * Like formatBibliography, but each entry keeps the id of its citation so
+ * exports can anchor or key entries after a CSL style has sorted them
+ */
+export function formatBibliographyEntries(citations: Citation[], style: CitationStyle): BibliographyEntry[] {
+  if (isCslStyle(style)) {
+    return formatBibliographyEntriesWithCsl(citations, style)
+  }
+  return citations.map(citation => ({ id: citation.id, runs: formatCitation(citation, style, citations) }))
+}
+
+/**
+ * Flatten formatted runs into unstyled text
+ */
+export function toPlainText(runs: FormattedCitation): string {
+  return runs.map(run => run.text).join('')
+}
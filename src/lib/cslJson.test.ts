@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import type { Citation } from '@/App'
+import { importCslJson } from '@/lib/cslJson'
+import { generateCslJsonFormat } from '@/lib/exportUtils'
+
+const citations: Citation[] = [
+  {
+    id: 'article',
+    type: 'article',
+    title: 'Sleep and memory',
+    authors: [{ given: 'Jan', particle: 'van der', family: 'Berg' }, { literal: 'Sleep Study Group' }],
+    year: '2020',
+    source: 'Journal of Sleep',
+    volume: '12',
+    issue: '3',
+    pages: '45-67',
+    doi: '10.1000/sleep.2020',
+    url: 'https://doi.org/10.1000/sleep.2020',
+    abstract: 'We study sleep.',
+    dateAccessed: '2024-01-05T13:45:10.123Z',
+    confidence: 0.82,
+    provenance: { source: 'reference-list', retrievedAt: '2024-01-05T13:45:10.123Z', verified: false }
+  },
+  {
+    id: 'book',
+    type: 'book',
+    title: 'The Sleeping Brain',
+    authors: [{ given: 'Ana', family: 'Lopez', suffix: 'Jr.' }],
+    year: '2018',
+    source: 'University of Chicago Press',
+    publisher: 'University of Chicago Press',
+    city: 'Chicago',
+    edition: '2',
+    isbn: '9780306406157',
+    dateAccessed: '2024-02-01'
+  },
+  {
+    id: 'patent',
+    type: 'patent',
+    title: 'Sleep mask',
+    authors: [{ given: 'Jane', family: 'Smith' }],
+    year: '2019',
+    source: 'U.S. Patent and Trademark Office',
+    patentNumber: 'US 10,123,456',
+    archiveId: 'US10123456B2',
+    dateAccessed: '2024-03-10T08:00:00.000Z'
+  },
+  {
+    id: 'software',
+    type: 'software',
+    title: 'sleepkit',
+    authors: [{ given: 'Ana', family: 'Lopez' }],
+    year: '2022',
+    source: 'GitHub',
+    version: '2.1.0',
+    repository: 'GitHub',
+    url: 'https://github.com/example/sleepkit',
+    dateAccessed: '2024-04-01T00:00:00.000Z'
+  }
+]
+
+describe('CSL-JSON round trip', () => {
+  it('imports exported citations unchanged apart from their ids', () => {
+    const { items, errors } = importCslJson(generateCslJsonFormat(citations))
+
+    expect(errors).toEqual([])
+    expect(items.map(item => ({ ...item.citation, id: undefined }))).toEqual(
+      citations.map(citation => ({ ...citation, id: undefined }))
+    )
+    items.forEach(item => expect(item.citation.id).not.toBe(''))
+  })
+})
+
+describe('importCslJson', () => {
+  it('never trusts the verification a file claims', () => {
+    const file = JSON.stringify([{
+      id: 'a',
+      type: 'article-journal',
+      title: 'Sleep and memory',
+      custom: {
+        provenance: { source: 'crossref', request: 'https://api.crossref.org/works/10.1000/x', retrievedAt: '2024-01-05T00:00:00.000Z', verified: true }
+      }
+    }])
+    const [item] = importCslJson(file).items
+    expect(item.citation.provenance).toEqual({
+      source: 'crossref',
+      request: 'https://api.crossref.org/works/10.1000/x',
+      retrievedAt: '2024-01-05T00:00:00.000Z',
+      verified: false
+    })
+  })
+
+  it('reads access dates from files written elsewhere', () => {
+    const file = JSON.stringify({ id: 'a', type: 'webpage', title: 'Sleep tips', accessed: { 'date-parts': [[2024, 1, 5]] } })
+    expect(importCslJson(file).items[0].citation.dateAccessed).toBe('2024-01-05')
+  })
+})
@@ -0,0 +1,266 @@
+import type { Citation, SourceType } from '@/App'
+import type { CslDate, CslItem, CslName } from '@/lib/cslProcessor'
+import { citationToCslItem } from '@/lib/cslStyles'
+import type { PersonName } from '@/lib/names'
+import type { Provenance } from '@/lib/metadataProviders'
+import { cleanDoi, compactCitation, createImportedId, extractYear, type ImportedCitation, type ImportResult } from '@/lib/importUtils'
+
+/**
+ * CSL-JSON, the interchange format read and written by Pandoc, Zotero and
+ * Quarto. Field mapping, in both directions:
+ *
+ *   type          type (see cslTypes in cslStyles.ts); the exact source type
+ *                 is kept in custom.sourceType because CSL has no separate
+ *                 "journal" or "preprint" types
+ *   title         title
+ *   authors       author (family, given, non-dropping-particle, suffix,
+ *                 literal for institutions)
+ *   year          issued.date-parts, or issued.literal for "n.d." and
+ *                 other non-numeric years
+ *   source        container-title (left out when it only repeats the
+ *                 publisher)
+ *   publisher     publisher
+ *   city          publisher-place
+ *   edition       edition
+ *   volume        volume
+ *   issue         issue
+ *   pages         page
+ *   doi           DOI
+ *   url           URL
+ *   isbn          ISBN
+ *   abstract      abstract
+ *   version       version
+ *   repository    archive
+ *   archiveId     number, or archive_location for patents
+ *   patentNumber  number
+ *   runtime       dimensions
+ *   dateAccessed  accessed.date-parts, with the full timestamp in
+ *                 custom.dateAccessed
+ *   confidence    custom.confidence
+ *   provenance    custom.provenance (never verified on import)
+ *
+ * Imported items get fresh ids so they never collide with saved citations.
+ */
+
+const SOURCE_TYPES: SourceType[] = [
+  'article', 'journal', 'book', 'chapter', 'website', 'newspaper', 'thesis', 'conference',
+  'report', 'dataset', 'software', 'preprint', 'patent', 'standard', 'video', 'podcast'
+]
+
+// CSL types (including older and Zotero-specific ones) and their source type
+const CSL_TYPES: Record<string, SourceType> = {
+  'article-journal': 'article',
+  'article-magazine': 'article',
+  'review': 'article',
+  'review-book': 'article',
+  'periodical': 'journal',
+  'article-newspaper': 'newspaper',
+  'article': 'preprint',
+  'manuscript': 'preprint',
+  'book': 'book',
+  'classic': 'book',
+  'collection': 'book',
+  'chapter': 'chapter',
+  'entry': 'chapter',
+  'entry-dictionary': 'chapter',
+  'entry-encyclopedia': 'chapter',
+  'paper-conference': 'conference',
+  'thesis': 'thesis',
+  'report': 'report',
+  'document': 'report',
+  'webpage': 'website',
+  'post': 'website',
+  'post-weblog': 'website',
+  'dataset': 'dataset',
+  'software': 'software',
+  'patent': 'patent',
+  'standard': 'standard',
+  'motion_picture': 'video',
+  'broadcast': 'podcast',
+  // CrossRef work types that turn up in DOI metadata
+  'journal-article': 'article',
+  'book-chapter': 'chapter',
+  'proceedings-article': 'conference',
+  'posted-content': 'preprint',
+  'dissertation': 'thesis',
+  'monograph': 'book',
+  'edited-book': 'book',
+  'reference-entry': 'chapter'
+}
+
+/**
+ * Map a citation onto a CSL-JSON item that imports back without loss
+ */
+export function citationToCslJson(citation: Citation): CslItem {
+  const item = citationToCslItem(citation)
+
+  if (citation.source && citation.source === citation.publisher) {
+    delete item['container-title']
+  }
+  if (citation.year && !item.issued) {
+    item.issued = { literal: citation.year }
+  }
+  if (citation.patentNumber && citation.archiveId) {
+    item.archive_location = citation.archiveId
+  }
+
+  const custom: Record<string, unknown> = { sourceType: citation.type }
+  // CSL dates stop at the day; the saved timestamp keeps the time
+  if (citation.dateAccessed) custom.dateAccessed = citation.dateAccessed
+  if (citation.confidence !== undefined) custom.confidence = citation.confidence
+  if (citation.provenance) custom.provenance = citation.provenance
+  item.custom = custom
+
+  return item
+}
+
+function asString(value: unknown): string {
+  if (typeof value === 'string') return value.trim()
+  // Some DOI agencies send container titles as lists
+  if (Array.isArray(value)) return asString(value[0])
+  if (typeof value === 'number') return String(value)
+  return ''
+}
+
+function fromCslName(value: unknown): PersonName {
+  if (!value || typeof value !== 'object') return {}
+  const name = value as CslName
+  const result: PersonName = {}
+  if (name.literal) {
+    result.literal = asString(name.literal)
+    return result
+  }
+  const given = asString(name.given)
+  const family = asString(name.family)
+  const particle = [asString(name['dropping-particle']), asString(name['non-dropping-particle'])].filter(Boolean).join(' ')
+  if (given) result.given = given
+  if (particle) result.particle = particle
+  if (family) result.family = family
+  if (name.suffix) result.suffix = asString(name.suffix)
+  return result
+}
+
+function fromCslNames(value: unknown): PersonName[] {
+  if (!Array.isArray(value)) return []
+  return value.map(fromCslName).filter(name => Object.keys(name).length > 0)
+}
+
+// First date part as YYYY, YYYY-MM or YYYY-MM-DD
+function fromCslDate(value: unknown): { year: string; date: string } {
+  if (typeof value === 'string') return { year: extractYear(value), date: value }
+  if (!value || typeof value !== 'object') return { year: '', date: '' }
+  const date = value as CslDate
+  const parts = date['date-parts']?.[0]
+  if (parts && parts.length > 0 && asString(parts[0])) {
+    const [year, ...rest] = parts.map(asString)
+    return {
+      year,
+      date: [year, ...rest.map(part => part.padStart(2, '0'))].join('-')
+    }
+  }
+  const text = asString(date.literal) || asString(date.raw)
+  return { year: extractYear(text) || text, date: text }
+}
+
+function isProvenance(value: unknown): value is Provenance {
+  if (!value || typeof value !== 'object') return false
+  const provenance = value as Record<string, unknown>
+  return typeof provenance.source === 'string' && typeof provenance.retrievedAt === 'string' && typeof provenance.verified === 'boolean'
+}
+
+/**
+ * Map one CSL-JSON item onto a citation
+ */
+export function cslJsonToCitation(item: CslItem): ImportedCitation {
+  const warnings: string[] = []
+  const text = (name: string) => asString(item[name])
+  const custom = item.custom && typeof item.custom === 'object' ? item.custom as Record<string, unknown> : {}
+
+  const customType = asString(custom.sourceType) as SourceType
+  let type = SOURCE_TYPES.includes(customType) ? customType : CSL_TYPES[item.type]
+  if (!type) {
+    type = 'report'
+    warnings.push(`CSL type "${item.type}" has no direct equivalent; imported as report`)
+  }
+
+  let title = text('title')
+  if (!title) {
+    warnings.push('Missing title')
+    title = 'Untitled'
+  }
+
+  let authors = fromCslNames(item.author)
+  if (authors.length === 0) {
+    const editors = fromCslNames(item.editor)
+    if (editors.length > 0) {
+      authors = editors
+      warnings.push('No author; the editors were imported as authors')
+    }
+  }
+  if (authors.length === 0) warnings.push('No authors')
+
+  const { year } = fromCslDate(item.issued)
+  if (!year) warnings.push('No year')
+
+  const publisher = text('publisher')
+  const number = text('number')
+  const archiveId = type === 'patent' ? text('archive_location') : text('archive_location') || number
+  const accessed = typeof custom.dateAccessed === 'string' ? custom.dateAccessed : fromCslDate(item.accessed).date
+  const confidence = typeof custom.confidence === 'number' ? custom.confidence : undefined
+  // A file can claim anything, so where it says the item came from is kept
+  // only as unverified history
+  const provenance = isProvenance(custom.provenance) ? { ...custom.provenance, verified: false } : undefined
+
+  const citation = compactCitation({
+    id: createImportedId(),
+    title,
+    authors,
+    year,
+    source: text('container-title') || publisher,
+    url: text('URL') || undefined,
+    doi: text('DOI') ? cleanDoi(text('DOI')) : undefined,
+    pages: text('page') || undefined,
+    volume: text('volume') || undefined,
+    issue: text('issue') || undefined,
+    publisher: publisher || undefined,
+    edition: text('edition') || undefined,
+    city: text('publisher-place') || undefined,
+    isbn: text('ISBN') || undefined,
+    abstract: text('abstract') || undefined,
+    version: text('version') || undefined,
+    repository: text('archive') || undefined,
+    archiveId: archiveId || undefined,
+    patentNumber: type === 'patent' ? number || undefined : undefined,
+    runtime: text('dimensions') || undefined,
+    type,
+    dateAccessed: accessed || undefined,
+    confidence,
+    provenance
+  })
+
+  return { citation, label: item.id ? String(item.id) : title, warnings }
+}
+
+/**
+ * Read CSL-JSON text: an array of items or a single item
+ */
+export function importCslJson(source: string): ImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(source)
+  } catch (error) {
+    return { items: [], errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  const entries = Array.isArray(data) ? data : [data]
+  const items: ImportedCitation[] = []
+  const errors: string[] = []
+  entries.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object' || typeof (entry as CslItem).type !== 'string') {
+      errors.push(`Item ${index + 1}: not a CSL-JSON item (no type)`)
+      return
+    }
+    items.push(cslJsonToCitation(entry as CslItem))
+  })
+  return { items, errors }
+}
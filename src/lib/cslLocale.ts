@@ -0,0 +1,133 @@
+import type { CslLocale, CslNode, CslTermForms } from '@/lib/cslProcessor'
+
+/**
+ * Built-in en-US locale used when a style or uploaded locale file does not
+ * define a term or date format
+ */
+
+function el(name: string, attrs: Record<string, string> = {}, children: CslNode[] = []): CslNode {
+  return { name, attrs, children, text: '' }
+}
+
+function term(single: string, multiple = single): { single: string; multiple: string } {
+  return { single, multiple }
+}
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+const MONTHS_SHORT = [
+  'Jan.', 'Feb.', 'Mar.', 'Apr.', 'May', 'Jun.',
+  'Jul.', 'Aug.', 'Sep.', 'Oct.', 'Nov.', 'Dec.'
+]
+
+const LONG_ORDINALS = [
+  'first', 'second', 'third', 'fourth', 'fifth',
+  'sixth', 'seventh', 'eighth', 'ninth', 'tenth'
+]
+
+const terms: Record<string, CslTermForms> = {
+  'and': { long: term('and') },
+  'et-al': { long: term('et al.') },
+  'and others': { long: term('and others') },
+  'anonymous': { long: term('anonymous'), short: term('anon.') },
+  'accessed': { long: term('accessed') },
+  'available at': { long: term('available at') },
+  'retrieved': { long: term('retrieved') },
+  'from': { long: term('from') },
+  'in': { long: term('in') },
+  'by': { long: term('by') },
+  'cited': { long: term('cited') },
+  'online': { long: term('online') },
+  'internet': { long: term('internet') },
+  'presented at': { long: term('presented at the') },
+  'forthcoming': { long: term('forthcoming') },
+  'ibid': { long: term('ibid.') },
+  'no date': { long: term('no date'), short: term('n.d.') },
+  'circa': { long: term('circa'), short: term('c.') },
+  'version': { long: term('version') },
+  'ad': { long: term('AD') },
+  'bc': { long: term('BC') },
+  'open-quote': { long: term('“') },
+  'close-quote': { long: term('”') },
+  'open-inner-quote': { long: term('‘') },
+  'close-inner-quote': { long: term('’') },
+  'page-range-delimiter': { long: term('–') },
+  'book': { long: term('book', 'books'), short: term('bk.', 'bks.') },
+  'chapter': { long: term('chapter', 'chapters'), short: term('chap.', 'chaps.') },
+  'column': { long: term('column', 'columns'), short: term('col.', 'cols.') },
+  'figure': { long: term('figure', 'figures'), short: term('fig.', 'figs.') },
+  'folio': { long: term('folio', 'folios'), short: term('fol.', 'fols.') },
+  'issue': { long: term('issue', 'issues'), short: term('no.', 'nos.') },
+  'line': { long: term('line', 'lines'), short: term('l.', 'll.') },
+  'note': { long: term('note', 'notes'), short: term('n.', 'nn.') },
+  'number': { long: term('number', 'numbers'), short: term('no.', 'nos.') },
+  'opus': { long: term('opus', 'opera'), short: term('op.', 'opp.') },
+  'page': { long: term('page', 'pages'), short: term('p.', 'pp.') },
+  'number-of-pages': { long: term('page', 'pages'), short: term('p.', 'pp.') },
+  'paragraph': { long: term('paragraph', 'paragraphs'), short: term('para.', 'paras.') },
+  'part': { long: term('part', 'parts'), short: term('pt.', 'pts.') },
+  'section': { long: term('section', 'sections'), short: term('sec.', 'secs.') },
+  'sub verbo': { long: term('sub verbo', 'sub verbis'), short: term('s.v.', 's.vv.') },
+  'verse': { long: term('verse', 'verses'), short: term('v.', 'vv.') },
+  'volume': { long: term('volume', 'volumes'), short: term('vol.', 'vols.') },
+  'edition': { long: term('edition', 'editions'), short: term('ed.', 'eds.') },
+  'editor': {
+    long: term('editor', 'editors'),
+    short: term('ed.', 'eds.'),
+    verb: term('edited by'),
+    'verb-short': term('ed.')
+  },
+  'container-author': { long: term('author', 'authors'), verb: term('by') },
+  'translator': {
+    long: term('translator', 'translators'),
+    short: term('tran.', 'trans.'),
+    verb: term('translated by'),
+    'verb-short': term('trans.')
+  },
+  'editortranslator': {
+    long: term('editor & translator', 'editors & translators'),
+    short: term('ed. & tran.', 'eds. & trans.'),
+    verb: term('edited & translated by')
+  },
+  'ordinal': { long: term('th') },
+  'ordinal-01': { long: term('st') },
+  'ordinal-02': { long: term('nd') },
+  'ordinal-03': { long: term('rd') },
+  'ordinal-11': { long: term('th') },
+  'ordinal-12': { long: term('th') },
+  'ordinal-13': { long: term('th') },
+  'season-01': { long: term('Spring') },
+  'season-02': { long: term('Summer') },
+  'season-03': { long: term('Autumn') },
+  'season-04': { long: term('Winter') }
+}
+
+MONTHS.forEach((month, index) => {
+  const key = `month-${String(index + 1).padStart(2, '0')}`
+  terms[key] = { long: term(month), short: term(MONTHS_SHORT[index]) }
+})
+
+LONG_ORDINALS.forEach((word, index) => {
+  terms[`long-ordinal-${String(index + 1).padStart(2, '0')}`] = { long: term(word) }
+})
+
+export const defaultLocale: CslLocale = {
+  lang: 'en-US',
+  terms,
+  dates: {
+    text: el('date', { form: 'text' }, [
+      el('date-part', { name: 'month', suffix: ' ' }),
+      el('date-part', { name: 'day', suffix: ', ' }),
+      el('date-part', { name: 'year' })
+    ]),
+    numeric: el('date', { form: 'numeric', delimiter: '/' }, [
+      el('date-part', { name: 'month', form: 'numeric-leading-zeros' }),
+      el('date-part', { name: 'day', form: 'numeric-leading-zeros' }),
+      el('date-part', { name: 'year' })
+    ])
+  },
+  punctuationInQuote: true
+}
@@ -0,0 +1,110 @@
+import { DOMParser } from '@xmldom/xmldom'
+import { describe, expect, it } from 'vitest'
+import { parseCslStyle, renderBibliography, renderCitation, type CslCite, type CslItem, type CslStyle } from '@/lib/cslProcessor'
+import { defaultLocale } from '@/lib/cslLocale'
+
+// Styles are parsed with the browser's DOMParser
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser
+
+function authorDateStyle(citationAttrs: string): CslStyle {
+  return parseCslStyle(`<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>Author-date test</title><id>author-date-test</id></info>
+  <macro name="author"><names variable="author"><name form="short" and="symbol" initialize-with=". "/></names></macro>
+  <macro name="year"><date variable="issued"><date-part name="year"/></date></macro>
+  <citation et-al-min="3" et-al-use-first="1" ${citationAttrs}>
+    <sort><key macro="author"/><key macro="year"/></sort>
+    <layout prefix="(" suffix=")" delimiter="; ">
+      <group delimiter=", "><text macro="author"/><text macro="year"/></group>
+    </layout>
+  </citation>
+  <bibliography>
+    <sort><key macro="author"/><key macro="year"/><key variable="title"/></sort>
+    <layout suffix=".">
+      <group delimiter=". "><text macro="author"/><text macro="year"/><text variable="title"/></group>
+    </layout>
+  </bibliography>
+</style>`)
+}
+
+const person = (given: string, family: string) => ({ given, family })
+
+function work(id: string, authors: { given: string; family: string }[], year: number, title = id): CslItem {
+  return { id, type: 'article-journal', title, author: authors, issued: { 'date-parts': [[year]] } }
+}
+
+function cite(style: CslStyle, items: CslItem[], cites: CslCite[] = items.map(item => ({ id: item.id }))): string {
+  return renderCitation(style, cites, items, { locales: [defaultLocale] }).map(run => run.text).join('')
+}
+
+const smithTeam = [person('Jane', 'Smith'), person('Ana', 'Jones'), person('Li', 'Brown')]
+
+describe('CSL disambiguation', () => {
+  it('adds year suffixes in bibliography order', () => {
+    const style = authorDateStyle('disambiguate-add-year-suffix="true"')
+    const items = [work('sleep', smithTeam, 2020, 'Sleep'), work('dreams', smithTeam, 2020, 'Dreams')]
+
+    expect(cite(style, items)).toBe('(Smith et al., 2020a; Smith et al., 2020b)')
+    const bibliography = renderBibliography(style, items, { locales: [defaultLocale] })
+    expect(bibliography.entries.map(entry => entry.runs.map(run => run.text).join(''))).toEqual([
+      'Smith, Jones, & Brown. 2020a. Dreams.',
+      'Smith, Jones, & Brown. 2020b. Sleep.'
+    ])
+  })
+
+  it('shows more names before falling back to suffixes', () => {
+    const style = authorDateStyle('disambiguate-add-names="true" disambiguate-add-year-suffix="true"')
+    const otherTeam = [person('Jane', 'Smith'), person('Kim', 'Lee'), person('Li', 'Brown')]
+    const items = [work('a', smithTeam, 2020), work('b', otherTeam, 2020)]
+
+    expect(cite(style, items)).toBe('(Smith, Jones, et al., 2020; Smith, Lee, et al., 2020)')
+  })
+
+  it('expands given names of different people with the same family name', () => {
+    const style = authorDateStyle('disambiguate-add-givenname="true"')
+    const items = [work('a', [person('John', 'Smith')], 2020), work('b', [person('Anna', 'Smith')], 2020)]
+
+    expect(cite(style, items)).toBe('(A. Smith, 2020; J. Smith, 2020)')
+  })
+
+  it('leaves unambiguous citations alone', () => {
+    const style = authorDateStyle('disambiguate-add-names="true" disambiguate-add-givenname="true" disambiguate-add-year-suffix="true"')
+    const items = [work('a', smithTeam, 2019), work('b', [person('Kim', 'Lee')], 2020)]
+
+    expect(cite(style, items)).toBe('(Lee, 2020; Smith et al., 2019)')
+  })
+})
+
+describe('CSL cite collapsing', () => {
+  it('collapses years by the same authors', () => {
+    const style = authorDateStyle('collapse="year"')
+    const items = [work('a', smithTeam, 2019), work('b', [person('Kim', 'Lee')], 2018), work('c', smithTeam, 2021)]
+
+    expect(cite(style, items, [{ id: 'a' }, { id: 'b' }, { id: 'c' }])).toBe('(Lee, 2018; Smith et al., 2019, 2021)')
+  })
+
+  it('collapses year suffixes', () => {
+    const items = ['a', 'b', 'c'].map(id => work(id, smithTeam, 2020, id))
+
+    const listed = authorDateStyle('disambiguate-add-year-suffix="true" collapse="year-suffix" year-suffix-delimiter=","')
+    expect(cite(listed, items)).toBe('(Smith et al., 2020a,b,c)')
+    const ranged = authorDateStyle('disambiguate-add-year-suffix="true" collapse="year-suffix-ranged"')
+    expect(cite(ranged, items)).toBe('(Smith et al., 2020a–c)')
+  })
+
+  it('collapses runs of citation numbers', () => {
+    const style = parseCslStyle(`<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info><title>Numeric test</title><id>numeric-test</id></info>
+  <citation collapse="citation-number">
+    <sort><key variable="citation-number"/></sort>
+    <layout prefix="[" suffix="]" delimiter=", "><text variable="citation-number"/></layout>
+  </citation>
+  <bibliography><layout><text variable="title"/></layout></bibliography>
+</style>`)
+    const items = ['a', 'b', 'c', 'd', 'e'].map(id => work(id, smithTeam, 2020))
+
+    expect(cite(style, items, ['e', 'b', 'a', 'c'].map(id => ({ id })))).toBe('[1–3, 5]')
+    expect(cite(style, items, [{ id: 'a' }, { id: 'b' }])).toBe('[1, 2]')
+  })
+})
@@ -0,0 +1,1472 @@
+import type { CitationRun, FormattedCitation } from '@/lib/citationFormatter'
+import { defaultLocale } from '@/lib/cslLocale'
+
+/**
+ * Embedded CSL 1.0 processor
+ *
+ * Parses Citation Style Language styles and locales and renders CSL-JSON
+ * items into the same styled runs produced by the built-in formatters.
+ * Covers the rendering elements, conditions, name options, sorting and
+ * bibliography options used by the journal styles in the CSL repository,
+ * with cite disambiguation (added names, expanded given names, the
+ * disambiguate condition and year suffixes) and cite grouping and collapsing.
+ */
+
+export interface CslNode {
+  name: string
+  attrs: Record<string, string>
+  children: CslNode[]
+  text: string
+}
+
+export interface CslName {
+  family?: string
+  given?: string
+  literal?: string
+  suffix?: string
+  'non-dropping-particle'?: string
+  'dropping-particle'?: string
+  'comma-suffix'?: boolean
+}
+
+export interface CslDate {
+  'date-parts'?: (number | string)[][]
+  literal?: string
+  raw?: string
+  circa?: boolean | string | number
+  season?: number | string
+}
+
+export interface CslItem {
+  id: string
+  type: string
+  [variable: string]: unknown
+}
+
+export interface CslTermValue {
+  single: string
+  multiple: string
+}
+
+export type CslTermForm = 'long' | 'short' | 'verb' | 'verb-short' | 'symbol'
+
+export type CslTermForms = Partial<Record<CslTermForm, CslTermValue>>
+
+export interface CslLocale {
+  lang: string
+  terms: Record<string, CslTermForms>
+  dates: Partial<Record<'text' | 'numeric', CslNode>>
+  punctuationInQuote: boolean
+}
+
+interface CslRenderingSection {
+  attrs: Record<string, string>
+  layout: CslNode
+  sort?: CslNode
+}
+
+export interface CslStyle {
+  id: string
+  title: string
+  class: 'in-text' | 'note'
+  defaultLocale?: string
+  attrs: Record<string, string>
+  macros: Map<string, CslNode>
+  citation: CslRenderingSection
+  bibliography?: CslRenderingSection
+  locales: CslLocale[]
+}
+
+export type CitePosition = 'first' | 'subsequent' | 'ibid' | 'ibid-with-locator'
+
+export interface CslCite {
+  id: string
+  locator?: string
+  label?: string
+  prefix?: string
+  suffix?: string
+  position?: CitePosition
+}
+
+export interface CslBibliographyEntry {
+  id: string
+  runs: FormattedCitation
+}
+
+export interface CslBibliography {
+  entries: CslBibliographyEntry[]
+  hangingIndent: boolean
+  secondFieldAlign?: string
+  lineSpacing: number
+  entrySpacing: number
+}
+
+export interface CslRenderOptions {
+  locales?: CslLocale[]
+  lang?: string
+  citationNumbers?: Map<string, number>
+}
+
+// Options on <style>, <citation> and <bibliography> that <names> and <name> inherit
+const INHERITABLE_NAME_OPTIONS = [
+  'and', 'delimiter-precedes-et-al', 'delimiter-precedes-last', 'et-al-min', 'et-al-use-first',
+  'et-al-use-last', 'et-al-subsequent-min', 'et-al-subsequent-use-first', 'initialize',
+  'initialize-with', 'name-as-sort-order', 'sort-separator', 'name-form', 'name-delimiter',
+  'names-delimiter'
+]
+
+const NAME_VARIABLES = new Set([
+  'author', 'editor', 'translator', 'container-author', 'collection-editor', 'composer',
+  'director', 'editorial-director', 'illustrator', 'interviewer', 'original-author',
+  'recipient', 'reviewed-author', 'chair', 'compiler', 'contributor', 'curator',
+  'executive-producer', 'guest', 'host', 'narrator', 'organizer', 'performer', 'producer',
+  'script-writer', 'series-creator'
+])
+
+const DATE_VARIABLES = new Set([
+  'accessed', 'available-date', 'event-date', 'issued', 'original-date', 'submitted'
+])
+
+const TITLE_CASE_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'but', 'by', 'down', 'for', 'from', 'in', 'into', 'nor',
+  'of', 'on', 'onto', 'or', 'over', 'so', 'the', 'till', 'to', 'up', 'via', 'with', 'yet'
+])
+
+/**
+ * Parse an XML string into a plain node tree
+ */
+function parseXml(xml: string): CslNode {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const error = doc.getElementsByTagName('parsererror')[0]
+  if (error) {
+    throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0] || 'parse error'}`)
+  }
+
+  const convert = (element: Element): CslNode => {
+    const attrs: Record<string, string> = {}
+    Array.from(element.attributes).forEach(attr => {
+      attrs[attr.name] = attr.value
+    })
+    const children = Array.from(element.children).map(convert)
+    return {
+      name: element.localName,
+      attrs,
+      children,
+      text: children.length === 0 ? element.textContent || '' : ''
+    }
+  }
+
+  return convert(doc.documentElement)
+}
+
+function findChild(node: CslNode, name: string): CslNode | undefined {
+  return node.children.find(child => child.name === name)
+}
+
+function localeFromNode(node: CslNode): CslLocale {
+  const locale: CslLocale = {
+    lang: node.attrs['xml:lang'] || '',
+    terms: {},
+    dates: {},
+    punctuationInQuote: false
+  }
+
+  const styleOptions = findChild(node, 'style-options')
+  if (styleOptions) {
+    locale.punctuationInQuote = styleOptions.attrs['punctuation-in-quote'] === 'true'
+  }
+
+  const termsNode = findChild(node, 'terms')
+  termsNode?.children.forEach(termNode => {
+    if (termNode.name !== 'term' || !termNode.attrs.name) return
+    const form = (termNode.attrs.form || 'long') as CslTermForm
+    const single = findChild(termNode, 'single')
+    const multiple = findChild(termNode, 'multiple')
+    const value: CslTermValue = single || multiple
+      ? { single: single?.text ?? '', multiple: multiple?.text ?? single?.text ?? '' }
+      : { single: termNode.text, multiple: termNode.text }
+    locale.terms[termNode.attrs.name] = { ...locale.terms[termNode.attrs.name], [form]: value }
+  })
+
+  node.children
+    .filter(child => child.name === 'date' && (child.attrs.form === 'text' || child.attrs.form === 'numeric'))
+    .forEach(dateNode => {
+      locale.dates[dateNode.attrs.form as 'text' | 'numeric'] = dateNode
+    })
+
+  return locale
+}
+
+/**
+ * Parse a CSL 1.0 locale file
+ */
+export function parseCslLocale(xml: string): CslLocale {
+  const root = parseXml(xml)
+  if (root.name !== 'locale') {
+    throw new Error('Not a CSL locale file: the root element must be <locale>')
+  }
+  const locale = localeFromNode(root)
+  if (!locale.lang) {
+    throw new Error('CSL locale file is missing its xml:lang attribute')
+  }
+  return locale
+}
+
+/**
+ * Parse an independent CSL 1.0 style
+ */
+export function parseCslStyle(xml: string): CslStyle {
+  const root = parseXml(xml)
+  if (root.name !== 'style') {
+    throw new Error('Not a CSL style: the root element must be <style>')
+  }
+
+  const info = findChild(root, 'info')
+  const title = (info && findChild(info, 'title')?.text.trim()) || 'Untitled CSL style'
+  const id = (info && findChild(info, 'id')?.text.trim()) || title
+
+  const citationNode = findChild(root, 'citation')
+  if (!citationNode) {
+    const isDependent = info?.children.some(child => child.name === 'link' && child.attrs.rel === 'independent-parent')
+    throw new Error(isDependent
+      ? `"${title}" is a dependent style. Load its parent style instead.`
+      : `"${title}" has no <citation> element`)
+  }
+
+  const section = (node: CslNode): CslRenderingSection => {
+    const layout = findChild(node, 'layout')
+    if (!layout) {
+      throw new Error(`<${node.name}> in "${title}" has no <layout>`)
+    }
+    return { attrs: node.attrs, layout, sort: findChild(node, 'sort') }
+  }
+
+  const macros = new Map<string, CslNode>()
+  root.children
+    .filter(child => child.name === 'macro' && child.attrs.name)
+    .forEach(macro => macros.set(macro.attrs.name, macro))
+
+  const bibliographyNode = findChild(root, 'bibliography')
+
+  return {
+    id,
+    title,
+    class: root.attrs.class === 'note' ? 'note' : 'in-text',
+    defaultLocale: root.attrs['default-locale'],
+    attrs: root.attrs,
+    macros,
+    citation: section(citationNode),
+    bibliography: bibliographyNode ? section(bibliographyNode) : undefined,
+    locales: root.children.filter(child => child.name === 'locale').map(localeFromNode)
+  }
+}
+
+function mergeLocale(base: CslLocale, overlay: CslLocale): CslLocale {
+  const terms = { ...base.terms }
+  Object.entries(overlay.terms).forEach(([name, forms]) => {
+    terms[name] = { ...terms[name], ...forms }
+  })
+  return {
+    lang: overlay.lang || base.lang,
+    terms,
+    dates: { ...base.dates, ...overlay.dates },
+    punctuationInQuote: overlay === base ? base.punctuationInQuote : overlay.punctuationInQuote || base.punctuationInQuote
+  }
+}
+
+/**
+ * Resolve the locale a style renders with: built-in defaults, then the best
+ * matching locale file, then any locale overrides inside the style itself
+ */
+export function resolveLocale(style: CslStyle, locales: CslLocale[] = [], lang?: string): CslLocale {
+  const wanted = lang || style.defaultLocale || 'en-US'
+  const primary = wanted.split('-')[0]
+  const matches = (candidate: string) => !candidate || candidate === wanted || candidate === primary
+
+  let locale = defaultLocale
+  const file = locales.find(l => l.lang === wanted) || locales.find(l => l.lang.split('-')[0] === primary)
+  if (file) {
+    locale = mergeLocale(locale, file)
+  }
+  style.locales
+    .filter(l => matches(l.lang))
+    .sort((a, b) => a.lang.length - b.lang.length)
+    .forEach(l => {
+      locale = mergeLocale(locale, { ...l, punctuationInQuote: l.punctuationInQuote || locale.punctuationInQuote })
+    })
+  return { ...locale, lang: wanted }
+}
+
+interface RenderContext {
+  style: CslStyle
+  locale: CslLocale
+  item: CslItem
+  cite?: CslCite
+  mode: 'citation' | 'bibliography'
+  section: CslRenderingSection
+  citationNumber?: number
+  varsCalled: number
+  varsRendered: number
+  suppressed: Set<string>
+  sortKeyMode: boolean
+  macroDepth: number
+  firstNamesRendered: boolean
+  previousFirstNames?: string
+  firstNames?: string
+  disambiguation?: Disambiguation
+  // Leave out the first names rendered, for cites collapsed into the one before
+  omitFirstNames: boolean
+  yearSuffixRendered: boolean
+}
+
+interface ItemDisambiguation {
+  // Names shown beyond et-al-use-first
+  addedNames: number
+  // 1 shows initials (or the long form of short names), 2 full given names
+  givenNameLevel: number
+  // Whether disambiguate="true" conditions hold
+  condition: boolean
+  yearSuffix: string
+}
+
+interface Disambiguation {
+  items: Map<string, ItemDisambiguation>
+  // Given name levels for people who share a family name with someone
+  // else, under the all-names and primary-name rules
+  nameLevels: Map<string, number>
+  // Styles without a year-suffix variable get it after the issued year
+  implicitYearSuffix: boolean
+}
+
+function lookupTerm(locale: CslLocale, name: string, form: CslTermForm = 'long', plural = false): string {
+  const forms = locale.terms[name]
+  if (!forms) return ''
+  const fallbacks: Record<CslTermForm, CslTermForm[]> = {
+    'long': ['long'],
+    'short': ['short', 'long'],
+    'verb': ['verb', 'long'],
+    'verb-short': ['verb-short', 'verb', 'long'],
+    'symbol': ['symbol', 'short', 'long']
+  }
+  for (const candidate of fallbacks[form] || ['long']) {
+    const value = forms[candidate]
+    if (value) return plural ? value.multiple : value.single
+  }
+  return ''
+}
+
+function isNumeric(value: string): boolean {
+  return /^\s*[a-z]?\d+[a-z]?(\s*([-–&,]|and)\s*[a-z]?\d+[a-z]?)*\s*$/i.test(value)
+}
+
+function isPlural(value: string): boolean {
+  return /\d\s*([-–&,]|and)\s*\d/.test(value)
+}
+
+function stringValue(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'number') return String(value)
+  return ''
+}
+
+function itemDisambiguation(ctx: RenderContext): ItemDisambiguation | undefined {
+  return ctx.disambiguation?.items.get(ctx.item.id)
+}
+
+function getVariable(ctx: RenderContext, variable: string, form?: string): string {
+  if (ctx.suppressed.has(variable)) return ''
+  const { item, cite } = ctx
+
+  switch (variable) {
+    case 'locator':
+      return cite?.locator || ''
+    case 'citation-number':
+      return ctx.citationNumber ? String(ctx.citationNumber) : ''
+    case 'year-suffix':
+      return itemDisambiguation(ctx)?.yearSuffix || ''
+    case 'page': {
+      const page = stringValue(item.page)
+      return page.replace(/(\d)\s*-+\s*(\d)/g, `$1${lookupTerm(ctx.locale, 'page-range-delimiter') || '–'}$2`)
+    }
+    case 'page-first':
+      return stringValue(item['page-first']) || stringValue(item.page).split(/[-–,]/)[0].trim()
+  }
+
+  if (form === 'short') {
+    const short = stringValue(item[`${variable}-short`])
+    if (short) return short
+  }
+  return stringValue(item[variable])
+}
+
+function formatRuns(runs: CitationRun[], attrs: Record<string, string>, ctx: RenderContext): CitationRun[] {
+  if (runs.length === 0) return runs
+  let result = runs.map(run => ({ ...run }))
+
+  if (attrs['strip-periods'] === 'true') {
+    result.forEach(run => { run.text = run.text.replace(/\./g, '') })
+  }
+
+  if (attrs['text-case']) {
+    result.forEach((run, index) => { run.text = applyTextCase(run.text, attrs['text-case'], index === 0, ctx.locale) })
+  }
+
+  if (attrs['font-style'] === 'italic' || attrs['font-style'] === 'oblique') {
+    result.forEach(run => { run.italic = !run.italic })
+  } else if (attrs['font-style'] === 'normal') {
+    result.forEach(run => { delete run.italic })
+  }
+  if (attrs['font-weight'] === 'bold') {
+    result.forEach(run => { run.bold = true })
+  } else if (attrs['font-weight'] === 'normal') {
+    result.forEach(run => { delete run.bold })
+  }
+  if (attrs['font-variant'] === 'small-caps') {
+    result.forEach(run => { run.smallCaps = true })
+  }
+  if (attrs['vertical-align'] === 'sup') {
+    result.forEach(run => { run.superscript = true })
+  }
+
+  if (attrs.quotes === 'true') {
+    result = [
+      { text: lookupTerm(ctx.locale, 'open-quote') || '“' },
+      ...result,
+      { text: lookupTerm(ctx.locale, 'close-quote') || '”' }
+    ]
+  }
+
+  if (attrs.prefix) result.unshift({ text: attrs.prefix })
+  if (attrs.suffix) result.push({ text: attrs.suffix })
+  return result
+}
+
+function applyTextCase(text: string, textCase: string, isFirst: boolean, locale: CslLocale): string {
+  switch (textCase) {
+    case 'lowercase':
+      return text.toLowerCase()
+    case 'uppercase':
+      return text.toUpperCase()
+    case 'capitalize-first':
+    case 'sentence':
+      return isFirst ? text.replace(/^(\s*)(\p{L})/u, (_, space, letter) => space + letter.toUpperCase()) : text
+    case 'capitalize-all':
+      return text.replace(/(^|\s)(\p{Ll})/gu, (_, space, letter) => space + letter.toUpperCase())
+    case 'title': {
+      if (!locale.lang.startsWith('en')) return text
+      let wordIndex = 0
+      return text.replace(/[\p{L}'’]+/gu, word => {
+        const first = isFirst && wordIndex === 0
+        wordIndex++
+        if (word !== word.toLowerCase()) return word
+        if (!first && TITLE_CASE_STOP_WORDS.has(word)) return word
+        return word.charAt(0).toUpperCase() + word.slice(1)
+      })
+    }
+    default:
+      return text
+  }
+}
+
+function plainText(runs: CitationRun[]): string {
+  return runs.map(run => run.text).join('')
+}
+
+function joinRuns(parts: CitationRun[][], delimiter = ''): CitationRun[] {
+  const result: CitationRun[] = []
+  parts.filter(part => plainText(part) !== '').forEach((part, index) => {
+    if (index > 0 && delimiter) result.push({ text: delimiter })
+    result.push(...part)
+  })
+  return result
+}
+
+function sameFormat(a: CitationRun, b: CitationRun): boolean {
+  return !a.url && !b.url &&
+    Boolean(a.italic) === Boolean(b.italic) &&
+    Boolean(a.bold) === Boolean(b.bold) &&
+    Boolean(a.smallCaps) === Boolean(b.smallCaps) &&
+    Boolean(a.superscript) === Boolean(b.superscript)
+}
+
+/**
+ * Merge adjacent runs and clean up punctuation where affixes collide
+ */
+function finalizeRuns(runs: CitationRun[], locale: CslLocale): FormattedCitation {
+  const result: FormattedCitation = []
+  runs.forEach(run => {
+    let text = run.text
+    const previous = result[result.length - 1]
+    const previousText = previous?.text ?? ''
+
+    if (previous) {
+      if (/[.?!]["”’]?$/.test(previousText) && text.startsWith('.')) {
+        text = text.slice(1)
+      } else if (/[,;:]$/.test(previousText) && text.charAt(0) === previousText.charAt(previousText.length - 1)) {
+        text = text.slice(1)
+      }
+      if (locale.punctuationInQuote && /[”’]$/.test(previousText) && /^[.,]/.test(text)) {
+        previous.text = previousText.slice(0, -1) + text.charAt(0) + previousText.slice(-1)
+        text = text.slice(1)
+      }
+      if (/\s$/.test(previous.text) && /^\s/.test(text)) {
+        text = text.replace(/^\s+/, '')
+      }
+    }
+
+    if (!text) return
+    if (previous && sameFormat(previous, run)) {
+      previous.text += text
+    } else {
+      result.push({ ...run, text })
+    }
+  })
+
+  if (locale.punctuationInQuote) {
+    result.forEach(run => { run.text = run.text.replace(/([”’])([.,])/g, '$2$1') })
+  }
+  if (result.length > 0) {
+    result[0].text = result[0].text.replace(/^\s+/, '')
+    result[result.length - 1].text = result[result.length - 1].text.replace(/\s+$/, '')
+  }
+  return result.filter(run => run.text !== '')
+}
+
+function renderChildren(nodes: CslNode[], ctx: RenderContext): CitationRun[] {
+  return nodes.flatMap(node => renderNode(node, ctx))
+}
+
+function renderNode(node: CslNode, ctx: RenderContext): CitationRun[] {
+  switch (node.name) {
+    case 'text':
+      return renderText(node, ctx)
+    case 'number':
+      return renderNumber(node, ctx)
+    case 'date':
+      return renderDate(node, ctx)
+    case 'names':
+      return renderNames(node, ctx)
+    case 'label':
+      return renderLabel(node, ctx)
+    case 'group':
+      return renderGroup(node, ctx)
+    case 'choose':
+      return renderChoose(node, ctx)
+    default:
+      return []
+  }
+}
+
+function renderMacro(name: string, ctx: RenderContext): CitationRun[] {
+  const macro = ctx.style.macros.get(name)
+  if (!macro) {
+    throw new Error(`CSL style references undefined macro "${name}"`)
+  }
+  if (ctx.macroDepth > 50) {
+    throw new Error(`CSL macro "${name}" recurses too deeply`)
+  }
+  ctx.macroDepth++
+  const runs = renderChildren(macro.children, ctx)
+  ctx.macroDepth--
+  return runs
+}
+
+function renderText(node: CslNode, ctx: RenderContext): CitationRun[] {
+  const { attrs } = node
+  let runs: CitationRun[] = []
+
+  if (attrs.variable) {
+    ctx.varsCalled++
+    const value = getVariable(ctx, attrs.variable, attrs.form)
+    if (value) {
+      ctx.varsRendered++
+      runs = attrs.variable === 'URL' ? [{ text: value, url: value }] : [{ text: value }]
+    }
+  } else if (attrs.macro) {
+    runs = renderMacro(attrs.macro, ctx)
+  } else if (attrs.term) {
+    const value = lookupTerm(ctx.locale, attrs.term, attrs.form as CslTermForm, attrs.plural === 'true')
+    runs = value ? [{ text: value }] : []
+  } else if (attrs.value !== undefined) {
+    runs = attrs.value ? [{ text: attrs.value }] : []
+  }
+
+  return formatRuns(runs, attrs, ctx)
+}
+
+function toRoman(value: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+  ]
+  let remaining = value
+  return numerals.reduce((result, [amount, numeral]) => {
+    while (remaining >= amount) {
+      result += numeral
+      remaining -= amount
+    }
+    return result
+  }, '')
+}
+
+function ordinalSuffix(value: number, locale: CslLocale): string {
+  const lastTwo = value % 100
+  if (lastTwo >= 11 && lastTwo <= 13) {
+    const specific = lookupTerm(locale, `ordinal-${lastTwo}`)
+    if (specific) return specific
+  }
+  const last = value % 10
+  return lookupTerm(locale, `ordinal-${String(last).padStart(2, '0')}`) || lookupTerm(locale, 'ordinal')
+}
+
+function formatNumber(value: string, form: string | undefined, locale: CslLocale): string {
+  const match = value.match(/^\s*(\d+)\s*$/)
+  if (!match) return value
+  const number = parseInt(match[1], 10)
+  switch (form) {
+    case 'ordinal':
+      return `${number}${ordinalSuffix(number, locale)}`
+    case 'long-ordinal': {
+      const word = number <= 10 ? lookupTerm(locale, `long-ordinal-${String(number).padStart(2, '0')}`) : ''
+      return word || `${number}${ordinalSuffix(number, locale)}`
+    }
+    case 'roman':
+      return toRoman(number)
+    default:
+      return String(number)
+  }
+}
+
+function renderNumber(node: CslNode, ctx: RenderContext): CitationRun[] {
+  const variable = node.attrs.variable
+  if (!variable) return []
+  ctx.varsCalled++
+  const value = getVariable(ctx, variable)
+  if (!value) return []
+  ctx.varsRendered++
+  return formatRuns([{ text: formatNumber(value, node.attrs.form, ctx.locale) }], node.attrs, ctx)
+}
+
+function dateParts(date: CslDate): number[] | null {
+  const parts = date['date-parts']?.[0]
+  if (parts && parts.length > 0 && parts[0] !== undefined && parts[0] !== '') {
+    return parts.map(part => parseInt(String(part), 10)).filter(part => !isNaN(part))
+  }
+  const year = date.raw?.match(/\b(\d{4})\b/)
+  return year ? [parseInt(year[1], 10)] : null
+}
+
+function renderDatePart(node: CslNode, parts: number[], ctx: RenderContext): CitationRun[] {
+  const { attrs } = node
+  const [year, month, day] = parts
+  let text = ''
+
+  switch (attrs.name) {
+    case 'year':
+      if (year === undefined) return []
+      text = attrs.form === 'short' ? String(year).slice(-2) : String(Math.abs(year))
+      if (year < 0) text += lookupTerm(ctx.locale, 'bc')
+      break
+    case 'month': {
+      if (!month || month < 1 || month > 12) return []
+      const padded = String(month).padStart(2, '0')
+      if (attrs.form === 'numeric') text = String(month)
+      else if (attrs.form === 'numeric-leading-zeros') text = padded
+      else text = lookupTerm(ctx.locale, `month-${padded}`, attrs.form === 'short' ? 'short' : 'long')
+      break
+    }
+    case 'day':
+      if (!day) return []
+      if (attrs.form === 'numeric-leading-zeros') text = String(day).padStart(2, '0')
+      else if (attrs.form === 'ordinal') text = formatNumber(String(day), 'ordinal', ctx.locale)
+      else text = String(day)
+      break
+    default:
+      return []
+  }
+
+  return formatRuns([{ text }], attrs, ctx)
+}
+
+function renderDate(node: CslNode, ctx: RenderContext): CitationRun[] {
+  const variable = node.attrs.variable
+  if (!variable || ctx.suppressed.has(variable)) return []
+  ctx.varsCalled++
+  const date = ctx.item[variable] as CslDate | undefined
+  if (!date) return []
+
+  if (date.literal) {
+    ctx.varsRendered++
+    return formatRuns([{ text: date.literal }], node.attrs, ctx)
+  }
+
+  const parts = dateParts(date)
+  if (!parts) return []
+  ctx.varsRendered++
+
+  let partNodes = node.children.filter(child => child.name === 'date-part')
+  let delimiter = node.attrs.delimiter ?? ''
+
+  const form = node.attrs.form as 'text' | 'numeric' | undefined
+  if (form) {
+    const localized = ctx.locale.dates[form]
+    if (!localized) return []
+    const wanted = (node.attrs['date-parts'] || 'year-month-day').split('-')
+    const overrides = new Map(partNodes.map(part => [part.attrs.name, part.attrs]))
+    partNodes = localized.children
+      .filter(part => part.name === 'date-part' && wanted.includes(part.attrs.name))
+      .map(part => ({ ...part, attrs: { ...part.attrs, ...overrides.get(part.attrs.name) } }))
+    delimiter = localized.attrs.delimiter ?? ''
+  }
+
+  let runs = joinRuns(partNodes.map(part => {
+    const partRuns = renderDatePart(part, parts, ctx)
+    if (part.attrs.name !== 'year' || variable !== 'issued' || partRuns.length === 0) return partRuns
+    return [...partRuns, ...implicitYearSuffix(ctx)]
+  }), delimiter)
+  if (date.circa) {
+    runs = [{ text: `${lookupTerm(ctx.locale, 'circa', 'short')} ` }, ...runs]
+  }
+  return formatRuns(runs, node.attrs, ctx)
+}
+
+// The suffix goes after the first issued year of styles that do not place it
+function implicitYearSuffix(ctx: RenderContext): CitationRun[] {
+  const suffix = itemDisambiguation(ctx)?.yearSuffix
+  if (!suffix || !ctx.disambiguation?.implicitYearSuffix || ctx.yearSuffixRendered) return []
+  ctx.yearSuffixRendered = true
+  return [{ text: suffix }]
+}
+
+function numberOption(value: string | undefined): number {
+  const parsed = parseInt(value || '', 10)
+  return isNaN(parsed) ? 0 : parsed
+}
+
+function initializeGiven(given: string, initializeWith: string, initialize: boolean, hyphen: boolean): string {
+  const initialOf = (word: string) => {
+    const letter = word.replace(/^[^\p{L}]+/u, '').charAt(0)
+    return letter ? letter.toUpperCase() + initializeWith : ''
+  }
+
+  const words = given.split(/\s+/).filter(Boolean).map(word => {
+    const isInitial = /^\p{Lu}\.?$/u.test(word)
+    if (!initialize && !isInitial) return `${word} `
+    if (word.includes('-')) {
+      const pieces = word.split('-').filter(Boolean).map(piece => initialOf(piece).trim())
+      return (hyphen ? pieces.join('-') : pieces.join('')) + (initializeWith.endsWith(' ') ? ' ' : '')
+    }
+    return initialOf(word)
+  })
+  return words.join('').trim()
+}
+
+function nameOptions(node: CslNode | undefined, ctx: RenderContext): Record<string, string> {
+  const inherited: Record<string, string> = {}
+  const collect = (attrs: Record<string, string>) => {
+    INHERITABLE_NAME_OPTIONS.forEach(option => {
+      if (attrs[option] !== undefined) inherited[option] = attrs[option]
+    })
+  }
+  collect(ctx.style.attrs)
+  collect(ctx.section.attrs)
+  if (inherited['name-form']) inherited.form = inherited['name-form']
+  if (inherited['name-delimiter']) inherited.delimiter = inherited['name-delimiter']
+  delete inherited['name-form']
+  delete inherited['name-delimiter']
+  return { ...inherited, ...(node?.attrs || {}) }
+}
+
+function nameKey(name: CslName): string {
+  return [name['non-dropping-particle'], name.family, '|', name.given].filter(Boolean).join(' ').toLowerCase()
+}
+
+function givenNameLevel(name: CslName, index: number, ctx: RenderContext): number {
+  if (ctx.mode !== 'citation' || !ctx.disambiguation) return 0
+  const rule = ctx.section.attrs['givenname-disambiguation-rule'] || 'by-cite'
+  if (rule.startsWith('primary-name') && index > 0) return 0
+  return Math.max(ctx.disambiguation.nameLevels.get(nameKey(name)) || 0, itemDisambiguation(ctx)?.givenNameLevel || 0)
+}
+
+function renderName(name: CslName, index: number, options: Record<string, string>, nameNode: CslNode | undefined, ctx: RenderContext): CitationRun[] {
+  const partFormat = (part: 'family' | 'given') =>
+    nameNode?.children.find(child => child.name === 'name-part' && child.attrs.name === part)?.attrs || {}
+  const family = (text: string) => formatRuns(text ? [{ text }] : [], partFormat('family'), ctx)
+  const given = (text: string) => formatRuns(text ? [{ text }] : [], partFormat('given'), ctx)
+
+  if (name.literal || !name.family) {
+    return family(name.literal || name.given || '')
+  }
+
+  const level = givenNameLevel(name, index, ctx)
+  const form = options.form === 'short' && level > 0 ? 'long' : options.form || 'long'
+  const nonDropping = name['non-dropping-particle'] || ''
+  const dropping = name['dropping-particle'] || ''
+  const join = (...parts: string[]) => parts.filter(Boolean).join(' ')
+
+  if (form === 'short') {
+    return family(join(nonDropping, name.family))
+  }
+
+  let givenText = name.given || ''
+  const initializeWith = level > 1 ? undefined : options['initialize-with']
+  if (givenText && initializeWith !== undefined) {
+    givenText = initializeGiven(
+      givenText,
+      initializeWith,
+      options.initialize !== 'false',
+      ctx.style.attrs['initialize-with-hyphen'] !== 'false'
+    )
+  }
+
+  const sortOrder = options['name-as-sort-order']
+  const inverted = ctx.sortKeyMode || sortOrder === 'all' || (sortOrder === 'first' && index === 0)
+
+  if (!inverted) {
+    const suffixSeparator = name['comma-suffix'] ? ', ' : ' '
+    return [
+      ...given(join(givenText, dropping)),
+      ...(givenText || dropping ? [{ text: ' ' }] : []),
+      ...family(join(nonDropping, name.family)),
+      ...(name.suffix ? [{ text: `${suffixSeparator}${name.suffix}` }] : [])
+    ]
+  }
+
+  const sortSeparator = options['sort-separator'] ?? ', '
+  const demote = (ctx.style.attrs['demote-non-dropping-particle'] || 'display-and-sort') === 'display-and-sort' ||
+    (ctx.sortKeyMode && ctx.style.attrs['demote-non-dropping-particle'] === 'sort-only')
+  const familyText = demote ? name.family : join(nonDropping, name.family)
+  const givenPart = demote ? join(givenText, dropping, nonDropping) : join(givenText, dropping)
+
+  return [
+    ...family(familyText),
+    ...(givenPart ? [{ text: sortSeparator }, ...given(givenPart)] : []),
+    ...(name.suffix ? [{ text: `${sortSeparator}${name.suffix}` }] : [])
+  ]
+}
+
+function renderNameList(names: CslName[], options: Record<string, string>, nameNode: CslNode | undefined, etAlNode: CslNode | undefined, ctx: RenderContext): CitationRun[] {
+  const delimiter = options.delimiter ?? ', '
+  const etAlMin = numberOption(options['et-al-min'])
+  const useFirst = numberOption(options['et-al-use-first'])
+  const etAlUseFirst = useFirst + (ctx.mode === 'citation' ? itemDisambiguation(ctx)?.addedNames || 0 : 0)
+  const truncate = !ctx.sortKeyMode && etAlMin > 0 && useFirst > 0 && names.length >= etAlMin && etAlUseFirst < names.length
+
+  const formatted = (truncate ? names.slice(0, etAlUseFirst) : names)
+    .map((name, index) => renderName(name, index, options, nameNode, ctx))
+
+  const isInverted = (index: number) => {
+    const sortOrder = options['name-as-sort-order']
+    return sortOrder === 'all' || (sortOrder === 'first' && index === 0)
+  }
+  const delimiterPrecedes = (setting: string | undefined, precedingNames: number, contextualMinimum: number) => {
+    switch (setting || 'contextual') {
+      case 'always': return true
+      case 'never': return false
+      case 'after-inverted-name': return isInverted(precedingNames - 1)
+      default: return precedingNames >= contextualMinimum
+    }
+  }
+
+  if (truncate) {
+    const head = joinRuns(formatted, delimiter)
+    if (options['et-al-use-last'] === 'true' && names.length - etAlUseFirst >= 2) {
+      const last = renderName(names[names.length - 1], names.length - 1, options, nameNode, ctx)
+      return [...head, { text: `${delimiter}… ` }, ...last]
+    }
+    const etAl = formatRuns([{ text: lookupTerm(ctx.locale, etAlNode?.attrs.term || 'et-al') }], etAlNode?.attrs || {}, ctx)
+    const separator = delimiterPrecedes(options['delimiter-precedes-et-al'], formatted.length, 2) ? delimiter : ' '
+    return [...head, { text: separator }, ...etAl]
+  }
+
+  if (formatted.length === 1 || !options.and) {
+    return joinRuns(formatted, delimiter)
+  }
+
+  const andText = options.and === 'symbol' ? '&' : lookupTerm(ctx.locale, 'and')
+  const head = joinRuns(formatted.slice(0, -1), delimiter)
+  const separator = delimiterPrecedes(options['delimiter-precedes-last'], formatted.length - 1, 2) ? delimiter : ' '
+  return [...head, { text: `${separator}${andText} ` }, ...formatted[formatted.length - 1]]
+}
+
+function termForLabel(node: CslNode, variable: string, plural: boolean, ctx: RenderContext): CitationRun[] {
+  const pluralSetting = node.attrs.plural || 'contextual'
+  const usePlural = pluralSetting === 'always' || (pluralSetting === 'contextual' && plural)
+  const text = lookupTerm(ctx.locale, variable, (node.attrs.form || 'long') as CslTermForm, usePlural)
+  return text ? formatRuns([{ text }], node.attrs, ctx) : []
+}
+
+function renderNames(node: CslNode, ctx: RenderContext, inheritFrom?: CslNode): CitationRun[] {
+  const variables = (node.attrs.variable || '').split(/\s+/).filter(Boolean)
+  const source = inheritFrom && node.children.length === 0 ? inheritFrom : node
+  const nameNode = findChild(source, 'name')
+  const etAlNode = findChild(source, 'et-al')
+  const labelNode = findChild(source, 'label')
+  const labelFirst = labelNode && nameNode && source.children.indexOf(labelNode) < source.children.indexOf(nameNode)
+  const substitute = findChild(node, 'substitute')
+  const options = nameOptions(nameNode, ctx)
+
+  const parts: CitationRun[][] = []
+  let count = 0
+
+  variables.forEach(variable => {
+    if (ctx.suppressed.has(variable)) return
+    ctx.varsCalled++
+    const names = ctx.item[variable] as CslName[] | undefined
+    if (!Array.isArray(names) || names.length === 0) return
+    ctx.varsRendered++
+    count += names.length
+
+    let runs = renderNameList(names, options, nameNode, etAlNode, ctx)
+    if (labelNode) {
+      const label = termForLabel(labelNode, variable, names.length > 1, ctx)
+      runs = labelFirst ? [...label, ...runs] : [...runs, ...label]
+    }
+    parts.push(runs)
+  })
+
+  if (parts.length === 0) {
+    if (!substitute) return []
+    for (const child of substitute.children) {
+      const before = ctx.varsRendered
+      const runs = child.name === 'names' ? renderNames(child, ctx, source) : renderNode(child, ctx)
+      if (plainText(runs) !== '' && ctx.varsRendered > before) {
+        const substituted = (child.attrs.variable || '').split(/\s+/).filter(Boolean)
+        substituted.forEach(variable => ctx.suppressed.add(variable))
+        return formatRuns(runs, node.attrs, ctx)
+      }
+    }
+    return []
+  }
+
+  if (options.form === 'count') {
+    return [{ text: String(count) }]
+  }
+
+  let runs = joinRuns(parts, node.attrs.delimiter || options['names-delimiter'] || ', ')
+
+  if (!ctx.firstNamesRendered) {
+    ctx.firstNamesRendered = true
+    ctx.firstNames = plainText(runs)
+    const substituteText = ctx.section.attrs['subsequent-author-substitute']
+    if (ctx.mode === 'bibliography' && substituteText !== undefined && ctx.previousFirstNames === ctx.firstNames) {
+      runs = substituteText ? [{ text: substituteText }] : []
+    } else if (ctx.omitFirstNames) {
+      runs = []
+    }
+  }
+
+  return formatRuns(runs, node.attrs, ctx)
+}
+
+function renderLabel(node: CslNode, ctx: RenderContext): CitationRun[] {
+  const variable = node.attrs.variable
+  if (!variable) return []
+
+  if (variable === 'locator') {
+    const locator = ctx.cite?.locator
+    if (!locator) return []
+    return termForLabel(node, ctx.cite?.label || 'page', isPlural(locator), ctx)
+  }
+
+  const value = getVariable(ctx, variable)
+  if (!value) return []
+  if (variable === 'number-of-pages' || variable === 'number-of-volumes') {
+    return termForLabel(node, variable, parseInt(value, 10) > 1, ctx)
+  }
+  return termForLabel(node, variable, isPlural(value), ctx)
+}
+
+function renderGroup(node: CslNode, ctx: RenderContext): CitationRun[] {
+  const outerCalled = ctx.varsCalled
+  const outerRendered = ctx.varsRendered
+  ctx.varsCalled = 0
+  ctx.varsRendered = 0
+
+  const parts = node.children.map(child => renderNode(child, ctx))
+  const called = ctx.varsCalled
+  const rendered = ctx.varsRendered
+  ctx.varsCalled = outerCalled + called
+  ctx.varsRendered = outerRendered + rendered
+
+  if (called > 0 && rendered === 0) return []
+  const runs = joinRuns(parts, node.attrs.delimiter || '')
+  if (plainText(runs) === '') return []
+  return formatRuns(runs, node.attrs, ctx)
+}
+
+function testCondition(attrs: Record<string, string>, ctx: RenderContext): boolean {
+  const results: boolean[] = []
+  const values = (name: string) => (attrs[name] || '').split(/\s+/).filter(Boolean)
+  const position = ctx.cite?.position || 'first'
+
+  values('type').forEach(type => results.push(ctx.item.type === type))
+  values('variable').forEach(variable => {
+    if (variable === 'locator') {
+      results.push(Boolean(ctx.cite?.locator))
+    } else if (NAME_VARIABLES.has(variable)) {
+      const names = ctx.item[variable]
+      results.push(!ctx.suppressed.has(variable) && Array.isArray(names) && names.length > 0)
+    } else if (DATE_VARIABLES.has(variable)) {
+      results.push(!ctx.suppressed.has(variable) && Boolean(ctx.item[variable]))
+    } else {
+      results.push(getVariable(ctx, variable) !== '')
+    }
+  })
+  values('is-numeric').forEach(variable => {
+    const value = getVariable(ctx, variable)
+    results.push(value !== '' && isNumeric(value))
+  })
+  values('is-uncertain-date').forEach(variable => {
+    const date = ctx.item[variable] as CslDate | undefined
+    results.push(Boolean(date?.circa))
+  })
+  values('locator').forEach(label => {
+    results.push(Boolean(ctx.cite?.locator) && (ctx.cite?.label || 'page') === label)
+  })
+  values('position').forEach(wanted => {
+    if (ctx.mode === 'bibliography') {
+      results.push(false)
+      return
+    }
+    switch (wanted) {
+      case 'first':
+        results.push(position === 'first')
+        break
+      case 'subsequent':
+      case 'near-note':
+        results.push(position !== 'first')
+        break
+      case 'ibid':
+        results.push(position === 'ibid' || position === 'ibid-with-locator')
+        break
+      case 'ibid-with-locator':
+        results.push(position === 'ibid-with-locator')
+        break
+      default:
+        results.push(false)
+    }
+  })
+  values('disambiguate').forEach(() => {
+    results.push(ctx.mode === 'citation' && Boolean(itemDisambiguation(ctx)?.condition))
+  })
+
+  if (results.length === 0) return false
+  switch (attrs.match || 'all') {
+    case 'any':
+      return results.some(Boolean)
+    case 'none':
+      return !results.some(Boolean)
+    default:
+      return results.every(Boolean)
+  }
+}
+
+function renderChoose(node: CslNode, ctx: RenderContext): CitationRun[] {
+  for (const branch of node.children) {
+    if (branch.name === 'else' || testCondition(branch.attrs, ctx)) {
+      return renderChildren(branch.children, ctx)
+    }
+  }
+  return []
+}
+
+function createContext(style: CslStyle, locale: CslLocale, item: CslItem, section: CslRenderingSection, mode: RenderContext['mode']): RenderContext {
+  return {
+    style,
+    locale,
+    item,
+    mode,
+    section,
+    varsCalled: 0,
+    varsRendered: 0,
+    suppressed: new Set(),
+    sortKeyMode: false,
+    macroDepth: 0,
+    firstNamesRendered: false,
+    omitFirstNames: false,
+    yearSuffixRendered: false
+  }
+}
+
+function sortValue(key: CslNode, item: CslItem, style: CslStyle, locale: CslLocale, section: CslRenderingSection, order: number, disambiguation?: Disambiguation): string {
+  const ctx = createContext(style, locale, item, section, 'citation')
+  ctx.sortKeyMode = true
+  ctx.citationNumber = order
+  ctx.disambiguation = disambiguation
+
+  if (key.attrs.macro) {
+    return plainText(renderMacro(key.attrs.macro, ctx)).toLowerCase()
+  }
+
+  const variable = key.attrs.variable
+  if (!variable) return ''
+  if (variable === 'citation-number') return String(order).padStart(8, '0')
+  if (NAME_VARIABLES.has(variable)) {
+    const names = item[variable] as CslName[] | undefined
+    if (!Array.isArray(names)) return ''
+    return names
+      .map(name => name.literal || [name.family, name.given].filter(Boolean).join(' '))
+      .join(' ')
+      .toLowerCase()
+  }
+  if (DATE_VARIABLES.has(variable)) {
+    const date = item[variable] as CslDate | undefined
+    const parts = date ? dateParts(date) : null
+    if (!parts) return ''
+    return parts.map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0')).join('-')
+  }
+  const value = getVariable(ctx, variable)
+  return isNumeric(value) ? value.replace(/\d+/g, digits => digits.padStart(8, '0')) : value.toLowerCase()
+}
+
+/**
+ * Sort items by the section's keys. Cites pass their citation numbers and
+ * disambiguation, so "2020a" sorts before "2020b" and [3] after [2].
+ */
+function sortItems(
+  items: CslItem[],
+  section: CslRenderingSection,
+  style: CslStyle,
+  locale: CslLocale,
+  initialOrder: Map<string, number>,
+  numbers = initialOrder,
+  disambiguation?: Disambiguation
+): CslItem[] {
+  const keys = section.sort?.children.filter(child => child.name === 'key') || []
+  if (keys.length === 0) return items
+
+  const values = new Map(items.map(item => [
+    item.id,
+    keys.map(key => sortValue(key, item, style, locale, section, numbers.get(item.id) || 0, disambiguation))
+  ]))
+
+  return [...items].sort((a, b) => {
+    const aValues = values.get(a.id) || []
+    const bValues = values.get(b.id) || []
+    for (let index = 0; index < keys.length; index++) {
+      const aValue = aValues[index]
+      const bValue = bValues[index]
+      if (aValue === bValue) continue
+      // Items without a value sort last regardless of direction
+      if (!aValue) return 1
+      if (!bValue) return -1
+      const comparison = aValue.localeCompare(bValue, locale.lang)
+      return keys[index].attrs.sort === 'descending' ? -comparison : comparison
+    }
+    return (initialOrder.get(a.id) || 0) - (initialOrder.get(b.id) || 0)
+  })
+}
+
+function bibliographyOrder(style: CslStyle, items: CslItem[], locale: CslLocale): CslItem[] {
+  const initialOrder = new Map(items.map((item, index) => [item.id, index + 1]))
+  return sortItems(items, style.bibliography || style.citation, style, locale, initialOrder)
+}
+
+function styleUses(style: CslStyle, test: (node: CslNode) => boolean): boolean {
+  const visit = (node: CslNode): boolean => test(node) || node.children.some(visit)
+  return visit(style.citation.layout) ||
+    Boolean(style.bibliography && visit(style.bibliography.layout)) ||
+    Array.from(style.macros.values()).some(visit)
+}
+
+// "a" to "z", then "aa", "ab"...
+function yearSuffixLetters(index: number): string {
+  const letter = String.fromCharCode(97 + (index % 26))
+  return index < 26 ? letter : yearSuffixLetters(Math.floor(index / 26) - 1) + letter
+}
+
+/**
+ * Given name levels for names that would otherwise read the same as
+ * another person's: initials when those differ, full given names otherwise
+ */
+function givenNameLevels(items: CslItem[], rule: string): Map<string, number> {
+  const primaryOnly = rule.startsWith('primary-name')
+  const fullLevel = rule.endsWith('with-initials') ? 1 : 2
+  const byFamily = new Map<string, Map<string, string>>()
+  items.forEach(item => {
+    NAME_VARIABLES.forEach(variable => {
+      const names = item[variable] as CslName[] | undefined
+      if (!Array.isArray(names)) return
+      ;(primaryOnly ? names.slice(0, 1) : names).forEach(name => {
+        if (name.literal || !name.family) return
+        const family = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ').toLowerCase()
+        const people = byFamily.get(family) || new Map<string, string>()
+        people.set(nameKey(name), name.given || '')
+        byFamily.set(family, people)
+      })
+    })
+  })
+
+  const levels = new Map<string, number>()
+  byFamily.forEach(people => {
+    if (people.size < 2) return
+    const initials = Array.from(people.values()).map(given => initializeGiven(given, '.', true, true))
+    Array.from(people.keys()).forEach((key, index) => {
+      const shared = initials.filter(initial => initial === initials[index]).length > 1
+      levels.set(key, shared ? fullLevel : 1)
+    })
+  })
+  return levels
+}
+
+/**
+ * Work out how to tell apart items whose citations would otherwise render
+ * the same, in the order CSL prescribes: show more names, expand given
+ * names, take disambiguate="true" branches, then add year suffixes. Items
+ * come in bibliography order, which the suffix letters follow.
+ */
+function disambiguateItems(style: CslStyle, locale: CslLocale, items: CslItem[], numbers: Map<string, number>): Disambiguation {
+  const { attrs } = style.citation
+  const disambiguation: Disambiguation = {
+    items: new Map(items.map(item => [item.id, { addedNames: 0, givenNameLevel: 0, condition: false, yearSuffix: '' }])),
+    nameLevels: new Map(),
+    implicitYearSuffix: !styleUses(style, node => node.name === 'text' && node.attrs.variable === 'year-suffix')
+  }
+  const addNames = attrs['disambiguate-add-names'] === 'true'
+  const addGivenName = attrs['disambiguate-add-givenname'] === 'true'
+  const addYearSuffix = attrs['disambiguate-add-year-suffix'] === 'true'
+  if (!addNames && !addGivenName && !addYearSuffix && !styleUses(style, node => 'disambiguate' in node.attrs)) {
+    return disambiguation
+  }
+
+  const rule = attrs['givenname-disambiguation-rule'] || 'by-cite'
+  if (addGivenName && rule !== 'by-cite') {
+    disambiguation.nameLevels = givenNameLevels(items, rule)
+  }
+
+  const state = (item: CslItem) => disambiguation.items.get(item.id) as ItemDisambiguation
+  const render = (item: CslItem) => {
+    const ctx = createContext(style, locale, item, style.citation, 'citation')
+    ctx.cite = { id: item.id }
+    ctx.citationNumber = numbers.get(item.id)
+    ctx.disambiguation = disambiguation
+    return plainText(renderChildren(style.citation.layout.children, ctx))
+  }
+  const ambiguous = (candidates: CslItem[]): CslItem[][] => {
+    const byText = new Map<string, CslItem[]>()
+    candidates.forEach(item => {
+      const text = render(item)
+      byText.set(text, [...(byText.get(text) || []), item])
+    })
+    return Array.from(byText.values()).filter(group => group.length > 1)
+  }
+  // Raise a setting one step at a time until each item stands apart,
+  // and put it back for the items it does not help
+  const expand = (groups: CslItem[][], steps: (group: CslItem[]) => number, set: (item: ItemDisambiguation, step: number) => void) => {
+    groups.forEach(group => {
+      let pending = group
+      for (let step = 1; step <= steps(group) && pending.length > 0; step++) {
+        pending.forEach(item => set(state(item), step))
+        pending = ambiguous(pending).flat()
+      }
+      pending.forEach(item => set(state(item), 0))
+    })
+    return groups.flatMap(ambiguous)
+  }
+
+  let groups = ambiguous(items)
+  if (addNames) {
+    const nameCount = (item: CslItem) => Math.max(0, ...Array.from(NAME_VARIABLES).map(variable => {
+      const names = item[variable]
+      return Array.isArray(names) ? names.length : 0
+    }))
+    groups = expand(groups, group => Math.max(...group.map(nameCount)), (item, step) => { item.addedNames = step })
+  }
+  if (addGivenName) {
+    groups = expand(groups, () => (rule.endsWith('with-initials') ? 1 : 2), (item, step) => { item.givenNameLevel = step })
+  }
+
+  groups.flat().forEach(item => { state(item).condition = true })
+  groups = groups.flatMap(ambiguous)
+
+  if (addYearSuffix) {
+    groups.forEach(group => group.forEach((item, index) => { state(item).yearSuffix = yearSuffixLetters(index) }))
+  }
+  return disambiguation
+}
+
+/**
+ * Citation numbers follow bibliography order, which for numeric styles is
+ * usually the order the items were first cited
+ */
+export function computeCitationNumbers(style: CslStyle, items: CslItem[], options: CslRenderOptions = {}): Map<string, number> {
+  const locale = resolveLocale(style, options.locales, options.lang)
+  const sorted = bibliographyOrder(style, items, locale)
+  return new Map(sorted.map((item, index) => [item.id, index + 1]))
+}
+
+/**
+ * Render the reference list for a set of items
+ */
+export function renderBibliography(style: CslStyle, items: CslItem[], options: CslRenderOptions = {}): CslBibliography {
+  const locale = resolveLocale(style, options.locales, options.lang)
+  const section = style.bibliography || style.citation
+  const sorted = bibliographyOrder(style, items, locale)
+  const numbers = options.citationNumbers || new Map(sorted.map((item, index) => [item.id, index + 1]))
+  const disambiguation = disambiguateItems(style, locale, sorted, numbers)
+
+  let previousFirstNames: string | undefined
+  const entries = sorted.map(item => {
+    const ctx = createContext(style, locale, item, section, style.bibliography ? 'bibliography' : 'citation')
+    ctx.citationNumber = numbers.get(item.id)
+    ctx.previousFirstNames = previousFirstNames
+    ctx.disambiguation = disambiguation
+    const runs = formatRuns(renderChildren(section.layout.children, ctx), section.layout.attrs, ctx)
+    previousFirstNames = ctx.firstNames
+    return { id: item.id, runs: finalizeRuns(runs, locale) }
+  })
+
+  return {
+    entries,
+    hangingIndent: section.attrs['hanging-indent'] === 'true',
+    secondFieldAlign: section.attrs['second-field-align'],
+    lineSpacing: numberOption(section.attrs['line-spacing']) || 1,
+    entrySpacing: section.attrs['entry-spacing'] !== undefined ? numberOption(section.attrs['entry-spacing']) : 1
+  }
+}
+
+interface RenderedCite {
+  cite: CslCite
+  runs: CitationRun[]
+  // Plain text of the first names rendered, which cite grouping compares
+  names?: string
+  withoutNames: () => CitationRun[]
+  number?: number
+  year?: number
+  yearSuffix: string
+}
+
+/**
+ * Join the cites of a citation. Styles that collapse or set a
+ * cite-group-delimiter bring cites by the same names together; collapsing
+ * then gives "[1–3]", "Smith 2019, 2020" or "Smith 2020a, b".
+ */
+function joinCites(cites: RenderedCite[], section: CslRenderingSection, delimiter: string): CitationRun[] {
+  const { collapse } = section.attrs
+  const afterCollapse = section.attrs['after-collapse-delimiter'] ?? delimiter
+  const citeGroupDelimiter = section.attrs['cite-group-delimiter'] ?? ', '
+  const yearSuffixDelimiter = section.attrs['year-suffix-delimiter'] ?? delimiter
+  const plain = (cite: CslCite) => !cite.prefix && !cite.suffix && !cite.locator
+
+  const join = (groups: { runs: CitationRun[]; collapsed: boolean }[]) => {
+    const result: CitationRun[] = []
+    groups.filter(group => plainText(group.runs) !== '').forEach((group, index, all) => {
+      if (index > 0) result.push({ text: all[index - 1].collapsed ? afterCollapse : delimiter })
+      result.push(...group.runs)
+    })
+    return result
+  }
+
+  if (collapse === 'citation-number') {
+    const ranges: RenderedCite[][] = []
+    cites.forEach(entry => {
+      const range = ranges[ranges.length - 1]
+      const previous = range?.[range.length - 1]
+      const follows = previous?.number !== undefined && entry.number === previous.number + 1
+      if (follows && plain(previous.cite) && plain(entry.cite)) range.push(entry)
+      else ranges.push([entry])
+    })
+    return join(ranges.map(range => range.length >= 3
+      ? { runs: [...range[0].runs, { text: '–' }, ...range[range.length - 1].runs], collapsed: true }
+      : { runs: joinRuns(range.map(entry => entry.runs), delimiter), collapsed: false }))
+  }
+
+  if (!collapse?.startsWith('year') && section.attrs['cite-group-delimiter'] === undefined) {
+    return joinRuns(cites.map(entry => entry.runs), delimiter)
+  }
+
+  const groups: RenderedCite[][] = []
+  cites.forEach(entry => {
+    const group = entry.names ? groups.find(candidate => candidate[0].names === entry.names) : undefined
+    if (group) group.push(entry)
+    else groups.push([entry])
+  })
+
+  const collapsesSuffixes = collapse === 'year-suffix' || collapse === 'year-suffix-ranged'
+  const sameYear = (a: RenderedCite, b: RenderedCite) =>
+    Boolean(a.yearSuffix && b.yearSuffix) && a.year === b.year && plain(a.cite) && plain(b.cite)
+  const isNextLetter = (a: string, b: string) => a.length === 1 && b.length === 1 && b.charCodeAt(0) === a.charCodeAt(0) + 1
+
+  // The suffixes after the first cite's "2020a": ", b, c" or, ranged, "–c"
+  const suffixRuns = (suffixes: string[]): CitationRun[] => {
+    const runs: CitationRun[] = []
+    let start = 0
+    while (start < suffixes.length) {
+      let end = start
+      while (collapse === 'year-suffix-ranged' && end + 1 < suffixes.length && isNextLetter(suffixes[end], suffixes[end + 1])) end++
+      if (end - start >= 2) {
+        runs.push({ text: `${start === 0 ? '' : yearSuffixDelimiter + suffixes[start]}–${suffixes[end]}` })
+        start = end + 1
+      } else {
+        if (start > 0) runs.push({ text: `${yearSuffixDelimiter}${suffixes[start]}` })
+        start++
+      }
+    }
+    return runs
+  }
+
+  return join(groups.map(group => {
+    const years: RenderedCite[][] = []
+    group.forEach(entry => {
+      const year = years[years.length - 1]
+      if (collapsesSuffixes && year && sameYear(year[year.length - 1], entry)) year.push(entry)
+      else years.push([entry])
+    })
+    const runs = joinRuns(years.map((year, index) => [
+      ...(index === 0 || !collapse ? year[0].runs : year[0].withoutNames()),
+      ...suffixRuns(year.map(entry => entry.yearSuffix))
+    ]), citeGroupDelimiter)
+    return { runs, collapsed: Boolean(collapse) && group.length > 1 }
+  }))
+}
+
+/**
+ * Render one citation (a parenthetical, numeric marker or note) for one or
+ * more cited items
+ */
+export function renderCitation(style: CslStyle, cites: CslCite[], items: CslItem[], options: CslRenderOptions = {}): FormattedCitation {
+  const locale = resolveLocale(style, options.locales, options.lang)
+  const itemsById = new Map(items.map(item => [item.id, item]))
+  const numbers = options.citationNumbers || computeCitationNumbers(style, items, options)
+  const section = style.citation
+  const disambiguation = disambiguateItems(style, locale, bibliographyOrder(style, items, locale), numbers)
+
+  const citeOrder = new Map(cites.map((cite, index) => [cite.id, index + 1]))
+  const citedItems = cites.map(cite => itemsById.get(cite.id)).filter((item): item is CslItem => Boolean(item))
+  const sortedIds = sortItems(citedItems, section, style, locale, citeOrder, numbers, disambiguation).map(item => item.id)
+  const orderedCites = [...cites].sort((a, b) => sortedIds.indexOf(a.id) - sortedIds.indexOf(b.id))
+
+  const rendered = orderedCites.flatMap((cite): RenderedCite[] => {
+    const item = itemsById.get(cite.id)
+    if (!item) return []
+    const render = (omitFirstNames: boolean) => {
+      const ctx = createContext(style, locale, item, section, 'citation')
+      ctx.cite = cite
+      ctx.citationNumber = numbers.get(cite.id)
+      ctx.disambiguation = disambiguation
+      ctx.omitFirstNames = omitFirstNames
+      const runs = [
+        ...(cite.prefix ? [{ text: cite.prefix }] : []),
+        ...renderChildren(section.layout.children, ctx),
+        ...(cite.suffix ? [{ text: cite.suffix }] : [])
+      ]
+      return { runs, names: ctx.firstNames }
+    }
+    const issued = item.issued as CslDate | undefined
+    return [{
+      cite,
+      ...render(false),
+      withoutNames: () => render(true).runs,
+      number: numbers.get(cite.id),
+      year: issued ? dateParts(issued)?.[0] : undefined,
+      yearSuffix: disambiguation.items.get(item.id)?.yearSuffix || ''
+    }]
+  })
+
+  const ctx = createContext(style, locale, { id: '', type: '' }, section, 'citation')
+  const layoutAttrs = { ...section.layout.attrs }
+  const delimiter = layoutAttrs.delimiter || ''
+  return finalizeRuns(formatRuns(joinCites(rendered, section, delimiter), layoutAttrs, ctx), locale)
+}
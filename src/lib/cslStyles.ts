@@ -0,0 +1,267 @@
+import type { Citation } from '@/App'
+import type { FormattedCitation } from '@/lib/citationFormatter'
+import type { PersonName } from '@/lib/names'
+import {
+  parseCslLocale,
+  parseCslStyle,
+  renderBibliography,
+  renderCitation,
+  computeCitationNumbers,
+  type CslBibliography,
+  type CslBibliographyEntry,
+  type CslCite,
+  type CslItem,
+  type CslLocale,
+  type CslName,
+  type CslStyle
+} from '@/lib/cslProcessor'
+
+/**
+ * Registry of user-supplied CSL styles and locales, plus the mapping from
+ * saved citations to CSL-JSON items
+ */
+
+export type CslStyleId = `csl:${string}`
+
+export interface StoredCslStyle {
+  id: CslStyleId
+  title: string
+  xml: string
+}
+
+export interface StoredCslLocale {
+  lang: string
+  xml: string
+}
+
+const styleRegistry = new Map<CslStyleId, { xml: string; style: CslStyle }>()
+const localeRegistry = new Map<string, { xml: string; locale: CslLocale }>()
+
+export function isCslStyle(style: string): style is CslStyleId {
+  return style.startsWith('csl:')
+}
+
+/**
+ * Sync the registry with the persisted list of uploaded styles. Only new or
+ * changed styles are parsed, so this is cheap to call on every render.
+ */
+export function registerCslStyles(styles: StoredCslStyle[]): void {
+  const ids = new Set(styles.map(style => style.id))
+  Array.from(styleRegistry.keys()).forEach(id => {
+    if (!ids.has(id)) styleRegistry.delete(id)
+  })
+  styles.forEach(stored => {
+    if (styleRegistry.get(stored.id)?.xml === stored.xml) return
+    try {
+      styleRegistry.set(stored.id, { xml: stored.xml, style: parseCslStyle(stored.xml) })
+    } catch (error) {
+      console.warn(`Skipping CSL style ${stored.id}:`, error)
+    }
+  })
+}
+
+export function registerCslLocales(locales: StoredCslLocale[]): void {
+  const langs = new Set(locales.map(locale => locale.lang))
+  Array.from(localeRegistry.keys()).forEach(lang => {
+    if (!langs.has(lang)) localeRegistry.delete(lang)
+  })
+  locales.forEach(stored => {
+    if (localeRegistry.get(stored.lang)?.xml === stored.xml) return
+    try {
+      localeRegistry.set(stored.lang, { xml: stored.xml, locale: parseCslLocale(stored.xml) })
+    } catch (error) {
+      console.warn(`Skipping CSL locale ${stored.lang}:`, error)
+    }
+  })
+}
+
+export function getCslStyleOptions(): { id: CslStyleId; title: string }[] {
+  return Array.from(styleRegistry.entries()).map(([id, { style }]) => ({ id, title: style.title }))
+}
+
+export function getCslStyle(id: CslStyleId): CslStyle | undefined {
+  return styleRegistry.get(id)?.style
+}
+
+function registeredLocales(): CslLocale[] {
+  return Array.from(localeRegistry.values()).map(entry => entry.locale)
+}
+
+function styleIdFor(style: CslStyle): CslStyleId {
+  const slug = style.id.split('/').filter(Boolean).pop() || style.title
+  return `csl:${slug.toLowerCase().replace(/[^a-z0-9-]+/g, '-')}`
+}
+
+/**
+ * Validate CSL style XML and wrap it for storage
+ */
+export function createStoredCslStyle(xml: string): StoredCslStyle {
+  const style = parseCslStyle(xml)
+  return { id: styleIdFor(style), title: style.title, xml }
+}
+
+/**
+ * Validate CSL locale XML and wrap it for storage
+ */
+export function createStoredCslLocale(xml: string): StoredCslLocale {
+  return { lang: parseCslLocale(xml).lang, xml }
+}
+
+/**
+ * Read an uploaded .csl file
+ */
+export async function readCslStyleFile(file: File): Promise<StoredCslStyle> {
+  return createStoredCslStyle(await file.text())
+}
+
+/**
+ * Read an uploaded locales-xx-XX.xml file
+ */
+export async function readCslLocaleFile(file: File): Promise<StoredCslLocale> {
+  return createStoredCslLocale(await file.text())
+}
+
+/**
+ * Load a style bundled with the app or hosted alongside it
+ */
+export async function loadCslStyleFromUrl(url: string): Promise<StoredCslStyle> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load CSL style: ${response.status}`)
+  }
+  return createStoredCslStyle(await response.text())
+}
+
+function toCslName(author: PersonName): CslName {
+  if (author.literal) {
+    return { literal: author.literal }
+  }
+  const name: CslName = { family: author.family || author.given || '' }
+  if (author.family && author.given) name.given = author.given
+  if (author.particle) name['non-dropping-particle'] = author.particle
+  if (author.suffix) name.suffix = author.suffix
+  return name
+}
+
+function toCslDate(value: string): { 'date-parts': number[][] } | undefined {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?/)
+  if (!match) return undefined
+  return { 'date-parts': [match.slice(1).filter(Boolean).map(part => parseInt(part, 10))] }
+}
+
+const cslTypes: Record<Citation['type'], string> = {
+  article: 'article-journal',
+  journal: 'article-journal',
+  book: 'book',
+  chapter: 'chapter',
+  website: 'webpage',
+  newspaper: 'article-newspaper',
+  thesis: 'thesis',
+  conference: 'paper-conference',
+  report: 'report',
+  dataset: 'dataset',
+  software: 'software',
+  preprint: 'article',
+  patent: 'patent',
+  standard: 'standard',
+  video: 'motion_picture',
+  podcast: 'broadcast'
+}
+
+/**
+ * Map a saved citation onto a CSL-JSON item
+ */
+export function citationToCslItem(citation: Citation): CslItem {
+  const item: CslItem = {
+    id: citation.id,
+    type: cslTypes[citation.type] || 'document',
+    title: citation.title
+  }
+
+  if (citation.authors.length > 0) item.author = citation.authors.map(toCslName)
+  const issued = toCslDate(citation.year || '')
+  if (issued) item.issued = issued
+  if (citation.source) item['container-title'] = citation.source
+  if (citation.publisher) item.publisher = citation.publisher
+  if (citation.city) item['publisher-place'] = citation.city
+  if (citation.edition) item.edition = citation.edition
+  if (citation.volume) item.volume = citation.volume
+  if (citation.issue) item.issue = citation.issue
+  if (citation.pages) item.page = citation.pages
+  if (citation.url) item.URL = citation.url
+  if (citation.doi) item.DOI = citation.doi
+  if (citation.isbn) item.ISBN = citation.isbn
+  if (citation.version) item.version = citation.version
+  if (citation.repository) item.archive = citation.repository
+  if (citation.archiveId || citation.patentNumber) item.number = citation.patentNumber || citation.archiveId
+  if (citation.runtime) item.dimensions = citation.runtime
+  if (citation.abstract) item.abstract = citation.abstract
+  if (citation.dateAccessed) {
+    const accessed = toCslDate(citation.dateAccessed)
+    if (accessed) item.accessed = accessed
+  }
+
+  return item
+}
+
+/**
+ * Render reference list entries for citations using an uploaded style, in
+ * the order the style sorts them
+ */
+export function formatBibliographyWithCsl(citations: Citation[], styleId: CslStyleId): FormattedCitation[] {
+  return formatBibliographyEntriesWithCsl(citations, styleId).map(entry => entry.runs)
+}
+
+/**
+ * Reference list entries with the id of the citation each was made from,
+ * in the order the style sorts them
+ */
+export function formatBibliographyEntriesWithCsl(citations: Citation[], styleId: CslStyleId): CslBibliographyEntry[] {
+  const style = getCslStyle(styleId)
+  if (!style) {
+    return citations.map(citation => ({ id: citation.id, runs: [{ text: 'Unsupported citation style' }] }))
+  }
+  return renderBibliography(style, citations.map(citationToCslItem), { locales: registeredLocales() }).entries
+}
+
+/**
+ * Reference list layout an uploaded style asks for (hanging indent, line and
+ * entry spacing), or undefined when the style is not registered
+ */
+export function getCslBibliographyLayout(styleId: CslStyleId): Pick<CslBibliography, 'hangingIndent' | 'lineSpacing' | 'entrySpacing'> | undefined {
+  const style = getCslStyle(styleId)
+  if (!style) return undefined
+  const { hangingIndent, lineSpacing, entrySpacing } = renderBibliography(style, [], { locales: registeredLocales() })
+  return { hangingIndent, lineSpacing, entrySpacing }
+}
+
+/**
+ * Render a single reference list entry using an uploaded style. The other
+ * citations in the bibliography are needed for numeric styles; this renders
+ * all of them, so lists should use formatBibliographyEntriesWithCsl.
+ */
+export function formatCitationWithCsl(citation: Citation, styleId: CslStyleId, context: Citation[] = [citation]): FormattedCitation {
+  const style = getCslStyle(styleId)
+  if (!style) {
+    return [{ text: 'Unsupported citation style' }]
+  }
+  const items = (context.some(c => c.id === citation.id) ? context : [...context, citation]).map(citationToCslItem)
+  const bibliography = renderBibliography(style, items, { locales: registeredLocales() })
+  return bibliography.entries.find(entry => entry.id === citation.id)?.runs || []
+}
+
+/**
+ * Render an in-text citation (or note, for note styles) using an uploaded style
+ */
+export function formatInTextWithCsl(cites: CslCite[], citations: Citation[], styleId: CslStyleId): FormattedCitation {
+  const style = getCslStyle(styleId)
+  if (!style) {
+    return [{ text: 'Unsupported citation style' }]
+  }
+  const items = citations.map(citationToCslItem)
+  const locales = registeredLocales()
+  return renderCitation(style, cites, items, {
+    locales,
+    citationNumbers: computeCitationNumbers(style, items, { locales })
+  })
+}
@@ -0,0 +1,87 @@
+/**
+ * RFC 4180 CSV reading and writing
+ */
+
+/**
+ * Quote a field when it contains the delimiter, a double quote or a line
+ * break; embedded double quotes are doubled
+ */
+export function toCsvField(value: string, delimiter = ','): string {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value) || /^\s|\s$/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+/**
+ * Write rows as CSV with CRLF line breaks, as RFC 4180 specifies
+ */
+export function toCsv(rows: string[][], delimiter = ','): string {
+  return rows.map(row => row.map(field => toCsvField(field, delimiter)).join(delimiter)).join('\r\n') + '\r\n'
+}
+
+/**
+ * The delimiter used in the first line: comma, semicolon (spreadsheets in
+ * many European locales) or tab (text copied out of a spreadsheet)
+ */
+export function detectDelimiter(text: string): string {
+  let firstLine = ''
+  let quoted = false
+  for (const char of text) {
+    if (char === '"') quoted = !quoted
+    if (!quoted && (char === '\n' || char === '\r')) break
+    if (!quoted) firstLine += char
+  }
+  const counts = [',', ';', '\t'].map(delimiter => [delimiter, firstLine.split(delimiter).length - 1] as const)
+  const [best] = [...counts].sort((a, b) => b[1] - a[1])
+  return best[1] > 0 ? best[0] : ','
+}
+
+/**
+ * Parse CSV text into rows of fields. Quoted fields may contain delimiters,
+ * doubled quotes and line breaks. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  while (index < text.length) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"') {
+        if (text[index + 1] === '"') {
+          field += '"'
+          index++
+        } else {
+          quoted = false
+        }
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[index + 1] === '\n') index++
+      endRow()
+    } else {
+      field += char
+    }
+    index++
+  }
+
+  if (field !== '' || row.length > 0) endRow()
+  return rows
+}
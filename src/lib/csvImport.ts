@@ -0,0 +1,278 @@
+import type { Citation, SourceType } from '@/App'
+import { parseCsv } from '@/lib/csv'
+import { parseName, splitNameList, type PersonName } from '@/lib/names'
+import { cleanDoi, compactCitation, createImportedId, extractYear, type ImportedCitation, type ImportResult } from '@/lib/importUtils'
+
+/**
+ * Spreadsheet import: columns are matched to citation fields from their
+ * headers and can be remapped before importing
+ */
+
+export type CsvColumnField =
+  | 'title'
+  | 'authors'
+  | 'year'
+  | 'source'
+  | 'type'
+  | 'url'
+  | 'doi'
+  | 'pages'
+  | 'volume'
+  | 'issue'
+  | 'publisher'
+  | 'edition'
+  | 'city'
+  | 'isbn'
+  | 'abstract'
+  | 'ignore'
+
+export const csvColumnLabels: Record<CsvColumnField, string> = {
+  title: 'Title',
+  authors: 'Authors',
+  year: 'Year / date',
+  source: 'Source / journal',
+  type: 'Type',
+  url: 'URL',
+  doi: 'DOI',
+  pages: 'Pages',
+  volume: 'Volume',
+  issue: 'Issue',
+  publisher: 'Publisher',
+  edition: 'Edition',
+  city: 'Place',
+  isbn: 'ISBN',
+  abstract: 'Abstract',
+  ignore: "Don't import"
+}
+
+// How names are separated inside the authors column. "auto" accepts
+// semicolons, "and" and inverted "Family, Given" lists.
+export type AuthorSeparator = 'auto' | ';' | ',' | '|' | 'and'
+
+export const authorSeparatorLabels: Record<AuthorSeparator, string> = {
+  'auto': 'Detect',
+  ';': 'Semicolon (;)',
+  ',': 'Comma (,)',
+  '|': 'Vertical bar (|)',
+  'and': '"and"'
+}
+
+export interface CsvImportOptions {
+  // One field per column
+  columns: CsvColumnField[]
+  authorSeparator: AuthorSeparator
+  hasHeader: boolean
+}
+
+export interface CsvTable {
+  headers: string[]
+  rows: string[][]
+}
+
+// Header names, lower-cased with spaces and punctuation removed
+const HEADER_FIELDS: Record<string, CsvColumnField> = {
+  title: 'title',
+  articletitle: 'title',
+  documenttitle: 'title',
+  author: 'authors',
+  authors: 'authors',
+  creator: 'authors',
+  creators: 'authors',
+  authorfullnames: 'authors',
+  year: 'year',
+  date: 'year',
+  publicationyear: 'year',
+  pubyear: 'year',
+  issued: 'year',
+  source: 'source',
+  journal: 'source',
+  journaltitle: 'source',
+  publicationtitle: 'source',
+  sourcetitle: 'source',
+  containertitle: 'source',
+  booktitle: 'source',
+  type: 'type',
+  itemtype: 'type',
+  documenttype: 'type',
+  referencetype: 'type',
+  url: 'url',
+  link: 'url',
+  doi: 'doi',
+  pages: 'pages',
+  page: 'pages',
+  pagerange: 'pages',
+  volume: 'volume',
+  issue: 'issue',
+  number: 'issue',
+  publisher: 'publisher',
+  edition: 'edition',
+  place: 'city',
+  city: 'city',
+  location: 'city',
+  placepublished: 'city',
+  isbn: 'isbn',
+  abstract: 'abstract',
+  abstractnote: 'abstract',
+  summary: 'abstract'
+}
+
+// Type column values, lower-cased; anything else is matched by keyword
+const TYPE_VALUES: Record<string, SourceType> = {
+  'article': 'article',
+  'journal article': 'article',
+  'journalarticle': 'article',
+  'article-journal': 'article',
+  'journal': 'journal',
+  'book': 'book',
+  'chapter': 'chapter',
+  'book chapter': 'chapter',
+  'book section': 'chapter',
+  'booksection': 'chapter',
+  'website': 'website',
+  'web page': 'website',
+  'webpage': 'website',
+  'newspaper': 'newspaper',
+  'newspaper article': 'newspaper',
+  'thesis': 'thesis',
+  'conference': 'conference',
+  'conference paper': 'conference',
+  'conferencepaper': 'conference',
+  'report': 'report',
+  'dataset': 'dataset',
+  'software': 'software',
+  'computer program': 'software',
+  'preprint': 'preprint',
+  'patent': 'patent',
+  'standard': 'standard',
+  'video': 'video',
+  'film': 'video',
+  'podcast': 'podcast'
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+/**
+ * Split CSV text into a header row and data rows
+ */
+export function readCsvTable(text: string): CsvTable {
+  const [headers = [], ...rows] = parseCsv(text)
+  return { headers, rows }
+}
+
+/**
+ * Guess the field for each column from its header. A field is only assigned
+ * to the first column that claims it.
+ */
+export function detectColumnMapping(headers: string[]): CsvColumnField[] {
+  const used = new Set<CsvColumnField>()
+  return headers.map(header => {
+    const field = HEADER_FIELDS[normalizeHeader(header)]
+    if (!field || used.has(field)) return 'ignore'
+    used.add(field)
+    return field
+  })
+}
+
+/**
+ * Whether the first row looks like headers rather than a reference
+ */
+export function looksLikeHeader(headers: string[]): boolean {
+  return headers.some(header => normalizeHeader(header) in HEADER_FIELDS)
+}
+
+function splitAuthors(value: string, separator: AuthorSeparator): PersonName[] {
+  const names = separator === 'auto'
+    ? splitNameList(value)
+    : separator === 'and'
+      ? value.split(/\s+and\s+/i)
+      : value.split(separator)
+  return names.map(name => parseName(name.trim())).filter(name => Object.keys(name).length > 0)
+}
+
+function toSourceType(value: string, warnings: string[]): SourceType {
+  const key = value.trim().toLowerCase()
+  if (!key) return 'article'
+  if (TYPE_VALUES[key]) return TYPE_VALUES[key]
+  const keyword = Object.keys(TYPE_VALUES).find(name => key.includes(name))
+  if (keyword) return TYPE_VALUES[keyword]
+  warnings.push(`Unknown type "${value}"; imported as article`)
+  return 'article'
+}
+
+function rowToCitation(row: string[], options: CsvImportOptions, line: number, headers: string[]): ImportedCitation {
+  const warnings: string[] = []
+  const value = (field: CsvColumnField) => {
+    const index = options.columns.indexOf(field)
+    return index === -1 ? '' : (row[index] || '').trim()
+  }
+
+  if (row.length !== headers.length && headers.length > 0) {
+    warnings.push(`Row has ${row.length} column${row.length === 1 ? '' : 's'}, expected ${headers.length}`)
+  }
+
+  let title = value('title')
+  if (!title) {
+    warnings.push('Missing title')
+    title = 'Untitled'
+  }
+
+  const authors = value('authors') ? splitAuthors(value('authors'), options.authorSeparator) : []
+  if (authors.length === 0) warnings.push('No authors')
+
+  const year = extractYear(value('year')) || value('year')
+  if (!year) warnings.push('No year')
+
+  const publisher = value('publisher')
+  const citation = compactCitation({
+    id: createImportedId(),
+    title,
+    authors,
+    year,
+    source: value('source') || publisher,
+    url: value('url') || undefined,
+    doi: value('doi') ? cleanDoi(value('doi')) : undefined,
+    pages: value('pages') || undefined,
+    volume: value('volume') || undefined,
+    issue: value('issue') || undefined,
+    publisher: publisher || undefined,
+    edition: value('edition') || undefined,
+    city: value('city') || undefined,
+    isbn: value('isbn') || undefined,
+    abstract: value('abstract') || undefined,
+    type: toSourceType(value('type'), warnings)
+  })
+
+  return { citation, label: `Row ${line}`, warnings }
+}
+
+/**
+ * Default options for a CSV file: columns from its headers, detected author
+ * separators
+ */
+export function defaultCsvOptions(text: string): CsvImportOptions {
+  const { headers } = readCsvTable(text)
+  const hasHeader = looksLikeHeader(headers)
+  return {
+    columns: hasHeader ? detectColumnMapping(headers) : headers.map(() => 'ignore'),
+    authorSeparator: 'auto',
+    hasHeader
+  }
+}
+
+/**
+ * Read CSV or tab-separated text into citations ready for review
+ */
+export function importCsv(text: string, options: CsvImportOptions = defaultCsvOptions(text)): ImportResult {
+  const { headers, rows } = readCsvTable(text)
+  const dataRows = options.hasHeader ? rows : [headers, ...rows]
+  const errors: string[] = []
+  if (!options.columns.includes('title')) {
+    errors.push('No column is mapped to the title')
+  }
+  return {
+    items: dataRows.map((row, index) => rowToCitation(row, options, index + (options.hasHeader ? 2 : 1), headers)),
+    errors
+  }
+}
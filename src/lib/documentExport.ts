@@ -0,0 +1,277 @@
+import type { BuiltinCitationStyle, Citation, CitationStyle } from '@/App'
+import { isNumericStyle, sortReferencesAlphabetically, type CitationRun, type FormattedCitation } from '@/lib/citationFormatter'
+import { getCslBibliographyLayout, isCslStyle } from '@/lib/cslStyles'
+import { escapeXml } from '@/lib/xml'
+import { createZip } from '@/lib/zip'
+
+/**
+ * Word (.docx) and OpenDocument (.odt) reference pages, laid out the way
+ * each style guide asks: heading, hanging indent, line spacing and order
+ */
+
+export interface ReferencePageLayout {
+  title: string
+  titleBold: boolean
+  hangingIndent: boolean
+  // Spacing within an entry, in lines (2 is double spaced)
+  lineSpacing: number
+  // Extra space after each entry, in lines
+  entrySpacing: number
+}
+
+const referencePageLayouts: Record<BuiltinCitationStyle, ReferencePageLayout> = {
+  apa: { title: 'References', titleBold: true, hangingIndent: true, lineSpacing: 2, entrySpacing: 0 },
+  mla: { title: 'Works Cited', titleBold: false, hangingIndent: true, lineSpacing: 2, entrySpacing: 0 },
+  chicago: { title: 'Bibliography', titleBold: false, hangingIndent: true, lineSpacing: 1, entrySpacing: 1 },
+  harvard: { title: 'References', titleBold: true, hangingIndent: false, lineSpacing: 1.5, entrySpacing: 1 },
+  ieee: { title: 'References', titleBold: false, hangingIndent: true, lineSpacing: 1, entrySpacing: 0.5 },
+  vancouver: { title: 'References', titleBold: false, hangingIndent: false, lineSpacing: 1, entrySpacing: 0.5 },
+  nature: { title: 'References', titleBold: true, hangingIndent: false, lineSpacing: 1, entrySpacing: 0.5 }
+}
+
+/**
+ * Page layout for a style. Uploaded CSL styles supply their own indent and
+ * spacing through their bibliography options.
+ */
+export function getReferencePageLayout(style: CitationStyle): ReferencePageLayout {
+  if (isCslStyle(style)) {
+    const layout = getCslBibliographyLayout(style)
+    return {
+      title: 'References',
+      titleBold: false,
+      hangingIndent: layout?.hangingIndent ?? true,
+      lineSpacing: layout?.lineSpacing ?? 1,
+      entrySpacing: layout?.entrySpacing ?? 1
+    }
+  }
+  return referencePageLayouts[style]
+}
+
+/**
+ * Reference page order: alphabetical for author-date and MLA styles. Numeric
+ * styles keep the order they are numbered in, and CSL styles sort themselves.
+ */
+export function orderReferences(citations: Citation[], style: CitationStyle): Citation[] {
+  if (isCslStyle(style) || isNumericStyle(style)) return citations
+  return sortReferencesAlphabetically(citations)
+}
+
+// Word measures indents and spacing in twentieths of a point
+const TWIPS_PER_LINE = 240
+const HANGING_INDENT_TWIPS = 720
+
+const DOCX_NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships'
+const RELATIONSHIP_TYPES = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+function docxRun(run: CitationRun): string {
+  // Properties must follow the schema order: style, bold, italic, small
+  // caps, vertical alignment
+  const props: string[] = []
+  if (run.url) props.push('<w:rStyle w:val="Hyperlink"/>')
+  if (run.bold) props.push('<w:b/>')
+  if (run.italic) props.push('<w:i/>')
+  if (run.smallCaps) props.push('<w:smallCaps/>')
+  if (run.superscript) props.push('<w:vertAlign w:val="superscript"/>')
+  const rPr = props.length > 0 ? `<w:rPr>${props.join('')}</w:rPr>` : ''
+  const text = run.text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>')
+  return `<w:r>${rPr}${text}</w:r>`
+}
+
+function docxSpacing(layout: ReferencePageLayout, after: number): string {
+  return `<w:spacing w:before="0" w:after="${Math.round(after * TWIPS_PER_LINE)}" w:line="${Math.round(layout.lineSpacing * TWIPS_PER_LINE)}" w:lineRule="auto"/>`
+}
+
+function docxStyles(layout: ReferencePageLayout): string {
+  const indent = layout.hangingIndent ? `<w:ind w:left="${HANGING_INDENT_TWIPS}" w:hanging="${HANGING_INDENT_TWIPS}"/>` : ''
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${DOCX_NAMESPACES}>
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:cs="Times New Roman" w:eastAsia="Times New Roman"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr>${docxSpacing(layout, 0)}</w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  <w:style w:type="paragraph" w:styleId="BibliographyHeading"><w:name w:val="Bibliography Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Bibliography"/><w:qFormat/><w:pPr><w:keepNext/>${docxSpacing(layout, 0)}<w:jc w:val="center"/><w:outlineLvl w:val="0"/></w:pPr>${layout.titleBold ? '<w:rPr><w:b/></w:rPr>' : ''}</w:style>
+  <w:style w:type="paragraph" w:styleId="Bibliography"><w:name w:val="Bibliography"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr>${docxSpacing(layout, layout.entrySpacing)}${indent}</w:pPr></w:style>
+  <w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+</w:styles>`
+}
+
+/**
+ * Word document with a titled reference page, one Bibliography-styled
+ * paragraph per entry
+ */
+export function createDocxDocument(entries: FormattedCitation[], layout: ReferencePageLayout): Blob {
+  // Links are external relationships; rId1 is the style sheet
+  const links: string[] = []
+  const paragraphs = entries.map(entry => {
+    const runs = entry.map(run => {
+      if (!run.url) return docxRun(run)
+      links.push(run.url)
+      return `<w:hyperlink r:id="rId${links.length + 1}" w:history="1">${docxRun(run)}</w:hyperlink>`
+    })
+    return `<w:p><w:pPr><w:pStyle w:val="Bibliography"/></w:pPr>${runs.join('')}</w:p>`
+  })
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${DOCX_NAMESPACES}>
+  <w:body>
+    <w:p><w:pPr><w:pStyle w:val="BibliographyHeading"/></w:pPr>${docxRun({ text: layout.title })}</w:p>
+    ${paragraphs.join('\n    ')}
+    <w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>
+  </w:body>
+</w:document>`
+
+  const relationships = [
+    `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPES}/styles" Target="styles.xml"/>`,
+    ...links.map((url, index) => `<Relationship Id="rId${index + 2}" Type="${RELATIONSHIP_TYPES}/hyperlink" Target="${escapeXml(url)}" TargetMode="External"/>`)
+  ]
+  const documentRelationships = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${RELATIONSHIPS_NAMESPACE}">
+  ${relationships.join('\n  ')}
+</Relationships>`
+
+  const zip = createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${RELATIONSHIPS_NAMESPACE}">
+  <Relationship Id="rId1" Type="${RELATIONSHIP_TYPES}/officeDocument" Target="word/document.xml"/>
+</Relationships>`
+    },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/_rels/document.xml.rels', data: documentRelationships },
+    { name: 'word/styles.xml', data: docxStyles(layout) }
+  ])
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' })
+}
+
+const ODT_NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"'
+].join(' ')
+
+// ODF collapses runs of spaces unless they are written as <text:s/>
+function odtText(text: string): string {
+  return text.split('\n').map(line =>
+    escapeXml(line).replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`)
+  ).join('<text:line-break/>')
+}
+
+function odtTextStyleKey(run: CitationRun): string {
+  return [run.bold && 'b', run.italic && 'i', run.smallCaps && 'c', run.superscript && 's'].filter(Boolean).join('')
+}
+
+function odtTextProperties(key: string): string {
+  const props: string[] = []
+  if (key.includes('b')) props.push('fo:font-weight="bold"')
+  if (key.includes('i')) props.push('fo:font-style="italic"')
+  if (key.includes('c')) props.push('fo:font-variant="small-caps"')
+  if (key.includes('s')) props.push('style:text-position="super 58%"')
+  return `<style:text-properties ${props.join(' ')}/>`
+}
+
+function odtStyles(layout: ReferencePageLayout): string {
+  const lineHeight = `fo:line-height="${Math.round(layout.lineSpacing * 100)}%"`
+  const indent = layout.hangingIndent ? ' fo:margin-left="0.5in" fo:text-indent="-0.5in"' : ''
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles ${ODT_NAMESPACES} office:version="1.2">
+  <office:font-face-decls>
+    <style:font-face style:name="Times New Roman" svg:font-family="'Times New Roman'" style:font-family-generic="roman"/>
+  </office:font-face-decls>
+  <office:styles>
+    <style:default-style style:family="paragraph">
+      <style:paragraph-properties fo:margin-top="0in" fo:margin-bottom="0in" ${lineHeight}/>
+      <style:text-properties style:font-name="Times New Roman" fo:font-size="12pt" fo:language="en" fo:country="US"/>
+    </style:default-style>
+    <style:style style:name="Standard" style:family="paragraph"/>
+    <style:style style:name="Bibliography_20_Heading" style:display-name="Bibliography Heading" style:family="paragraph" style:parent-style-name="Standard" style:next-style-name="Bibliography" style:default-outline-level="1">
+      <style:paragraph-properties fo:text-align="center" fo:keep-with-next="always" ${lineHeight}/>
+      ${layout.titleBold ? '<style:text-properties fo:font-weight="bold"/>' : ''}
+    </style:style>
+    <style:style style:name="Bibliography" style:family="paragraph" style:parent-style-name="Standard">
+      <style:paragraph-properties${indent} fo:margin-bottom="${12 * layout.entrySpacing}pt" ${lineHeight}/>
+    </style:style>
+    <style:style style:name="Internet_20_link" style:display-name="Internet link" style:family="text">
+      <style:text-properties fo:color="#0563c1" style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"/>
+    </style:style>
+  </office:styles>
+  <office:automatic-styles>
+    <style:page-layout style:name="Letter">
+      <style:page-layout-properties fo:page-width="8.5in" fo:page-height="11in" fo:margin-top="1in" fo:margin-bottom="1in" fo:margin-left="1in" fo:margin-right="1in"/>
+    </style:page-layout>
+  </office:automatic-styles>
+  <office:master-styles>
+    <style:master-page style:name="Standard" style:page-layout-name="Letter"/>
+  </office:master-styles>
+</office:document-styles>`
+}
+
+/**
+ * OpenDocument text (LibreOffice, Google Docs) with the same reference page
+ * as the Word export
+ */
+export function createOdtDocument(entries: FormattedCitation[], layout: ReferencePageLayout): Blob {
+  // One automatic text style per combination of formatting in use
+  const textStyles = new Map<string, string>()
+  const paragraphs = entries.map(entry => {
+    const spans = entry.map(run => {
+      const key = odtTextStyleKey(run)
+      let content = odtText(run.text)
+      if (key) {
+        if (!textStyles.has(key)) textStyles.set(key, `T${textStyles.size + 1}`)
+        content = `<text:span text:style-name="${textStyles.get(key)}">${content}</text:span>`
+      }
+      if (run.url) {
+        content = `<text:a xlink:type="simple" xlink:href="${escapeXml(run.url)}" text:style-name="Internet_20_link">${content}</text:a>`
+      }
+      return content
+    })
+    return `<text:p text:style-name="Bibliography">${spans.join('')}</text:p>`
+  })
+
+  const content = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${ODT_NAMESPACES} office:version="1.2">
+  <office:automatic-styles>
+${[...textStyles].map(([key, name]) => `    <style:style style:name="${name}" style:family="text">${odtTextProperties(key)}</style:style>`).join('\n')}
+  </office:automatic-styles>
+  <office:body>
+    <office:text>
+      <text:h text:style-name="Bibliography_20_Heading" text:outline-level="1">${odtText(layout.title)}</text:h>
+      ${paragraphs.join('\n      ')}
+    </office:text>
+  </office:body>
+</office:document-content>`
+
+  const mimeType = 'application/vnd.oasis.opendocument.text'
+  const zip = createZip([
+    // The mimetype entry must come first so the format can be sniffed
+    { name: 'mimetype', data: mimeType },
+    {
+      name: 'META-INF/manifest.xml',
+      data: `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+  <manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="${mimeType}"/>
+  <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+  <manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`
+    },
+    { name: 'content.xml', data: content },
+    { name: 'styles.xml', data: odtStyles(layout) }
+  ])
+  return new Blob([zip], { type: mimeType })
+}
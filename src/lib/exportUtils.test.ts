@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import type { Citation } from '@/App'
+import { generateBibTeXFormat, generateCitationKeys, generateRISFormat, generateWordXmlFormat } from '@/lib/exportUtils'
+
+const book: Citation = {
+  id: 'b',
+  type: 'book',
+  title: 'The Sleeping Brain',
+  authors: [{ family: 'Lopez', given: 'Ana' }],
+  year: '2018',
+  source: 'University of Chicago Press',
+  publisher: 'University of Chicago Press',
+  city: 'Chicago',
+  dateAccessed: '2024-01-05T00:00:00.000Z'
+}
+
+describe('generateRISFormat', () => {
+  it('keeps each source type', () => {
+    const ris = generateRISFormat([book, { ...book, id: 'w', type: 'website', url: 'https://example.com' }])
+    expect(ris.match(/^TY {2}- \w+/gm)).toEqual(['TY  - BOOK', 'TY  - ELEC'])
+    expect(ris).toContain('PB  - University of Chicago Press')
+  })
+})
+
+describe('generateBibTeXFormat', () => {
+  const website: Citation = {
+    id: 'w',
+    type: 'website',
+    title: 'Sleep tips',
+    authors: [{ literal: 'Sleep Foundation' }],
+    year: '2023',
+    source: 'Sleep Foundation',
+    url: 'https://example.com/sleep',
+    dateAccessed: '2024-01-05T00:00:00.000Z'
+  }
+
+  it('writes the access date without the time', () => {
+    expect(generateBibTeXFormat([website])).toContain('note={Accessed: 2024-01-05}')
+    expect(generateBibTeXFormat([website], { dialect: 'biblatex' })).toContain('urldate={2024-01-05}')
+  })
+
+  it('leaves out an access date it cannot read', () => {
+    expect(generateBibTeXFormat([{ ...website, dateAccessed: 'last week' }], { dialect: 'biblatex' })).not.toContain('urldate')
+  })
+})
+
+describe('generateCitationKeys', () => {
+  const sleep: Citation = { ...book, id: 'sleep', title: 'Sleep', authors: [{ family: 'Smith', given: 'Jane' }], year: '2020' }
+  const dreams: Citation = { ...sleep, id: 'dreams', title: 'Dreams' }
+  const naps: Citation = { ...sleep, id: 'naps', title: 'Naps' }
+
+  it('suffixes repeated keys in title order, whatever the order given', () => {
+    const keys = generateCitationKeys([sleep, naps, dreams], '[auth:lower][year]')
+    expect(Object.fromEntries(keys)).toEqual({ dreams: 'smith2020a', naps: 'smith2020b', sleep: 'smith2020c' })
+    expect(generateCitationKeys([dreams, sleep, naps], '[auth:lower][year]')).toEqual(keys)
+  })
+
+  it('never gives a suffixed key that is another entry\'s own key', () => {
+    const smitha: Citation = { ...sleep, id: 'smitha', authors: [{ family: 'Smitha' }] }
+    const keys = generateCitationKeys([sleep, dreams, smitha], '[auth:lower]')
+    expect(Object.fromEntries(keys)).toEqual({ dreams: 'smithb', sleep: 'smithc', smitha: 'smitha' })
+  })
+
+  it('keeps library keys in an export of some of the entries', () => {
+    const citationKeys = generateCitationKeys([sleep, dreams], '[auth:lower][year]')
+    expect(generateBibTeXFormat([sleep], { citationKeys })).toContain('{smith2020b,')
+  })
+})
+
+describe('generateWordXmlFormat', () => {
+  it('tags sources with the same keys as the BibTeX export', () => {
+    const sleep: Citation = { ...book, id: 'sleep', title: 'Sleep' }
+    const dreams: Citation = { ...book, id: 'dreams', title: 'Dreams' }
+    const citationKeys = generateCitationKeys([sleep, dreams, book], '[auth:lower][year]')
+
+    const bibKeys = generateBibTeXFormat([book, sleep], { citationKeys }).match(/^@\w+\{([^,]+),/gm)?.map(line => line.replace(/^@\w+\{|,$/g, ''))
+    const tags = generateWordXmlFormat([sleep, dreams], { citationKeys }).match(/<b:Tag>([^<]+)<\/b:Tag>/g)?.map(tag => tag.replace(/<\/?b:Tag>/g, ''))
+    expect(bibKeys).toEqual([citationKeys.get('b'), citationKeys.get('sleep')])
+    expect(tags).toEqual([citationKeys.get('sleep'), citationKeys.get('dreams')])
+  })
+})
@@ -1,10 +1,40 @@
-import type { Citation } from '@/App'
+import type { Citation, CitationStyle, SourceType } from '@/App'
+import { formatNameInverted, type PersonName } from '@/lib/names'
+import { formatBibliographyEntries, titleSortKey } from '@/lib/citationFormatter'
+import { citationToCslJson } from '@/lib/cslJson'
+import { toCsv } from '@/lib/csv'
+import { encodeLatex, encodeLatexTitle } from '@/lib/latex'
+import { getReferencePageLayout, orderReferences } from '@/lib/documentExport'
+import { createHtmlDocument, createMarkdownDocument } from '@/lib/richText'
+import { escapeXml } from '@/lib/xml'
 
 /**
  * Export utilities for bibliography management software
  */
 
-export type ExportFormat = 'text' | 'ris' | 'bibtex' | 'endnote' | 'zotero' | 'mendeley'
+export type ExportFormat = 'text' | 'ris' | 'bibtex' | 'biblatex' | 'endnote' | 'csl-json' | 'csv' | 'word-xml' | 'html' | 'markdown' | 'zotero' | 'mendeley'
+
+/**
+ * RIS reference types
+ */
+const risTypes: Record<SourceType, string> = {
+  article: 'JOUR',
+  journal: 'JOUR',
+  book: 'BOOK',
+  chapter: 'CHAP',
+  website: 'ELEC',
+  newspaper: 'NEWS',
+  thesis: 'THES',
+  conference: 'CPAPER',
+  report: 'RPRT',
+  dataset: 'DATA',
+  software: 'COMP',
+  preprint: 'UNPB',
+  patent: 'PAT',
+  standard: 'STAND',
+  video: 'VIDEO',
+  podcast: 'SOUND'
+}
 
 /**
  * Generate RIS format for Zotero and Mendeley import
@@ -13,22 +43,14 @@ export function generateRISFormat(citations: Citation[]): string {
   const risEntries = citations.map(citation => {
     const lines: string[] = []
     
-    // Type of reference
-    const typeMap = {
-      'article': 'JOUR',
-      'journal': 'JOUR', 
-      'book': 'BOOK',
-      'website': 'ELEC'
-    }
-    
-    lines.push(`TY  - ${typeMap[citation.type] || 'GEN'}`)
+    lines.push(`TY  - ${risTypes[citation.type] || 'GEN'}`)
     
     // Title
     lines.push(`TI  - ${citation.title}`)
     
     // Authors
     citation.authors.forEach(author => {
-      lines.push(`AU  - ${author}`)
+      lines.push(`AU  - ${formatNameInverted(author)}`)
     })
     
     // Publication year
@@ -36,8 +58,9 @@ export function generateRISFormat(citations: Citation[]): string {
       lines.push(`PY  - ${citation.year}`)
     }
     
-    // Journal/Source
-    if (citation.source) {
+    // Journal/Source (the forms fall back to the publisher when a book has
+    // no separate source, which should not be exported twice)
+    if (citation.source && citation.source !== citation.publisher) {
       if (citation.type === 'journal' || citation.type === 'article') {
         lines.push(`JO  - ${citation.source}`)
       } else {
@@ -68,6 +91,39 @@ export function generateRISFormat(citations: Citation[]): string {
       lines.push(`PB  - ${citation.publisher}`)
     }
     
+    // Place of publication
+    if (citation.city) {
+      lines.push(`CY  - ${citation.city}`)
+    }
+    
+    // Edition, or version for datasets and software
+    if (citation.edition || citation.version) {
+      lines.push(`ET  - ${citation.edition || citation.version}`)
+    }
+    
+    // ISBN
+    if (citation.isbn) {
+      lines.push(`SN  - ${citation.isbn}`)
+    }
+    
+    // Repository or archive, and the identifier within it
+    if (citation.repository) {
+      lines.push(`DB  - ${citation.repository}`)
+    }
+    if (citation.archiveId) {
+      lines.push(`AN  - ${citation.archiveId}`)
+    }
+    
+    // Patent number
+    if (citation.patentNumber) {
+      lines.push(`M1  - ${citation.patentNumber}`)
+    }
+    
+    // Running time
+    if (citation.runtime) {
+      lines.push(`M3  - ${citation.runtime}`)
+    }
+    
     // URL
     if (citation.url) {
       lines.push(`UR  - ${citation.url}`)
@@ -83,6 +139,11 @@ export function generateRISFormat(citations: Citation[]): string {
       lines.push(`Y2  - ${citation.dateAccessed}`)
     }
     
+    // Abstract
+    if (citation.abstract) {
+      lines.push(`AB  - ${citation.abstract}`)
+    }
+    
     // End of record
     lines.push('ER  - ')
     
@@ -93,72 +154,175 @@ export function generateRISFormat(citations: Citation[]): string {
 }
 
 /**
- * Generate BibTeX format
+ * BibTeX entry types. BibTeX has no generic thesis or newspaper entry, so
+ * theses are exported as @phdthesis and newspaper articles as @article.
+ * Standards are @techreport; the other non-print sources are @misc.
+ */
+const bibTeXTypes: Record<SourceType, string> = {
+  article: 'article',
+  journal: 'article',
+  book: 'book',
+  chapter: 'incollection',
+  website: 'misc',
+  newspaper: 'article',
+  thesis: 'phdthesis',
+  conference: 'inproceedings',
+  report: 'techreport',
+  dataset: 'misc',
+  software: 'misc',
+  preprint: 'misc',
+  patent: 'misc',
+  standard: 'techreport',
+  video: 'misc',
+  podcast: 'misc'
+}
+
+/**
+ * BibLaTeX entry types, where they differ from BibTeX: web pages and
+ * preprints are @online, and datasets, software and patents have their own
+ * types
+ */
+const bibLaTeXTypes: Record<SourceType, string> = {
+  ...bibTeXTypes,
+  website: 'online',
+  dataset: 'dataset',
+  software: 'software',
+  preprint: 'online',
+  patent: 'patent'
+}
+
+export type BibTeXDialect = 'bibtex' | 'biblatex'
+
+export interface CitationKeyOptions {
+  keyPattern?: string
+  // Keys made for the whole library, so an entry keeps its key whichever
+  // entries are exported with it
+  citationKeys?: Map<string, string>
+}
+
+export interface BibTeXOptions extends CitationKeyOptions {
+  // BibLaTeX writes date, journaltitle, location, urldate and @online
+  dialect?: BibTeXDialect
+}
+
+// Dates BibLaTeX accepts in date and urldate
+const ISO_DATE = /^\d{4}(-\d{2}(-\d{2})?)?$/
+
+// Access dates are saved as full timestamps ("2024-01-05T00:00:00.000Z"),
+// or as the bare date from the URL form; both come out as "2024-01-05"
+function accessDate(dateAccessed: string | undefined): string {
+  const date = dateAccessed?.trim().slice(0, 10) || ''
+  return ISO_DATE.test(date) && !isNaN(Date.parse(date)) ? date : ''
+}
+
+/**
+ * Generate BibTeX, or BibLaTeX with the biblatex dialect. Text is
+ * LaTeX-encoded and keys are unique within the file.
  */
-export function generateBibTeXFormat(citations: Citation[]): string {
+export function generateBibTeXFormat(citations: Citation[], options: BibTeXOptions = {}): string {
+  const biblatex = options.dialect === 'biblatex'
+  const entryTypes = biblatex ? bibLaTeXTypes : bibTeXTypes
+  const citationKey = citationKeysFor(citations, options)
   const bibEntries = citations.map(citation => {
-    const citationKey = generateCitationKey(citation)
     const lines: string[] = []
-    
-    // Entry type
-    const typeMap = {
-      'article': 'article',
-      'journal': 'article',
-      'book': 'book', 
-      'website': 'misc'
+    // Identifiers and URLs are written as they are; text fields are encoded
+    const field = (name: string, value: string | undefined) => {
+      if (value) lines.push(`  ${name}={${value}},`)
     }
+    const text = (name: string, value: string | undefined) => field(name, value && encodeLatex(value))
     
-    lines.push(`@${typeMap[citation.type] || 'misc'}{${citationKey},`)
+    lines.push(`@${entryTypes[citation.type] || 'misc'}{${citationKey(citation)},`)
     
-    // Title
-    lines.push(`  title={${citation.title}},`)
+    // Title, with acronyms and proper nouns braced
+    field('title', encodeLatexTitle(citation.title))
     
     // Authors
     if (citation.authors.length > 0) {
-      lines.push(`  author={${citation.authors.join(' and ')}},`)
+      field('author', citation.authors.map(formatBibTeXName).join(' and '))
     }
     
-    // Year
-    if (citation.year) {
-      lines.push(`  year={${citation.year}},`)
+    // Year, or a full date for BibLaTeX
+    if (biblatex && ISO_DATE.test(citation.year)) {
+      field('date', citation.year)
+    } else {
+      text('year', ISO_DATE.test(citation.year) ? citation.year.slice(0, 4) : citation.year)
     }
     
+    const pages = citation.pages?.replace(/(\d)\s*[-–]\s*(?=\d)/g, '$1--')
+    const place = biblatex ? 'location' : 'address'
+    
     // Journal/Source specific fields
-    if (citation.type === 'journal' || citation.type === 'article') {
-      if (citation.source) {
-        lines.push(`  journal={${citation.source}},`)
+    if (citation.type === 'journal' || citation.type === 'article' || citation.type === 'newspaper') {
+      text(biblatex ? 'journaltitle' : 'journal', citation.source)
+      text('volume', citation.volume)
+      text('number', citation.issue)
+      field('pages', pages)
+      if (biblatex && citation.type === 'newspaper') {
+        field('entrysubtype', 'newspaper')
       }
-      if (citation.volume) {
-        lines.push(`  volume={${citation.volume}},`)
+    } else if (citation.type === 'book' || citation.type === 'chapter' || citation.type === 'conference') {
+      if (citation.type !== 'book') {
+        text('booktitle', citation.source)
       }
-      if (citation.issue) {
-        lines.push(`  number={${citation.issue}},`)
+      text('edition', citation.edition)
+      text('publisher', citation.publisher)
+      text(place, citation.city)
+      if (citation.type !== 'book') {
+        field('pages', pages)
       }
-      if (citation.pages) {
-        lines.push(`  pages={${citation.pages}},`)
+      field('isbn', citation.isbn)
+    } else if (citation.type === 'thesis' || citation.type === 'report' || citation.type === 'standard') {
+      // The awarding or issuing body goes in school/institution
+      text(citation.type === 'thesis' && !biblatex ? 'school' : 'institution', citation.publisher)
+      text(place, citation.city)
+      if (citation.type === 'standard') {
+        text('number', citation.archiveId)
+      } else if (citation.type === 'report') {
+        text('number', citation.issue)
       }
-    } else if (citation.type === 'book') {
-      if (citation.publisher) {
-        lines.push(`  publisher={${citation.publisher}},`)
+    } else if (citation.type === 'preprint') {
+      // arXiv-style eprint fields, understood by both BibTeX styles and biblatex
+      field('eprint', citation.archiveId)
+      text(biblatex ? 'eprinttype' : 'archivePrefix', citation.repository)
+    } else if (citation.type === 'dataset' || citation.type === 'software') {
+      text('version', citation.version)
+      text('publisher', citation.repository || citation.publisher)
+      if (!biblatex) {
+        field('howpublished', citation.type === 'dataset' ? 'Dataset' : 'Computer software')
       }
-    } else if (citation.type === 'website') {
-      if (citation.source) {
-        lines.push(`  howpublished={\\url{${citation.url || citation.source}}},`)
+    } else if (citation.type === 'patent') {
+      text(biblatex ? 'number' : 'howpublished', citation.patentNumber)
+    } else if (citation.type === 'video' || citation.type === 'podcast') {
+      text('howpublished', citation.source)
+      if (citation.runtime) {
+        text('note', `${citation.type === 'video' ? 'Video' : 'Podcast'}, ${citation.runtime}`)
       }
-      if (citation.dateAccessed) {
-        lines.push(`  note={Accessed: ${citation.dateAccessed}},`)
+    } else if (citation.type === 'website') {
+      if (biblatex) {
+        if (citation.source !== citation.publisher) text('organization', citation.source)
+      } else {
+        if (citation.source) {
+          field('howpublished', `\\url{${citation.url || encodeLatex(citation.source)}}`)
+        }
+        if (citation.dateAccessed) {
+          text('note', `Accessed: ${accessDate(citation.dateAccessed) || citation.dateAccessed}`)
+        }
       }
     }
     
     // URL
-    if (citation.url) {
-      lines.push(`  url={${citation.url}},`)
+    field('url', citation.url)
+    
+    // Access date for online sources (BibLaTeX)
+    if (biblatex && citation.url && accessDate(citation.dateAccessed)) {
+      field('urldate', accessDate(citation.dateAccessed))
     }
     
     // DOI
-    if (citation.doi) {
-      lines.push(`  doi={${citation.doi}},`)
-    }
+    field('doi', citation.doi)
+    
+    // Abstract
+    text('abstract', citation.abstract)
     
     lines.push('}')
     
@@ -168,6 +332,28 @@ export function generateBibTeXFormat(citations: Citation[]): string {
   return bibEntries.join('\n\n')
 }
 
+/**
+ * EndNote reference type names, as read by %0 in tagged import files
+ */
+const endNoteTypes: Record<SourceType, string> = {
+  article: 'Journal Article',
+  journal: 'Journal Article',
+  book: 'Book',
+  chapter: 'Book Section',
+  website: 'Web Page',
+  newspaper: 'Newspaper Article',
+  thesis: 'Thesis',
+  conference: 'Conference Paper',
+  report: 'Report',
+  dataset: 'Dataset',
+  software: 'Computer Program',
+  preprint: 'Manuscript',
+  patent: 'Patent',
+  standard: 'Standard',
+  video: 'Film or Broadcast',
+  podcast: 'Audiovisual Material'
+}
+
 /**
  * Generate EndNote format
  */
@@ -175,22 +361,14 @@ export function generateEndNoteFormat(citations: Citation[]): string {
   const endnoteEntries = citations.map(citation => {
     const lines: string[] = []
     
-    // Reference type
-    const typeMap = {
-      'article': '0',
-      'journal': '0',
-      'book': '6',
-      'website': '12'
-    }
-    
-    lines.push(`%0 ${typeMap[citation.type] || '13'}`)
+    lines.push(`%0 ${endNoteTypes[citation.type] || 'Generic'}`)
     
     // Title
     lines.push(`%T ${citation.title}`)
     
     // Authors
     citation.authors.forEach(author => {
-      lines.push(`%A ${author}`)
+      lines.push(`%A ${formatNameInverted(author)}`)
     })
     
     // Date
@@ -199,7 +377,7 @@ export function generateEndNoteFormat(citations: Citation[]): string {
     }
     
     // Journal/Source
-    if (citation.source) {
+    if (citation.source && citation.source !== citation.publisher) {
       if (citation.type === 'journal' || citation.type === 'article') {
         lines.push(`%J ${citation.source}`)
       } else {
@@ -227,11 +405,31 @@ export function generateEndNoteFormat(citations: Citation[]): string {
       lines.push(`%I ${citation.publisher}`)
     }
     
+    // Place of publication
+    if (citation.city) {
+      lines.push(`%C ${citation.city}`)
+    }
+    
+    // Edition, or version for datasets and software
+    if (citation.edition || citation.version) {
+      lines.push(`%7 ${citation.edition || citation.version}`)
+    }
+    
+    // ISBN
+    if (citation.isbn) {
+      lines.push(`%@ ${citation.isbn}`)
+    }
+    
     // URL
     if (citation.url) {
       lines.push(`%U ${citation.url}`)
     }
     
+    // Abstract
+    if (citation.abstract) {
+      lines.push(`%X ${citation.abstract}`)
+    }
+    
     return lines.join('\n')
   })
   
@@ -239,28 +437,507 @@ export function generateEndNoteFormat(citations: Citation[]): string {
 }
 
 /**
- * Generate a citation key for BibTeX
+ * Generate CSL-JSON for Pandoc, Zotero and Quarto (see cslJson.ts for the
+ * field mapping)
+ */
+export function generateCslJsonFormat(citations: Citation[]): string {
+  return JSON.stringify(citations.map(citationToCslJson), null, 2)
+}
+
+/**
+ * Generate a CSV spreadsheet with one row per citation; authors are
+ * separated by semicolons so the file imports back unchanged
+ */
+export function generateCsvFormat(citations: Citation[]): string {
+  const headers = ['Title', 'Authors', 'Year', 'Source', 'Type', 'URL', 'DOI', 'Pages', 'Volume', 'Issue']
+  const rows = citations.map(citation => [
+    citation.title,
+    citation.authors.map(formatNameInverted).join('; '),
+    citation.year,
+    citation.source,
+    citation.type,
+    citation.url || '',
+    citation.doi || '',
+    citation.pages || '',
+    citation.volume || '',
+    citation.issue || ''
+  ])
+  return toCsv([headers, ...rows])
+}
+
+/**
+ * Zotero item types with the RDF class Zotero writes for each, and the class
+ * of the container (journal, book, website) that holds the source title
+ */
+const zoteroTypes: Record<SourceType, { itemType: string; rdfClass: string; container?: string }> = {
+  article: { itemType: 'journalArticle', rdfClass: 'bib:Article', container: 'bib:Journal' },
+  journal: { itemType: 'journalArticle', rdfClass: 'bib:Article', container: 'bib:Journal' },
+  book: { itemType: 'book', rdfClass: 'bib:Book' },
+  chapter: { itemType: 'bookSection', rdfClass: 'bib:BookSection', container: 'bib:Book' },
+  website: { itemType: 'webpage', rdfClass: 'bib:Document', container: 'z:Website' },
+  newspaper: { itemType: 'newspaperArticle', rdfClass: 'bib:Article', container: 'bib:Newspaper' },
+  thesis: { itemType: 'thesis', rdfClass: 'bib:Thesis' },
+  conference: { itemType: 'conferencePaper', rdfClass: 'bib:Article', container: 'bib:ConferenceProceedings' },
+  report: { itemType: 'report', rdfClass: 'bib:Report' },
+  dataset: { itemType: 'dataset', rdfClass: 'bib:Data' },
+  software: { itemType: 'computerProgram', rdfClass: 'bib:Data' },
+  preprint: { itemType: 'preprint', rdfClass: 'bib:Article' },
+  patent: { itemType: 'patent', rdfClass: 'bib:Patent' },
+  standard: { itemType: 'standard', rdfClass: 'bib:Document' },
+  video: { itemType: 'videoRecording', rdfClass: 'bib:Recording' },
+  podcast: { itemType: 'podcast', rdfClass: 'bib:Recording' }
+}
+
+// Zotero names the creators of some item types after their role
+const zoteroCreatorElements: Partial<Record<SourceType, string>> = {
+  software: 'z:programmers',
+  patent: 'z:inventors',
+  video: 'z:directors',
+  podcast: 'z:podcasters'
+}
+
+const ZOTERO_NAMESPACES = [
+  'xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"',
+  'xmlns:z="http://www.zotero.org/namespaces/export#"',
+  'xmlns:dc="http://purl.org/dc/elements/1.1/"',
+  'xmlns:vcard="http://nwalsh.com/rdf/vCard#"',
+  'xmlns:foaf="http://xmlns.com/foaf/0.1/"',
+  'xmlns:bib="http://purl.org/net/biblio#"',
+  'xmlns:dcterms="http://purl.org/dc/terms/"',
+  'xmlns:prism="http://prismstandard.org/namespaces/1.2/basic/"'
+]
+
+function xmlText(tag: string, text: string): string {
+  return `<${tag}>${escapeXml(text)}</${tag}>`
+}
+
+function xmlWrap(tag: string, children: string[]): string[] {
+  return [`<${tag}>`, ...children.map(line => `    ${line}`), `</${tag}>`]
+}
+
+/**
+ * A creator as foaf:Person; institutions keep their whole name as the
+ * surname, which Zotero shows as a single-field name
+ */
+function zoteroPerson(name: PersonName): string[] {
+  const surname = name.literal || [name.particle, name.family].filter(Boolean).join(' ')
+  const given = name.literal ? '' : [name.given, name.suffix].filter(Boolean).join(', ')
+  const fields = [xmlText('foaf:surname', surname)]
+  if (given) fields.push(xmlText('foaf:givenName', given))
+  return xmlWrap('rdf:li', xmlWrap('foaf:Person', fields))
+}
+
+/**
+ * Generate Zotero RDF, the format of Zotero's own "Zotero RDF" export, so
+ * item types, creators and container details survive the import
+ */
+export function generateZoteroRDFFormat(citations: Citation[]): string {
+  const items = citations.map((citation, index) => {
+    const zoteroType = zoteroTypes[citation.type] || zoteroTypes.article
+    const lines: string[] = [xmlText('z:itemType', zoteroType.itemType)]
+    
+    // Journal, book or website the item is part of, with volume and issue
+    const source = citation.source && citation.source !== citation.publisher ? citation.source : ''
+    const numbering: string[] = []
+    if (citation.volume) numbering.push(xmlText('prism:volume', citation.volume))
+    if (citation.issue) numbering.push(xmlText('prism:number', citation.issue))
+    if (zoteroType.container && (source || numbering.length > 0)) {
+      const container = [...numbering]
+      if (source) container.push(xmlText('dc:title', source))
+      lines.push(...xmlWrap('dcterms:isPartOf', xmlWrap(zoteroType.container, container)))
+    } else {
+      lines.push(...numbering)
+    }
+    
+    // Publisher and place; items without a container (reports, preprints,
+    // datasets) keep their source as the publisher
+    const publisher = citation.publisher || (zoteroType.container ? '' : citation.source)
+    if (publisher || citation.city) {
+      const organization: string[] = []
+      if (citation.city) {
+        organization.push(...xmlWrap('vcard:adr', xmlWrap('vcard:Address', [xmlText('vcard:locality', citation.city)])))
+      }
+      if (publisher) organization.push(xmlText('foaf:name', publisher))
+      lines.push(...xmlWrap('dc:publisher', xmlWrap('foaf:Organization', organization)))
+    }
+    
+    // Creators, in order
+    if (citation.authors.length > 0) {
+      const creatorElement = zoteroCreatorElements[citation.type] || 'bib:authors'
+      lines.push(...xmlWrap(creatorElement, xmlWrap('rdf:Seq', citation.authors.flatMap(zoteroPerson))))
+    }
+    
+    lines.push(xmlText('dc:title', citation.title))
+    
+    if (citation.abstract) {
+      lines.push(xmlText('dcterms:abstract', citation.abstract))
+    }
+    if (citation.year) {
+      lines.push(xmlText('dc:date', citation.year))
+    }
+    if (citation.pages) {
+      lines.push(xmlText('bib:pages', citation.pages))
+    }
+    if (citation.edition) {
+      lines.push(xmlText('prism:edition', citation.edition))
+    }
+    
+    // Identifiers
+    if (citation.isbn) {
+      lines.push(xmlText('dc:identifier', `ISBN ${citation.isbn}`))
+    }
+    if (citation.doi) {
+      lines.push(xmlText('dc:identifier', `DOI ${citation.doi}`))
+    }
+    if (citation.url) {
+      lines.push(...xmlWrap('dc:identifier', xmlWrap('dcterms:URI', [xmlText('rdf:value', citation.url)])))
+    }
+    if (citation.dateAccessed) {
+      lines.push(xmlText('dcterms:dateSubmitted', citation.dateAccessed))
+    }
+    
+    // Zotero fields without a standard vocabulary
+    if (citation.version) {
+      lines.push(xmlText('z:versionNumber', citation.version))
+    }
+    if (citation.repository) {
+      lines.push(xmlText('z:archive', citation.repository))
+    }
+    if (citation.archiveId) {
+      lines.push(xmlText('z:archiveLocation', citation.archiveId))
+    }
+    if (citation.patentNumber) {
+      lines.push(xmlText('z:patentNumber', citation.patentNumber))
+    }
+    if (citation.runtime) {
+      lines.push(xmlText('z:runningTime', citation.runtime))
+    }
+    
+    const element = [
+      `<${zoteroType.rdfClass} rdf:about="#item_${index + 1}">`,
+      ...lines.map(line => `    ${line}`),
+      `</${zoteroType.rdfClass}>`
+    ]
+    return element.map(line => `    ${line}`).join('\n')
+  })
+  
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<rdf:RDF\n ${ZOTERO_NAMESPACES.join('\n ')}>`,
+    ...items,
+    '</rdf:RDF>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Source types of Word's bibliography manager, and the element that holds
+ * the title of the journal, book or site an item appeared in
+ */
+const wordSourceTypes: Record<SourceType, { sourceType: string; container?: string }> = {
+  article: { sourceType: 'JournalArticle', container: 'JournalName' },
+  journal: { sourceType: 'JournalArticle', container: 'JournalName' },
+  book: { sourceType: 'Book' },
+  chapter: { sourceType: 'BookSection', container: 'BookTitle' },
+  website: { sourceType: 'InternetSite', container: 'InternetSiteTitle' },
+  newspaper: { sourceType: 'ArticleInAPeriodical', container: 'PeriodicalTitle' },
+  thesis: { sourceType: 'Report' },
+  conference: { sourceType: 'ConferenceProceedings', container: 'ConferenceName' },
+  report: { sourceType: 'Report' },
+  dataset: { sourceType: 'ElectronicSource' },
+  software: { sourceType: 'ElectronicSource' },
+  preprint: { sourceType: 'Report' },
+  patent: { sourceType: 'Patent' },
+  standard: { sourceType: 'Report' },
+  video: { sourceType: 'Film', container: 'ProductionCompany' },
+  podcast: { sourceType: 'SoundRecording', container: 'AlbumTitle' }
+}
+
+// Creator role Word expects for each source type; everything else is Author
+const wordCreatorRoles: Partial<Record<SourceType, string>> = {
+  patent: 'Inventor',
+  video: 'Director',
+  podcast: 'Performer'
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+
+/**
+ * A creator list as Word stores it: a single institution is a corporate
+ * author, anything else a list of people split into last, first and middle
+ * names
+ */
+function wordCreators(role: string, authors: PersonName[]): string[] {
+  if (authors.length === 1 && authors[0].literal) {
+    return xmlWrap(`b:${role}`, [xmlText('b:Corporate', authors[0].literal)])
+  }
+  const people = authors.map(author => {
+    const fields: string[] = []
+    const last = author.literal || [author.particle, author.family].filter(Boolean).join(' ')
+    if (last) fields.push(xmlText('b:Last', last))
+    const [first, ...middle] = (author.literal ? '' : author.given || '').split(/\s+/).filter(Boolean)
+    if (first) fields.push(xmlText('b:First', first))
+    if (middle.length > 0) fields.push(xmlText('b:Middle', middle.join(' ')))
+    return xmlWrap('b:Person', fields)
+  })
+  return xmlWrap(`b:${role}`, xmlWrap('b:NameList', people.flat()))
+}
+
+/**
+ * Generate a Sources.xml file for the References tab in Microsoft Word
+ * (Manage Sources > Browse). Tags are the BibTeX citation keys, so a
+ * document can move between Word and LaTeX with the same keys.
  */
-function generateCitationKey(citation: Citation): string {
-  const firstAuthor = citation.authors[0] || 'unknown'
-  const authorLastName = firstAuthor.includes(',') 
-    ? firstAuthor.split(',')[0].trim()
-    : firstAuthor.split(' ').pop() || 'unknown'
+export function generateWordXmlFormat(citations: Citation[], options: CitationKeyOptions = {}): string {
+  const citationKey = citationKeysFor(citations, options)
+  const sources = citations.map(citation => {
+    const wordType = wordSourceTypes[citation.type] || wordSourceTypes.article
+    const lines: string[] = [
+      xmlText('b:Tag', citationKey(citation)),
+      xmlText('b:SourceType', wordType.sourceType)
+    ]
+    
+    // Creators, nested in an outer Author element as the schema requires
+    if (citation.authors.length > 0) {
+      const role = wordCreatorRoles[citation.type] || 'Author'
+      lines.push(...xmlWrap('b:Author', wordCreators(role, citation.authors)))
+    }
+    
+    lines.push(xmlText('b:Title', citation.title))
+    
+    // Journal, book or site title (not repeated when it is the publisher)
+    const source = citation.source && citation.source !== citation.publisher ? citation.source : ''
+    if (source && wordType.container) {
+      lines.push(xmlText(`b:${wordType.container}`, source))
+    }
+    
+    if (citation.year) {
+      lines.push(xmlText('b:Year', citation.year))
+    }
+    if (citation.pages) {
+      lines.push(xmlText('b:Pages', citation.pages))
+    }
+    if (citation.volume) {
+      lines.push(xmlText('b:Volume', citation.volume))
+    }
+    if (citation.issue) {
+      lines.push(xmlText('b:Issue', citation.issue))
+    }
+    if (citation.edition) {
+      lines.push(xmlText('b:Edition', citation.edition))
+    }
+    
+    // Publisher, or the source for types with nowhere else to put it
+    const publisher = citation.publisher || (wordType.container ? '' : citation.source)
+    if (publisher) {
+      lines.push(xmlText(citation.type === 'thesis' ? 'b:Institution' : 'b:Publisher', publisher))
+    }
+    if (citation.city) {
+      lines.push(xmlText('b:City', citation.city))
+    }
+    if (citation.type === 'thesis') {
+      lines.push(xmlText('b:ThesisType', 'Thesis'))
+    }
+    
+    // Identifiers
+    if (citation.isbn) {
+      lines.push(xmlText('b:StandardNumber', citation.isbn))
+    } else if (citation.type === 'standard' && citation.archiveId) {
+      lines.push(xmlText('b:StandardNumber', citation.archiveId))
+    }
+    if (citation.patentNumber) {
+      lines.push(xmlText('b:PatentNumber', citation.patentNumber))
+    }
+    if (citation.version) {
+      lines.push(xmlText('b:Version', citation.version))
+    }
+    if (citation.type === 'dataset' || citation.type === 'software') {
+      lines.push(xmlText('b:Medium', citation.type === 'dataset' ? 'Dataset' : 'Computer software'))
+    }
+    if (citation.url) {
+      lines.push(xmlText('b:URL', citation.url))
+    }
+    if (citation.doi) {
+      lines.push(xmlText('b:DOI', citation.doi))
+    }
+    
+    // Access date, split into the separate fields Word uses
+    const accessed = citation.dateAccessed?.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/)
+    if (accessed) {
+      lines.push(xmlText('b:YearAccessed', accessed[1]))
+      const month = MONTH_NAMES[Number(accessed[2]) - 1]
+      if (month) lines.push(xmlText('b:MonthAccessed', month))
+      if (accessed[3]) lines.push(xmlText('b:DayAccessed', String(Number(accessed[3]))))
+    }
+    
+    return xmlWrap('b:Source', lines).map(line => `    ${line}`).join('\n')
+  })
   
-  const year = citation.year || 'nd'
-  const titleWords = citation.title.toLowerCase()
-    .replace(/[^\w\s]/g, '')
-    .split(' ')
-    .slice(0, 3)
-    .join('')
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<b:Sources SelectedStyle="" xmlns:b="http://schemas.openxmlformats.org/officeDocument/2006/bibliography" xmlns="http://schemas.openxmlformats.org/officeDocument/2006/bibliography">',
+    ...sources,
+    '</b:Sources>',
+    ''
+  ].join('\n')
+}
+
+export interface WebExportOptions extends CitationKeyOptions {
+  // Give each entry an id ("ref-" and its citation key) for in-text links
+  anchors?: boolean
+}
+
+// Formatted entries in reference page order, with their anchors
+function referencePageEntries(citations: Citation[], style: CitationStyle, options: WebExportOptions) {
+  const citationKey = citationKeysFor(citations, options)
+  const byId = new Map(citations.map(citation => [citation.id, citation]))
+  const entries = formatBibliographyEntries(orderReferences(citations, style), style)
+  return {
+    runs: entries.map(entry => entry.runs),
+    anchors: options.anchors ? entries.map(entry => `ref-${citationKey(byId.get(entry.id) as Citation)}`) : undefined
+  }
+}
+
+/**
+ * Generate an HTML reference page for wikis and websites, with linked DOIs
+ * and the style's hanging indent
+ */
+export function generateHtmlFormat(citations: Citation[], style: CitationStyle, options: WebExportOptions = {}): string {
+  const { runs, anchors } = referencePageEntries(citations, style, options)
+  const { title, hangingIndent, lineSpacing } = getReferencePageLayout(style)
+  return createHtmlDocument(runs, { title, anchors, hangingIndent, lineSpacing })
+}
+
+/**
+ * Generate a Markdown reference page for notes apps such as Obsidian
+ */
+export function generateMarkdownFormat(citations: Citation[], style: CitationStyle, options: WebExportOptions = {}): string {
+  const { runs, anchors } = referencePageEntries(citations, style, options)
+  return createMarkdownDocument(runs, { title: getReferencePageLayout(style).title, anchors })
+}
+
+/**
+ * BibTeX name order: "von Last, Jr, First"; institutions are braced so
+ * they are not split into given and family names
+ */
+export function formatBibTeXName(name: PersonName): string {
+  if (name.literal) return `{${encodeLatex(name.literal)}}`
+  const family = encodeLatex([name.particle, name.family].filter(Boolean).join(' '))
+  const given = encodeLatex(name.given || '')
+  if (name.suffix) return `${family}, ${encodeLatex(name.suffix)}, ${given}`.trim()
+  return [family, given].filter(Boolean).join(', ')
+}
+
+/**
+ * Citation key pattern. Fields in brackets are replaced: [auth] is the first
+ * author's family name, [authors] those of the first three authors, [year]
+ * and [shortyear] the year, [title] the first three words of the title and
+ * [shorttitle] its first word that is not an article. Add ":lower" or
+ * ":upper" to change case, as in "[auth:lower][year]".
+ */
+export const DEFAULT_CITATION_KEY_PATTERN = '[auth:lower][year][title:lower]'
+
+// Plain ASCII letters and digits, with accents removed
+function keyText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^A-Za-z0-9]/g, '')
+}
+
+function citationKeyField(citation: Citation, field: string): string {
+  const families = citation.authors
+    .map(author => keyText(author.family || author.literal?.split(' ')[0] || ''))
+    .filter(Boolean)
+  const titleWords = citation.title.split(/\s+/).map(keyText).filter(Boolean)
+  const year = citation.year.match(/\d{4}/)?.[0] || keyText(citation.year) || 'nd'
   
-  return `${authorLastName.toLowerCase()}${year}${titleWords}`
+  switch (field) {
+    case 'auth':
+      return families[0] || 'unknown'
+    case 'authors':
+      return families.slice(0, 3).join('') || 'unknown'
+    case 'year':
+      return year
+    case 'shortyear':
+      return year.slice(-2)
+    case 'title':
+      return titleWords.slice(0, 3).join('')
+    case 'shorttitle':
+      return titleWords.find(word => !/^(a|an|the)$/i.test(word)) || ''
+    default:
+      return ''
+  }
 }
 
 /**
- * Export citations to file with specified format
+ * Citation key for one citation from a key pattern; a blank pattern uses
+ * the default
  */
-export function exportToFile(citations: Citation[], format: ExportFormat, filename?: string): void {
+export function formatCitationKey(citation: Citation, pattern = DEFAULT_CITATION_KEY_PATTERN): string {
+  const key = (pattern.trim() || DEFAULT_CITATION_KEY_PATTERN).replace(/\[(\w+)(?::(lower|upper))?\]/g, (_, field: string, modifier?: string) => {
+    const value = citationKeyField(citation, field)
+    return modifier === 'lower' ? value.toLowerCase() : modifier === 'upper' ? value.toUpperCase() : value
+  })
+  // Text outside the fields is kept, minus characters BibTeX rejects in keys
+  return key.replace(/[^A-Za-z0-9_:.-]/g, '') || 'ref'
+}
+
+/**
+ * Citation keys by citation id. Keys that would repeat get a, b, c...
+ * suffixes in title order, as years are disambiguated, so pass the whole
+ * library: the keys then do not depend on the order or subset exported. A
+ * suffixed key never takes another entry's own key.
+ */
+export function generateCitationKeys(citations: Citation[], pattern = DEFAULT_CITATION_KEY_PATTERN): Map<string, string> {
+  const groups = new Map<string, Citation[]>()
+  citations.forEach(citation => {
+    const key = formatCitationKey(citation, pattern)
+    groups.set(key, [...(groups.get(key) || []), citation])
+  })
+
+  const taken = new Set(groups.keys())
+  const keys = new Map<string, string>()
+  groups.forEach((group, key) => {
+    if (group.length === 1) {
+      keys.set(group[0].id, key)
+      return
+    }
+    let count = 0
+    group
+      .slice()
+      .sort((a, b) => titleSortKey(a.title).localeCompare(titleSortKey(b.title)) || a.id.localeCompare(b.id))
+      .forEach(citation => {
+        let suffixed: string
+        do {
+          suffixed = `${key}${count < 26 ? String.fromCharCode(97 + count) : count + 1}`
+          count++
+        } while (taken.has(suffixed))
+        taken.add(suffixed)
+        keys.set(citation.id, suffixed)
+      })
+  })
+  return keys
+}
+
+// The library's keys when given, else keys made from the exported entries
+function citationKeysFor(citations: Citation[], options: CitationKeyOptions): (citation: Citation) => string {
+  const keys = options.citationKeys || generateCitationKeys(citations, options.keyPattern)
+  return citation => keys.get(citation.id) || formatCitationKey(citation, options.keyPattern)
+}
+
+/**
+ * Export citations to file with specified format. HTML and Markdown are
+ * formatted in the given style; the key pattern applies to BibTeX, Word
+ * sources and anchors.
+ */
+export function exportToFile(
+  citations: Citation[],
+  format: ExportFormat,
+  filename?: string,
+  style: CitationStyle = 'apa',
+  options: WebExportOptions = {}
+): void {
   if (citations.length === 0) {
     throw new Error('No citations to export')
   }
@@ -271,7 +948,6 @@ export function exportToFile(citations: Citation[], format: ExportFormat, filena
   
   switch (format) {
     case 'ris':
-    case 'zotero':
     case 'mendeley':
       content = generateRISFormat(citations)
       fileExtension = 'ris'
@@ -279,7 +955,8 @@ export function exportToFile(citations: Citation[], format: ExportFormat, filena
       break
       
     case 'bibtex':
-      content = generateBibTeXFormat(citations)
+    case 'biblatex':
+      content = generateBibTeXFormat(citations, { dialect: format, keyPattern: options.keyPattern })
       fileExtension = 'bib'
       mimeType = 'text/plain'
       break
@@ -290,6 +967,42 @@ export function exportToFile(citations: Citation[], format: ExportFormat, filena
       mimeType = 'text/plain'
       break
       
+    case 'csl-json':
+      content = generateCslJsonFormat(citations)
+      fileExtension = 'json'
+      mimeType = 'application/vnd.citationstyles.csl+json'
+      break
+      
+    case 'zotero':
+      content = generateZoteroRDFFormat(citations)
+      fileExtension = 'rdf'
+      mimeType = 'application/rdf+xml'
+      break
+      
+    case 'word-xml':
+      content = generateWordXmlFormat(citations, options)
+      fileExtension = 'xml'
+      mimeType = 'application/xml'
+      break
+      
+    case 'html':
+      content = generateHtmlFormat(citations, style, options)
+      fileExtension = 'html'
+      mimeType = 'text/html'
+      break
+      
+    case 'markdown':
+      content = generateMarkdownFormat(citations, style, options)
+      fileExtension = 'md'
+      mimeType = 'text/markdown'
+      break
+      
+    case 'csv':
+      content = generateCsvFormat(citations)
+      fileExtension = 'csv'
+      mimeType = 'text/csv'
+      break
+      
     default:
       throw new Error(`Unsupported export format: ${format}`)
   }
@@ -0,0 +1,91 @@
+import type { Citation } from '@/App'
+
+/**
+ * Shared types and helpers for bringing references from other tools into
+ * the bibliography
+ */
+
+export interface ImportedCitation {
+  citation: Citation
+  // Where the entry came from, e.g. its BibTeX key
+  label: string
+  warnings: string[]
+}
+
+export interface ImportResult {
+  items: ImportedCitation[]
+  // Problems that stopped an entry from being read at all
+  errors: string[]
+  // Tags found in tagged formats (RIS, EndNote), for the field mapping screen
+  tags?: string[]
+}
+
+export type ImportFormat = 'bibtex' | 'ris' | 'endnote' | 'medline' | 'csl-json' | 'csv'
+
+export const importFormatNames: Record<ImportFormat, string> = {
+  bibtex: 'BibTeX / BibLaTeX',
+  ris: 'RIS',
+  endnote: 'EndNote tagged',
+  medline: 'PubMed / MEDLINE',
+  'csl-json': 'CSL-JSON',
+  csv: 'CSV / spreadsheet'
+}
+
+/**
+ * Guess the format of pasted or uploaded text from its first records
+ */
+export function detectImportFormat(text: string): ImportFormat | null {
+  if (/^\s*[[{]/.test(text)) return 'csl-json'
+  if (/^PMID- /m.test(text)) return 'medline'
+  if (/^TY {1,2}- /m.test(text)) return 'ris'
+  if (/^%0 /m.test(text)) return 'endnote'
+  if (/@\w+\s*[{(]/.test(text)) return 'bibtex'
+  const [header] = text.trimStart().split(/\r?\n/)
+  if (/\btitle\b/i.test(header) && /[,;\t]/.test(header)) return 'csv'
+  return null
+}
+
+/**
+ * Unique id for an imported citation
+ */
+export function createImportedId(): string {
+  return `import-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * The citation without the fields that were never set, so saved citations
+ * stay compact
+ */
+export function compactCitation(citation: Citation): Citation {
+  return Object.fromEntries(Object.entries(citation).filter(([, value]) => value !== undefined)) as Citation
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+/**
+ * An existing citation with the same DOI, or the same title and year
+ */
+export function findDuplicate(citation: Citation, existing: Citation[]): Citation | undefined {
+  const doi = citation.doi?.toLowerCase()
+  const title = normalizeTitle(citation.title)
+  return existing.find(other => {
+    if (doi && other.doi?.toLowerCase() === doi) return true
+    return Boolean(title) && normalizeTitle(other.title) === title && other.year === citation.year
+  })
+}
+
+/**
+ * Strip resolver prefixes so DOIs are stored bare ("10.1000/xyz")
+ */
+export function cleanDoi(value: string): string {
+  return value.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:\s*)/i, '')
+}
+
+/**
+ * Four-digit year from a date or free-text year field
+ */
+export function extractYear(value: string): string {
+  return value.match(/\b(1[5-9]|20)\d{2}\b/)?.[0] || ''
+}
@@ -0,0 +1,404 @@
+import type { BuiltinCitationStyle, Citation, CitationStyle } from '@/App'
+import { createRunList, disambiguateYears, type FormattedCitation } from '@/lib/citationFormatter'
+import { formatInTextWithCsl, isCslStyle } from '@/lib/cslStyles'
+import { familyName, formatNameList, initializeGiven, nameSortKey, type NameListOptions, type PersonName } from '@/lib/names'
+
+/**
+ * In-text citation engine for the built-in author-date and author-page styles
+ */
+
+export type LocatorLabel = 'page' | 'chapter' | 'section' | 'paragraph'
+
+export type InTextMode = 'parenthetical' | 'narrative'
+
+export interface InTextCite {
+  id: string
+  locator?: string
+  label?: LocatorLabel
+  prefix?: string
+  suffix?: string
+}
+
+interface InTextRules {
+  names: NameListOptions
+  /** Narrative citations spell out the connector: "Smith and Doe (2020)" */
+  narrativeAnd: string
+  /** Between author and year inside parentheses */
+  authorYearDelimiter: string
+  /** Before the locator */
+  locatorDelimiter: string
+  locatorLabels: Record<LocatorLabel, [string, string]>
+  /** How several sources in one parenthetical are ordered */
+  sort: 'author' | 'year' | 'none'
+  usesYear: boolean
+  /** Numeric styles cite reference numbers instead of authors */
+  marker?: { open: string; close: string; delimiter: string; superscript?: boolean }
+}
+
+const numericLocatorLabels: Record<LocatorLabel, [string, string]> = {
+  page: ['p.', 'pp.'],
+  chapter: ['ch.', 'chs.'],
+  section: ['sec.', 'secs.'],
+  paragraph: ['para.', 'paras.']
+}
+
+const numericNames: NameListOptions = {
+  invert: 'none',
+  delimiter: ', ',
+  and: 'and',
+  delimiterBeforeLast: 'never',
+  etAlMin: 3,
+  etAlUseFirst: 1,
+  etAlDelimiter: ' '
+}
+
+const inTextRules: Record<BuiltinCitationStyle, InTextRules> = {
+  apa: {
+    names: { invert: 'none', delimiter: ', ', and: '&', delimiterBeforeLast: 'contextual', etAlMin: 3, etAlUseFirst: 1, etAlDelimiter: ' ' },
+    narrativeAnd: 'and',
+    authorYearDelimiter: ', ',
+    locatorDelimiter: ', ',
+    locatorLabels: { page: ['p.', 'pp.'], chapter: ['Chapter', 'Chapters'], section: ['Section', 'Sections'], paragraph: ['para.', 'paras.'] },
+    sort: 'author',
+    usesYear: true
+  },
+  mla: {
+    names: { invert: 'none', delimiter: ', ', and: 'and', delimiterBeforeLast: 'contextual', etAlMin: 3, etAlUseFirst: 1, etAlDelimiter: ' ' },
+    narrativeAnd: 'and',
+    authorYearDelimiter: ' ',
+    locatorDelimiter: ' ',
+    locatorLabels: { page: ['', ''], chapter: ['ch.', 'chs.'], section: ['sec.', 'secs.'], paragraph: ['par.', 'pars.'] },
+    sort: 'none',
+    usesYear: false
+  },
+  chicago: {
+    names: { invert: 'none', delimiter: ', ', and: 'and', delimiterBeforeLast: 'contextual', etAlMin: 4, etAlUseFirst: 1, etAlDelimiter: ' ' },
+    narrativeAnd: 'and',
+    authorYearDelimiter: ' ',
+    locatorDelimiter: ', ',
+    locatorLabels: { page: ['', ''], chapter: ['chap.', 'chaps.'], section: ['sec.', 'secs.'], paragraph: ['para.', 'paras.'] },
+    sort: 'none',
+    usesYear: true
+  },
+  harvard: {
+    names: { invert: 'none', delimiter: ', ', and: 'and', delimiterBeforeLast: 'never', etAlMin: 4, etAlUseFirst: 1, etAlDelimiter: ' ' },
+    narrativeAnd: 'and',
+    authorYearDelimiter: ' ',
+    locatorDelimiter: ': ',
+    locatorLabels: { page: ['', ''], chapter: ['ch.', 'chs.'], section: ['sec.', 'secs.'], paragraph: ['para.', 'paras.'] },
+    sort: 'year',
+    usesYear: true
+  },
+  ieee: {
+    names: numericNames,
+    narrativeAnd: 'and',
+    authorYearDelimiter: ' ',
+    locatorDelimiter: ', ',
+    locatorLabels: numericLocatorLabels,
+    sort: 'none',
+    usesYear: false,
+    marker: { open: '[', close: ']', delimiter: ', ' }
+  },
+  vancouver: {
+    names: numericNames,
+    narrativeAnd: 'and',
+    authorYearDelimiter: ' ',
+    locatorDelimiter: ', ',
+    locatorLabels: numericLocatorLabels,
+    sort: 'none',
+    usesYear: false,
+    marker: { open: '(', close: ')', delimiter: ',' }
+  },
+  nature: {
+    names: numericNames,
+    narrativeAnd: 'and',
+    authorYearDelimiter: ' ',
+    locatorDelimiter: ', ',
+    locatorLabels: numericLocatorLabels,
+    sort: 'none',
+    usesYear: false,
+    marker: { open: '', close: '', delimiter: ',', superscript: true }
+  }
+}
+
+export const locatorLabels: Record<LocatorLabel, string> = {
+  page: 'Page',
+  chapter: 'Chapter',
+  section: 'Section',
+  paragraph: 'Paragraph'
+}
+
+function isPlural(locator: string): boolean {
+  return /[-–,&]|\band\b/.test(locator)
+}
+
+/**
+ * Render a locator with the style's label: "pp. 4–6", "chap. 3", "12"
+ */
+export function formatLocator(cite: InTextCite, style: BuiltinCitationStyle): string {
+  const locator = cite.locator?.trim()
+  if (!locator) return ''
+  const [single, plural] = inTextRules[style].locatorLabels[cite.label || 'page']
+  const label = isPlural(locator) ? plural : single
+  return label ? `${label} ${locator.replace(/-/g, '–')}` : locator.replace(/-/g, '–')
+}
+
+/**
+ * First authors who share a surname with a different person elsewhere in
+ * the bibliography get their initials: "J. Smith" vs "A. Smith"
+ */
+function needsInitials(author: PersonName, citations: Citation[]): boolean {
+  if (author.literal || !author.given) return false
+  const family = familyName(author).toLowerCase()
+  const initials = initializeGiven(author.given)
+  return citations.some(other => {
+    const first = other.authors[0]
+    return Boolean(first && !first.literal && familyName(first).toLowerCase() === family &&
+      first.given && initializeGiven(first.given) !== initials)
+  })
+}
+
+function formatAuthors(citation: Citation, citations: Citation[], rules: InTextRules, mode: InTextMode): string {
+  if (citation.authors.length === 0) {
+    return ''
+  }
+  const names: PersonName[] = citation.authors.map((author, index) => {
+    if (author.literal) return author
+    const family = familyName(author)
+    return index === 0 && needsInitials(author, citations)
+      ? { family, given: initializeGiven(author.given || '') }
+      : { family }
+  })
+  const options = mode === 'narrative' ? { ...rules.names, and: rules.narrativeAnd } : rules.names
+  return formatNameList(names, options)
+}
+
+/**
+ * Short form of a title used by MLA in-text citations and Chicago short
+ * notes: the main title, cut to four words
+ */
+export function shortTitle(citation: Citation): string {
+  const title = citation.title.split(/[:?.!]/)[0].trim()
+  const words = title.split(/\s+/)
+  return words.length > 4 ? words.slice(0, 4).join(' ') : title
+}
+
+// Standalone works are italicised, parts of a larger work are quoted
+function appendShortTitle(out: ReturnType<typeof createRunList>, citation: Citation) {
+  if (['book', 'report', 'thesis', 'dataset', 'software', 'patent', 'standard'].includes(citation.type)) {
+    out.italic(shortTitle(citation))
+  } else {
+    out.text(`"${shortTitle(citation)}"`)
+  }
+}
+
+interface PreparedCite {
+  cite: InTextCite
+  citation: Citation
+  authors: string
+  sortKey: string
+  year: string
+  locator: string
+  needsTitle: boolean
+}
+
+function prepareCites(cites: InTextCite[], citations: Citation[], style: BuiltinCitationStyle, mode: InTextMode): PreparedCite[] {
+  const rules = inTextRules[style]
+  const years = disambiguateYears(citations, style)
+  const prepared = cites.flatMap(cite => {
+    const citation = citations.find(c => c.id === cite.id)
+    if (!citation) return []
+    const authors = formatAuthors(citation, citations, rules, mode)
+    const authorKey = citation.authors.map(nameSortKey).join('|')
+    return [{
+      cite,
+      citation,
+      authors,
+      sortKey: authorKey || citation.title.toLowerCase(),
+      year: years.get(citation.id) || 'n.d.',
+      locator: formatLocator(cite, style),
+      needsTitle: !rules.usesYear && (authors === '' ||
+        citations.some(other => other.id !== citation.id && other.authors.map(nameSortKey).join('|') === authorKey))
+    }]
+  })
+
+  if (rules.sort === 'author') {
+    prepared.sort((a, b) => a.sortKey.localeCompare(b.sortKey) || a.year.localeCompare(b.year))
+  } else if (rules.sort === 'year') {
+    prepared.sort((a, b) => a.year.localeCompare(b.year))
+  }
+  return prepared
+}
+
+/**
+ * Collapse runs of three or more consecutive numbers: [1, 2, 3, 5] → "1–3, 5"
+ */
+export function compressNumbers(numbers: number[], delimiter = ', '): string {
+  const sorted = Array.from(new Set(numbers)).sort((a, b) => a - b)
+  const parts: string[] = []
+  for (let start = 0; start < sorted.length;) {
+    let end = start
+    while (end + 1 < sorted.length && sorted[end + 1] === sorted[end] + 1) end++
+    if (end - start >= 2) {
+      parts.push(`${sorted[start]}–${sorted[end]}`)
+    } else {
+      for (let i = start; i <= end; i++) parts.push(String(sorted[i]))
+    }
+    start = end + 1
+  }
+  return parts.join(delimiter)
+}
+
+/**
+ * Numeric markers: reference numbers come from each source's position in the
+ * bibliography. Sources without a locator share one compressed marker
+ * ("[1, 3–5]"); sources with one get their own ("[2, p. 7]"). The first
+ * source's prefix and the last source's suffix wrap the whole citation.
+ */
+function formatNumericInText(cites: InTextCite[], citations: Citation[], style: BuiltinCitationStyle, mode: InTextMode): FormattedCitation {
+  const rules = inTextRules[style]
+  const marker = rules.marker as NonNullable<InTextRules['marker']>
+  const out = createRunList()
+  const numbered = cites.flatMap(cite => {
+    const index = citations.findIndex(c => c.id === cite.id)
+    return index < 0 ? [] : [{ cite, citation: citations[index], number: index + 1, locator: formatLocator(cite, style) }]
+  })
+  if (numbered.length === 0) return out.runs
+
+  const appendMarker = (content: string) => {
+    const text = `${marker.open}${content}${marker.close}`
+    if (marker.superscript) {
+      out.superscript(text)
+    } else {
+      out.text(text)
+    }
+  }
+
+  const prefix = numbered[0].cite.prefix?.trim()
+  const suffix = numbered[numbered.length - 1].cite.suffix?.trim()
+  if (prefix) out.text(`${prefix} `)
+
+  if (mode === 'narrative') {
+    numbered.forEach((item, index) => {
+      if (index > 0) out.text(index === numbered.length - 1 ? ` ${rules.narrativeAnd} ` : ', ')
+      const authors = formatAuthors(item.citation, citations, rules, mode)
+      out.text(authors ? `${authors}${marker.superscript ? '' : ' '}` : '')
+      appendMarker(item.locator ? `${item.number}${rules.locatorDelimiter}${item.locator}` : String(item.number))
+    })
+  } else {
+    const plain = numbered.filter(item => !item.locator).map(item => item.number)
+    const located = numbered.filter(item => item.locator)
+    const markers = [
+      ...(plain.length > 0 ? [compressNumbers(plain, marker.delimiter)] : []),
+      ...located.map(item => `${item.number}${rules.locatorDelimiter}${item.locator}`)
+    ]
+    markers.forEach((content, index) => {
+      if (index > 0) {
+        if (marker.superscript) {
+          out.superscript(marker.delimiter)
+        } else {
+          out.text(', ')
+        }
+      }
+      appendMarker(content)
+    })
+  }
+
+  if (suffix) out.text(/^[,.;:]/.test(suffix) ? suffix : ` ${suffix}`)
+  return out.runs
+}
+
+/**
+ * Format one or more sources as an in-text citation. Parenthetical forms
+ * combine the sources in one set of parentheses ("(Doe, 2019; Smith, 2020a,
+ * p. 4)"); narrative forms keep the authors in the running text ("Smith
+ * (2020) argues"). CSL styles have no narrative form and always render
+ * through the uploaded style.
+ */
+export function formatInText(
+  cites: InTextCite[],
+  citations: Citation[],
+  style: CitationStyle,
+  mode: InTextMode = 'parenthetical'
+): FormattedCitation {
+  if (isCslStyle(style)) {
+    return formatInTextWithCsl(cites, citations, style)
+  }
+
+  if (inTextRules[style].marker) {
+    return formatNumericInText(cites, citations, style, mode)
+  }
+
+  const rules = inTextRules[style]
+  const prepared = prepareCites(cites, citations, style, mode)
+  const out = createRunList()
+  if (prepared.length === 0) return out.runs
+
+  const appendDetails = (item: PreparedCite, includeAuthors: boolean) => {
+    const showAuthors = includeAuthors && Boolean(item.authors)
+    const showTitle = item.needsTitle || (includeAuthors && !item.authors)
+    if (showAuthors) out.text(item.authors)
+    if (showTitle) {
+      if (showAuthors) out.text(', ')
+      appendShortTitle(out, item.citation)
+    }
+    if (rules.usesYear) {
+      if (showTitle) {
+        out.text(', ')
+      } else if (showAuthors) {
+        out.text(rules.authorYearDelimiter)
+      }
+      out.text(item.year)
+    }
+    if (item.locator) {
+      if (rules.usesYear) {
+        out.text(rules.locatorDelimiter)
+      } else if (showAuthors || showTitle) {
+        out.text(' ')
+      }
+      out.text(item.locator)
+    }
+  }
+
+  if (mode === 'narrative') {
+    prepared.forEach((item, index) => {
+      if (index > 0) out.text(index === prepared.length - 1 ? ` ${rules.narrativeAnd} ` : ', ')
+      if (item.cite.prefix) out.text(`${item.cite.prefix.trim()} `)
+      if (item.authors) {
+        out.text(item.authors)
+      } else {
+        appendShortTitle(out, item.citation)
+      }
+      const hasDetails = rules.usesYear || item.locator || (item.needsTitle && item.authors)
+      if (hasDetails) {
+        out.text(' (')
+        appendDetails(item, false)
+        out.text(')')
+      }
+      if (item.cite.suffix) out.text(` ${item.cite.suffix.trim()}`)
+    })
+    return out.runs
+  }
+
+  out.text('(')
+  prepared.forEach((item, index) => {
+    const previous = prepared[index - 1]
+    // Consecutive works by the same authors share one author name: "Smith, 2019, 2020"
+    const sameAuthors = previous && item.authors && previous.authors === item.authors &&
+      !previous.locator && !previous.cite.suffix && !item.cite.prefix && rules.usesYear && !item.needsTitle
+    if (index > 0) out.text(sameAuthors ? ', ' : '; ')
+    if (item.cite.prefix) out.text(`${item.cite.prefix.trim()} `)
+    if (sameAuthors) {
+      out.text(item.year)
+      if (item.locator) out.text(`${rules.locatorDelimiter}${item.locator}`)
+    } else {
+      appendDetails(item, true)
+    }
+    if (item.cite.suffix) {
+      const suffix = item.cite.suffix.trim()
+      out.text(/^[,.;:]/.test(suffix) ? suffix : `, ${suffix}`)
+    }
+  })
+  out.text(')')
+  return out.runs
+}
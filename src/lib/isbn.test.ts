@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { isbn10To13, isbn13To10, isValidIsbn10, isValidIsbn13, parseIsbn } from '@/lib/isbn'
+
+describe('ISBN check digits', () => {
+  it('accepts valid ISBNs written with hyphens, spaces or a label', () => {
+    expect(isValidIsbn10('0-306-40615-2')).toBe(true)
+    expect(isValidIsbn10('080442957x')).toBe(true)
+    expect(isValidIsbn13('ISBN 978 0 306 40615 7')).toBe(true)
+  })
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidIsbn10('0-306-40615-3')).toBe(false)
+    expect(isValidIsbn13('978-0-306-40615-8')).toBe(false)
+    expect(parseIsbn('978-0-306-40615-8')).toBeNull()
+  })
+})
+
+describe('ISBN conversion', () => {
+  it('converts between the two forms', () => {
+    expect(isbn10To13('0-306-40615-2')).toBe('9780306406157')
+    expect(isbn10To13('080442957X')).toBe('9780804429573')
+    expect(isbn13To10('9780306406157')).toBe('0306406152')
+  })
+
+  it('has no 10-digit form for 979- ISBNs', () => {
+    expect(isbn13To10('9791234567896')).toBeNull()
+    expect(parseIsbn('979-1-234-56789-6')).toEqual({ isbn13: '9791234567896', isbn10: null })
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * ISBN validation and conversion between the 10- and 13-digit forms
+ */
+
+export interface Isbn {
+  isbn13: string
+  // Only 978- ISBNs have a 10-digit form
+  isbn10: string | null
+}
+
+// "ISBN-13: 978-0-306-40615-7" to "9780306406157"
+function compact(value: string): string {
+  return value.replace(/^\s*ISBN(?:-1[03])?:?/i, '').replace(/[\s-]/g, '').toUpperCase()
+}
+
+function isbn10CheckDigit(first9: string): string {
+  const sum = first9.split('').reduce((total, digit, index) => total + Number(digit) * (10 - index), 0)
+  const check = (11 - (sum % 11)) % 11
+  return check === 10 ? 'X' : String(check)
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = first12.split('').reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0)
+  return String((10 - (sum % 10)) % 10)
+}
+
+export function isValidIsbn10(value: string): boolean {
+  const isbn = compact(value)
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9]
+}
+
+export function isValidIsbn13(value: string): boolean {
+  const isbn = compact(value)
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12]
+}
+
+/**
+ * ISBN-13 for a valid ISBN-10, or null
+ */
+export function isbn10To13(value: string): string | null {
+  if (!isValidIsbn10(value)) return null
+  const first12 = `978${compact(value).slice(0, 9)}`
+  return first12 + isbn13CheckDigit(first12)
+}
+
+/**
+ * ISBN-10 for a valid 978- ISBN-13, or null
+ */
+export function isbn13To10(value: string): string | null {
+  if (!isValidIsbn13(value)) return null
+  const isbn = compact(value)
+  if (!isbn.startsWith('978')) return null
+  const first9 = isbn.slice(3, 12)
+  return first9 + isbn10CheckDigit(first9)
+}
+
+/**
+ * Both forms of an ISBN written either way, with or without hyphens and an
+ * "ISBN" label. Null when the check digit does not match.
+ */
+export function parseIsbn(value: string): Isbn | null {
+  if (isValidIsbn13(value)) {
+    return { isbn13: compact(value), isbn10: isbn13To10(value) }
+  }
+  const isbn13 = isbn10To13(value)
+  return isbn13 ? { isbn13, isbn10: compact(value) } : null
+}
@@ -0,0 +1,305 @@
+/**
+ * Conversion between LaTeX markup, as found in BibTeX files, and plain
+ * Unicode text
+ */
+
+// Accent commands and the combining characters they produce
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '"': '\u0308',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  u: '\u0306',
+  v: '\u030c',
+  H: '\u030b',
+  c: '\u0327',
+  k: '\u0328',
+  r: '\u030a',
+  d: '\u0323',
+  b: '\u0331'
+}
+
+// Commands that stand for a letter or symbol on their own
+const SYMBOLS: Record<string, string> = {
+  ss: 'ß',
+  o: 'ø',
+  O: 'Ø',
+  ae: 'æ',
+  AE: 'Æ',
+  oe: 'œ',
+  OE: 'Œ',
+  aa: 'å',
+  AA: 'Å',
+  l: 'ł',
+  L: 'Ł',
+  i: 'ı',
+  j: 'ȷ',
+  dh: 'ð',
+  DH: 'Ð',
+  th: 'þ',
+  TH: 'Þ',
+  ng: 'ŋ',
+  NG: 'Ŋ',
+  textendash: '–',
+  textemdash: '—',
+  textquoteleft: '‘',
+  textquoteright: '’',
+  textquotedblleft: '“',
+  textquotedblright: '”',
+  textregistered: '®',
+  texttrademark: '™',
+  textcopyright: '©',
+  textdegree: '°',
+  S: '§',
+  P: '¶',
+  dag: '†',
+  ddag: '‡',
+  pounds: '£',
+  euro: '€',
+  copyright: '©',
+  ldots: '…',
+  dots: '…',
+  textellipsis: '…',
+  alpha: 'α',
+  beta: 'β',
+  gamma: 'γ',
+  delta: 'δ',
+  epsilon: 'ε',
+  lambda: 'λ',
+  mu: 'μ',
+  pi: 'π',
+  sigma: 'σ',
+  omega: 'ω',
+  Delta: 'Δ',
+  Omega: 'Ω',
+  times: '×',
+  pm: '±',
+  textbackslash: '\\',
+  textasciitilde: '~',
+  textasciicircum: '^',
+  TeX: 'TeX',
+  LaTeX: 'LaTeX',
+  BibTeX: 'BibTeX'
+}
+
+// Single-character escapes such as \& and \%
+const ESCAPED = '&%$#_{}'
+
+// Commands whose first argument is not part of the text
+const DROP_FIRST_ARGUMENT = new Set(['href'])
+
+interface Argument {
+  text: string
+  end: number
+}
+
+function readGroup(input: string, start: number): Argument {
+  let depth = 0
+  for (let index = start; index < input.length; index++) {
+    if (input[index] === '\\') {
+      index++
+    } else if (input[index] === '{') {
+      depth++
+    } else if (input[index] === '}') {
+      depth--
+      if (depth === 0) return { text: input.slice(start + 1, index), end: index + 1 }
+    }
+  }
+  return { text: input.slice(start + 1), end: input.length }
+}
+
+// The argument of an accent: "{o}", "o", "{\i}" or "\i"
+function readArgument(input: string, start: number): Argument {
+  let index = start
+  while (input[index] === ' ') index++
+  if (input[index] === '{') {
+    const group = readGroup(input, index)
+    return { text: decodeLatex(group.text), end: group.end }
+  }
+  if (input[index] === '\\') {
+    const match = input.slice(index + 1).match(/^[a-zA-Z]+/)
+    if (match) {
+      return { text: SYMBOLS[match[0]] ?? '', end: index + 1 + match[0].length }
+    }
+  }
+  return { text: input[index] ?? '', end: Math.min(index + 1, input.length) }
+}
+
+function applyAccent(text: string, accent: string): string {
+  if (!text) return accent.trim()
+  // Accented dotless i and j are written with the plain letters in Unicode
+  const base = text[0] === 'ı' ? 'i' : text[0] === 'ȷ' ? 'j' : text[0]
+  return `${base}${accent}${text.slice(1)}`.normalize('NFC')
+}
+
+/**
+ * Decode LaTeX accents, escapes, symbols and formatting commands into plain
+ * text. Grouping braces and math delimiters are dropped.
+ */
+export function decodeLatex(input: string): string {
+  let output = ''
+  let index = 0
+
+  while (index < input.length) {
+    const char = input[index]
+
+    if (char === '\\') {
+      const next = input[index + 1]
+      if (next === undefined) break
+
+      if (ESCAPED.includes(next)) {
+        output += next
+        index += 2
+        continue
+      }
+
+      if (next in ACCENTS && !/[a-zA-Z]/.test(next)) {
+        const argument = readArgument(input, index + 2)
+        output += applyAccent(argument.text, ACCENTS[next])
+        index = argument.end
+        continue
+      }
+
+      const command = input.slice(index + 1).match(/^[a-zA-Z]+/)?.[0]
+      if (!command) {
+        // "\\", "\," and other spacing commands
+        output += ' '
+        index += 2
+        continue
+      }
+
+      index += 1 + command.length
+      if (command in ACCENTS) {
+        const argument = readArgument(input, index)
+        output += applyAccent(argument.text, ACCENTS[command])
+        index = argument.end
+      } else if (command in SYMBOLS) {
+        output += SYMBOLS[command]
+        // "\ss{}" and "\o " consume the empty group or space that ends them
+        if (input.startsWith('{}', index)) index += 2
+        else if (input[index] === ' ') index++
+      } else {
+        while (input[index] === ' ') index++
+        if (DROP_FIRST_ARGUMENT.has(command) && input[index] === '{') {
+          index = readGroup(input, index).end
+        }
+        // Other commands (\emph, \textit, \url...) keep their argument text
+      }
+      continue
+    }
+
+    if (char === '{' || char === '}' || char === '$') {
+      index++
+      continue
+    }
+
+    output += char === '~' ? ' ' : char
+    index++
+  }
+
+  return output
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/``/g, '“')
+    .replace(/''/g, '”')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Characters written as a command, in preference to the other spellings
+// that decode to them
+const TEXT_COMMANDS: Record<string, string> = {}
+const MATH_SYMBOLS = new Set(['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'lambda', 'mu', 'pi', 'sigma', 'omega', 'Delta', 'Omega', 'times', 'pm'])
+for (const [command, symbol] of Object.entries(SYMBOLS)) {
+  if ([...symbol].length === 1 && !(symbol in TEXT_COMMANDS)) TEXT_COMMANDS[symbol] = command
+}
+
+// Punctuation with a plain LaTeX spelling
+const LATEX_PUNCTUATION: Record<string, string> = {
+  '–': '--',
+  '—': '---',
+  '‘': '`',
+  '’': "'",
+  '“': '``',
+  '”': "''",
+  '\\': '\\textbackslash{}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+  '{': '\\{',
+  '}': '\\}'
+}
+
+const ACCENT_COMMANDS = Object.fromEntries(Object.entries(ACCENTS).map(([command, mark]) => [mark, command]))
+
+// "é" as {\'e}, "č" as {\v{c}}; stacked accents nest
+function encodeAccented(char: string): string | undefined {
+  const [base, ...marks] = [...char.normalize('NFD')]
+  if (marks.length === 0 || !/[a-zA-Z]/.test(base) || !marks.every(mark => mark in ACCENT_COMMANDS)) return undefined
+  // The dot over i and j is replaced by the accent
+  let encoded = base === 'i' ? '\\i' : base === 'j' ? '\\j' : base
+  for (const mark of marks) {
+    const command = ACCENT_COMMANDS[mark]
+    encoded = /[a-zA-Z]/.test(command) || encoded.length > 1
+      ? `\\${command}{${encoded}}`
+      : `\\${command}${encoded}`
+  }
+  return `{${encoded}}`
+}
+
+/**
+ * Encode plain text for a BibTeX field: special characters are escaped and
+ * accented letters and symbols become LaTeX commands, so the file builds
+ * with plain BibTeX as well as Biber
+ */
+export function encodeLatex(text: string): string {
+  let output = ''
+  for (const char of text.normalize('NFC')) {
+    if (ESCAPED.includes(char) && char !== '{' && char !== '}') {
+      output += `\\${char}`
+    } else if (char in LATEX_PUNCTUATION) {
+      output += LATEX_PUNCTUATION[char]
+    } else if (char.charCodeAt(0) < 128) {
+      output += char
+    } else if (char in TEXT_COMMANDS) {
+      const command = TEXT_COMMANDS[char]
+      output += MATH_SYMBOLS.has(command) ? `$\\${command}$` : `{\\${command}}`
+    } else {
+      output += encodeAccented(char) ?? char
+    }
+  }
+  return output
+}
+
+// Words that stay lower case in title-case titles
+const SMALL_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'but', 'or', 'nor', 'for', 'so', 'yet', 'as', 'at', 'by', 'in', 'of',
+  'off', 'on', 'per', 'to', 'up', 'via', 'with', 'from', 'into', 'over', 'vs'
+])
+
+/**
+ * Encode a title for BibTeX, bracing acronyms and proper nouns so styles
+ * that lower-case titles leave them alone. In a title-case title every
+ * capitalised word is ordinary, so only words with capitals after the first
+ * letter (DNA, iPhone, McDonald) are braced there.
+ */
+export function encodeLatexTitle(title: string): string {
+  const tokens = title.split(/(\s+)/)
+  const words = tokens.filter(token => /\p{L}/u.test(token)).slice(1)
+    .filter(word => !SMALL_WORDS.has(word.toLowerCase()))
+  const capitalised = words.filter(word => /^\P{L}*\p{Lu}/u.test(word)).length
+  const titleCase = words.length > 0 && capitalised / words.length > 0.5
+
+  let sentenceStart = true
+  return tokens.map(token => {
+    if (!token.trim()) return token
+    const [, lead, core, trail] = token.match(/^([^\p{L}\p{N}]*)([\s\S]*?)([^\p{L}\p{N}]*)$/u) as RegExpMatchArray
+    const protect = /\p{L}\p{Lu}/u.test(core) || (!titleCase && !sentenceStart && /^\p{Lu}/u.test(core))
+    // A colon or full stop starts a subtitle or sentence, capitalised as usual
+    sentenceStart = /[:?!.]$/.test(token)
+    const encoded = encodeLatex(core)
+    return `${encodeLatex(lead)}${protect ? `{${encoded}}` : encoded}${encodeLatex(trail)}`
+  }).join('')
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { applyResultEdits, createProvenance, type SearchResult } from '@/lib/metadataProviders'
+import { parseNameList } from '@/lib/names'
+
+const result: SearchResult = {
+  id: 'crossref-10.1000/x',
+  type: 'article',
+  title: 'Sleep and memory',
+  authors: parseNameList('Smith, Jane; van der Berg, Jan'),
+  year: '2020',
+  journal: 'Sleep',
+  doi: '10.1000/x',
+  confidence: 0.9,
+  providers: ['crossref'],
+  provenance: createProvenance('crossref', 'https://api.crossref.org/works?query=sleep', true)
+}
+
+describe('applyResultEdits', () => {
+  it('keeps a record verified when nothing changed', () => {
+    const edited = applyResultEdits(result, { ...result, authors: parseNameList('Smith, Jane; van der Berg, Jan') })
+    expect(edited.provenance).toBe(result.provenance)
+  })
+
+  it('marks a changed record as edited, keeping the lookup', () => {
+    const edited = applyResultEdits(result, { ...result, title: 'Sleep and memory revisited' })
+    expect(edited.provenance).toMatchObject({
+      source: 'edited',
+      request: 'https://api.crossref.org/works?query=sleep',
+      verified: false
+    })
+  })
+
+  it('counts changed or added authors and fields as edits', () => {
+    expect(applyResultEdits(result, { ...result, authors: parseNameList('Smith, Jane') }).provenance.verified).toBe(false)
+    expect(applyResultEdits(result, { ...result, pages: '1-9' }).provenance.verified).toBe(false)
+  })
+})
@@ -0,0 +1,521 @@
+import type { Citation, SourceType } from '@/App'
+import { compactCitation } from '@/lib/importUtils'
+import { parseIsbn } from '@/lib/isbn'
+import { formatNameInverted, type PersonName } from '@/lib/names'
+
+/**
+ * Bibliographic databases behind article search. Each provider maps its own
+ * API onto search results; searches run against every provider at once and
+ * the results are merged into one ranked list.
+ *
+ * Providers take their endpoint and fetch function as options so they can be
+ * pointed at a local server instead of the live service.
+ */
+
+/**
+ * Where a record came from. Only records returned by a bibliographic
+ * database are verified; anything typed, pasted or imported is not.
+ */
+export interface Provenance {
+  // Database id ("crossref", "pubmed"...), "edited" for a database record
+  // the user changed, or "manual", "import", "url" or "reference-list" for
+  // records entered by the user
+  source: string
+  // The API request or file the record was read from
+  request?: string
+  // ISO timestamp
+  retrievedAt: string
+  verified: boolean
+}
+
+const PROVENANCE_SOURCES: Record<string, string> = {
+  'doi': 'DOI.org',
+  'crossref': 'CrossRef',
+  'pubmed': 'PubMed',
+  'openalex': 'OpenAlex',
+  'arxiv': 'arXiv',
+  'openlibrary': 'Open Library',
+  'edited': 'Edited after a database lookup',
+  'manual': 'Entered manually',
+  'import': 'Imported from a file',
+  'url': 'Entered from a web page',
+  'reference-list': 'Parsed from a reference list'
+}
+
+export function createProvenance(source: string, request?: string, verified = false): Provenance {
+  return { source, request, retrievedAt: new Date().toISOString(), verified }
+}
+
+/**
+ * Readable origin of a record, e.g. "CrossRef, 3 March 2025"
+ */
+export function describeProvenance(provenance: Provenance): string {
+  const source = PROVENANCE_SOURCES[provenance.source] || provenance.source
+  const date = new Date(provenance.retrievedAt)
+  if (isNaN(date.getTime())) return source
+  return `${source}, ${date.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' })}`
+}
+
+/**
+ * Provenance of a database record once the user has changed it. It no
+ * longer matches what the database returned, so it is not verified; the
+ * lookup it started from stays as the request.
+ */
+export function editedProvenance(provenance: Provenance): Provenance {
+  return provenance.verified ? createProvenance('edited', provenance.request) : provenance
+}
+
+export interface SearchResult {
+  id: string
+  type: SourceType
+  title: string
+  authors: PersonName[]
+  year: string
+  journal: string
+  doi?: string
+  abstract?: string
+  // Relevance to the query, 0 to 1
+  confidence: number
+  url?: string
+  pages?: string
+  volume?: string
+  issue?: string
+  publisher?: string
+  isbn?: string
+  edition?: string
+  city?: string
+  version?: string
+  repository?: string
+  archiveId?: string
+  patentNumber?: string
+  runtime?: string
+  // Ids of the providers that returned this record, the one whose details
+  // are shown first
+  providers: string[]
+  // Request that returned the details shown
+  provenance: Provenance
+}
+
+export type IdentifierType = 'doi' | 'pmid' | 'arxiv' | 'isbn'
+
+export interface Identifier {
+  type: IdentifierType
+  value: string
+}
+
+export interface ProviderCapabilities {
+  // Free-text search
+  search: boolean
+  // Identifiers the provider can look up directly
+  identifiers: IdentifierType[]
+}
+
+// At most this many requests in any window of intervalMs
+export interface RateLimit {
+  requests: number
+  intervalMs: number
+}
+
+export interface SearchOptions {
+  limit?: number
+  signal?: AbortSignal
+}
+
+export interface MetadataProvider {
+  id: string
+  name: string
+  capabilities: ProviderCapabilities
+  rateLimit: RateLimit
+  search: (query: string, options?: SearchOptions) => Promise<SearchResult[]>
+  lookup: (identifier: Identifier, options?: SearchOptions) => Promise<SearchResult | null>
+}
+
+export interface ProviderOptions {
+  // Root of the API, without a trailing slash
+  baseUrl?: string
+  fetch?: typeof fetch
+  // Contact address for services that give identified clients a faster pool
+  mailto?: string
+}
+
+export interface ProviderError {
+  provider: string
+  message: string
+}
+
+export interface MetadataSearchResult {
+  results: SearchResult[]
+  errors: ProviderError[]
+}
+
+export const DEFAULT_SEARCH_LIMIT = 6
+
+// How long the search box waits for the databases before giving up on the
+// ones that have not answered
+export const SEARCH_TIMEOUT_MS = 20000
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Queue requests so a provider never goes over its rate limit. Returns a
+ * function that runs a task once a slot is free.
+ */
+export function createRateLimiter({ requests, intervalMs }: RateLimit) {
+  const started: number[] = []
+  let queue: Promise<void> = Promise.resolve()
+
+  return function schedule<T>(task: () => Promise<T>): Promise<T> {
+    const slot = queue.then(async () => {
+      for (;;) {
+        const now = Date.now()
+        while (started.length > 0 && now - started[0] >= intervalMs) started.shift()
+        if (started.length < requests) {
+          started.push(now)
+          return
+        }
+        await delay(intervalMs - (now - started[0]))
+      }
+    })
+    queue = slot
+    return slot.then(task)
+  }
+}
+
+export interface HttpResponse<T> {
+  body: T
+  // Full request URL, kept as the record's provenance
+  url: string
+}
+
+export interface HttpClient {
+  // Parsed JSON, or null when the record does not exist (404)
+  getJson: <T>(path: string, params?: Record<string, string>, signal?: AbortSignal) => Promise<HttpResponse<T> | null>
+  getText: (path: string, params?: Record<string, string>, signal?: AbortSignal) => Promise<HttpResponse<string> | null>
+}
+
+/**
+ * Rate-limited GET requests against one provider's API, with the given
+ * headers on every request
+ */
+export function createHttpClient(
+  name: string,
+  baseUrl: string,
+  rateLimit: RateLimit,
+  fetcher: typeof fetch = (input, init) => fetch(input, init),
+  headers: Record<string, string> = {}
+): HttpClient {
+  const schedule = createRateLimiter(rateLimit)
+
+  const get = async (path: string, params: Record<string, string> = {}, signal?: AbortSignal) => {
+    const query = new URLSearchParams(Object.entries(params).filter(([, value]) => value !== '')).toString()
+    const url = `${baseUrl.replace(/\/+$/, '')}${path}${query ? `?${query}` : ''}`
+    const response = await schedule(() => fetcher(url, { headers, signal }))
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new Error(`${name} request failed: ${response.status}`)
+    }
+    return { response, url }
+  }
+
+  return {
+    getJson: async <T>(path: string, params?: Record<string, string>, signal?: AbortSignal) => {
+      const result = await get(path, params, signal)
+      return result ? { body: await result.response.json() as T, url: result.url } : null
+    },
+    getText: async (path: string, params?: Record<string, string>, signal?: AbortSignal) => {
+      const result = await get(path, params, signal)
+      return result ? { body: await result.response.text(), url: result.url } : null
+    }
+  }
+}
+
+function queryWords(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(word => word.length > 2)
+}
+
+// Title relevance: the whole query as a phrase, then individual words,
+// with a bonus when the title starts with the first word
+function titleRelevance(title: string, query: string): number {
+  const titleLower = title.toLowerCase()
+  const queryLower = query.trim().toLowerCase()
+  const words = queryWords(query)
+  if (!titleLower || !queryLower) return 0
+
+  let score = titleLower.includes(queryLower) ? 0.9 : 0
+  if (words.length > 0) {
+    score += (words.filter(word => titleLower.includes(word)).length / words.length) * 0.6
+    if (titleLower.startsWith(words[0])) score += 0.1
+  }
+  return Math.min(1, score)
+}
+
+function abstractRelevance(abstract: string, query: string): number {
+  const abstractLower = abstract.toLowerCase()
+  const queryLower = query.trim().toLowerCase()
+  const words = queryWords(query)
+  if (!abstractLower || !queryLower) return 0
+
+  let score = abstractLower.includes(queryLower) ? 0.7 : 0
+  if (words.length > 0) {
+    score += (words.filter(word => abstractLower.includes(word)).length / words.length) * 0.5
+  }
+  return Math.min(1, score)
+}
+
+/**
+ * How well a result matches a free-text query, 0 to 1. Authors and year
+ * count too, so "smith 2020 sleep" finds Smith's 2020 paper on sleep.
+ */
+export function scoreRelevance(result: SearchResult, query: string): number {
+  const title = titleRelevance(result.title, query)
+  const abstract = abstractRelevance(result.abstract || '', query)
+  const words = queryWords(query)
+  const families = result.authors.map(author => (author.family || author.literal || '').toLowerCase())
+  const authorMatch = words.some(word => families.some(family => family === word)) ? 0.1 : 0
+  const yearMatch = result.year && query.includes(result.year) ? 0.05 : 0
+  return Math.min(1, Math.max(title, (title + abstract) / 2) + authorMatch + yearMatch)
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/<[^>]+>/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+// Records are the same work when their DOIs match, or when they have no
+// DOI to compare and their titles and years match
+function recordKey(result: SearchResult): string {
+  return result.doi ? `doi:${result.doi.toLowerCase()}` : `title:${normalizeTitle(result.title)}|${result.year}`
+}
+
+function mergeRecord(first: SearchResult, other: SearchResult): SearchResult {
+  const merged = { ...first, providers: [...first.providers, ...other.providers.filter(id => !first.providers.includes(id))] }
+  ;(Object.keys(other) as (keyof SearchResult)[]).forEach(key => {
+    const value = merged[key]
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+      Object.assign(merged, { [key]: other[key] })
+    }
+  })
+  return merged
+}
+
+/**
+ * Merge results from several providers into one list ranked by relevance.
+ * Duplicates are combined, keeping the details from the earlier provider
+ * and filling gaps from the others; each extra provider that agrees on a
+ * record raises its rank a little, as does a high place in a provider's own
+ * ranking.
+ */
+export function mergeSearchResults(resultLists: SearchResult[][], query: string): SearchResult[] {
+  const records = new Map<string, { result: SearchResult; position: number }>()
+
+  resultLists.forEach(results => {
+    results.forEach((result, index) => {
+      // 1 for a provider's top hit, falling towards 0 down its list
+      const position = 1 - index / Math.max(results.length, 1)
+      const key = recordKey(result)
+      const existing = records.get(key)
+      records.set(key, existing
+        ? { result: mergeRecord(existing.result, result), position: Math.max(existing.position, position) }
+        : { result, position })
+    })
+  })
+
+  return [...records.values()]
+    .map(({ result, position }) => {
+      const agreement = (result.providers.length - 1) * 0.05
+      const confidence = scoreRelevance(result, query) * 0.85 + position * 0.15 + agreement
+      return { ...result, confidence: Math.round(Math.min(1, confidence) * 100) / 100 }
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+}
+
+/**
+ * Search every provider that supports free-text search. A provider that
+ * fails is reported in errors without losing the other providers' results.
+ */
+export async function searchMetadata(providers: MetadataProvider[], query: string, options: SearchOptions = {}): Promise<MetadataSearchResult> {
+  const searchable = providers.filter(provider => provider.capabilities.search)
+  const settled = await Promise.allSettled(searchable.map(provider => provider.search(query, options)))
+  const errors: ProviderError[] = []
+  const resultLists: SearchResult[][] = []
+
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      resultLists.push(outcome.value)
+    } else {
+      errors.push({ provider: searchable[index].id, message: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason) })
+    }
+  })
+
+  return { results: mergeSearchResults(resultLists, query), errors }
+}
+
+/**
+ * Look up an identifier with each provider that supports it, in order,
+ * until one has the record
+ */
+export async function lookupMetadata(providers: MetadataProvider[], identifier: Identifier, options: SearchOptions = {}): Promise<{ result: SearchResult | null; errors: ProviderError[] }> {
+  const errors: ProviderError[] = []
+  for (const provider of providers.filter(provider => provider.capabilities.identifiers.includes(identifier.type))) {
+    try {
+      const result = await provider.lookup(identifier, options)
+      if (result) return { result: { ...result, confidence: 1 }, errors }
+    } catch (error) {
+      errors.push({ provider: provider.id, message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+  return { result: null, errors }
+}
+
+/**
+ * Identifier in a link to a DOI resolver, an arXiv abstract or a PubMed page
+ */
+export function identifierFromUrl(url: string): Identifier | null {
+  const doi = url.match(/doi\.org\/(10\.\d{4,9}\/[^?#\s]+)/i)
+  if (doi) return { type: 'doi', value: decodeURIComponent(doi[1]) }
+  const arxiv = url.match(/arxiv\.org\/(?:abs|pdf)\/([\w.\/-]+?)(?:v\d+)?(?:\.pdf)?\/?(?:[?#]|$)/i)
+  if (arxiv) return { type: 'arxiv', value: arxiv[1] }
+  const pmid = url.match(/pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/i)
+  if (pmid) return { type: 'pmid', value: pmid[1] }
+  return null
+}
+
+// DOIs on their own, as "doi:10...", or as resolver links
+const DOI_PATTERN = /^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,9}\/\S+?)[.,;]?$/i
+
+// Digits, hyphens and spaces, optionally labelled "ISBN"
+const ISBN_PATTERN = /^(?:ISBN(?:-1[03])?:?\s*)?[\d][\d\s-]{8,15}[\dX]$/i
+
+/**
+ * Identifier typed or pasted into the search box, if the whole entry is
+ * one: a DOI in any of its usual forms, an ISBN with a valid check digit,
+ * or an arXiv or PubMed link
+ */
+export function detectIdentifier(query: string): Identifier | null {
+  const text = query.trim()
+  let decoded = text
+  try {
+    decoded = decodeURIComponent(text)
+  } catch {
+    // A stray "%" rather than an encoded link
+  }
+  const doi = decoded.match(DOI_PATTERN)
+  if (doi) return { type: 'doi', value: doi[1] }
+  const isbn = ISBN_PATTERN.test(text) ? parseIsbn(text) : null
+  if (isbn) return { type: 'isbn', value: isbn.isbn13 }
+  return /^https?:\/\/\S+$/i.test(text) ? identifierFromUrl(text) : null
+}
+
+/**
+ * Identifier as users write it, e.g. "DOI 10.1000/xyz123" or "PMID 123456"
+ */
+export function describeIdentifier(identifier: Identifier): string {
+  if (identifier.type === 'arxiv') return `arXiv:${identifier.value.replace(/^arxiv:/i, '')}`
+  return `${identifier.type.toUpperCase()} ${identifier.value}`
+}
+
+/**
+ * Look the query up directly when it is an identifier, otherwise search
+ * all providers. identifier tells the caller which happened.
+ */
+export async function findRecords(providers: MetadataProvider[], query: string, options: SearchOptions = {}): Promise<MetadataSearchResult & { identifier: Identifier | null }> {
+  const identifier = detectIdentifier(query)
+  if (!identifier) {
+    return { ...await searchMetadata(providers, query, options), identifier }
+  }
+  const { result, errors } = await lookupMetadata(providers, identifier, options)
+  return { results: result ? [result] : [], errors, identifier }
+}
+
+/**
+ * Search result for a full citation record, such as one read from CSL-JSON
+ */
+export function citationToSearchResult(citation: Citation, provider: string, provenance: Provenance): SearchResult {
+  return {
+    id: `${provider}-${citation.doi || citation.isbn || citation.id}`,
+    type: citation.type,
+    title: stripMarkup(citation.title),
+    authors: citation.authors,
+    year: citation.year,
+    journal: citation.source,
+    doi: citation.doi,
+    abstract: citation.abstract ? stripMarkup(citation.abstract) : undefined,
+    confidence: 1,
+    url: citation.url,
+    pages: citation.pages,
+    volume: citation.volume,
+    issue: citation.issue,
+    publisher: citation.publisher,
+    isbn: citation.isbn,
+    edition: citation.edition,
+    city: citation.city,
+    version: citation.version,
+    repository: citation.repository,
+    archiveId: citation.archiveId,
+    patentNumber: citation.patentNumber,
+    runtime: citation.runtime,
+    providers: [provider],
+    provenance
+  }
+}
+
+/**
+ * A search result after the user's edits. If any field the database
+ * returned was changed, the result loses its verified provenance.
+ */
+export function applyResultEdits(original: SearchResult, edited: SearchResult): SearchResult {
+  const comparable = (result: SearchResult, key: keyof SearchResult) =>
+    key === 'authors' ? result.authors.map(formatNameInverted).join('; ') : result[key] ?? ''
+  const keys = new Set([...Object.keys(original), ...Object.keys(edited)] as (keyof SearchResult)[])
+  const changed = [...keys].some(key =>
+    key !== 'provenance' && key !== 'confidence' &&
+    JSON.stringify(comparable(original, key)) !== JSON.stringify(comparable(edited, key))
+  )
+  return changed ? { ...edited, provenance: editedProvenance(original.provenance) } : edited
+}
+
+/**
+ * Citation for a search result, ready to save
+ */
+export function searchResultToCitation(result: SearchResult): Citation {
+  return compactCitation({
+    id: `citation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    title: result.title,
+    authors: result.authors,
+    year: result.year,
+    source: result.journal,
+    url: result.url || undefined,
+    doi: result.doi || undefined,
+    pages: result.pages || undefined,
+    volume: result.volume || undefined,
+    issue: result.issue || undefined,
+    publisher: result.publisher || undefined,
+    isbn: result.isbn || undefined,
+    edition: result.edition || undefined,
+    city: result.city || undefined,
+    version: result.version || undefined,
+    repository: result.repository || undefined,
+    archiveId: result.archiveId || undefined,
+    patentNumber: result.patentNumber || undefined,
+    runtime: result.runtime || undefined,
+    type: result.type,
+    dateAccessed: new Date().toISOString(),
+    provenance: result.provenance
+  })
+}
+
+/**
+ * Plain text from markup some APIs put in titles and abstracts (JATS, HTML)
+ */
+export function stripMarkup(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
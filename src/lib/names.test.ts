@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { parseNameList } from '@/lib/names'
+import { parseReferenceList } from '@/lib/referenceListParser'
+
+describe('parseNameList', () => {
+  it('keeps a multi-word family name in one inverted name', () => {
+    expect(parseNameList('Le Guin, Ursula K.')).toEqual([{ family: 'Le Guin', given: 'Ursula K.' }])
+    expect(parseNameList('Garcia Marquez, Gabriel')).toEqual([{ family: 'Garcia Marquez', given: 'Gabriel' }])
+  })
+
+  it('separates the particle of an inverted name', () => {
+    expect(parseNameList('van der Berg, Jan')).toEqual([{ family: 'Berg', given: 'Jan', particle: 'van der' }])
+    expect(parseNameList('de la Cruz, M.; Le Guin, U. K.')).toEqual([
+      { family: 'Cruz', given: 'M.', particle: 'de la' },
+      { family: 'Le Guin', given: 'U. K.' }
+    ])
+  })
+
+  it('still splits lists of names in either order', () => {
+    expect(parseNameList('John Smith, Jane Doe')).toEqual([
+      { given: 'John', family: 'Smith' },
+      { given: 'Jane', family: 'Doe' }
+    ])
+    expect(parseNameList('Smith, J., Jones, A.')).toEqual([
+      { family: 'Smith', given: 'J.' },
+      { family: 'Jones', given: 'A.' }
+    ])
+  })
+
+  it('reads multi-word family names in reference lists', () => {
+    const [reference] = parseReferenceList('Le Guin, U. K. (1969). The left hand of darkness. Ace Books.').references
+    expect(reference.citation.authors).toEqual([{ family: 'Le Guin', given: 'U. K.' }])
+  })
+})
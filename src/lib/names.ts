@@ -0,0 +1,357 @@
+/**
+ * Structured personal and institutional author names
+ */
+
+export interface PersonName {
+  family?: string
+  given?: string
+  particle?: string
+  suffix?: string
+  literal?: string
+}
+
+const PARTICLES = new Set([
+  'van', 'von', 'der', 'den', 'de', 'del', 'della', 'dello', 'dei', 'degli', 'di', 'da', 'du',
+  'des', 'la', 'le', 'ter', 'ten', 'te', 'dos', 'das', 'do', 'zu', 'zum', 'zur', 'af', 'av',
+  'al', 'el', 'bin', 'ibn', 'binti', 'st', 'st.', "d'", "l'", 'y'
+])
+
+const SUFFIXES = /^(jr|sr|jnr|snr|ii|iii|iv|v|vi|2nd|3rd)\.?$/i
+
+const HONORIFICS = /^(dr|prof|professor|mr|mrs|ms|mx|miss|sir|dame|rev|hon)\.?$/i
+
+const INSTITUTION_WORDS = /\b(organi[sz]ation|universit(y|ies)|institut(e|o)?|association|society|council|department|ministry|agency|committee|commission|foundation|group|inc|ltd|llc|plc|corporation|corp|company|cent(er|re)|bureau|office|team|board|consortium|network|federation|services?|government|collaboration|project|initiative|authority|administration|laboratory|hospital|school|college|academy|forum|alliance|program(me)?|nations)\b\.?/i
+
+function clean(value: string): string {
+  return value.replace(/\s+/g, ' ').trim()
+}
+
+function isParticle(word: string): boolean {
+  return PARTICLES.has(word.toLowerCase()) && word === word.toLowerCase()
+}
+
+function isSuffix(word: string): boolean {
+  return SUFFIXES.test(word.trim())
+}
+
+/**
+ * Corporate and institutional authors are kept as a single literal name
+ */
+function looksInstitutional(value: string): boolean {
+  if (/^\{.*\}$/.test(value)) return true
+  if (INSTITUTION_WORDS.test(value)) return true
+  // Bare acronyms such as WHO or NASA
+  return /^[A-Z][A-Z&]{1,9}$/.test(value)
+}
+
+function splitParticle(family: string): { particle?: string; family: string } {
+  const words = family.split(' ')
+  let index = 0
+  while (index < words.length - 1 && isParticle(words[index])) {
+    index++
+  }
+  if (index === 0) return { family }
+  return { particle: words.slice(0, index).join(' '), family: words.slice(index).join(' ') }
+}
+
+function formatInitials(letters: string): string {
+  return letters.split('').map(letter => `${letter}.`).join(' ')
+}
+
+function compact(name: PersonName): PersonName {
+  const result: PersonName = {}
+  ;(Object.keys(name) as (keyof PersonName)[]).forEach(key => {
+    const value = name[key]
+    if (value) result[key] = value
+  })
+  return result
+}
+
+/**
+ * Parse a free-text author string into a structured name. Handles inverted
+ * ("van der Berg, J."), natural ("Ludwig van Beethoven"), BibTeX
+ * ("von Last, Jr, First"), Vancouver ("Smith JA") and institutional forms.
+ */
+export function parseName(input: string): PersonName {
+  let value = clean(input)
+  if (!value) return {}
+
+  if (/^\{.*\}$/.test(value)) {
+    return { literal: value.slice(1, -1).trim() }
+  }
+
+  if (!value.includes(',') && looksInstitutional(value)) {
+    return { literal: value }
+  }
+
+  const parts = value.split(',').map(clean).filter(Boolean)
+
+  if (parts.length >= 2) {
+    let familyPart = parts[0]
+    let suffix: string | undefined
+    let given: string
+
+    if (parts.length >= 3 && isSuffix(parts[1])) {
+      suffix = parts[1]
+      given = parts.slice(2).join(', ')
+    } else if (parts.length >= 3 && isSuffix(parts[parts.length - 1])) {
+      suffix = parts[parts.length - 1]
+      given = parts.slice(1, -1).join(', ')
+    } else if (parts.length === 2 && isSuffix(parts[1])) {
+      // Natural order followed by a suffix: "Martin Luther King, Jr."
+      return compact({ ...parseName(parts[0]), suffix: parts[1] })
+    } else {
+      given = parts.slice(1).join(', ')
+    }
+
+    if (looksInstitutional(familyPart) && !given.match(/^[A-Z]\.?(\s?[A-Z]\.?)*$/)) {
+      return { literal: value }
+    }
+
+    // Trailing lowercase particles on the given name: "Berg, J. van der"
+    const givenWords = given.split(' ')
+    const trailing: string[] = []
+    while (givenWords.length > 1 && isParticle(givenWords[givenWords.length - 1])) {
+      trailing.unshift(givenWords.pop() as string)
+    }
+    given = givenWords.join(' ')
+
+    const split = splitParticle(familyPart)
+    familyPart = split.family
+    const particle = [trailing.join(' '), split.particle].filter(Boolean).join(' ')
+
+    return compact({
+      family: familyPart,
+      given,
+      particle: particle || undefined,
+      suffix
+    })
+  }
+
+  let words = value.split(' ').filter(word => !HONORIFICS.test(word) || value.split(' ').length === 1)
+  if (words.length === 0) words = [value]
+
+  let suffix: string | undefined
+  if (words.length > 2 && isSuffix(words[words.length - 1])) {
+    suffix = words.pop()
+  }
+
+  if (words.length === 1) {
+    return compact({ family: words[0], suffix })
+  }
+
+  // Vancouver/MEDLINE style: "Smith JA" or "van der Berg J"
+  const last = words[words.length - 1]
+  if (/^[A-Z]{1,3}$/.test(last) && /\p{Ll}/u.test(words[0] + words[words.length - 2])) {
+    const split = splitParticle(words.slice(0, -1).join(' '))
+    return compact({ ...split, given: formatInitials(last), suffix })
+  }
+
+  const particleStart = words.findIndex((word, index) => index > 0 && isParticle(word))
+  if (particleStart > 0) {
+    let particleEnd = particleStart
+    while (particleEnd < words.length - 1 && isParticle(words[particleEnd])) {
+      particleEnd++
+    }
+    return compact({
+      given: words.slice(0, particleStart).join(' '),
+      particle: words.slice(particleStart, particleEnd).join(' '),
+      family: words.slice(particleEnd).join(' '),
+      suffix
+    })
+  }
+
+  return compact({
+    given: words.slice(0, -1).join(' '),
+    family: last,
+    suffix
+  })
+}
+
+/**
+ * Split a typed author list into individual names. Semicolons and "and"
+ * always separate names; commas separate names unless the list is made of
+ * inverted "Family, Given" pairs.
+ */
+export function splitNameList(input: string): string[] {
+  const value = clean(input)
+  if (!value) return []
+
+  if (value.includes(';')) {
+    return value.split(';').map(clean).filter(Boolean)
+  }
+
+  const andParts = value.split(/\s+(?:and|&)\s+/i).map(clean).filter(Boolean)
+  if (andParts.length > 1) {
+    return andParts.flatMap(part => (part.includes(',') && !/^[^,]+,\s*[^,]+$/.test(part)) ? splitNameList(part) : [part])
+  }
+
+  // Suffixes belong to the name before them: "King, Martin Luther, Jr."
+  const pieces = value.split(',').map(clean).filter(Boolean).reduce<string[]>((merged, piece) => {
+    if (merged.length > 0 && isSuffix(piece)) {
+      merged[merged.length - 1] += `, ${piece}`
+    } else {
+      merged.push(piece)
+    }
+    return merged
+  }, [])
+  const looksFamily = (piece: string) => !splitParticle(piece.split(',')[0]).family.includes(' ')
+  const looksGiven = (piece: string) =>
+    /^(\p{Lu}\.?\s?-?)+$/u.test(piece) || isSuffix(piece) ||
+    piece.split(' ').length <= 3 && piece.split(' ').every(word => /^\p{Lu}/u.test(word))
+  // A lone pair with a multi-word family is one name, "Le Guin, Ursula K.",
+  // unless both halves read as full names: "John Smith, Jane Doe"
+  const onePair = pieces.length === 2 && looksGiven(pieces[1]) &&
+    (pieces[1].split(' ').length === 1 || /(^|\s)\p{Lu}\.?(\s|$)/u.test(pieces[1]))
+  const inverted = pieces.length % 2 === 0 && (onePair ||
+    pieces.every((piece, index) => index % 2 === 0 ? looksFamily(piece) : looksGiven(piece)))
+
+  if (inverted) {
+    const names: string[] = []
+    for (let index = 0; index < pieces.length; index += 2) {
+      names.push(`${pieces[index]}, ${pieces[index + 1]}`)
+    }
+    return names
+  }
+  return pieces
+}
+
+/**
+ * Parse a typed author list into structured names
+ */
+export function parseNameList(input: string): PersonName[] {
+  return splitNameList(input).map(parseName).filter(name => !isEmptyName(name))
+}
+
+/**
+ * Accept both structured names and legacy free-text author strings
+ */
+export function normalizeAuthors(authors: (string | PersonName)[] | undefined): PersonName[] {
+  return (authors || [])
+    .map(author => typeof author === 'string' ? parseName(author) : compact(author))
+    .filter(name => !isEmptyName(name))
+}
+
+export function isEmptyName(name: PersonName): boolean {
+  return !name.family && !name.given && !name.literal
+}
+
+export function isInstitution(name: PersonName): boolean {
+  return Boolean(name.literal)
+}
+
+/**
+ * The name used in running text and in-text citations: "van der Berg"
+ */
+export function familyName(name: PersonName): string {
+  if (name.literal) return name.literal
+  return [name.particle, name.family].filter(Boolean).join(' ') || name.given || ''
+}
+
+/**
+ * Natural reading order: "Johannes van der Berg Jr."
+ */
+export function formatNameNatural(name: PersonName): string {
+  if (name.literal) return name.literal
+  const base = [name.given, name.particle, name.family].filter(Boolean).join(' ')
+  return name.suffix ? `${base} ${name.suffix}` : base
+}
+
+/**
+ * Inverted order used by reference managers: "van der Berg, Johannes, Jr."
+ */
+export function formatNameInverted(name: PersonName): string {
+  if (name.literal) return name.literal
+  const family = familyName(name)
+  return [family, name.given, name.suffix].filter(Boolean).join(', ')
+}
+
+/**
+ * Key used to sort names alphabetically by family name
+ */
+export function nameSortKey(name: PersonName): string {
+  if (name.literal) return name.literal.toLowerCase()
+  return [name.family, name.particle, name.given].filter(Boolean).join(' ').toLowerCase()
+}
+
+export type InitialsForm = 'spaced' | 'compact' | 'bare'
+
+export interface NameListOptions {
+  /** Which names are written family-first */
+  invert: 'all' | 'first' | 'none'
+  /** Reduce given names to initials: "J. A." (spaced), "J.A." (compact) or "JA" (bare) */
+  initials?: InitialsForm
+  /** Between family and given name when inverted; defaults to ", " */
+  sortSeparator?: string
+  delimiter: string
+  /** Connector before the final name, e.g. "&" or "and" */
+  and?: string
+  /** When the delimiter also appears before the final connector */
+  delimiterBeforeLast: 'always' | 'never' | 'contextual'
+  /** Truncate lists of at least this many names */
+  etAlMin?: number
+  etAlUseFirst?: number
+  etAlTerm?: string
+  /** Separator before the et-al term; defaults to the delimiter */
+  etAlDelimiter?: string
+  /** Truncate with an ellipsis followed by the final name instead of a term */
+  etAlUseLast?: boolean
+}
+
+/**
+ * Reduce given names to initials, keeping hyphenated names joined: "Jean-Paul" → "J.-P."
+ */
+export function initializeGiven(given: string, form: InitialsForm = 'spaced'): string {
+  const words = given.replace(/\./g, '. ').split(/\s+/).filter(Boolean)
+  const initials = words.map(word => {
+    if (isParticle(word)) return form === 'bare' ? '' : word
+    const letters = word
+      .split('-')
+      .filter(Boolean)
+      .map(part => part.replace(/\.$/, '').charAt(0).toUpperCase())
+    return form === 'bare' ? letters.join('') : letters.map(letter => `${letter}.`).join('-')
+  })
+  return initials.join(form === 'spaced' ? ' ' : '')
+}
+
+function renderName(name: PersonName, inverted: boolean, options: NameListOptions): string {
+  if (name.literal) return name.literal
+  const given = name.given && options.initials ? initializeGiven(name.given, options.initials) : name.given
+  const styled = { ...name, given }
+  if (inverted && options.sortSeparator !== undefined) {
+    return [familyName(styled), styled.given, styled.suffix].filter(Boolean).join(options.sortSeparator)
+  }
+  return inverted ? formatNameInverted(styled) : formatNameNatural(styled)
+}
+
+/**
+ * Render an author list following a style's rules for inversion, initials,
+ * delimiters, et-al truncation and the final connector
+ */
+export function formatNameList(names: PersonName[], options: NameListOptions): string {
+  const isInverted = (index: number) =>
+    options.invert === 'all' || (options.invert === 'first' && index === 0)
+  const rendered = names.map((name, index) => renderName(name, isInverted(index) && !name.literal, options))
+
+  if (rendered.length === 0) return ''
+
+  const truncate = options.etAlMin !== undefined && rendered.length >= options.etAlMin
+  if (truncate) {
+    const shown = rendered.slice(0, Math.max(1, options.etAlUseFirst ?? 1))
+    if (options.etAlUseLast) {
+      return `${shown.join(options.delimiter)}${options.delimiter}. . . ${rendered[rendered.length - 1]}`
+    }
+    return `${shown.join(options.delimiter)}${options.etAlDelimiter ?? options.delimiter}${options.etAlTerm ?? 'et al.'}`
+  }
+
+  if (rendered.length === 1) return rendered[0]
+
+  if (!options.and) return rendered.join(options.delimiter)
+
+  const precedes = options.delimiterBeforeLast === 'always' ||
+    (options.delimiterBeforeLast === 'contextual' && rendered.length > 2)
+
+  const head = rendered.slice(0, -1).join(options.delimiter)
+  const last = rendered[rendered.length - 1]
+  return `${head}${precedes ? options.delimiter.trimEnd() : ''} ${options.and} ${last}`
+}
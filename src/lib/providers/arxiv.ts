@@ -0,0 +1,102 @@
+import { parseName } from '@/lib/names'
+import { cleanDoi, extractYear } from '@/lib/importUtils'
+import {
+  createHttpClient,
+  createProvenance,
+  DEFAULT_SEARCH_LIMIT,
+  stripMarkup,
+  type MetadataProvider,
+  type ProviderOptions,
+  type Provenance,
+  type SearchResult
+} from '@/lib/metadataProviders'
+
+/**
+ * arXiv API: preprints, returned as an Atom feed
+ */
+
+// Child elements by local name, whatever their namespace prefix
+function children(element: Element, name: string): Element[] {
+  return Array.from(element.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && (node as Element).localName === name
+  )
+}
+
+function childText(element: Element, name: string): string {
+  return (children(element, name)[0]?.textContent || '').replace(/\s+/g, ' ').trim()
+}
+
+// "http://arxiv.org/abs/2101.00001v2" to "2101.00001"
+function arxivId(entryId: string): string {
+  return entryId.replace(/^https?:\/\/arxiv\.org\/abs\//, '').replace(/v\d+$/, '')
+}
+
+function entryToResult(entry: Element, provenance: Provenance): SearchResult {
+  const id = arxivId(childText(entry, 'id'))
+  const doi = childText(entry, 'doi')
+  const link = children(entry, 'link').find(element => element.getAttribute('rel') === 'alternate')
+  return {
+    id: `arxiv-${id}`,
+    type: 'preprint',
+    title: stripMarkup(childText(entry, 'title')),
+    authors: children(entry, 'author').map(author => parseName(childText(author, 'name'))),
+    year: extractYear(childText(entry, 'published')),
+    journal: 'arXiv',
+    doi: doi ? cleanDoi(doi) : undefined,
+    abstract: childText(entry, 'summary') || undefined,
+    confidence: 0,
+    url: link?.getAttribute('href') || `https://arxiv.org/abs/${id}`,
+    repository: 'arXiv',
+    archiveId: `arXiv:${id}`,
+    providers: ['arxiv'],
+    provenance
+  }
+}
+
+/**
+ * Read the entries of an arXiv Atom feed. The API reports bad queries as a
+ * feed with a single "Error" entry.
+ */
+export function parseArxivFeed(xml: string, provenance: Provenance): SearchResult[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const entries = Array.from(doc.getElementsByTagNameNS('*', 'entry'))
+  const error = entries.find(entry => childText(entry, 'title') === 'Error')
+  if (error) {
+    throw new Error(`arXiv: ${childText(error, 'summary') || 'query rejected'}`)
+  }
+  return entries.map(entry => entryToResult(entry, provenance)).filter(result => result.title)
+}
+
+export function createArxivProvider(options: ProviderOptions = {}): MetadataProvider {
+  // arXiv asks for no more than one request every three seconds
+  const rateLimit = { requests: 1, intervalMs: 3000 }
+  const client = createHttpClient('arXiv', options.baseUrl || 'https://export.arxiv.org/api', rateLimit, options.fetch)
+
+  return {
+    id: 'arxiv',
+    name: 'arXiv',
+    capabilities: { search: true, identifiers: ['arxiv'] },
+    rateLimit,
+
+    search: async (query, { limit = DEFAULT_SEARCH_LIMIT, signal } = {}) => {
+      // Every word must appear somewhere in the record
+      const terms = query.split(/\s+/).filter(Boolean).map(word => `all:${word.replace(/[():"]/g, '')}`)
+      const feed = await client.getText(
+        '/query',
+        { search_query: terms.join(' AND '), start: '0', max_results: String(limit) },
+        signal
+      )
+      return feed ? parseArxivFeed(feed.body, createProvenance('arxiv', feed.url, true)) : []
+    },
+
+    lookup: async (identifier, { signal } = {}) => {
+      if (identifier.type !== 'arxiv') return null
+      const feed = await client.getText(
+        '/query',
+        { id_list: identifier.value.replace(/^arxiv:/i, '') },
+        signal
+      )
+      return feed ? parseArxivFeed(feed.body, createProvenance('arxiv', feed.url, true))[0] || null : null
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import type { SourceType } from '@/App'
+import { parseName, type PersonName } from '@/lib/names'
+import { cleanDoi } from '@/lib/importUtils'
+import {
+  createHttpClient,
+  createProvenance,
+  DEFAULT_SEARCH_LIMIT,
+  stripMarkup,
+  type MetadataProvider,
+  type ProviderOptions,
+  type Provenance,
+  type SearchResult
+} from '@/lib/metadataProviders'
+
+/**
+ * CrossRef REST API: journal articles, books, chapters and proceedings
+ * registered with CrossRef DOIs
+ */
+
+interface CrossRefAuthor {
+  given?: string
+  family?: string
+  name?: string
+}
+
+export interface CrossRefWork {
+  DOI?: string
+  URL?: string
+  type?: string
+  title?: string[]
+  author?: CrossRefAuthor[]
+  'container-title'?: string[]
+  issued?: { 'date-parts'?: (number | null)[][] }
+  published?: { 'date-parts'?: (number | null)[][] }
+  page?: string
+  volume?: string
+  issue?: string
+  publisher?: string
+  'publisher-location'?: string
+  ISBN?: string[]
+  abstract?: string
+}
+
+const CROSSREF_TYPES: Record<string, SourceType> = {
+  'journal-article': 'article',
+  'journal': 'journal',
+  'book': 'book',
+  'monograph': 'book',
+  'edited-book': 'book',
+  'reference-book': 'book',
+  'book-chapter': 'chapter',
+  'book-section': 'chapter',
+  'book-part': 'chapter',
+  'reference-entry': 'chapter',
+  'proceedings-article': 'conference',
+  'dissertation': 'thesis',
+  'report': 'report',
+  'dataset': 'dataset',
+  'posted-content': 'preprint',
+  'standard': 'standard'
+}
+
+function toPersonName(author: CrossRefAuthor): PersonName {
+  if (author.family) return parseName(author.given ? `${author.family}, ${author.given}` : author.family)
+  return { literal: author.name || '' }
+}
+
+function workYear(work: CrossRefWork): string {
+  const parts = work.issued?.['date-parts']?.[0] || work.published?.['date-parts']?.[0]
+  return parts?.[0] ? String(parts[0]) : ''
+}
+
+/**
+ * Map a CrossRef work record onto a search result
+ */
+export function crossRefWorkToResult(work: CrossRefWork, provenance: Provenance): SearchResult {
+  const doi = work.DOI ? cleanDoi(work.DOI) : undefined
+  const type = CROSSREF_TYPES[work.type || ''] || 'article'
+  return {
+    id: `crossref-${doi || stripMarkup(work.title?.[0] || '')}`,
+    type,
+    title: stripMarkup(work.title?.[0] || ''),
+    authors: (work.author || []).map(toPersonName).filter(name => name.family || name.literal),
+    year: workYear(work),
+    journal: stripMarkup(work['container-title']?.[0] || ''),
+    doi,
+    abstract: work.abstract ? stripMarkup(work.abstract) : undefined,
+    confidence: 0,
+    url: doi ? `https://doi.org/${doi}` : work.URL,
+    pages: work.page,
+    volume: work.volume,
+    issue: work.issue,
+    publisher: work.publisher,
+    isbn: work.ISBN?.[0],
+    providers: ['crossref'],
+    provenance
+  }
+}
+
+export function createCrossRefProvider(options: ProviderOptions = {}): MetadataProvider {
+  // Identified clients get the faster "polite" pool
+  const rateLimit = { requests: 10, intervalMs: 1000 }
+  const client = createHttpClient('CrossRef', options.baseUrl || 'https://api.crossref.org', rateLimit, options.fetch)
+  const mailto = options.mailto || ''
+
+  return {
+    id: 'crossref',
+    name: 'CrossRef',
+    capabilities: { search: true, identifiers: ['doi'] },
+    rateLimit,
+
+    search: async (query, { limit = DEFAULT_SEARCH_LIMIT, signal } = {}) => {
+      const data = await client.getJson<{ message?: { items?: CrossRefWork[] } }>(
+        '/works',
+        { 'query.bibliographic': query, rows: String(limit), mailto },
+        signal
+      )
+      if (!data) return []
+      const provenance = createProvenance('crossref', data.url, true)
+      return (data.body.message?.items || [])
+        .map(work => crossRefWorkToResult(work, provenance))
+        .filter(result => result.title)
+    },
+
+    lookup: async (identifier, { signal } = {}) => {
+      if (identifier.type !== 'doi') return null
+      const data = await client.getJson<{ message?: CrossRefWork }>(
+        `/works/${encodeURIComponent(cleanDoi(identifier.value))}`,
+        { mailto },
+        signal
+      )
+      return data?.body.message ? crossRefWorkToResult(data.body.message, createProvenance('crossref', data.url, true)) : null
+    }
+  }
+}
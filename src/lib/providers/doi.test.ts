@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import type { CslItem } from '@/lib/cslProcessor'
+import { cleanDoi } from '@/lib/importUtils'
+import { findRecords, searchResultToCitation } from '@/lib/metadataProviders'
+import { createDoiProvider } from '@/lib/providers'
+
+const CSL_JSON = 'application/vnd.citationstyles.csl+json'
+
+// Answers content negotiation from the given records as doi.org does:
+// unknown DOIs get a 404 and requests that do not ask for CSL-JSON a 406
+function createStubDoiFetch(items: CslItem[]): typeof fetch {
+  const byDoi = new Map(
+    items
+      .filter(item => typeof item.DOI === 'string')
+      .map(item => [cleanDoi(item.DOI as string).toLowerCase(), item])
+  )
+
+  return async (input, init) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url)
+    const accept = new Headers(init?.headers).get('Accept') || ''
+    if (!accept.includes(CSL_JSON)) {
+      return new Response('Not Acceptable', { status: 406 })
+    }
+    const item = byDoi.get(decodeURIComponent(url.pathname.slice(1)).toLowerCase())
+    if (!item) {
+      return new Response('DOI Not Found', { status: 404 })
+    }
+    return new Response(JSON.stringify(item), { status: 200, headers: { 'Content-Type': CSL_JSON } })
+  }
+}
+
+const items: CslItem[] = [
+  {
+    id: 'https://doi.org/10.5061/dryad.abc',
+    type: 'dataset',
+    DOI: '10.5061/DRYAD.ABC',
+    title: 'Seed <i>traits</i> of alpine plants',
+    author: [{ family: 'Smith', given: 'Jane' }],
+    issued: { 'date-parts': [[2021, 3]] },
+    publisher: 'Dryad',
+    version: '2'
+  },
+  {
+    id: 'https://doi.org/10.1000/ch.5',
+    type: 'book-chapter',
+    DOI: '10.1000/ch.5',
+    title: 'Sleep in the elderly',
+    author: [{ family: 'Lee', given: 'Ana' }],
+    'container-title': ['Handbook of sleep'],
+    publisher: 'Springer',
+    'publisher-place': 'Cham',
+    page: '45-67',
+    issued: { 'date-parts': [[2019]] }
+  }
+]
+
+const providers = [createDoiProvider({ baseUrl: 'http://resolver.test', fetch: createStubDoiFetch(items) })]
+
+describe('DOI content negotiation', () => {
+  it.each([
+    '10.5061/dryad.abc',
+    'doi:10.5061/dryad.abc',
+    'https://doi.org/10.5061/dryad.abc',
+    'https://dx.doi.org/10.5061%2Fdryad.abc'
+  ])('resolves %s to the registered record', async query => {
+    const { results, identifier } = await findRecords(providers, query)
+
+    expect(identifier).toEqual({ type: 'doi', value: '10.5061/dryad.abc' })
+    expect(results).toHaveLength(1)
+    expect(searchResultToCitation(results[0])).toMatchObject({
+      type: 'dataset',
+      title: 'Seed traits of alpine plants',
+      authors: [{ given: 'Jane', family: 'Smith' }],
+      year: '2021',
+      publisher: 'Dryad',
+      version: '2',
+      doi: '10.5061/DRYAD.ABC',
+      provenance: { source: 'doi', request: 'http://resolver.test/10.5061/dryad.abc', verified: true }
+    })
+  })
+
+  it('maps types beyond journal articles', async () => {
+    const { results } = await findRecords(providers, '10.1000/ch.5')
+    expect(searchResultToCitation(results[0])).toMatchObject({
+      type: 'chapter',
+      source: 'Handbook of sleep',
+      publisher: 'Springer',
+      city: 'Cham',
+      pages: '45-67'
+    })
+  })
+
+  it('finds nothing for an unregistered DOI', async () => {
+    const { results, errors } = await findRecords(providers, 'doi:10.9999/missing')
+    expect(results).toEqual([])
+    expect(errors).toEqual([])
+  })
+
+  it('keeps keyword searches away from the resolver', async () => {
+    const { results, identifier } = await findRecords(providers, 'alpine seed traits')
+    expect(identifier).toBeNull()
+    expect(results).toEqual([])
+  })
+})
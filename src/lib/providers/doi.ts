@@ -0,0 +1,47 @@
+import { cleanDoi } from '@/lib/importUtils'
+import { cslJsonToCitation } from '@/lib/cslJson'
+import type { CslItem } from '@/lib/cslProcessor'
+import {
+  citationToSearchResult,
+  createHttpClient,
+  createProvenance,
+  type MetadataProvider,
+  type ProviderOptions
+} from '@/lib/metadataProviders'
+
+/**
+ * DOI content negotiation: doi.org hands the request to whichever agency
+ * registered the DOI (CrossRef, DataCite, mEDRA...), which answers with
+ * CSL-JSON. Covers every kind of work with a DOI, not only CrossRef's.
+ */
+
+const CSL_JSON = 'application/vnd.citationstyles.csl+json'
+
+// Keep the slash that separates prefix and suffix, escape everything else
+function doiPath(doi: string): string {
+  return '/' + doi.split('/').map(encodeURIComponent).join('/')
+}
+
+export function createDoiProvider(options: ProviderOptions = {}): MetadataProvider {
+  const rateLimit = { requests: 10, intervalMs: 1000 }
+  const client = createHttpClient('DOI.org', options.baseUrl || 'https://doi.org', rateLimit, options.fetch, { Accept: CSL_JSON })
+
+  return {
+    id: 'doi',
+    name: 'DOI.org',
+    capabilities: { search: false, identifiers: ['doi'] },
+    rateLimit,
+
+    // Resolves identifiers only; keyword searches go to the other providers
+    search: async () => [],
+
+    lookup: async (identifier, { signal } = {}) => {
+      if (identifier.type !== 'doi') return null
+      const data = await client.getJson<CslItem>(doiPath(cleanDoi(identifier.value)), {}, signal)
+      if (!data) return null
+      const { citation } = cslJsonToCitation({ ...data.body, id: data.body.id || identifier.value })
+      if (!citation.title) return null
+      return citationToSearchResult(citation, 'doi', createProvenance('doi', data.url, true))
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { MetadataProvider, ProviderOptions } from '@/lib/metadataProviders'
+import { createArxivProvider } from '@/lib/providers/arxiv'
+import { createCrossRefProvider } from '@/lib/providers/crossref'
+import { createDoiProvider } from '@/lib/providers/doi'
+import { createOpenAlexProvider } from '@/lib/providers/openAlex'
+import { createOpenLibraryProvider } from '@/lib/providers/openLibrary'
+import { createPubMedProvider } from '@/lib/providers/pubmed'
+
+export {
+  createArxivProvider,
+  createCrossRefProvider,
+  createDoiProvider,
+  createOpenAlexProvider,
+  createOpenLibraryProvider,
+  createPubMedProvider
+}
+
+export const CONTACT_EMAIL = 'contact@freecitetool.com'
+
+export interface DefaultProviderOptions extends Omit<ProviderOptions, 'baseUrl'> {
+  // Open Library-compatible service for ISBN lookups
+  bookEndpoint?: string
+}
+
+// Set VITE_BOOK_METADATA_URL at build time to look books up elsewhere
+const BOOK_METADATA_URL = import.meta.env.VITE_BOOK_METADATA_URL || undefined
+
+/**
+ * The providers article search uses, in order of preference when they
+ * return the same work. Options apply to all of them, so a test can route
+ * every request through one fetch function. DOIs resolve through doi.org
+ * first, which knows every registration agency.
+ */
+export function createDefaultProviders({ bookEndpoint = BOOK_METADATA_URL, ...options }: DefaultProviderOptions = {}): MetadataProvider[] {
+  const shared = { mailto: CONTACT_EMAIL, ...options }
+  return [
+    createDoiProvider(shared),
+    createCrossRefProvider(shared),
+    createPubMedProvider(shared),
+    createOpenAlexProvider(shared),
+    createArxivProvider(shared),
+    createOpenLibraryProvider({ ...shared, baseUrl: bookEndpoint })
+  ]
+}
@@ -0,0 +1,125 @@
+import type { SourceType } from '@/App'
+import { parseName } from '@/lib/names'
+import { cleanDoi } from '@/lib/importUtils'
+import {
+  createHttpClient,
+  createProvenance,
+  DEFAULT_SEARCH_LIMIT,
+  stripMarkup,
+  type MetadataProvider,
+  type ProviderOptions,
+  type Provenance,
+  type SearchResult
+} from '@/lib/metadataProviders'
+
+/**
+ * OpenAlex: an open index of works across all disciplines, including many
+ * without CrossRef DOIs
+ */
+
+interface OpenAlexWork {
+  id: string
+  doi?: string | null
+  display_name?: string | null
+  publication_year?: number | null
+  type?: string | null
+  authorships?: { author?: { display_name?: string | null } }[]
+  primary_location?: {
+    landing_page_url?: string | null
+    source?: { display_name?: string | null; host_organization_name?: string | null } | null
+  } | null
+  biblio?: { volume?: string | null; issue?: string | null; first_page?: string | null; last_page?: string | null }
+  abstract_inverted_index?: Record<string, number[]> | null
+}
+
+const OPENALEX_TYPES: Record<string, SourceType> = {
+  'article': 'article',
+  'review': 'article',
+  'letter': 'article',
+  'editorial': 'article',
+  'book': 'book',
+  'book-chapter': 'chapter',
+  'dissertation': 'thesis',
+  'report': 'report',
+  'dataset': 'dataset',
+  'preprint': 'preprint',
+  'standard': 'standard'
+}
+
+// OpenAlex stores abstracts as word positions rather than text
+function rebuildAbstract(index: Record<string, number[]>): string {
+  const words: string[] = []
+  Object.entries(index).forEach(([word, positions]) => {
+    positions.forEach(position => {
+      words[position] = word
+    })
+  })
+  return words.filter(Boolean).join(' ')
+}
+
+/**
+ * Map an OpenAlex work onto a search result
+ */
+export function openAlexWorkToResult(work: OpenAlexWork, provenance: Provenance): SearchResult {
+  const doi = work.doi ? cleanDoi(work.doi) : undefined
+  const source = work.primary_location?.source
+  const { volume, issue, first_page: firstPage, last_page: lastPage } = work.biblio || {}
+  return {
+    id: `openalex-${work.id.replace(/^https:\/\/openalex\.org\//, '')}`,
+    type: OPENALEX_TYPES[work.type || ''] || 'article',
+    title: stripMarkup(work.display_name || ''),
+    authors: (work.authorships || [])
+      .map(authorship => authorship.author?.display_name || '')
+      .filter(Boolean)
+      .map(name => parseName(name)),
+    year: work.publication_year ? String(work.publication_year) : '',
+    journal: source?.display_name || '',
+    doi,
+    abstract: work.abstract_inverted_index ? rebuildAbstract(work.abstract_inverted_index) : undefined,
+    confidence: 0,
+    url: doi ? `https://doi.org/${doi}` : work.primary_location?.landing_page_url || undefined,
+    pages: firstPage ? (lastPage && lastPage !== firstPage ? `${firstPage}-${lastPage}` : firstPage) : undefined,
+    volume: volume || undefined,
+    issue: issue || undefined,
+    publisher: source?.host_organization_name || undefined,
+    providers: ['openalex'],
+    provenance
+  }
+}
+
+export function createOpenAlexProvider(options: ProviderOptions = {}): MetadataProvider {
+  const rateLimit = { requests: 10, intervalMs: 1000 }
+  const client = createHttpClient('OpenAlex', options.baseUrl || 'https://api.openalex.org', rateLimit, options.fetch)
+  const mailto = options.mailto || ''
+
+  return {
+    id: 'openalex',
+    name: 'OpenAlex',
+    capabilities: { search: true, identifiers: ['doi', 'pmid'] },
+    rateLimit,
+
+    search: async (query, { limit = DEFAULT_SEARCH_LIMIT, signal } = {}) => {
+      const data = await client.getJson<{ results?: OpenAlexWork[] }>(
+        '/works',
+        { search: query, 'per-page': String(limit), mailto },
+        signal
+      )
+      if (!data) return []
+      const provenance = createProvenance('openalex', data.url, true)
+      return (data.body.results || [])
+        .map(work => openAlexWorkToResult(work, provenance))
+        .filter(result => result.title)
+    },
+
+    lookup: async (identifier, { signal } = {}) => {
+      const key = identifier.type === 'doi'
+        ? `doi:${cleanDoi(identifier.value)}`
+        : identifier.type === 'pmid'
+          ? `pmid:${identifier.value.replace(/\D/g, '')}`
+          : ''
+      if (!key) return null
+      const work = await client.getJson<OpenAlexWork>(`/works/${encodeURIComponent(key)}`, { mailto }, signal)
+      return work ? openAlexWorkToResult(work.body, createProvenance('openalex', work.url, true)) : null
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest'
+import { parseIsbn } from '@/lib/isbn'
+import { detectIdentifier, findRecords, lookupMetadata, searchResultToCitation } from '@/lib/metadataProviders'
+import { createDefaultProviders, createOpenLibraryProvider } from '@/lib/providers'
+import type { OpenLibraryAuthor, OpenLibraryEdition, OpenLibraryWork } from '@/lib/providers/openLibrary'
+
+// Serves the fixtures as Open Library does: editions answer to either form
+// of their ISBNs, and anything else is a 404
+function createStubOpenLibraryFetch(fixtures: {
+  editions: OpenLibraryEdition[]
+  works?: OpenLibraryWork[]
+  authors?: OpenLibraryAuthor[]
+}): typeof fetch {
+  const records = new Map<string, unknown>()
+  fixtures.editions.forEach(edition => {
+    ;[...(edition.isbn_10 || []), ...(edition.isbn_13 || [])].forEach(value => {
+      const isbn = parseIsbn(value)
+      if (!isbn) return
+      records.set(`/isbn/${isbn.isbn13}.json`, edition)
+      if (isbn.isbn10) records.set(`/isbn/${isbn.isbn10}.json`, edition)
+    })
+  })
+  ;[...(fixtures.works || []), ...(fixtures.authors || [])].forEach(record => {
+    records.set(`${record.key}.json`, record)
+  })
+
+  return async input => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url)
+    const record = records.get(url.pathname)
+    if (!record) {
+      return new Response(JSON.stringify({ error: 'notfound', key: url.pathname }), { status: 404 })
+    }
+    return new Response(JSON.stringify(record), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  }
+}
+
+const fixtures = {
+  editions: [
+    {
+      key: '/books/OL1M',
+      title: 'Pattern recognition',
+      subtitle: 'a statistical approach',
+      isbn_10: ['0306406152'],
+      publishers: ['Plenum Press'],
+      publish_places: ['[New York]'],
+      publish_date: 'March 1985',
+      edition_name: '2nd ed.',
+      works: [{ key: '/works/OL1W' }]
+    }
+  ],
+  works: [{ key: '/works/OL1W', authors: [{ author: { key: '/authors/OL1A' } }, { author: { key: '/authors/OL2A' } }] }],
+  authors: [{ key: '/authors/OL1A', name: 'Jane Q. Smith' }, { key: '/authors/OL2A', name: 'Ana Lopez' }]
+}
+
+function stubProviders() {
+  const fetcher = vi.fn(createStubOpenLibraryFetch(fixtures))
+  return { fetcher, providers: [createOpenLibraryProvider({ baseUrl: 'http://books.test', fetch: fetcher })] }
+}
+
+describe('Open Library provider', () => {
+  it('fills in the book for a valid ISBN in either form', async () => {
+    for (const value of ['978-0-306-40615-7', '0-306-40615-2']) {
+      const { results, identifier } = await findRecords(stubProviders().providers, value)
+      expect(identifier).toEqual({ type: 'isbn', value: '9780306406157' })
+      expect(searchResultToCitation(results[0])).toMatchObject({
+        type: 'book',
+        title: 'Pattern recognition: a statistical approach',
+        authors: [{ given: 'Jane Q.', family: 'Smith' }, { given: 'Ana', family: 'Lopez' }],
+        year: '1985',
+        publisher: 'Plenum Press',
+        city: 'New York',
+        edition: '2nd ed.',
+        isbn: '9780306406157',
+        provenance: { source: 'openlibrary', request: 'http://books.test/isbn/9780306406157.json', verified: true }
+      })
+    }
+  })
+
+  it('sends nothing for an ISBN that fails its checksum', async () => {
+    const { fetcher, providers } = stubProviders()
+    expect(detectIdentifier('978-0-306-40615-8')).toBeNull()
+    const { result, errors } = await lookupMetadata(providers, { type: 'isbn', value: '978-0-306-40615-8' })
+    expect(result).toBeNull()
+    expect(errors).toEqual([])
+    expect(fetcher).not.toHaveBeenCalled()
+  })
+
+  it('finds nothing for an ISBN it does not know', async () => {
+    const { results, errors } = await findRecords(stubProviders().providers, '978-0-262-03384-8')
+    expect(results).toEqual([])
+    expect(errors).toEqual([])
+  })
+
+  it('reports an unreachable service as an error', async () => {
+    const offline = createOpenLibraryProvider({ fetch: () => Promise.reject(new TypeError('Failed to fetch')) })
+    const { result, errors } = await lookupMetadata([offline], { type: 'isbn', value: '9780306406157' })
+    expect(result).toBeNull()
+    expect(errors).toEqual([{ provider: 'openlibrary', message: 'Failed to fetch' }])
+  })
+
+  it('looks books up at the configured endpoint', async () => {
+    const fetcher = vi.fn(createStubOpenLibraryFetch(fixtures))
+    const providers = createDefaultProviders({ bookEndpoint: 'http://mirror.test/ol', fetch: fetcher })
+    await lookupMetadata(providers, { type: 'isbn', value: '9780306406157' })
+    expect(fetcher.mock.calls[0][0]).toBe('http://mirror.test/ol/isbn/9780306406157.json')
+  })
+})
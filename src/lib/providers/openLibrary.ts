@@ -0,0 +1,116 @@
+import { parseName } from '@/lib/names'
+import { extractYear } from '@/lib/importUtils'
+import { parseIsbn } from '@/lib/isbn'
+import {
+  createHttpClient,
+  createProvenance,
+  stripMarkup,
+  type MetadataProvider,
+  type ProviderOptions,
+  type Provenance,
+  type SearchResult
+} from '@/lib/metadataProviders'
+
+/**
+ * Open Library: book editions by ISBN. Any service that serves the same
+ * /isbn, /works and /authors JSON can stand in for it through baseUrl.
+ */
+
+interface KeyRef {
+  key: string
+}
+
+export interface OpenLibraryEdition {
+  key: string
+  title?: string
+  subtitle?: string
+  authors?: KeyRef[]
+  works?: KeyRef[]
+  publishers?: string[]
+  publish_places?: string[]
+  publish_date?: string
+  edition_name?: string
+  number_of_pages?: number
+  isbn_10?: string[]
+  isbn_13?: string[]
+}
+
+export interface OpenLibraryWork {
+  key: string
+  authors?: { author?: KeyRef }[]
+}
+
+export interface OpenLibraryAuthor {
+  key: string
+  name?: string
+}
+
+/**
+ * Map an Open Library edition onto a search result, given its authors'
+ * names in order
+ */
+export function openLibraryEditionToResult(edition: OpenLibraryEdition, authors: string[], provenance: Provenance): SearchResult {
+  const isbn = parseIsbn(edition.isbn_13?.[0] || edition.isbn_10?.[0] || '')
+  const title = [edition.title, edition.subtitle].map(part => stripMarkup(part || '')).filter(Boolean).join(': ')
+  return {
+    id: `openlibrary-${edition.key.replace(/^\/books\//, '')}`,
+    type: 'book',
+    title,
+    authors: authors.map(name => parseName(name)),
+    year: extractYear(edition.publish_date || ''),
+    // Books are their own source, as in the manual form
+    journal: edition.publishers?.[0] || '',
+    confidence: 0,
+    url: `https://openlibrary.org${edition.key}`,
+    publisher: edition.publishers?.[0],
+    isbn: isbn?.isbn13,
+    edition: edition.edition_name || undefined,
+    // Catalogue records bracket places not printed in the book: "[London]"
+    city: edition.publish_places?.[0]?.replace(/^\[|\]$/g, '').trim() || undefined,
+    providers: ['openlibrary'],
+    provenance
+  }
+}
+
+export function createOpenLibraryProvider(options: ProviderOptions = {}): MetadataProvider {
+  // Open Library asks for no more than a few requests a second
+  const rateLimit = { requests: 3, intervalMs: 1000 }
+  const client = createHttpClient('Open Library', options.baseUrl || 'https://openlibrary.org', rateLimit, options.fetch)
+
+  const authorNames = async (refs: KeyRef[], signal?: AbortSignal): Promise<string[]> => {
+    const authors = await Promise.all(refs.map(ref => client.getJson<OpenLibraryAuthor>(`${ref.key}.json`, {}, signal)))
+    return authors.map(author => author?.body.name || '').filter(Boolean)
+  }
+
+  return {
+    id: 'openlibrary',
+    name: 'Open Library',
+    capabilities: { search: false, identifiers: ['isbn'] },
+    rateLimit,
+
+    // Looks up ISBNs only; keyword searches go to the other providers
+    search: async () => [],
+
+    lookup: async (identifier, { signal } = {}) => {
+      const isbn = identifier.type === 'isbn' ? parseIsbn(identifier.value) : null
+      if (!isbn) return null
+      const edition = await client.getJson<OpenLibraryEdition>(`/isbn/${isbn.isbn13}.json`, {}, signal)
+      if (!edition?.body.title) return null
+
+      // Editions often leave the authors to the work they belong to
+      let refs = edition.body.authors || []
+      const workKey = edition.body.works?.[0]?.key
+      if (refs.length === 0 && workKey) {
+        const work = await client.getJson<OpenLibraryWork>(`${workKey}.json`, {}, signal)
+        refs = (work?.body.authors || []).flatMap(entry => entry.author ? [entry.author] : [])
+      }
+
+      const result = openLibraryEditionToResult(
+        edition.body,
+        await authorNames(refs, signal),
+        createProvenance('openlibrary', edition.url, true)
+      )
+      return { ...result, isbn: result.isbn || isbn.isbn13 }
+    }
+  }
+}
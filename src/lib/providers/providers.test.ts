@@ -0,0 +1,225 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { DOMParser } from '@xmldom/xmldom'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { lookupMetadata, searchMetadata } from '@/lib/metadataProviders'
+import { createArxivProvider, createCrossRefProvider, createOpenAlexProvider, createPubMedProvider } from '@/lib/providers'
+
+// arXiv feeds are parsed with the browser's DOMParser
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser
+
+type Handler = (url: URL, response: ServerResponse) => void
+
+function json(body: unknown, status = 200): Handler {
+  return (_url, response) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(body))
+  }
+}
+
+const crossRefWork = {
+  DOI: '10.1000/sleep.2020',
+  type: 'journal-article',
+  title: ['Sleep and <i>memory</i> in adults'],
+  author: [{ given: 'Jane', family: 'Smith' }, { given: 'Ana', family: 'Lopez' }],
+  'container-title': ['Journal of Sleep Research'],
+  issued: { 'date-parts': [[2020, 5]] },
+  volume: '29',
+  issue: '3',
+  page: '101-110'
+}
+
+const openAlexWork = {
+  id: 'https://openalex.org/W1',
+  doi: 'https://doi.org/10.1000/SLEEP.2020',
+  display_name: 'Sleep and memory in adults',
+  publication_year: 2020,
+  type: 'article',
+  authorships: [{ author: { display_name: 'Jane Smith' } }],
+  primary_location: { source: { display_name: 'Journal of Sleep Research', host_organization_name: 'Wiley' } },
+  abstract_inverted_index: { Sleep: [0], helps: [1], memory: [2] }
+}
+
+const arxivFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xmlns:arxiv="http://arxiv.org/schemas/atom">
+  <entry>
+    <id>http://arxiv.org/abs/2101.00001v2</id>
+    <published>2021-01-01T00:00:00Z</published>
+    <title>Sleep   and memory
+      in transformers</title>
+    <summary>We study sleep.</summary>
+    <author><name>Jane Smith</name></author>
+    <arxiv:doi>10.1000/arxiv.sleep</arxiv:doi>
+    <link rel="alternate" href="http://arxiv.org/abs/2101.00001v2"/>
+  </entry>
+</feed>`
+
+const routes: Record<string, Handler> = {
+  '/crossref/works': json({ message: { items: [crossRefWork] } }),
+  '/crossref/works/10.1000%2Fsleep.2020': json({ message: crossRefWork }),
+  '/openalex/works': json({ results: [openAlexWork] }),
+  '/pubmed/esearch.fcgi': json({ esearchresult: { idlist: ['123'] } }),
+  '/pubmed/esummary.fcgi': json({
+    result: {
+      uids: ['123'],
+      '123': {
+        uid: '123',
+        title: 'Sleep in older adults.',
+        authors: [{ name: 'Smith JA', authtype: 'Author' }, { name: 'Sleep Study Group', authtype: 'CollectiveName' }],
+        pubdate: '2019 Mar',
+        fulljournalname: 'Sleep Medicine',
+        articleids: [{ idtype: 'doi', value: '10.1000/pubmed.sleep' }]
+      }
+    }
+  }),
+  '/arxiv/query': (_url, response) => {
+    response.writeHead(200, { 'Content-Type': 'application/atom+xml' })
+    response.end(arxivFeed)
+  },
+  '/down/works': json({ message: 'Service Unavailable' }, 503),
+  // Never answers, like an endpoint that has stopped responding
+  '/hanging/works': () => undefined
+}
+
+const requests: URL[] = []
+let server: Server
+let baseUrl: string
+
+beforeAll(async () => {
+  server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url || '/', 'http://localhost')
+    requests.push(url)
+    const handler = routes[url.pathname]
+    if (handler) {
+      handler(url, response)
+    } else {
+      json({ error: 'not found' }, 404)(url, response)
+    }
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+function lastRequest(path: string): URL | undefined {
+  return [...requests].reverse().find(url => url.pathname === path)
+}
+
+describe('CrossRef provider', () => {
+  it('maps works and identifies itself', async () => {
+    const crossref = createCrossRefProvider({ baseUrl: `${baseUrl}/crossref`, mailto: 'test@example.com' })
+    const [result] = await crossref.search('sleep memory', { limit: 3 })
+
+    expect(result).toMatchObject({
+      type: 'article',
+      title: 'Sleep and memory in adults',
+      year: '2020',
+      journal: 'Journal of Sleep Research',
+      doi: '10.1000/sleep.2020',
+      pages: '101-110',
+      providers: ['crossref']
+    })
+    expect(result.authors).toEqual([{ given: 'Jane', family: 'Smith' }, { given: 'Ana', family: 'Lopez' }])
+    expect(result.provenance).toMatchObject({ source: 'crossref', verified: true })
+    expect(result.provenance.request).toContain('/crossref/works?')
+
+    const request = lastRequest('/crossref/works')
+    expect(request?.searchParams.get('query.bibliographic')).toBe('sleep memory')
+    expect(request?.searchParams.get('rows')).toBe('3')
+    expect(request?.searchParams.get('mailto')).toBe('test@example.com')
+  })
+
+  it('looks up a DOI and treats a 404 as no record', async () => {
+    const crossref = createCrossRefProvider({ baseUrl: `${baseUrl}/crossref` })
+    expect((await crossref.lookup({ type: 'doi', value: 'https://doi.org/10.1000/sleep.2020' }))?.title).toBe('Sleep and memory in adults')
+    expect(await crossref.lookup({ type: 'doi', value: '10.1000/missing' })).toBeNull()
+  })
+})
+
+describe('PubMed provider', () => {
+  it('searches ids, then reads their summaries', async () => {
+    const pubmed = createPubMedProvider({ baseUrl: `${baseUrl}/pubmed` })
+    const [result] = await pubmed.search('sleep')
+
+    expect(lastRequest('/pubmed/esummary.fcgi')?.searchParams.get('id')).toBe('123')
+    expect(result).toMatchObject({
+      id: 'pubmed-123',
+      title: 'Sleep in older adults',
+      year: '2019',
+      journal: 'Sleep Medicine',
+      doi: '10.1000/pubmed.sleep',
+      url: 'https://pubmed.ncbi.nlm.nih.gov/123/'
+    })
+    expect(result.authors[1]).toEqual({ literal: 'Sleep Study Group' })
+  })
+})
+
+describe('arXiv provider', () => {
+  it('reads entries from the Atom feed', async () => {
+    const arxiv = createArxivProvider({ baseUrl: `${baseUrl}/arxiv` })
+    const [result] = await arxiv.search('sleep memory')
+
+    expect(lastRequest('/arxiv/query')?.searchParams.get('search_query')).toBe('all:sleep AND all:memory')
+    expect(result).toMatchObject({
+      type: 'preprint',
+      title: 'Sleep and memory in transformers',
+      year: '2021',
+      doi: '10.1000/arxiv.sleep',
+      archiveId: 'arXiv:2101.00001'
+    })
+  })
+})
+
+describe('searchMetadata', () => {
+  it('merges the same work from several providers', async () => {
+    const providers = [
+      createCrossRefProvider({ baseUrl: `${baseUrl}/crossref` }),
+      createOpenAlexProvider({ baseUrl: `${baseUrl}/openalex` })
+    ]
+    const { results, errors } = await searchMetadata(providers, 'sleep and memory')
+
+    expect(errors).toEqual([])
+    expect(results).toHaveLength(1)
+    expect(results[0].providers).toEqual(['crossref', 'openalex'])
+    // CrossRef's details win; OpenAlex fills the gaps
+    expect(results[0].authors).toHaveLength(2)
+    expect(results[0].abstract).toBe('Sleep helps memory')
+    expect(results[0].publisher).toBe('Wiley')
+  })
+
+  it('reports a failing provider without losing the others', async () => {
+    const providers = [
+      createCrossRefProvider({ baseUrl: `${baseUrl}/down` }),
+      createOpenAlexProvider({ baseUrl: `${baseUrl}/openalex` })
+    ]
+    const { results, errors } = await searchMetadata(providers, 'sleep')
+
+    expect(results.map(result => result.providers)).toEqual([['openalex']])
+    expect(errors).toEqual([{ provider: 'crossref', message: 'CrossRef request failed: 503' }])
+  })
+
+  it('gives up on a provider that does not answer in time', async () => {
+    const providers = [createCrossRefProvider({ baseUrl: `${baseUrl}/hanging` })]
+    const { results, errors } = await searchMetadata(providers, 'sleep', { signal: AbortSignal.timeout(200) })
+
+    expect(results).toEqual([])
+    expect(errors.map(error => error.provider)).toEqual(['crossref'])
+  })
+})
+
+describe('lookupMetadata', () => {
+  it('falls through to the next provider when one has no record', async () => {
+    const providers = [
+      createCrossRefProvider({ baseUrl: `${baseUrl}/missing` }),
+      createCrossRefProvider({ baseUrl: `${baseUrl}/crossref` })
+    ]
+    const { result, errors } = await lookupMetadata(providers, { type: 'doi', value: '10.1000/sleep.2020' })
+
+    expect(errors).toEqual([])
+    expect(result).toMatchObject({ doi: '10.1000/sleep.2020', confidence: 1 })
+  })
+})
@@ -0,0 +1,120 @@
+import { parseName, type PersonName } from '@/lib/names'
+import { cleanDoi, extractYear } from '@/lib/importUtils'
+import {
+  createHttpClient,
+  createProvenance,
+  DEFAULT_SEARCH_LIMIT,
+  stripMarkup,
+  type MetadataProvider,
+  type ProviderOptions,
+  type Provenance,
+  type SearchResult
+} from '@/lib/metadataProviders'
+
+/**
+ * PubMed through the NCBI E-utilities: esearch finds PMIDs, esummary
+ * returns their records
+ */
+
+interface PubMedSummary {
+  uid: string
+  title?: string
+  authors?: { name: string; authtype?: string }[]
+  pubdate?: string
+  fulljournalname?: string
+  source?: string
+  volume?: string
+  issue?: string
+  pages?: string
+  articleids?: { idtype: string; value: string }[]
+}
+
+interface ESearchResponse {
+  esearchresult?: { idlist?: string[] }
+}
+
+interface ESummaryResponse {
+  result?: { uids?: string[] } & Record<string, unknown>
+}
+
+function toPersonName(author: { name: string; authtype?: string }): PersonName {
+  // Authors come in Vancouver form ("Smith JA"); groups as their full name
+  return author.authtype === 'CollectiveName' ? { literal: author.name } : parseName(author.name)
+}
+
+/**
+ * Map a PubMed esummary record onto a search result
+ */
+export function pubMedSummaryToResult(summary: PubMedSummary, provenance: Provenance): SearchResult {
+  const doi = summary.articleids?.find(id => id.idtype === 'doi')?.value
+  return {
+    id: `pubmed-${summary.uid}`,
+    type: 'article',
+    // Titles end with a full stop, which the citation styles add themselves
+    title: stripMarkup(summary.title || '').replace(/\.$/, ''),
+    authors: (summary.authors || []).map(toPersonName),
+    year: extractYear(summary.pubdate || ''),
+    journal: summary.fulljournalname || summary.source || '',
+    doi: doi ? cleanDoi(doi) : undefined,
+    confidence: 0,
+    url: `https://pubmed.ncbi.nlm.nih.gov/${summary.uid}/`,
+    pages: summary.pages || undefined,
+    volume: summary.volume || undefined,
+    issue: summary.issue || undefined,
+    providers: ['pubmed'],
+    provenance
+  }
+}
+
+export function createPubMedProvider(options: ProviderOptions = {}): MetadataProvider {
+  // NCBI allows three requests a second without an API key
+  const rateLimit = { requests: 3, intervalMs: 1000 }
+  const client = createHttpClient('PubMed', options.baseUrl || 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils', rateLimit, options.fetch)
+  const identify = { tool: 'FreeCiteTool', email: options.mailto || '' }
+
+  const summaries = async (ids: string[], signal?: AbortSignal): Promise<SearchResult[]> => {
+    if (ids.length === 0) return []
+    const data = await client.getJson<ESummaryResponse>(
+      '/esummary.fcgi',
+      { db: 'pubmed', id: ids.join(','), retmode: 'json', ...identify },
+      signal
+    )
+    const result = data?.body.result
+    if (!data || !result) return []
+    const provenance = createProvenance('pubmed', data.url, true)
+    return (result.uids || [])
+      .map(uid => result[uid] as PubMedSummary | undefined)
+      .filter((summary): summary is PubMedSummary => Boolean(summary?.title))
+      .map(summary => pubMedSummaryToResult(summary, provenance))
+  }
+
+  const searchIds = async (term: string, limit: number, signal?: AbortSignal) => {
+    const data = await client.getJson<ESearchResponse>(
+      '/esearch.fcgi',
+      { db: 'pubmed', term, retmode: 'json', retmax: String(limit), ...identify },
+      signal
+    )
+    return data?.body.esearchresult?.idlist || []
+  }
+
+  return {
+    id: 'pubmed',
+    name: 'PubMed',
+    capabilities: { search: true, identifiers: ['pmid', 'doi'] },
+    rateLimit,
+
+    search: async (query, { limit = DEFAULT_SEARCH_LIMIT, signal } = {}) => {
+      return summaries(await searchIds(query, limit, signal), signal)
+    },
+
+    lookup: async (identifier, { signal } = {}) => {
+      const ids = identifier.type === 'pmid'
+        ? [identifier.value.replace(/\D/g, '')]
+        : identifier.type === 'doi'
+          ? await searchIds(`${cleanDoi(identifier.value)}[doi]`, 1, signal)
+          : []
+      const [result] = await summaries(ids.filter(Boolean), signal)
+      return result || null
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import {
+  fieldsNeedingReview,
+  parseReference,
+  parseReferenceList,
+  REVIEW_THRESHOLD,
+  splitReferenceList
+} from '@/lib/referenceListParser'
+
+describe('splitReferenceList', () => {
+  it('starts a new entry at a particle surname', () => {
+    const entries = splitReferenceList([
+      'Smith, J. (2018). Sleep and memory. Journal of Sleep, 4(2), 1–10.',
+      'van der Berg, J. (2019). Dreams in the',
+      'elderly. Sleep Medicine, 12(1), 20–31.',
+      'de Souza, M. (2020). Napping at work. Work & Stress, 8(3), 5–9.'
+    ].join('\n'))
+
+    expect(entries).toEqual([
+      'Smith, J. (2018). Sleep and memory. Journal of Sleep, 4(2), 1–10.',
+      'van der Berg, J. (2019). Dreams in the elderly. Sleep Medicine, 12(1), 20–31.',
+      'de Souza, M. (2020). Napping at work. Work & Stress, 8(3), 5–9.'
+    ])
+  })
+
+  it('keeps a wrapped place name with its entry', () => {
+    const entries = splitReferenceList('Lopez, Ana. Carnival. Rio\nde Janeiro: Editora, 2015.')
+    expect(entries).toHaveLength(1)
+  })
+})
+
+describe('parseReferenceList', () => {
+  it('parses particle-led APA entries', () => {
+    const { references } = parseReferenceList([
+      'van der Berg, J. (2019). Dreams in the elderly. Sleep Medicine, 12(1), 20–31.',
+      'de Souza, M. (2020). Napping at work. Work & Stress, 8(3), 5–9.'
+    ].join('\n'))
+
+    expect(references.map(reference => reference.citation.authors)).toEqual([
+      [{ given: 'J.', particle: 'van der', family: 'Berg' }],
+      [{ given: 'M.', particle: 'de', family: 'Souza' }]
+    ])
+    expect(references.map(reference => reference.citation.year)).toEqual(['2019', '2020'])
+  })
+
+  it('reads Chicago author-date references', () => {
+    const { style, references } = parseReferenceList([
+      'Smith, John. 2020. "Sleep and Memory." Journal of Sleep 12 (3): 45–67.',
+      'Lopez, Ana, and Jan Berg. 2018. The Sleeping Brain. Chicago: University of Chicago Press.'
+    ].join('\n'))
+
+    expect(style).toBe('chicago')
+    expect(references[0].citation).toMatchObject({
+      authors: [{ given: 'John', family: 'Smith' }],
+      year: '2020',
+      title: 'Sleep and Memory',
+      source: 'Journal of Sleep',
+      volume: '12',
+      issue: '3',
+      pages: '45-67'
+    })
+    expect(references[1].citation).toMatchObject({
+      year: '2018',
+      title: 'The Sleeping Brain',
+      type: 'book',
+      city: 'Chicago',
+      publisher: 'University of Chicago Press'
+    })
+  })
+
+  it('flags names and titles that came out as numbers', () => {
+    // Author-date entries read as MLA
+    const article = parseReference('Smith, John. 2020. "Sleep and Memory." Journal of Sleep 12 (3): 45–67.', 'mla')
+    expect(article.citation.confidence).toBeLessThan(REVIEW_THRESHOLD)
+    expect(fieldsNeedingReview(article)).toContain('authors')
+
+    const book = parseReference('Smith, John. 2020. The Sleeping Brain. Penguin.', 'mla')
+    expect(book.citation.title).toBe('2020')
+    expect(book.citation.confidence).toBeLessThan(REVIEW_THRESHOLD)
+    expect(fieldsNeedingReview(book)).toContain('title')
+  })
+})
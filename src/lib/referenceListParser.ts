@@ -0,0 +1,463 @@
+import type { Citation, SourceType } from '@/App'
+import { parseNameList, type PersonName } from '@/lib/names'
+import { cleanDoi, compactCitation, createImportedId } from '@/lib/importUtils'
+
+/**
+ * Turn a pasted, already formatted reference list back into citations. The
+ * list is split into entries, the most likely style is detected across all
+ * of them, and each field is extracted with a confidence score so doubtful
+ * values can be reviewed before saving.
+ */
+
+export type ReferenceStyle = 'apa' | 'mla' | 'chicago' | 'harvard' | 'ieee'
+
+export const referenceStyleNames: Record<ReferenceStyle, string> = {
+  apa: 'APA',
+  mla: 'MLA',
+  chicago: 'Chicago',
+  harvard: 'Harvard',
+  ieee: 'IEEE'
+}
+
+export type ParsedField =
+  | 'type'
+  | 'authors'
+  | 'year'
+  | 'title'
+  | 'source'
+  | 'volume'
+  | 'issue'
+  | 'pages'
+  | 'publisher'
+  | 'city'
+  | 'edition'
+  | 'doi'
+  | 'url'
+
+export interface ParsedReference {
+  raw: string
+  citation: Citation
+  // 0-1 for each field that was found; missing fields have no entry
+  confidence: Partial<Record<ParsedField, number>>
+}
+
+export interface ReferenceListParseResult {
+  style: ReferenceStyle | null
+  // Share of the style evidence that pointed at the detected style
+  styleConfidence: number
+  references: ParsedReference[]
+}
+
+// Fields below this confidence are flagged for review
+export const REVIEW_THRESHOLD = 0.7
+
+const NUMBER_MARKER = /^\s*(?:\[\d+\]|\d+\.)\s+/
+const YEAR = /\b(1[5-9]\d{2}|20\d{2})[a-z]?\b/
+const PAGE_RANGE = /\d+\s*[–-]\s*\d+/
+const QUOTED = /[“"‘]([^”"’]+?)[,.]?[”"’]/
+// A surname behind a particle, then a given name or initial: "van der Berg,
+// J." or "de Souza, Maria."
+const PARTICLE_AUTHOR = /^(?:(?:van|von|der|den|de|del|della|di|da|du|la|le|dos|das|ter|ten)\s+)+\p{Lu}[\p{L}'’-]*,\s+\p{Lu}(?:\.|[\p{Ll}'’-]+[\s.,(])/u
+
+/**
+ * Split pasted text into one string per reference. Numbered lists split at
+ * their markers; otherwise blank lines or, failing that, line breaks separate
+ * entries. Lines starting in lower case continue the previous entry, unless
+ * they open with a particle surname.
+ */
+export function splitReferenceList(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trim())
+  const numbered = lines.filter(line => NUMBER_MARKER.test(line)).length >= 2
+  const paragraphs = /\n\s*\n/.test(text.trim())
+
+  const entries: string[] = []
+  let blank = true
+  lines.forEach(line => {
+    if (!line) {
+      blank = true
+      return
+    }
+    const startsEntry = numbered
+      ? NUMBER_MARKER.test(line)
+      : paragraphs ? blank : !/^[\p{Ll}\d,.;:)–-]/u.test(line) || PARTICLE_AUTHOR.test(line)
+    if (startsEntry || entries.length === 0) {
+      entries.push(line)
+    } else {
+      entries[entries.length - 1] += ` ${line}`
+    }
+    blank = false
+  })
+  return entries
+}
+
+// Patterns typical of each style, with how strongly they point at it
+const STYLE_EVIDENCE: Record<ReferenceStyle, [RegExp, number][]> = {
+  apa: [
+    [/^[^()]+\((\d{4}[a-z]?|n\.d\.)(, [^)]+)?\)\.\s/, 3],
+    [/,? & /, 1],
+    [/\d+\(\d+\), \d+[–-]\d+/, 2],
+    [/https:\/\/doi\.org\//, 1]
+  ],
+  harvard: [
+    [/^[^()]+\((\d{4}[a-z]?|n\.d\.)\)\s[^.]/, 3],
+    [/\bpp?\.\s?\d/, 1],
+    [/Available at:/i, 2],
+    [/\[Accessed/i, 2]
+  ],
+  mla: [
+    [/^[^“"]+\.\s[“"][^”"]+\.[”"]/, 2],
+    [/\bvol\. \d+, no\. \d+, (\d{1,2} )?(\p{L}+\.? )?\d{4}/u, 3],
+    [/, \d{4}, pp\. /, 2],
+    [/, et al\./, 1]
+  ],
+  chicago: [
+    [/^[^“"]+\.\s[“"][^”"]+\.[”"]/, 2],
+    // Author-date: "Smith, John. 2020. Title."
+    [/^[^“"()]+?\.\s(\d{4}[a-z]?|n\.d\.)\.\s/, 3],
+    [/\d+, no\. \d+ \((\p{L}+ )?\d{4}\): /u, 3],
+    [/\(\d{4}\): \d/, 2],
+    [/\. \p{L}[\p{L} ]+: [^,]+, \d{4}\.$/u, 1]
+  ],
+  ieee: [
+    [/^\[\d+\]/, 3],
+    [/^(\[\d+\]\s*)?(\p{Lu}\.\s?(-?\p{Lu}\.\s?)*)\p{Lu}\p{Ll}+/u, 1],
+    [/[“"][^”"]+,[”"]/, 2],
+    [/vol\. \d+, no\. \d+, pp\. /, 2]
+  ]
+}
+
+/**
+ * Score each style across all entries and return the best match
+ */
+export function detectReferenceStyle(entries: string[]): { style: ReferenceStyle | null; confidence: number } {
+  const scores = Object.fromEntries(
+    (Object.keys(STYLE_EVIDENCE) as ReferenceStyle[]).map(style => [style, 0])
+  ) as Record<ReferenceStyle, number>
+
+  entries.forEach(entry => {
+    ;(Object.entries(STYLE_EVIDENCE) as [ReferenceStyle, [RegExp, number][]][]).forEach(([style, evidence]) => {
+      evidence.forEach(([pattern, weight]) => {
+        if (pattern.test(entry)) scores[style] += weight
+      })
+    })
+  })
+
+  const ranked = (Object.entries(scores) as [ReferenceStyle, number][]).sort((a, b) => b[1] - a[1])
+  const total = ranked.reduce((sum, [, score]) => sum + score, 0)
+  if (ranked[0][1] === 0) return { style: null, confidence: 0 }
+  return { style: ranked[0][0], confidence: ranked[0][1] / total }
+}
+
+function trimPunctuation(value: string): string {
+  return value.replace(/^[\s.,;:]+|[\s.,;:]+$/g, '')
+}
+
+// Index of the first ". " that ends a sentence rather than an initial such
+// as "J." or an abbreviation such as "Ed."
+function sentenceEnd(text: string, from = 0): number {
+  const pattern = /[.?!]\s/g
+  pattern.lastIndex = from
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text))) {
+    const word = text.slice(0, match.index + 1).match(/(\S+)$/)?.[1] || ''
+    if (/^(\p{Lu}\.|-\p{Lu}\.|\p{Lu}\.-?\p{Lu}\.|Ed\.|Eds\.|ed\.|eds\.|et al\.|vol\.|no\.|pp\.|Jr\.|Sr\.|St\.)$/u.test(word)) continue
+    return match.index
+  }
+  return -1
+}
+
+function parseAuthors(text: string): { authors: PersonName[]; confidence: number } {
+  // Keep the full stop of a final initial ("Lee, C.")
+  const cleaned = text
+    .replace(/,?\s*(et al\.?|…|\.\.\.)/g, ',')
+    .replace(/\s*\((Eds?|eds?)\.\)/g, '')
+    .replace(/,?\s*&\s*/g, ', and ')
+    .replace(/^[\s,;:]+|[\s,;:]+$/g, '')
+    .replace(/(\p{L}{2,})\.$/u, '$1')
+  const authors = parseNameList(cleaned)
+  if (authors.length === 0) return { authors, confidence: 0 }
+  const wellFormed = authors.every(name => name.literal || (name.family && name.given))
+  return { authors, confidence: wellFormed ? 0.85 : 0.55 }
+}
+
+/**
+ * Parse one formatted reference. The style decides where the author list
+ * ends and where the year sits; the remainder is read the same way for all
+ * styles.
+ */
+export function parseReference(raw: string, style: ReferenceStyle | null): ParsedReference {
+  const confidence: Partial<Record<ParsedField, number>> = {}
+  let text = raw.replace(NUMBER_MARKER, '').replace(/\s+/g, ' ').trim()
+
+  // Identifiers first, so their dots and slashes do not confuse the rest
+  let doi = ''
+  const doiMatch = text.match(/(?:https?:\/\/(?:dx\.)?doi\.org\/|\bdoi:\s*)?(10\.\d{4,9}\/\S+)/i)
+  if (doiMatch) {
+    doi = cleanDoi(doiMatch[1].replace(/[.,;]+$/, ''))
+    confidence.doi = 0.95
+    text = text.replace(doiMatch[0], '')
+  }
+  let url = ''
+  const urlMatch = text.match(/<?(https?:\/\/[^\s>]+)>?/)
+  if (urlMatch) {
+    url = urlMatch[1].replace(/[.,;)\]]+$/, '')
+    confidence.url = 0.9
+    text = text.replace(urlMatch[0], '')
+  }
+  text = text
+    .replace(/\b(Available (at|from)|Retrieved (from)?|Accessed)\b:?[^.]*?(?=\.|$)/gi, '')
+    .replace(/\[(Accessed|Cited|Online)[^\]]*\]/gi, '')
+    .replace(/\s+([.,])/g, '$1')
+    .replace(/[\s.,;:]+$/, '')
+    .trim()
+
+  let authorsText = ''
+  let year = ''
+  let title = ''
+  let rest = ''
+
+  const parenthesizedYear = text.match(/^(.*?)\s*\((\d{4}[a-z]?|n\.d\.)(?:,[^)]*)?\)\.?\s*(.*)$/)
+  const authorDate = text.match(/^([^“"()]+?\.)\s(\d{4}[a-z]?|n\.d\.)\.\s+(.*)$/)
+  const leadingYear = parenthesizedYear && (style === 'apa' || style === 'harvard' || !style)
+    ? parenthesizedYear
+    : authorDate && (style === 'chicago' || !style) ? authorDate : null
+  if (leadingYear) {
+    // Author (Year). Title. Container... or Chicago author-date
+    // Author. Year. Title. Container...
+    authorsText = leadingYear[1]
+    year = leadingYear[2]
+    confidence.year = 0.95
+    const body = leadingYear[3]
+    // Harvard puts article titles in single quotes
+    const quoted = body.match(/^[“"‘']([^”"’']+?)[,.]?[”"’'](?=[\s,.]|$)/)
+    if (quoted) {
+      title = quoted[1]
+      confidence.title = 0.9
+      rest = body.slice(quoted[0].length)
+    } else {
+      const end = sentenceEnd(body)
+      title = end === -1 ? body : body.slice(0, end)
+      confidence.title = end === -1 ? 0.5 : 0.75
+      rest = end === -1 ? '' : body.slice(end + 1)
+    }
+  } else {
+    // Author. "Title." Container... (MLA, Chicago) or Author, "Title," (IEEE)
+    const quoted = text.match(QUOTED)
+    const ieeeAuthors = text.match(/^((?:(?:and )?(?:\p{Lu}\.\s?(?:-?\p{Lu}\.\s?)*)+[\p{Lu}][\p{L}'’-]+(?:,\s|\sand\s))+)/u)
+    if (quoted && quoted.index !== undefined && quoted.index > 0) {
+      authorsText = text.slice(0, quoted.index)
+      title = quoted[1]
+      confidence.title = 0.9
+      rest = text.slice(quoted.index + quoted[0].length)
+    } else if (style === 'ieee' && ieeeAuthors) {
+      // IEEE book titles follow the initials-first author list directly
+      authorsText = ieeeAuthors[1]
+      const body = text.slice(ieeeAuthors[1].length)
+      const titleEnd = sentenceEnd(body)
+      title = titleEnd === -1 ? body : body.slice(0, titleEnd)
+      confidence.title = 0.6
+      rest = titleEnd === -1 ? '' : body.slice(titleEnd + 1)
+    } else {
+      const authorEnd = sentenceEnd(text)
+      authorsText = authorEnd === -1 ? '' : text.slice(0, authorEnd)
+      const body = authorEnd === -1 ? text : text.slice(authorEnd + 1).trim()
+      const titleEnd = sentenceEnd(body)
+      title = titleEnd === -1 ? body : body.slice(0, titleEnd)
+      confidence.title = 0.6
+      rest = titleEnd === -1 ? '' : body.slice(titleEnd + 1)
+    }
+  }
+
+  title = trimPunctuation(title)
+  rest = rest.trim()
+
+  // "(2nd ed.)" after an APA title, "2nd edn." or "2nd ed." after others
+  let edition = ''
+  const titleEdition = title.match(/\s*\((\d+)\p{L}{2} ed\.?\)$/u)
+  const restEdition = rest.match(/^(\d+)\p{L}{2} edn?\.\s*/u)
+  if (titleEdition) {
+    edition = titleEdition[1]
+    title = title.slice(0, titleEdition.index)
+    confidence.edition = 0.9
+  } else if (restEdition) {
+    edition = restEdition[1]
+    rest = rest.slice(restEdition[0].length)
+    confidence.edition = 0.85
+  }
+
+  const parsedAuthors = parseAuthors(authorsText)
+  if (parsedAuthors.authors.length > 0) confidence.authors = parsedAuthors.confidence
+
+  // A number where a name or title should be means the entry was split in
+  // the wrong places, usually because its style was misread
+  const numeric = (value: string) => /^[\d\s.,:;()–-]+[a-z]?$/.test(value)
+  if (parsedAuthors.authors.some(name => numeric(name.family || name.literal || ''))) {
+    confidence.authors = 0.3
+  }
+  if (title && numeric(title)) confidence.title = 0.3
+
+  if (!year) {
+    // Chicago "(2020):", MLA ", 2020," and IEEE "2020." all sit after the title
+    const inParens = rest.match(/\((?:\p{L}+\.? )?(\d{4})\)/u)
+    const loose = rest.replace(/\bpp?\.\s*[\d–-]+/g, '').match(YEAR)
+    if (inParens) {
+      year = inParens[1]
+      confidence.year = 0.85
+    } else if (loose) {
+      year = loose[1]
+      confidence.year = 0.7
+    }
+  }
+
+  let volume = ''
+  let issue = ''
+  let pages = ''
+  const vol = rest.match(/\bvol\.?\s*(\d+)/i)
+  const no = rest.match(/\bno\.?\s*(\d+)/i)
+  const volumeIssue = rest.match(/(\d+)\s?\(([\w–-]+)\)/)
+  const chicagoVolume = rest.match(/\s(\d+), no\./)
+  if (vol) {
+    volume = vol[1]
+    confidence.volume = 0.9
+  } else if (chicagoVolume) {
+    volume = chicagoVolume[1]
+    confidence.volume = 0.85
+  } else if (volumeIssue && !YEAR.test(volumeIssue[2])) {
+    volume = volumeIssue[1]
+    confidence.volume = 0.85
+  }
+  if (no) {
+    issue = no[1]
+    confidence.issue = 0.9
+  } else if (volumeIssue && volume === volumeIssue[1]) {
+    issue = volumeIssue[2]
+    confidence.issue = 0.85
+  }
+
+  const labelled = rest.match(/\bpp?\.\s*(\d+(?:\s*[–-]\s*\d+)?)/)
+  const afterColon = rest.match(/\):\s*(\d+(?:\s*[–-]\s*\d+)?)/)
+  const trailing = rest.match(new RegExp(`,\\s*(${PAGE_RANGE.source})\\.?$`))
+  if (labelled) {
+    pages = labelled[1]
+    confidence.pages = 0.9
+  } else if (afterColon) {
+    pages = afterColon[1]
+    confidence.pages = 0.85
+  } else if (trailing) {
+    pages = trailing[1]
+    confidence.pages = 0.75
+  }
+  pages = pages.replace(/\s*–\s*|\s*-\s*/, '-')
+
+  let type: SourceType = 'article'
+  let source = ''
+  let publisher = ''
+  let city = ''
+
+  const chapter = rest.match(/^In:?\s+(.*)$/)
+  if (chapter) {
+    // APA "In A. Editor (Ed.), Book (pp. 1–10). Publisher" and Chicago
+    // "In Book, edited by A. Editor, 1–10. City: Publisher"
+    type = 'chapter'
+    confidence.type = 0.85
+    const container = chapter[1]
+      .replace(/^.*?\((?:Eds?|eds?)\.\),\s*/, '')
+      .replace(/,\s*edited by.*$/i, '')
+    source = trimPunctuation(container.split(/\s\(pp?\.|\.\s/)[0])
+    confidence.source = 0.75
+    const publisherPart = chapter[1].slice(chapter[1].lastIndexOf('. ') + 2)
+    const place = publisherPart.match(/^([^:,]+):\s*([^,.]+)/)
+    if (place) {
+      city = place[1].trim()
+      publisher = place[2].trim()
+      confidence.city = 0.75
+      confidence.publisher = 0.75
+    }
+  } else if (volume || issue || (pages && /,/.test(rest))) {
+    // Journal-style container: everything before the first number or label
+    const end = rest.search(/,?\s*(vol\.|no\.|pp?\.|\d)/i)
+    source = trimPunctuation(end === -1 ? rest : rest.slice(0, end))
+    confidence.source = source ? 0.8 : 0
+    confidence.type = 0.8
+    if (/\b(proceedings|conference|symposium|workshop)\b/i.test(source)) {
+      type = 'conference'
+      confidence.type = 0.7
+    }
+  } else if (/\b(dissertation|thesis)\b/i.test(rest)) {
+    type = 'thesis'
+    confidence.type = 0.8
+    const institution = rest.replace(/^.*?\b(dissertation|thesis)\b[\]),.]*\s*/i, '')
+    publisher = trimPunctuation(institution.replace(YEAR, ''))
+    if (publisher) confidence.publisher = 0.6
+  } else {
+    // Books: "City: Publisher, 2020" (Chicago, IEEE), "Publisher, 2020"
+    // (MLA) or "Publisher" (APA 7)
+    const place = rest.match(/([\p{L} .,]+?):\s*([^,:]+)/u)
+    if (place) {
+      city = trimPunctuation(place[1].replace(/^.*\.\s/, ''))
+      publisher = trimPunctuation(place[2].replace(YEAR, ''))
+      confidence.city = 0.75
+      confidence.publisher = 0.75
+    } else if (rest) {
+      publisher = trimPunctuation(rest.replace(YEAR, '').split(/\.\s/)[0])
+      if (publisher) confidence.publisher = 0.55
+    }
+    if (publisher) {
+      type = 'book'
+      confidence.type = place ? 0.75 : 0.6
+    } else if (url) {
+      type = 'website'
+      confidence.type = 0.6
+    } else {
+      confidence.type = 0.3
+    }
+  }
+
+  const coreFields: ParsedField[] = ['authors', 'year', 'title', type === 'book' ? 'publisher' : 'source']
+  const overall = coreFields.reduce((sum, field) => sum + (confidence[field] || 0), 0) / coreFields.length
+
+  const citation = compactCitation({
+    id: createImportedId(),
+    title: title || 'Untitled',
+    authors: parsedAuthors.authors,
+    year,
+    source: source || publisher,
+    url: url || undefined,
+    doi: doi || undefined,
+    pages: pages || undefined,
+    volume: volume || undefined,
+    issue: issue || undefined,
+    publisher: publisher || undefined,
+    edition: edition || undefined,
+    city: city || undefined,
+    type,
+    confidence: Math.round(overall * 100) / 100
+  })
+
+  return { raw, citation, confidence }
+}
+
+/**
+ * Split, detect the style and parse every entry of a pasted reference list
+ */
+export function parseReferenceList(text: string, style?: ReferenceStyle): ReferenceListParseResult {
+  const entries = splitReferenceList(text)
+  const detected = style ? { style, confidence: 1 } : detectReferenceStyle(entries)
+  return {
+    style: detected.style,
+    styleConfidence: detected.confidence,
+    references: entries.map(entry => parseReference(entry, detected.style))
+  }
+}
+
+/**
+ * Fields of a parsed reference that should be checked by hand: those found
+ * with low confidence and core fields that were not found at all
+ */
+export function fieldsNeedingReview(reference: ParsedReference): ParsedField[] {
+  const core: ParsedField[] = ['authors', 'year', 'title']
+  const flagged = (Object.entries(reference.confidence) as [ParsedField, number][])
+    .filter(([, value]) => value < REVIEW_THRESHOLD)
+    .map(([field]) => field)
+  return [...core.filter(field => reference.confidence[field] === undefined), ...flagged]
+}
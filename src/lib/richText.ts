@@ -0,0 +1,217 @@
+import { toPlainText, type CitationRun, type FormattedCitation } from '@/lib/citationFormatter'
+
+/**
+ * Render formatted citations as HTML and RTF for the clipboard and for
+ * word-processor exports
+ */
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function runToHtml(run: CitationRun): string {
+  let html = escapeHtml(run.text)
+  if (run.italic) html = `<i>${html}</i>`
+  if (run.bold) html = `<b>${html}</b>`
+  if (run.smallCaps) html = `<span style="font-variant:small-caps">${html}</span>`
+  if (run.superscript) html = `<sup>${html}</sup>`
+  if (run.url) html = `<a href="${escapeHtml(run.url)}">${html}</a>`
+  return html
+}
+
+/**
+ * Inline HTML for one formatted citation
+ */
+export function toHtml(runs: FormattedCitation): string {
+  return runs.map(runToHtml).join('')
+}
+
+// URLs and DOIs written as plain text, such as IEEE's "doi: 10.1000/xyz"
+const LINK_PATTERN = /https?:\/\/[^\s<>"]*[^\s<>".,;:)]|\b10\.\d{4,9}\/[^\s<>"]*[^\s<>".,;:)]/g
+
+/**
+ * Split URLs and DOIs out of plain text runs into link runs; DOIs link to
+ * doi.org
+ */
+export function linkifyRuns(runs: FormattedCitation): FormattedCitation {
+  return runs.flatMap(run => {
+    if (run.url) return [run]
+    const linked: CitationRun[] = []
+    let last = 0
+    for (const match of run.text.matchAll(LINK_PATTERN)) {
+      const index = match.index as number
+      if (index > last) linked.push({ ...run, text: run.text.slice(last, index) })
+      const url = match[0].startsWith('10.') ? `https://doi.org/${match[0]}` : match[0]
+      linked.push({ ...run, text: match[0], url })
+      last = index + match[0].length
+    }
+    if (last < run.text.length) linked.push({ ...run, text: run.text.slice(last) })
+    return linked
+  })
+}
+
+export interface ReferencePageOptions {
+  title: string
+  // Element id for each entry, so in-text links can point at it
+  anchors?: string[]
+  hangingIndent: boolean
+  lineSpacing: number
+}
+
+/**
+ * Standalone HTML reference page using the csl-bib-body and csl-entry
+ * classes that citeproc and Pandoc produce, so existing stylesheets apply
+ */
+export function createHtmlDocument(entries: FormattedCitation[], options: ReferencePageOptions): string {
+  const title = escapeHtml(options.title)
+  const bodyClass = `references csl-bib-body${options.hangingIndent ? ' hanging-indent' : ''}`
+  const items = entries.map((entry, index) => {
+    const id = options.anchors?.[index]
+    return `  <div${id ? ` id="${escapeHtml(id)}"` : ''} class="csl-entry" role="listitem">${toHtml(linkifyRuns(entry))}</div>`
+  })
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  .csl-bib-body { line-height: ${options.lineSpacing}; }
+  .csl-entry { margin-bottom: 0.5em; }
+  .hanging-indent .csl-entry { padding-left: 2em; text-indent: -2em; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div id="refs" class="${bodyClass}" role="list">
+${items.join('\n')}
+</div>
+</body>
+</html>
+`
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, char => `\\${char}`)
+}
+
+function runToMarkdown(run: CitationRun): string {
+  if (run.url) {
+    if (run.text === run.url) return `<${run.url}>`
+    return `[${escapeMarkdown(run.text)}](${run.url.replace(/\(/g, '%28').replace(/\)/g, '%29')})`
+  }
+  // Emphasis markers have to touch the text, so surrounding spaces stay outside
+  const [, before, text, after] = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray
+  if (!text) return run.text
+  let markdown = escapeMarkdown(text)
+  if (run.italic) markdown = `*${markdown}*`
+  if (run.bold) markdown = `**${markdown}**`
+  if (run.superscript) markdown = `<sup>${markdown}</sup>`
+  return `${before}${markdown}${after}`
+}
+
+/**
+ * Markdown reference page: one paragraph per entry with *italics* and
+ * autolinked URLs. Anchors are inline HTML, which Obsidian, GitHub and
+ * Pandoc all keep.
+ */
+export function createMarkdownDocument(entries: FormattedCitation[], options: Pick<ReferencePageOptions, 'title' | 'anchors'>): string {
+  const paragraphs = entries.map((entry, index) => {
+    // A leading "1." would otherwise start a numbered list
+    const text = linkifyRuns(entry).map(runToMarkdown).join('').replace(/^(\d+)\. /, '$1\\. ')
+    const id = options.anchors?.[index]
+    return id ? `<a id="${escapeHtml(id)}"></a>${text}` : text
+  })
+  return `# ${escapeMarkdown(options.title)}\n\n${paragraphs.join('\n\n')}\n`
+}
+
+/**
+ * Escape text for RTF. Characters outside ASCII become \uN? control words so
+ * accented names survive the trip into Word.
+ */
+function escapeRtf(text: string): string {
+  let escaped = ''
+  for (const char of text) {
+    const code = char.codePointAt(0) as number
+    if (char === '\\' || char === '{' || char === '}') {
+      escaped += `\\${char}`
+    } else if (char === '\n') {
+      escaped += '\\line '
+    } else if (code > 0xffff) {
+      // Astral characters are written as their UTF-16 surrogate pair
+      const high = Math.floor((code - 0x10000) / 0x400) + 0xd800
+      const low = ((code - 0x10000) % 0x400) + 0xdc00
+      escaped += `\\u${high - 0x10000}?\\u${low - 0x10000}?`
+    } else if (code > 127) {
+      escaped += `\\u${code > 32767 ? code - 65536 : code}?`
+    } else {
+      escaped += char
+    }
+  }
+  return escaped
+}
+
+function runToRtf(run: CitationRun): string {
+  let rtf = escapeRtf(run.text)
+  if (run.italic) rtf = `{\\i ${rtf}}`
+  if (run.bold) rtf = `{\\b ${rtf}}`
+  if (run.smallCaps) rtf = `{\\scaps ${rtf}}`
+  if (run.superscript) rtf = `{\\super ${rtf}}`
+  if (run.url) rtf = `{\\field{\\*\\fldinst HYPERLINK "${escapeRtf(run.url)}"}{\\fldrslt ${rtf}}}`
+  return rtf
+}
+
+/**
+ * RTF fragment for one formatted citation
+ */
+export function toRtf(runs: FormattedCitation): string {
+  return runs.map(runToRtf).join('')
+}
+
+/**
+ * Complete RTF document: a centred heading followed by one paragraph per
+ * entry with a half-inch hanging indent
+ */
+export function createRtfDocument(entries: FormattedCitation[], title = 'Bibliography'): string {
+  let content = '{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;}}\\f0\\fs24\n'
+  content += `{\\pard\\qc\\sa240\\b ${escapeRtf(title)}\\par}\n`
+  content += entries.map(entry => `{\\pard\\li720\\fi-720\\sa240 ${toRtf(entry)}\\par}`).join('\n')
+  content += '\n}'
+  return content
+}
+
+/**
+ * HTML fragment for a list of entries with hanging indents, as pasted into
+ * Word or Google Docs
+ */
+export function createHtmlFragment(entries: FormattedCitation[], hangingIndent = true): string {
+  const style = hangingIndent ? ' style="margin:0 0 12pt 0.5in;text-indent:-0.5in"' : ''
+  return entries.map(entry => `<p${style}>${toHtml(entry)}</p>`).join('\n')
+}
+
+/**
+ * Copy formatted citations with both text/html (keeps italics in word
+ * processors) and text/plain. Falls back to plain text where the browser
+ * cannot write rich clipboard data.
+ */
+export async function copyFormattedCitations(entries: FormattedCitation[], hangingIndent = entries.length > 1): Promise<void> {
+  const plain = entries.map(toPlainText).join('\n\n')
+
+  if (typeof ClipboardItem === 'undefined' || !navigator.clipboard.write) {
+    await navigator.clipboard.writeText(plain)
+    return
+  }
+
+  const html = entries.length === 1 && !hangingIndent
+    ? toHtml(entries[0])
+    : createHtmlFragment(entries, hangingIndent)
+  await navigator.clipboard.write([
+    new ClipboardItem({
+      'text/html': new Blob([html], { type: 'text/html' }),
+      'text/plain': new Blob([plain], { type: 'text/plain' })
+    })
+  ])
+}
@@ -0,0 +1,589 @@
+import type { Citation, SourceType } from '@/App'
+import { parseName, type PersonName } from '@/lib/names'
+import { cleanDoi, compactCitation, createImportedId, extractYear, type ImportedCitation, type ImportResult } from '@/lib/importUtils'
+
+/**
+ * Import for line-tagged formats: RIS ("TY  - JOUR"), EndNote tagged (.enw,
+ * "%0 Journal Article") and PubMed MEDLINE (.nbib, "PMID- 12345"). All are
+ * read into tag/value records and then mapped onto citations through an
+ * editable tag mapping.
+ */
+
+export interface TaggedRecord {
+  // The TY, %0 or PT value, e.g. "JOUR" or "Journal Article"
+  type: string
+  // Tags in file order; repeated tags (several AU lines) stay separate
+  fields: [string, string][]
+  line: number
+  warnings: string[]
+}
+
+export interface TaggedParseResult {
+  records: TaggedRecord[]
+  errors: string[]
+}
+
+// Citation fields a tag can be mapped to
+export type ImportField =
+  | 'title'
+  | 'authors'
+  | 'authorsShort'
+  | 'editors'
+  | 'year'
+  | 'source'
+  | 'volume'
+  | 'issue'
+  | 'pages'
+  | 'startPage'
+  | 'endPage'
+  | 'publisher'
+  | 'city'
+  | 'edition'
+  | 'isbn'
+  | 'doi'
+  | 'url'
+  | 'abstract'
+  | 'repository'
+  | 'archiveId'
+  | 'pmid'
+  | 'number'
+  | 'runtime'
+  | 'dateAccessed'
+  | 'ignore'
+
+export const importFieldLabels: Record<ImportField, string> = {
+  title: 'Title',
+  authors: 'Author',
+  authorsShort: 'Author (if no full names)',
+  editors: 'Editor',
+  year: 'Year / date',
+  source: 'Journal / container',
+  volume: 'Volume',
+  issue: 'Issue',
+  pages: 'Pages',
+  startPage: 'Start page',
+  endPage: 'End page',
+  publisher: 'Publisher',
+  city: 'Place',
+  edition: 'Edition / version',
+  isbn: 'ISBN',
+  doi: 'DOI',
+  url: 'URL',
+  abstract: 'Abstract',
+  repository: 'Database / repository',
+  archiveId: 'Accession number',
+  pmid: 'PubMed ID',
+  number: 'Number (patent, standard)',
+  runtime: 'Running time',
+  dateAccessed: 'Date accessed',
+  ignore: "Don't import"
+}
+
+/**
+ * Tag to field mapping. Where several tags map to one single-valued field,
+ * the tag listed first wins (a full journal title beats an abbreviation).
+ */
+export type TagMapping = Record<string, ImportField>
+
+export const defaultRISMapping: TagMapping = {
+  TI: 'title',
+  T1: 'title',
+  CT: 'title',
+  AU: 'authors',
+  A1: 'authors',
+  A2: 'editors',
+  ED: 'editors',
+  PY: 'year',
+  Y1: 'year',
+  DA: 'year',
+  T2: 'source',
+  JF: 'source',
+  JO: 'source',
+  BT: 'source',
+  JA: 'source',
+  J2: 'source',
+  J1: 'source',
+  VL: 'volume',
+  IS: 'issue',
+  CP: 'issue',
+  SP: 'startPage',
+  EP: 'endPage',
+  PB: 'publisher',
+  CY: 'city',
+  PP: 'city',
+  ET: 'edition',
+  SN: 'isbn',
+  DO: 'doi',
+  UR: 'url',
+  L2: 'url',
+  AB: 'abstract',
+  N2: 'abstract',
+  DB: 'repository',
+  DP: 'repository',
+  AN: 'archiveId',
+  M1: 'number',
+  M3: 'runtime',
+  Y2: 'dateAccessed',
+  KW: 'ignore',
+  N1: 'ignore',
+  ID: 'ignore',
+  LA: 'ignore',
+  T3: 'ignore',
+  A3: 'ignore',
+  A4: 'ignore'
+}
+
+export const defaultEndNoteMapping: TagMapping = {
+  '%T': 'title',
+  '%A': 'authors',
+  '%E': 'editors',
+  '%D': 'year',
+  '%8': 'dateAccessed',
+  '%J': 'source',
+  '%B': 'source',
+  '%V': 'volume',
+  '%N': 'issue',
+  '%P': 'pages',
+  '%I': 'publisher',
+  '%C': 'city',
+  '%7': 'edition',
+  '%@': 'isbn',
+  '%R': 'doi',
+  '%U': 'url',
+  '%X': 'abstract',
+  '%~': 'repository',
+  '%M': 'archiveId',
+  '%9': 'ignore',
+  '%K': 'ignore',
+  '%Z': 'ignore',
+  '%S': 'ignore',
+  '%G': 'ignore',
+  '%F': 'ignore'
+}
+
+export const defaultMedlineMapping: TagMapping = {
+  PMID: 'pmid',
+  TI: 'title',
+  BTI: 'title',
+  FAU: 'authors',
+  AU: 'authorsShort',
+  FED: 'editors',
+  ED: 'editors',
+  DP: 'year',
+  JT: 'source',
+  TA: 'source',
+  VI: 'volume',
+  IP: 'issue',
+  PG: 'pages',
+  PB: 'publisher',
+  CI: 'ignore',
+  ISBN: 'isbn',
+  AID: 'doi',
+  LID: 'doi',
+  AB: 'abstract',
+  PT: 'ignore',
+  LA: 'ignore',
+  MH: 'ignore',
+  OT: 'ignore',
+  IS: 'ignore',
+  PL: 'ignore'
+}
+
+const RIS_TYPES: Record<string, SourceType> = {
+  JOUR: 'article',
+  EJOUR: 'article',
+  ABST: 'article',
+  MGZN: 'article',
+  JFULL: 'journal',
+  NEWS: 'newspaper',
+  BOOK: 'book',
+  EBOOK: 'book',
+  EDBOOK: 'book',
+  CHAP: 'chapter',
+  ECHAP: 'chapter',
+  CONF: 'conference',
+  CPAPER: 'conference',
+  THES: 'thesis',
+  RPRT: 'report',
+  GOVDOC: 'report',
+  ELEC: 'website',
+  WEB: 'website',
+  BLOG: 'website',
+  DATA: 'dataset',
+  COMP: 'software',
+  PAT: 'patent',
+  STAND: 'standard',
+  VIDEO: 'video',
+  MPCT: 'video',
+  SOUND: 'podcast',
+  UNPB: 'preprint',
+  INPR: 'preprint',
+  MANSCPT: 'preprint'
+}
+
+// EndNote reference type names, lower-cased
+const ENDNOTE_TYPES: Record<string, SourceType> = {
+  'journal article': 'article',
+  'electronic article': 'article',
+  'magazine article': 'article',
+  'newspaper article': 'newspaper',
+  'book': 'book',
+  'edited book': 'book',
+  'electronic book': 'book',
+  'book section': 'chapter',
+  'electronic book section': 'chapter',
+  'conference paper': 'conference',
+  'conference proceedings': 'conference',
+  'thesis': 'thesis',
+  'report': 'report',
+  'government document': 'report',
+  'web page': 'website',
+  'blog': 'website',
+  'dataset': 'dataset',
+  'computer program': 'software',
+  'patent': 'patent',
+  'standard': 'standard',
+  'film or broadcast': 'video',
+  'audiovisual material': 'podcast',
+  'manuscript': 'preprint',
+  'unpublished work': 'preprint'
+}
+
+// MEDLINE publication types (PT), lower-cased. Records list several; the
+// first one found here decides the source type.
+const MEDLINE_TYPES: Record<string, SourceType> = {
+  'preprint': 'preprint',
+  'dataset': 'dataset',
+  'book': 'book',
+  'book chapter': 'chapter',
+  'congress': 'conference',
+  'technical report': 'report',
+  'journal article': 'article',
+  'review': 'article',
+  'systematic review': 'article',
+  'meta-analysis': 'article',
+  'letter': 'article',
+  'editorial': 'article',
+  'comment': 'article',
+  'news': 'article',
+  'case reports': 'article',
+  'clinical trial': 'article',
+  'randomized controlled trial': 'article'
+}
+
+function splitLines(source: string): string[] {
+  return source.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)
+}
+
+/**
+ * Parse RIS records. Lines that do not start with a tag continue the
+ * previous value, which is how long abstracts (N2, AB) are wrapped.
+ */
+export function parseRIS(source: string): TaggedParseResult {
+  const records: TaggedRecord[] = []
+  const errors: string[] = []
+  let current: TaggedRecord | null = null
+  let lastField: [string, string] | null = null
+
+  for (const [index, line] of splitLines(source).entries()) {
+    const match = line.match(/^([A-Z][A-Z0-9]) {1,2}-(?: (.*))?$/)
+    if (!match) {
+      if (!line.trim()) continue
+      if (current && lastField) {
+        lastField[1] = `${lastField[1]} ${line.trim()}`.trim()
+      } else {
+        errors.push(`Line ${index + 1}: text outside a record ignored`)
+      }
+      continue
+    }
+
+    const [, tag, value = ''] = match
+    if (tag === 'TY') {
+      if (current) {
+        current.warnings.push('Record has no ER line')
+        records.push(current)
+      }
+      current = { type: value.trim(), fields: [], line: index + 1, warnings: [] }
+      lastField = null
+      continue
+    }
+    if (!current) {
+      errors.push(`Line ${index + 1}: ${tag} before the first TY ignored`)
+      continue
+    }
+    if (tag === 'ER') {
+      records.push(current)
+      current = null
+      lastField = null
+      continue
+    }
+    lastField = [tag, value.trim()]
+    current.fields.push(lastField)
+  }
+
+  if (current) {
+    current.warnings.push('Record has no ER line')
+    records.push(current)
+  }
+  return { records, errors }
+}
+
+/**
+ * Parse EndNote tagged records, which are separated by blank lines and
+ * start with a %0 reference type
+ */
+export function parseEndNote(source: string): TaggedParseResult {
+  const records: TaggedRecord[] = []
+  const errors: string[] = []
+  let current: TaggedRecord | null = null
+  let lastField: [string, string] | null = null
+
+  for (const [index, line] of splitLines(source).entries()) {
+    if (!line.trim()) {
+      if (current) records.push(current)
+      current = null
+      lastField = null
+      continue
+    }
+
+    const match = line.match(/^(%\S)(?: (.*))?$/)
+    if (!match) {
+      if (current && lastField) {
+        lastField[1] = `${lastField[1]} ${line.trim()}`.trim()
+      } else {
+        errors.push(`Line ${index + 1}: text outside a record ignored`)
+      }
+      continue
+    }
+
+    const [, tag, value = ''] = match
+    if (!current) {
+      current = { type: '', fields: [], line: index + 1, warnings: [] }
+      if (tag !== '%0') current.warnings.push('Record has no %0 reference type')
+    }
+    if (tag === '%0') {
+      current.type = value.trim()
+      continue
+    }
+    lastField = [tag, value.trim()]
+    current.fields.push(lastField)
+  }
+
+  if (current) records.push(current)
+  return { records, errors }
+}
+
+/**
+ * Parse PubMed MEDLINE records. Tags are padded to four characters
+ * ("PMID- ", "TI  - "), continuation lines are indented and records are
+ * separated by blank lines.
+ */
+export function parseMedline(source: string): TaggedParseResult {
+  const records: TaggedRecord[] = []
+  const errors: string[] = []
+  let current: TaggedRecord | null = null
+  let lastField: [string, string] | null = null
+
+  const finish = () => {
+    if (!current) return
+    const publicationTypes = current.fields.filter(([tag]) => tag === 'PT').map(([, value]) => value)
+    current.type = publicationTypes.find(type => type.toLowerCase() in MEDLINE_TYPES) || publicationTypes[0] || ''
+    records.push(current)
+    current = null
+    lastField = null
+  }
+
+  for (const [index, line] of splitLines(source).entries()) {
+    if (!line.trim()) {
+      finish()
+      continue
+    }
+
+    const match = line.match(/^([A-Z][A-Z0-9]{1,3}) *- (.*)$/)
+    if (!match) {
+      if (current && lastField && /^\s/.test(line)) {
+        lastField[1] = `${lastField[1]} ${line.trim()}`.trim()
+      } else {
+        errors.push(`Line ${index + 1}: text outside a record ignored`)
+      }
+      continue
+    }
+
+    const [, tag, value] = match
+    if (tag === 'PMID') finish()
+    if (!current) {
+      current = { type: '', fields: [], line: index + 1, warnings: [] }
+      if (tag !== 'PMID') current.warnings.push('Record has no PMID')
+    }
+    lastField = [tag, value.trim()]
+    current.fields.push(lastField)
+  }
+
+  finish()
+  return { records, errors }
+}
+
+/**
+ * Distinct tags across all records in the order they first appear, for the
+ * field mapping screen
+ */
+export function collectTags(records: TaggedRecord[]): string[] {
+  const tags = new Set<string>()
+  records.forEach(record => record.fields.forEach(([tag]) => tags.add(tag)))
+  return [...tags]
+}
+
+// "2020/05/12/" and "2020/5/12" as 2020-05-12; other forms are kept as given
+function normalizeDate(value: string): string {
+  const match = value.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})/)
+  if (!match) return value.replace(/\/+$/, '')
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`
+}
+
+// MEDLINE shortens page ranges ("1123-9" for 1123-1129)
+function expandPageRange(pages: string): string {
+  const match = pages.match(/^(\d+)-(\d+)$/)
+  if (!match || match[2].length >= match[1].length) return pages
+  return `${match[1]}-${match[1].slice(0, match[1].length - match[2].length)}${match[2]}`
+}
+
+// MEDLINE lists article identifiers as "10.1000/xyz [doi]" next to
+// publisher ids such as "S0140-6736(20)30183-5 [pii]"
+function extractDoi(values: string[]): string {
+  const doi = values.find(value => /\[doi\]$/i.test(value)) || values.find(value => !/\[\w+\]$/.test(value))
+  return doi ? cleanDoi(doi.replace(/\s*\[doi\]$/i, '')) : ''
+}
+
+// SN and %@ carry ISSNs for journals; only ISBN-10 and ISBN-13 are kept
+function extractIsbn(value: string): string {
+  const match = value.match(/(?:97[89][-\s]?)?(?:\d[-\s]?){9}[\dX]/i)
+  if (!match) return ''
+  const digits = match[0].replace(/[-\s]/g, '')
+  return digits.length === 10 || digits.length === 13 ? match[0] : ''
+}
+
+function recordToCitation(
+  record: TaggedRecord,
+  mapping: TagMapping,
+  types: Record<string, SourceType>,
+  typeTag: string,
+  fallbackType: SourceType = 'report'
+): ImportedCitation {
+  const warnings = [...record.warnings]
+  const tagOrder = [...Object.keys(mapping), ...record.fields.map(([tag]) => tag)]
+    .filter((tag, index, all) => all.indexOf(tag) === index)
+
+  const values = (field: ImportField) =>
+    tagOrder
+      .filter(tag => mapping[tag] === field)
+      .flatMap(tag => record.fields.filter(([fieldTag, value]) => fieldTag === tag && value).map(([, value]) => value))
+  const first = (field: ImportField) => values(field)[0] || ''
+  // Name lists keep file order even when A1 and AU lines are mixed
+  const names = (field: ImportField) =>
+    record.fields.filter(([tag, value]) => mapping[tag] === field && value).map(([, value]) => value)
+
+  let type = types[record.type] || types[record.type.toLowerCase()]
+  if (!type) {
+    type = fallbackType
+    warnings.push(record.type
+      ? `Unknown ${typeTag} type "${record.type}"; imported as ${fallbackType}`
+      : `No reference type; imported as ${fallbackType}`)
+  }
+
+  let title = first('title')
+  if (!title) {
+    warnings.push('Missing title')
+    title = 'Untitled'
+  }
+
+  const parseNames = (list: string[]): PersonName[] =>
+    list.map(parseName).filter(name => Object.keys(name).length > 0)
+  let authors = parseNames(names('authors'))
+  if (authors.length === 0) authors = parseNames(names('authorsShort'))
+  if (authors.length === 0 && names('editors').length > 0) {
+    authors = parseNames(names('editors'))
+    warnings.push('No author; the editors were imported as authors')
+  }
+  if (authors.length === 0) warnings.push('No authors')
+
+  const year = values('year').map(extractYear).find(Boolean) || ''
+  if (!year) warnings.push('No year')
+
+  const startPage = first('startPage')
+  const endPage = first('endPage')
+  const pages = expandPageRange(first('pages')) || (startPage && endPage && startPage !== endPage ? `${startPage}-${endPage}` : startPage)
+
+  const number = first('number')
+  const edition = first('edition')
+  const isVersioned = type === 'software' || type === 'dataset'
+  const publisher = first('publisher')
+  const isbn = values('isbn').map(extractIsbn).find(Boolean) || ''
+  const dateAccessed = first('dateAccessed')
+  const doi = extractDoi(values('doi'))
+  const pmid = first('pmid')
+
+  const citation = compactCitation({
+    id: createImportedId(),
+    title,
+    authors,
+    year,
+    source: first('source') || publisher,
+    url: first('url') || undefined,
+    doi: doi || undefined,
+    pages: pages || undefined,
+    volume: first('volume') || undefined,
+    issue: first('issue') || (type !== 'patent' && type !== 'standard' ? number : '') || undefined,
+    publisher: publisher || undefined,
+    edition: (!isVersioned && edition) || undefined,
+    city: first('city') || undefined,
+    isbn: isbn || undefined,
+    abstract: first('abstract') || undefined,
+    version: (isVersioned && edition) || undefined,
+    repository: first('repository') || (pmid ? 'PubMed' : '') || undefined,
+    archiveId: first('archiveId') || pmid || (type === 'standard' ? number : '') || undefined,
+    patentNumber: type === 'patent' ? number || undefined : undefined,
+    runtime: first('runtime') || undefined,
+    type,
+    dateAccessed: dateAccessed ? normalizeDate(dateAccessed) : undefined
+  })
+
+  const label = pmid ? `PMID ${pmid}` : `${record.type || 'Record'} (line ${record.line})`
+  return { citation, label, warnings }
+}
+
+/**
+ * Read an RIS file into citations ready for review
+ */
+export function importRIS(source: string, mapping: TagMapping = defaultRISMapping): ImportResult {
+  const { records, errors } = parseRIS(source)
+  return {
+    items: records.map(record => recordToCitation(record, mapping, RIS_TYPES, 'RIS')),
+    errors,
+    tags: collectTags(records)
+  }
+}
+
+/**
+ * Read an EndNote tagged file (.enw) into citations ready for review
+ */
+export function importEndNote(source: string, mapping: TagMapping = defaultEndNoteMapping): ImportResult {
+  const { records, errors } = parseEndNote(source)
+  return {
+    items: records.map(record => recordToCitation(record, mapping, ENDNOTE_TYPES, 'EndNote')),
+    errors,
+    tags: collectTags(records)
+  }
+}
+
+/**
+ * Read a PubMed MEDLINE export (.nbib) into citations ready for review. The
+ * PMID is kept as the accession number with PubMed as the database.
+ */
+export function importMedline(source: string, mapping: TagMapping = defaultMedlineMapping): ImportResult {
+  const { records, errors } = parseMedline(source)
+  return {
+    items: records.map(record => recordToCitation(record, mapping, MEDLINE_TYPES, 'MEDLINE', 'article')),
+    errors,
+    tags: collectTags(records)
+  }
+}
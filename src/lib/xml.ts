@@ -0,0 +1,17 @@
+/**
+ * Helpers for writing XML documents
+ */
+
+/**
+ * Escape text for XML element content and attribute values, dropping
+ * control characters that XML 1.0 does not allow
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
@@ -0,0 +1,107 @@
+/**
+ * Minimal zip writer for the document exports. Entries are stored without
+ * compression, which every reader accepts and which ODF requires for its
+ * leading mimetype entry.
+ */
+
+export interface ZipEntry {
+  name: string
+  data: string | Uint8Array
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Modification time in MS-DOS format, as zip headers store it
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Build a zip archive from the given entries, in order
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array {
+  const encoder = new TextEncoder()
+  const { time, date } = dosDateTime(modified)
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+    const crc = crc32(data)
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true) // version needed to extract
+    localView.setUint16(6, 0x0800, true) // names are UTF-8
+    localView.setUint16(8, 0, true) // stored
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, date, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true) // version made by
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(8, 0x0800, true)
+    centralView.setUint16(10, 0, true)
+    centralView.setUint16(12, time, true)
+    centralView.setUint16(14, date, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, data.length, true)
+    centralView.setUint32(24, data.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    localParts.push(local, data)
+    centralParts.push(central)
+    offset += local.length + data.length
+  }
+
+  const centralSize = centralParts.reduce((total, part) => total + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, end]
+  const archive = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  for (const part of parts) {
+    archive.set(part, position)
+    position += part.length
+  }
+  return archive
+}
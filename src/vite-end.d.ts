@@ -1,3 +1,8 @@
 /// <reference types="vite/client" />
 declare const GITHUB_RUNTIME_PERMANENT_NAME: string
-declare const BASE_KV_SERVICE_URL: string
\ No newline at end of file
+declare const BASE_KV_SERVICE_URL: string
+interface ImportMetaEnv {
+  // Open Library-compatible service for ISBN lookups, e.g. a local mirror;
+  // openlibrary.org when unset
+  readonly VITE_BOOK_METADATA_URL?: string
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import { resolve } from 'path';
+
+const projectRoot = process.env.PROJECT_ROOT || import.meta.dirname;
+
+// Tests cover the src/lib modules and run in Node, without the app's
+// Spark and Tailwind plugins
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(projectRoot, 'src')
+    }
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node'
+  }
+});